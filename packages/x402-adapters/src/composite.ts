@@ -0,0 +1,81 @@
+/**
+ * CompositeVerifier — routes each proof to the verifier for its network.
+ *
+ * Register one verifier per network, or per `network:scheme` pair when a
+ * network supports several schemes:
+ *
+ *   new CompositeVerifier({
+ *     mock: new MockVerifier(),
+ *     'solana-devnet': new SolanaUSDCVerifier({ … }),
+ *     'base:exact': baseExactVerifier,
+ *   });
+ *
+ * The network comes from the route's PricingConfig (for multi-option routes
+ * the middleware passes the option that was paid), falling back to the
+ * proof's own `network` field, then "mock". The scheme defaults to "exact".
+ * A `network:scheme` entry wins over a plain `network` entry. A network
+ * with no registered verifier fails verification as `unsupported_network`.
+ */
+
+import { fail } from './verification.js';
+import type { VerificationResult } from './verification.js';
+
+// Structural types (mirroring x402-tool-server types without importing them)
+interface PricingConfig {
+  price: string;
+  asset: string;
+  recipient: string;
+  network?: string;
+  scheme?: string;
+}
+
+interface VerifierInterface {
+  verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<VerificationResult>;
+}
+
+/** Registered verifiers may still resolve a bare boolean. */
+interface RegisteredVerifier {
+  verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<VerificationResult | boolean>;
+}
+
+interface PaymentProof {
+  network?: string;
+}
+
+function proofNetwork(proofHeader: string): string | undefined {
+  try {
+    const decoded = Buffer.from(proofHeader, 'base64url').toString('utf8');
+    const proof = JSON.parse(decoded) as PaymentProof | null;
+    return typeof proof?.network === 'string' ? proof.network : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class CompositeVerifier implements VerifierInterface {
+  private readonly verifiers: Map<string, RegisteredVerifier>;
+
+  /** @param verifiers map of `network` or `network:scheme` → verifier */
+  constructor(verifiers: Record<string, RegisteredVerifier>) {
+    this.verifiers = new Map(Object.entries(verifiers));
+  }
+
+  async verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<VerificationResult> {
+    const claimed = proofNetwork(proofHeader);
+    const network = pricing.network ?? claimed ?? 'mock';
+    const scheme = pricing.scheme ?? 'exact';
+
+    // A proof that says it paid on another network cannot settle this price.
+    if (claimed !== undefined && claimed !== network) {
+      return fail('wrong_network', `Proof paid on "${claimed}", expected "${network}"`);
+    }
+
+    const verifier = this.verifiers.get(`${network}:${scheme}`) ?? this.verifiers.get(network);
+    if (!verifier) {
+      return fail('unsupported_network', `No verifier for network "${network}" (scheme "${scheme}")`);
+    }
+    const result = await verifier.verify(proofHeader, requestHash, pricing);
+    if (typeof result !== 'boolean') return result;
+    return result ? { ok: true } : fail('unspecified');
+  }
+}
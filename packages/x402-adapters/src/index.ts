@@ -4,6 +4,8 @@
  * Exports:
  *   MockPayer     Deterministic HMAC-based payer (for local/offline use)
  *   MockVerifier  Validates MockPayer proofs (for local/offline use)
+ *   CompositeVerifier  Dispatches proofs to per-network (or network:scheme) verifiers
+ *   MockRefunder  Records refunds of voided payments (for local/offline use)
  *
  * Future:
  *   RealPayer     On-chain payer (TODO — see docs/DESIGN.md §real-payer)
@@ -14,3 +16,7 @@ export { MockPayer } from './mock/payer.js';
 export type { MockPayerOptions } from './mock/payer.js';
 export { MockVerifier } from './mock/verifier.js';
 export type { MockVerifierOptions } from './mock/verifier.js';
+export { MockRefunder } from './mock/refunder.js';
+export { CompositeVerifier } from './composite.js';
+export type { VerificationResult, VerificationFailureReason } from './verification.js';
+export type { Refunder, RefundResult, RefundableReceipt } from './refund.js';
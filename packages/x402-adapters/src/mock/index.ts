@@ -2,3 +2,4 @@ export { MockPayer } from './payer.js';
 export type { MockPayerOptions } from './payer.js';
 export { MockVerifier } from './verifier.js';
 export type { MockVerifierOptions } from './verifier.js';
+export { MockRefunder } from './refunder.js';
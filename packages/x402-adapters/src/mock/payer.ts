@@ -14,6 +14,7 @@ interface X402Challenge {
   nonce: string;
   expiresAt: string;
   requestHash: string;
+  challengeToken?: string;
   price?: string;
   asset?: string;
 }
@@ -31,6 +32,7 @@ interface PaymentProof {
   timestamp: string;
   expiresAt: string;
   signature: string;
+  challengeToken?: string;
 }
 
 interface PayerInterface {
@@ -65,7 +67,7 @@ export class MockPayer implements PayerInterface {
   }
 
   async pay(challenge: X402Challenge, _context: RequestContext): Promise<PaymentProof> {
-    const { nonce, requestHash, expiresAt, version } = challenge;
+    const { nonce, requestHash, expiresAt, version, challengeToken } = challenge;
 
     // Deterministic signature: HMAC-SHA256(secret, nonce|requestHash)
     const signature = createHmac('sha256', this.secret)
@@ -80,6 +82,7 @@ export class MockPayer implements PayerInterface {
       timestamp: new Date().toISOString(),
       expiresAt,
       signature,
+      ...(challengeToken ? { challengeToken } : {}),
     };
   }
 }
@@ -0,0 +1,22 @@
+/**
+ * MockRefunder — records refunds instead of moving funds.
+ *
+ * Every refund succeeds with txRef `mock-refund:<nonce>`; the receipts it
+ * was asked to refund are kept in `refunds` for assertions (with `amount`
+ * set to the amount asked for, on partial refunds).
+ */
+import type { RefundableReceipt, Refunder, RefundResult } from '../refund.js';
+
+/**
+ * MockRefunder — use in tests and local demos.
+ *
+ * Satisfies the `Refunder` interface from x402-tool-server via structural typing.
+ */
+export class MockRefunder implements Refunder {
+  readonly refunds: RefundableReceipt[] = [];
+
+  async refund(receipt: RefundableReceipt, amount?: string): Promise<RefundResult> {
+    this.refunds.push(amount === undefined ? receipt : { ...receipt, amount });
+    return { ok: true, txRef: `mock-refund:${receipt.nonce}` };
+  }
+}
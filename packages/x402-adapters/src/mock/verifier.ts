@@ -1,14 +1,16 @@
 /**
  * MockVerifier — validates proofs created by MockPayer.
  *
- * Checks:
- *   1. proof.requestHash matches the server-recomputed requestHash
- *   2. proof.expiresAt is in the future (not expired)
- *   3. HMAC-SHA256(secret, `${nonce}|${requestHash}`) matches proof.signature
+ * Checks (failure reason in brackets):
+ *   1. proof.requestHash matches the server-recomputed requestHash  [hash_mismatch]
+ *   2. proof.expiresAt is in the future (not expired)                [expired]
+ *   3. HMAC-SHA256(secret, `${nonce}|${requestHash}`) matches proof.signature  [bad_signature]
  *
  * The secret must match the one used by MockPayer.
  */
 import { createHmac, timingSafeEqual } from 'crypto';
+import { fail } from '../verification.js';
+import type { VerificationResult } from '../verification.js';
 
 // Structural types (mirroring x402-tool-server types without importing them)
 interface PricingConfig {
@@ -19,7 +21,7 @@ interface PricingConfig {
 }
 
 interface VerifierInterface {
-  verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<boolean>;
+  verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<VerificationResult>;
 }
 
 interface PaymentProof {
@@ -55,8 +57,8 @@ export class MockVerifier implements VerifierInterface {
   async verify(
     proofHeader: string,
     requestHash: string,
-    _pricing: PricingConfig,
-  ): Promise<boolean> {
+    pricing: PricingConfig,
+  ): Promise<VerificationResult> {
     let proof: PaymentProof;
 
     // Decode base64url JSON proof.
@@ -64,15 +66,15 @@ export class MockVerifier implements VerifierInterface {
       const decoded = Buffer.from(proofHeader, 'base64url').toString('utf8');
       proof = JSON.parse(decoded) as PaymentProof;
     } catch {
-      return false;
+      return fail('malformed_proof');
     }
 
     // 1. requestHash must match what the server computed.
-    if (proof.requestHash !== requestHash) return false;
+    if (proof.requestHash !== requestHash) return fail('hash_mismatch');
 
     // 2. Must not be expired.
     const expiry = new Date(proof.expiresAt);
-    if (isNaN(expiry.getTime()) || expiry <= new Date()) return false;
+    if (isNaN(expiry.getTime()) || expiry <= new Date()) return fail('expired');
 
     // 3. Verify HMAC signature (constant-time comparison to prevent timing attacks).
     const expected = createHmac('sha256', this.secret)
@@ -82,8 +84,11 @@ export class MockVerifier implements VerifierInterface {
     const expectedBuf = Buffer.from(expected);
     const actualBuf = Buffer.from(proof.signature ?? '');
 
-    if (expectedBuf.length !== actualBuf.length) return false;
+    if (expectedBuf.length !== actualBuf.length || !timingSafeEqual(expectedBuf, actualBuf)) {
+      return fail('bad_signature');
+    }
 
-    return timingSafeEqual(expectedBuf, actualBuf);
+    // Mock payments always settle exactly the quoted price.
+    return { ok: true, payer: proof.payer, settledAmount: pricing.price };
   }
 }
@@ -0,0 +1,27 @@
+/**
+ * Structural refund types (mirroring x402-tool-server without importing them).
+ * Shared by every refunder in this package.
+ */
+
+/** The receipt fields a refunder needs. */
+export interface RefundableReceipt {
+  nonce: string;
+  payer: string;
+  amount: string;
+  asset: string;
+  network: string;
+  recipient: string;
+  settledAmount?: string;
+  txRef?: string;
+}
+
+export interface RefundResult {
+  ok: boolean;
+  txRef?: string;
+  message?: string;
+}
+
+export interface Refunder {
+  /** Send `amount` (default: the whole payment) back to the receipt's payer. */
+  refund(receipt: RefundableReceipt, amount?: string): Promise<RefundResult>;
+}
@@ -2,6 +2,8 @@ export { SolanaUSDCPayer } from './payer.js';
 export type { SolanaUSDCPayerOptions } from './payer.js';
 export { SolanaUSDCVerifier } from './verifier.js';
 export type { SolanaUSDCVerifierOptions } from './verifier.js';
+export { SolanaUSDCRefunder } from './refunder.js';
+export type { SolanaUSDCRefunderOptions } from './refunder.js';
 export {
   USDC_DEVNET_MINT,
   USDC_MAINNET_MINT,
@@ -24,6 +24,7 @@ interface X402Challenge {
   nonce: string;
   expiresAt: string;
   requestHash: string;
+  challengeToken?: string;
   price: string;
   recipient: string;
 }
@@ -41,6 +42,7 @@ interface PaymentProof {
   timestamp: string;
   expiresAt: string;
   signature: string;
+  challengeToken?: string;
 }
 
 interface PayerInterface {
@@ -58,7 +60,7 @@ export interface SolanaUSDCPayerOptions {
   mintAddress?: PublicKey | string;
 }
 
-function loadKeypair(privateKey: string): Keypair {
+export function loadKeypair(privateKey: string): Keypair {
   // Auto-detect: JSON array (Phantom / solana-keygen export) or base58 string
   const trimmed = privateKey.trim();
   if (trimmed.startsWith('[')) {
@@ -95,7 +97,7 @@ export class SolanaUSDCPayer implements PayerInterface {
   }
 
   async pay(challenge: X402Challenge, _context: RequestContext): Promise<PaymentProof> {
-    const { nonce, requestHash, expiresAt, version, price, recipient } = challenge;
+    const { nonce, requestHash, expiresAt, version, price, recipient, challengeToken } = challenge;
     const amount = priceToMicroUnits(price);
     const recipientPubkey = new PublicKey(recipient);
 
@@ -139,6 +141,7 @@ export class SolanaUSDCPayer implements PayerInterface {
       timestamp: new Date().toISOString(),
       expiresAt,
       signature: txSignature,
+      ...(challengeToken ? { challengeToken } : {}),
     };
   }
 }
@@ -0,0 +1,112 @@
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  getAccount,
+  createTransferCheckedInstruction,
+} from '@solana/spl-token';
+import { createMemoInstruction } from '@solana/spl-memo';
+import {
+  USDC_DEVNET_MINT,
+  USDC_DECIMALS,
+  DEFAULT_RPC_URL,
+  DEFAULT_COMMITMENT,
+} from './constants.js';
+import { loadKeypair } from './payer.js';
+import type { RefundableReceipt, Refunder, RefundResult } from '../refund.js';
+
+export interface SolanaUSDCRefunderOptions {
+  /** Private key of the wallet that received the payments (base58 or JSON array) */
+  privateKey: string;
+  rpcUrl?: string;
+  commitment?: 'confirmed' | 'finalized';
+  /**
+   * USDC mint address. Defaults to USDC devnet mint.
+   * Pass USDC_MAINNET_MINT (or the mint address string) for mainnet.
+   */
+  mintAddress?: PublicKey | string;
+}
+
+function priceToMicroUnits(price: string): bigint {
+  const [intPart, fracPart = ''] = price.split('.');
+  const frac = fracPart.padEnd(USDC_DECIMALS, '0').slice(0, USDC_DECIMALS);
+  return BigInt(intPart) * BigInt(10 ** USDC_DECIMALS) + BigInt(frac);
+}
+
+/**
+ * SolanaUSDCRefunder — sends a voided payment back to its payer.
+ *
+ * Transfers the settled amount (or the quoted amount when the verifier
+ * reported none) from the recipient wallet's USDC account to the payer's,
+ * with memo `refund|<nonce>`. Partial refunds (the unused remainder of a
+ * metered route) transfer just the amount asked for. Only refunds receipts
+ * paid to its own wallet.
+ */
+export class SolanaUSDCRefunder implements Refunder {
+  private readonly keypair: Keypair;
+  private readonly connection: Connection;
+  private readonly commitment: 'confirmed' | 'finalized';
+  private readonly mint: PublicKey;
+
+  constructor(options: SolanaUSDCRefunderOptions) {
+    this.keypair = loadKeypair(options.privateKey);
+    this.connection = new Connection(options.rpcUrl ?? DEFAULT_RPC_URL, options.commitment ?? DEFAULT_COMMITMENT);
+    this.commitment = options.commitment ?? DEFAULT_COMMITMENT;
+    this.mint = options.mintAddress instanceof PublicKey
+      ? options.mintAddress
+      : new PublicKey(options.mintAddress ?? USDC_DEVNET_MINT);
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async refund(receipt: RefundableReceipt, amount?: string): Promise<RefundResult> {
+    if (receipt.recipient !== this.keypair.publicKey.toBase58()) {
+      return { ok: false, message: `Receipt was paid to ${receipt.recipient}, not this refunder's wallet` };
+    }
+
+    let payer: PublicKey;
+    try {
+      payer = new PublicKey(receipt.payer);
+    } catch {
+      return { ok: false, message: `Invalid payer address ${receipt.payer}` };
+    }
+
+    const microUnits = priceToMicroUnits(amount ?? receipt.settledAmount ?? receipt.amount);
+    const fromATA = getAssociatedTokenAddressSync(this.mint, this.keypair.publicKey);
+    const toATA = getAssociatedTokenAddressSync(this.mint, payer);
+
+    try {
+      await getAccount(this.connection, toATA);
+    } catch {
+      return { ok: false, message: `Payer ${receipt.payer} has no USDC token account` };
+    }
+
+    const tx = new Transaction().add(
+      createTransferCheckedInstruction(
+        fromATA,
+        this.mint,
+        toATA,
+        this.keypair.publicKey,
+        microUnits,
+        USDC_DECIMALS,
+      ),
+      createMemoInstruction(`refund|${receipt.nonce}`),
+    );
+
+    try {
+      const txSignature = await sendAndConfirmTransaction(this.connection, tx, [this.keypair], {
+        commitment: this.commitment,
+      });
+      return { ok: true, txRef: txSignature };
+    } catch (err) {
+      return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  }
+}
@@ -8,6 +8,8 @@ import {
   MEMO_PROGRAM_ID,
   SPL_TOKEN_PROGRAM_ID,
 } from './constants.js';
+import { fail } from '../verification.js';
+import type { VerificationFailureReason, VerificationResult } from '../verification.js';
 
 interface PricingConfig {
   price: string;
@@ -17,7 +19,7 @@ interface PricingConfig {
 }
 
 interface VerifierInterface {
-  verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<boolean>;
+  verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<VerificationResult>;
 }
 
 interface PaymentProof {
@@ -67,6 +69,20 @@ function priceToMicroUnits(price: string): bigint {
   return BigInt(intPart) * BigInt(10 ** USDC_DECIMALS) + BigInt(frac);
 }
 
+function microUnitsToPrice(amount: bigint): string {
+  const scale = BigInt(10 ** USDC_DECIMALS);
+  const frac = (amount % scale).toString().padStart(USDC_DECIMALS, '0').replace(/0+$/, '');
+  return frac ? `${amount / scale}.${frac}` : `${amount / scale}`;
+}
+
+// When no transfer qualifies, report the one that came closest.
+const TRANSFER_FAILURE_RANK: Partial<Record<VerificationFailureReason, number>> = {
+  missing_transfer: 0,
+  wrong_asset: 1,
+  wrong_recipient: 2,
+  amount_too_low: 3,
+};
+
 function isTransferCheckedParsed(parsed: unknown): parsed is ParsedTransferChecked {
   if (typeof parsed !== 'object' || parsed === null) return false;
   const p = parsed as Record<string, unknown>;
@@ -102,20 +118,20 @@ export class SolanaUSDCVerifier implements VerifierInterface {
     this.maxAgeSeconds = options.maxAgeSeconds ?? 600;
   }
 
-  async verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<boolean> {
+  async verify(proofHeader: string, requestHash: string, pricing: PricingConfig): Promise<VerificationResult> {
     let proof: PaymentProof;
     try {
       const decoded = Buffer.from(proofHeader, 'base64url').toString('utf8');
       proof = JSON.parse(decoded) as PaymentProof;
     } catch {
-      return false;
+      return fail('malformed_proof');
     }
 
     // Basic sanity checks
-    if (proof.requestHash !== requestHash) return false;
+    if (proof.requestHash !== requestHash) return fail('hash_mismatch');
     const expiry = new Date(proof.expiresAt);
-    if (isNaN(expiry.getTime()) || expiry <= new Date()) return false;
-    if (proof.version !== 1) return false;
+    if (isNaN(expiry.getTime()) || expiry <= new Date()) return fail('expired');
+    if (proof.version !== 1) return fail('unsupported_version');
 
     // Fetch the on-chain transaction
     let tx: Awaited<ReturnType<Connection['getParsedTransaction']>>;
@@ -124,11 +140,11 @@ export class SolanaUSDCVerifier implements VerifierInterface {
         commitment: this.commitment,
         maxSupportedTransactionVersion: 0,
       });
-    } catch {
-      return false;
+    } catch (err) {
+      return fail('rpc_error', err instanceof Error ? err.message : undefined);
     }
 
-    if (!tx) return false;
+    if (!tx) return fail('tx_not_found', `Transaction ${proof.signature} not found`);
 
     const instructions = tx.transaction.message.instructions;
     const expectedAmount = priceToMicroUnits(pricing.price);
@@ -138,24 +154,33 @@ export class SolanaUSDCVerifier implements VerifierInterface {
     try {
       expectedRecipientATA = getAssociatedTokenAddressSync(this.mint, new PublicKey(pricing.recipient));
     } catch {
-      return false;
+      return fail('wrong_recipient', `Invalid recipient address ${pricing.recipient}`);
     }
 
-    let transferOk = false;
+    let transfer: ParsedTransferChecked['info'] | undefined;
+    let transferFailure: VerificationFailureReason = 'missing_transfer';
     let memoOk = false;
 
+    const noteFailure = (reason: VerificationFailureReason) => {
+      if ((TRANSFER_FAILURE_RANK[reason] ?? 0) > (TRANSFER_FAILURE_RANK[transferFailure] ?? 0)) {
+        transferFailure = reason;
+      }
+    };
+
     for (const ix of instructions) {
       // Check for SPL token transferChecked
       if (ix.programId.equals(SPL_TOKEN_PROGRAM_ID) && 'parsed' in ix) {
         const parsed: unknown = ix.parsed;
         if (isTransferCheckedParsed(parsed)) {
           const { mint, destination, tokenAmount } = parsed.info;
-          if (
-            mint === this.mint.toBase58() &&
-            destination === expectedRecipientATA.toBase58() &&
-            BigInt(tokenAmount.amount) >= expectedAmount - this.amountTolerance
-          ) {
-            transferOk = true;
+          if (mint !== this.mint.toBase58()) {
+            noteFailure('wrong_asset');
+          } else if (destination !== expectedRecipientATA.toBase58()) {
+            noteFailure('wrong_recipient');
+          } else if (BigInt(tokenAmount.amount) < expectedAmount - this.amountTolerance) {
+            noteFailure('amount_too_low');
+          } else {
+            transfer = parsed.info;
           }
         }
       }
@@ -169,17 +194,25 @@ export class SolanaUSDCVerifier implements VerifierInterface {
       }
     }
 
-    if (!transferOk || !memoOk) return false;
+    if (!transfer) return fail(transferFailure);
+    if (!memoOk) return fail('memo_mismatch');
 
     // Check tx blockTime is within the challenge window and not stale
     const blockTime = tx.blockTime;
-    if (blockTime === null || blockTime === undefined) return false;
+    if (blockTime === null || blockTime === undefined) {
+      return fail('tx_not_found', 'Transaction has no block time yet');
+    }
 
     const expiresAtSec = expiry.getTime() / 1000;
-    if (blockTime > expiresAtSec) return false;
+    if (blockTime > expiresAtSec) return fail('expired', 'Transaction landed after the challenge expired');
 
-    if (blockTime < Date.now() / 1000 - this.maxAgeSeconds) return false;
+    if (blockTime < Date.now() / 1000 - this.maxAgeSeconds) return fail('stale_transaction');
 
-    return true;
+    return {
+      ok: true,
+      payer: transfer.authority,
+      settledAmount: microUnitsToPrice(BigInt(transfer.tokenAmount.amount)),
+      txRef: proof.signature,
+    };
   }
 }
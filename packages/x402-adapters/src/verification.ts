@@ -0,0 +1,35 @@
+/**
+ * Structural VerificationResult (mirroring x402-tool-server without importing it).
+ * Shared by every verifier in this package.
+ */
+
+export type VerificationFailureReason =
+  | 'malformed_proof'
+  | 'unsupported_version'
+  | 'hash_mismatch'
+  | 'expired'
+  | 'bad_signature'
+  | 'tx_not_found'
+  | 'missing_transfer'
+  | 'wrong_asset'
+  | 'wrong_recipient'
+  | 'amount_too_low'
+  | 'memo_mismatch'
+  | 'stale_transaction'
+  | 'wrong_network'
+  | 'unsupported_network'
+  | 'rpc_error'
+  | 'unspecified';
+
+export interface VerificationResult {
+  ok: boolean;
+  reason?: VerificationFailureReason;
+  message?: string;
+  payer?: string;
+  settledAmount?: string;
+  txRef?: string;
+}
+
+export function fail(reason: VerificationFailureReason, message?: string): VerificationResult {
+  return message ? { ok: false, reason, message } : { ok: false, reason };
+}
@@ -42,7 +42,7 @@ function subtractDecimal(a: string, b: string): string {
   return bigintToDecimal(result, scale);
 }
 
-function compareDecimal(a: string, b: string): number {
+export function compareDecimal(a: string, b: string): number {
   const [aVal, bVal] = alignScale(a, b);
   if (aVal < bVal) return -1;
   if (aVal > bVal) return 1;
@@ -1,4 +1,4 @@
-import type { X402Challenge, PaymentProof } from './types.js';
+import type { ChallengeOption, X402Challenge, PaymentProof, PaymentSettlement } from './types.js';
 
 export interface CoinbasePaymentRequired {
   x402Version: number;
@@ -16,6 +16,14 @@ export interface CoinbasePaymentRequired {
   extensions?: Record<string, string>;
 }
 
+export interface CoinbaseSettlementResponse {
+  success: boolean;
+  errorReason?: string;
+  transaction: string;
+  network: string;
+  payer?: string;
+}
+
 const CAIP2_TO_NETWORK: Record<string, string> = {
   'eip155:8453': 'base',
   'eip155:84532': 'base-sepolia',
@@ -89,6 +97,18 @@ export function detectChallengeFormat(
   return 'unknown';
 }
 
+function requirementsToChallengeOption(
+  req: CoinbasePaymentRequired['accepts'][number],
+): ChallengeOption {
+  return {
+    scheme: req.scheme,
+    price: atomicUnitsToHumanDecimal(req.amount, 6),
+    asset: REVERSE_ASSET_MAP[req.network]?.[req.asset] ?? req.asset,
+    network: CAIP2_TO_NETWORK[req.network] ?? req.network,
+    recipient: req.payTo,
+  };
+}
+
 export function parseCoinbasePaymentRequired(
   headerValue: string,
 ): X402Challenge | null {
@@ -98,22 +118,18 @@ export function parseCoinbasePaymentRequired(
     if (!pr.accepts || pr.accepts.length === 0) return null;
 
     const req = pr.accepts[0];
-    const network = CAIP2_TO_NETWORK[req.network] ?? req.network;
-    const asset = REVERSE_ASSET_MAP[req.network]?.[req.asset] ?? req.asset;
-    const price = atomicUnitsToHumanDecimal(req.amount, 6);
-    const expiresAt = new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString();
+    const expiresAt = req.extra['expiresAt']
+    ?? new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString();
 
     return {
       version: 1,
-      scheme: req.scheme,
-      price,
-      asset,
-      network,
-      recipient: req.payTo,
+      ...requirementsToChallengeOption(req),
       nonce: req.extra['nonce'] ?? '',
       expiresAt,
       requestHash: req.extra['requestHash'] ?? '',
       description: pr.resource.description,
+      ...(pr.accepts.length > 1 ? { accepts: pr.accepts.map(requirementsToChallengeOption) } : {}),
+      ...(req.extra['challengeToken'] ? { challengeToken: req.extra['challengeToken'] } : {}),
     };
   } catch {
     return null;
@@ -134,6 +150,8 @@ export function encodeCoinbasePaymentSignature(
   const extra: Record<string, string> = {};
   if (challenge.nonce) extra['nonce'] = challenge.nonce;
   if (challenge.requestHash) extra['requestHash'] = challenge.requestHash;
+  if (challenge.expiresAt) extra['expiresAt'] = challenge.expiresAt;
+  if (challenge.challengeToken) extra['challengeToken'] = challenge.challengeToken;
 
   const payload = {
     x402Version: 1,
@@ -153,8 +171,29 @@ export function encodeCoinbasePaymentSignature(
       payer: proof.payer,
       timestamp: proof.timestamp,
       expiresAt: proof.expiresAt,
+      ...(proof.challengeToken ? { challengeToken: proof.challengeToken } : {}),
     },
   };
 
   return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64');
 }
+
+export function parseCoinbaseSettlementResponse(
+  headerValue: string,
+): PaymentSettlement | null {
+  try {
+    const decoded = Buffer.from(headerValue, 'base64').toString('utf8');
+    const sr = JSON.parse(decoded) as CoinbaseSettlementResponse;
+    if (typeof sr.success !== 'boolean' || typeof sr.network !== 'string') return null;
+    return {
+      success: sr.success,
+      format: 'coinbase',
+      network: CAIP2_TO_NETWORK[sr.network] ?? sr.network,
+      ...(sr.payer ? { payer: sr.payer } : {}),
+      ...(sr.transaction ? { txRef: sr.transaction } : {}),
+      ...(sr.errorReason ? { errorReason: sr.errorReason } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -4,11 +4,15 @@ import type {
   PaymentProof,
   X402FetchOptions,
   RequestContext,
+  PaymentSettlement,
 } from './types.js';
 import {
   parseCoinbasePaymentRequired,
+  parseCoinbaseSettlementResponse,
   encodeCoinbasePaymentSignature,
 } from './compat.js';
+import { BudgetExceededError } from './budget.js';
+import type { SessionInfo } from './session.js';
 
 function encodeProof(proof: PaymentProof): string {
   return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
@@ -39,6 +43,76 @@ async function parseChallengeFromResponse(
   }
 }
 
+/**
+ * Read the server's settlement of a paid response: `X-Payment-Response`
+ * (toolkit, base64url JSON) or `PAYMENT-RESPONSE` (Coinbase, base64 JSON).
+ * Returns undefined when the response carries neither, e.g. calls paid
+ * from a session or with a pass.
+ */
+export function readPaymentResponse(response: Response): PaymentSettlement | undefined {
+  const toolkit = response.headers.get('x-payment-response');
+  if (toolkit) {
+    try {
+      const body = JSON.parse(Buffer.from(toolkit, 'base64url').toString('utf8')) as Partial<PaymentSettlement>;
+      if (typeof body.success === 'boolean' && typeof body.network === 'string') {
+        return {
+          success: body.success,
+          format: 'toolkit',
+          network: body.network,
+          ...(body.payer ? { payer: body.payer } : {}),
+          ...(body.txRef ? { txRef: body.txRef } : {}),
+          ...(body.nonce ? { nonce: body.nonce } : {}),
+          ...(body.amount ? { amount: body.amount } : {}),
+          ...(body.asset ? { asset: body.asset } : {}),
+        };
+      }
+    } catch {
+      // Malformed — fall through to the Coinbase header.
+    }
+  }
+  const coinbase = response.headers.get('payment-response');
+  return (coinbase && parseCoinbaseSettlementResponse(coinbase)) || undefined;
+}
+
+function withBearer(init: RequestInit, token: string): RequestInit {
+  return { ...init, headers: { ...init.headers, authorization: `Bearer ${token}` } };
+}
+
+/**
+ * Buy credit at a session endpoint, topping up `token`'s session when given.
+ * Resolves undefined when the purchase did not go through (including when
+ * the budget cannot cover it), so the caller can pay per call instead.
+ */
+async function buySession(
+  endpoint: URL,
+  token: string | undefined,
+  x402Options: X402FetchOptions,
+): Promise<SessionInfo | undefined> {
+  let response: Response;
+  try {
+    response = await x402Fetch(
+      endpoint,
+      token ? withBearer({ method: 'POST' }, token) : { method: 'POST' },
+      { ...x402Options, sessions: undefined },
+    );
+  } catch (err) {
+    if (err instanceof BudgetExceededError) return undefined;
+    throw err;
+  }
+  if (!response.ok) return undefined;
+
+  const body = await response.json() as { session?: Partial<SessionInfo> };
+  const { session } = body;
+  if (!session?.token || !session.balance || !session.expiresAt) return undefined;
+  return {
+    token: session.token,
+    balance: session.balance,
+    expiresAt: session.expiresAt,
+    asset: session.asset,
+    network: session.network,
+  };
+}
+
 export async function x402Fetch(
   url: string | URL,
   init: RequestInit = {},
@@ -50,7 +124,30 @@ export async function x402Fetch(
 
   const context: RequestContext = { url: urlStr, method };
 
-  let response = await fetch(url, init);
+  // Requests carrying their own credentials never use a session.
+  const sessions = new Headers(init.headers).has('authorization') ? undefined : x402Options.sessions;
+  const origin = new URL(urlStr).origin;
+  const session = sessions?.get(origin);
+
+  let response = await fetch(url, session ? withBearer(init, session.token) : init);
+
+  // ── Prepaid session: open or top up, then retry with the token ────────
+  if (sessions) {
+    sessions.update(origin, response);
+    const endpoint = response.status === 402 ? response.headers.get('x-402-session-endpoint') : null;
+    const sessionError = response.headers.get('x-402-session-error');
+    // A session that cannot pay this route is left alone; pay per call.
+    if (endpoint && sessionError !== 'unsupported_route') {
+      if (sessionError === 'unknown_session') sessions.delete(origin);
+      const topUp = sessionError === 'insufficient_balance' ? session?.token : undefined;
+      const bought = await buySession(new URL(endpoint, urlStr), topUp, x402Options);
+      if (bought) {
+        sessions.set(origin, bought);
+        response = await fetch(url, withBearer(init, bought.token));
+        sessions.update(origin, response);
+      }
+    }
+  }
 
   for (let attempt = 0; attempt < maxRetries && response.status === 402; attempt++) {
     const parsed = await parseChallengeFromResponse(response);
@@ -59,8 +156,13 @@ export async function x402Fetch(
       break;
     }
 
-    const { challenge, format: challengeFormat } = parsed;
-    const { budget } = x402Options;
+    const { format: challengeFormat } = parsed;
+    const { budget, selectOption } = x402Options;
+
+    // Multi-option challenges: pay the chosen option as if it were the only one.
+    let challenge = parsed.challenge;
+    const chosen = challenge.accepts && selectOption?.(challenge.accepts);
+    if (chosen) challenge = { ...challenge, ...chosen };
 
     if (budget) {
       budget.reserve(challenge.price);
@@ -74,6 +176,14 @@ export async function x402Fetch(
       throw err;
     }
 
+    // Signed challenges must be echoed back, whether or not the payer knows about them.
+    if (challenge.challengeToken && !proof.challengeToken) {
+      proof = { ...proof, challengeToken: challenge.challengeToken };
+    }
+    if (challenge.accepts && !proof.network) {
+      proof = { ...proof, network: challenge.network, asset: challenge.asset };
+    }
+
     const headerName = challengeFormat === 'coinbase' ? 'payment-signature' : 'x-payment-proof';
     const headerValue = challengeFormat === 'coinbase'
       ? encodeCoinbasePaymentSignature(proof, challenge)
@@ -88,6 +198,10 @@ export async function x402Fetch(
     };
 
     response = await fetch(url, retryInit);
+
+    const { onPaymentResponse } = x402Options;
+    const settlement = onPaymentResponse && readPaymentResponse(response);
+    if (settlement) onPaymentResponse(settlement, response);
   }
 
   return response;
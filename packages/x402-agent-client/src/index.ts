@@ -3,22 +3,46 @@
  *
  * Exports:
  *   x402Fetch      Drop-in fetch wrapper that handles 402 → pay → retry
+ *   readPaymentResponse Settlement of a paid response (X-Payment-Response / PAYMENT-RESPONSE)
  *   createTool     Agent-friendly tool factory backed by a priced endpoint
+ *   SessionManager Prepaid session tokens per origin, used by x402Fetch
+ *   reconcileMeteredCharge Read the settled charge of a metered response
+ *   quote          A priced route's price, without triggering a 402 challenge
+ *   fetchX402Manifest A server's discovery manifest (/.well-known/x402.json)
+ *   createToolsFromManifest One tool per priced route of a discovery manifest
+ *   createToolsFromOpenApi One tool per operation of an OpenAPI 3.0 / 3.1 spec
+ *   verifyReceipt  Check a signed X-Payment-Receipt against the server's JWKS
  *
  *   PayerInterface Interface that payer implementations must satisfy
  *   RequestContext Context object passed to payer.pay()
  *   X402Challenge  Type: 402 challenge body
+ *   ChallengeOption Type: one accepted payment option (X402Challenge.accepts)
+ *   MeteredTerms   Type: per-unit pricing of a metered route (X402Challenge.metered)
  *   PaymentProof   Type: proof sent to server
+ *   PaymentSettlement Type: server's settlement of a paid request
  *   X402FetchOptions Options for x402Fetch
  *   ToolConfig     Options for createTool
+ *   ToolPrice      Type: advertised price of a tool's endpoint (tool.price)
  *   Tool           Type: tool object returned by createTool
  *   ToolInvokeResult Type: result of tool.invoke()
  */
 
-export { x402Fetch } from './fetch.js';
+export { x402Fetch, readPaymentResponse } from './fetch.js';
 export { createTool } from './tool.js';
 export type { Tool } from './tool.js';
 export { BudgetTracker, BudgetExceededError } from './budget.js';
+export { SessionManager } from './session.js';
+export type { SessionInfo } from './session.js';
+export { reconcileMeteredCharge } from './metered.js';
+export type { MeteredCharge, ReconcileOptions } from './metered.js';
+export { quote } from './quote.js';
+export type { PriceQuote } from './quote.js';
+export { fetchX402Manifest, createToolsFromManifest } from './manifest.js';
+export type { X402Manifest, ManifestRoute, ManifestToolOptions } from './manifest.js';
+export { createToolsFromOpenApi } from './openapi.js';
+export type { OpenApiDocument, OpenApiToolOptions } from './openapi.js';
+export { verifyReceipt } from './receipt.js';
+export type { PaymentReceipt, ReceiptJwk, ReceiptKeySet } from './receipt.js';
 export type { BudgetTrackerOptions } from './budget.js';
 
 export type {
@@ -26,9 +50,13 @@ export type {
   RequestContext,
   X402Challenge,
   X402ChallengeBody,
+  ChallengeOption,
+  MeteredTerms,
   PaymentProof,
+  PaymentSettlement,
   X402FetchOptions,
   ToolConfig,
+  ToolPrice,
   ToolInvokeResult,
   JsonSchema,
 } from './types.js';
@@ -45,6 +73,7 @@ export type { ParsedToolCall } from './openai.js';
 export {
   detectChallengeFormat,
   parseCoinbasePaymentRequired,
+  parseCoinbaseSettlementResponse,
   encodeCoinbasePaymentSignature,
 } from './compat.js';
-export type { CoinbasePaymentRequired } from './compat.js';
+export type { CoinbasePaymentRequired, CoinbaseSettlementResponse } from './compat.js';
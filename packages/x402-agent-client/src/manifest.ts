@@ -0,0 +1,141 @@
+/**
+ * Discovery manifest — build tools from a server's /.well-known/x402.json.
+ *
+ * Servers running `manifestPlugin` list every priced route with its price,
+ * input schema and description. One fetch is enough to give an agent all
+ * of them as tools:
+ *
+ *   const manifest = await fetchX402Manifest('https://api.example.com');
+ *   const tools = createToolsFromManifest(manifest, { fetchOptions: { payer } });
+ *
+ * Path parameters (`/tools/:name`) become required input fields filled into
+ * the URL. Wildcard routes (`/files/*`) are skipped; wrap them with
+ * `createTool` by hand.
+ */
+import { createTool } from './tool.js';
+import type { Tool } from './tool.js';
+import type { ChallengeOption, JsonSchema, MeteredTerms, ToolConfig, X402FetchOptions } from './types.js';
+
+export const MANIFEST_PATH = '/.well-known/x402.json';
+
+/** One priced route as listed in the manifest. */
+export interface ManifestRoute {
+  /** Tool-style name derived from method and path, e.g. "post_tools_search" */
+  name: string;
+  method: string;
+  /** Route pattern, e.g. "/weather" or "/tools/:name" */
+  path: string;
+  description?: string;
+  /** Accepted payment options; absent when the price is resolved per request */
+  accepts?: ChallengeOption[];
+  /** True when the price is resolved per request (use `quote()`) */
+  dynamicPrice?: boolean;
+  metered?: MeteredTerms;
+  input?: {
+    body?: JsonSchema;
+    querystring?: JsonSchema;
+    params?: JsonSchema;
+  };
+}
+
+export interface X402Manifest {
+  x402Version: number;
+  name: string;
+  description?: string;
+  version?: string;
+  /** Base URL route paths are relative to */
+  baseUrl?: string;
+  wireFormats: string[];
+  capabilities: Record<string, boolean>;
+  endpoints: Record<string, string | undefined>;
+  routes: ManifestRoute[];
+}
+
+export interface ManifestToolOptions {
+  /** x402Fetch options (payer, budget, …) shared by every tool */
+  fetchOptions: X402FetchOptions;
+  /** Base URL of the endpoints (default: the manifest's baseUrl) */
+  baseUrl?: string;
+}
+
+const TOOL_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
+/** A Fastify path parameter, with its optional regex constraint: `:id(^\\d+)` */
+const PATH_PARAM = /:([A-Za-z0-9_]+)(\([^)]*\))?/g;
+
+/**
+ * Merge a route's params, querystring and (except for GET / DELETE) body
+ * schemas into one input schema. Returns the querystring fields too, so
+ * body-carrying tools still send them in the URL.
+ */
+function buildInput(route: ManifestRoute, method: string): { inputSchema: JsonSchema; queryParams: string[] } {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  // Every path parameter is required, whether or not the route has a params schema.
+  const pathParams = [...route.path.matchAll(PATH_PARAM)].map(([, name]) => name);
+  for (const name of pathParams) {
+    properties[name] = route.input?.params?.properties?.[name] ?? { type: 'string' };
+    required.push(name);
+  }
+
+  const query = route.input?.querystring;
+  const sources = method === 'GET' || method === 'DELETE' ? [query] : [query, route.input?.body];
+  for (const schema of sources) {
+    if (!schema?.properties) continue;
+    Object.assign(properties, schema.properties);
+    required.push(...(schema.required ?? []).filter((name) => !required.includes(name)));
+  }
+
+  return {
+    inputSchema: { type: 'object', properties, ...(required.length ? { required } : {}) },
+    queryParams: Object.keys(query?.properties ?? {}),
+  };
+}
+
+/**
+ * Fetch a server's discovery manifest. `baseUrl` defaults to the origin it
+ * was fetched from when the server does not set one.
+ */
+export async function fetchX402Manifest(origin: string | URL): Promise<X402Manifest> {
+  const url = new URL(MANIFEST_PATH, origin);
+  const res = await fetch(url);
+  if (!res.ok) {
+    await res.body?.cancel();
+    throw new Error(`[fetchX402Manifest] ${url.href} answered ${res.status}`);
+  }
+  const manifest = (await res.json()) as X402Manifest;
+  return { ...manifest, baseUrl: manifest.baseUrl ?? url.origin };
+}
+
+/**
+ * Create one tool per priced route of `manifest`. A tool's input holds the
+ * route's path parameters and querystring fields, plus its body fields
+ * for methods other than GET and DELETE.
+ */
+export function createToolsFromManifest(manifest: X402Manifest, options: ManifestToolOptions): Tool[] {
+  const baseUrl = options.baseUrl ?? manifest.baseUrl;
+  if (!baseUrl) {
+    throw new Error('[createToolsFromManifest] The manifest has no baseUrl; pass one in options');
+  }
+
+  const tools: Tool[] = [];
+  for (const route of manifest.routes) {
+    const method = route.method.toUpperCase();
+    if (!TOOL_METHODS.has(method) || route.path.includes('*')) continue;
+    const { inputSchema, queryParams } = buildInput(route, method);
+    const accepts = route.accepts ?? [];
+    const [primary] = accepts;
+    tools.push(createTool({
+      name: route.name,
+      description: route.description ?? `${method} ${route.path}`,
+      inputSchema,
+      endpoint: `${baseUrl.replace(/\/+$/, '')}${route.path.replace(PATH_PARAM, '{$1}')}`,
+      method: method as ToolConfig['method'],
+      queryParams,
+      ...(primary ? { price: { ...primary, ...(accepts.length > 1 ? { accepts } : {}) } } : {}),
+      ...(route.dynamicPrice ? { dynamicPrice: true } : {}),
+      fetchOptions: options.fetchOptions,
+    }));
+  }
+  return tools;
+}
@@ -0,0 +1,75 @@
+/**
+ * reconcileMeteredCharge — what a metered call actually cost.
+ *
+ * A metered route's challenge price is a maximum authorization: x402Fetch
+ * pays (and budgets) the full amount up front. Once the response has been
+ * read to the end, the server's receipt records the actual charge:
+ *
+ *   const res = await x402Fetch(url, {}, { payer, budget });
+ *   for await (const chunk of res.body!) { … }
+ *   const charge = await reconcileMeteredCharge(res, { budget });
+ *
+ * Metered responses point at their receipt with `X-402-Receipt` (servers
+ * with a receipt store only). The remainder is released from the budget
+ * once the server reports it refunded; a remainder the server kept stays
+ * spent, and calls paid from a session leave the budget alone (the session
+ * purchase was budgeted instead).
+ */
+import type { BudgetTracker } from './budget.js';
+
+export interface MeteredCharge {
+  /** Nonce of the payment (the receipt key) */
+  nonce: string;
+  /** Maximum authorized, as paid */
+  amount: string;
+  /** Units the server metered */
+  units: number;
+  /** Amount actually charged */
+  charged: string;
+  /** Unused part of the authorization */
+  remainder: string;
+  /** Reference of the refund that returned the remainder, if refunded */
+  refundTxRef?: string;
+  /** Prepaid session the call was paid from, if any */
+  sessionId?: string;
+}
+
+export interface ReconcileOptions {
+  /** Budget the payment was reserved from; refunded remainders are released */
+  budget?: BudgetTracker;
+}
+
+/**
+ * Fetch the settled receipt behind a metered response. Resolves undefined
+ * when the response is not metered, the server keeps no receipts, or the
+ * charge is not settled yet (retry once the server has finished the
+ * response). Call at most once per response that resolves a charge, so the
+ * budget is released only once.
+ */
+export async function reconcileMeteredCharge(
+  response: Response,
+  options: ReconcileOptions = {},
+): Promise<MeteredCharge | undefined> {
+  const receiptPath = response.headers.get('x-402-receipt');
+  if (!receiptPath || !response.url) return undefined;
+
+  const res = await fetch(new URL(receiptPath, response.url));
+  if (!res.ok) return undefined;
+  const receipt = await res.json() as Partial<MeteredCharge>;
+  const { nonce, amount, units, charged, remainder } = receipt;
+  if (!nonce || !amount || units === undefined || !charged || !remainder) return undefined;
+
+  const charge: MeteredCharge = {
+    nonce,
+    amount,
+    units,
+    charged,
+    remainder,
+    ...(receipt.refundTxRef ? { refundTxRef: receipt.refundTxRef } : {}),
+    ...(receipt.sessionId ? { sessionId: receipt.sessionId } : {}),
+  };
+  if (options.budget && charge.refundTxRef && !charge.sessionId) {
+    options.budget.release(charge.remainder);
+  }
+  return charge;
+}
@@ -0,0 +1,215 @@
+/**
+ * createToolsFromOpenApi — agent tools from an x402 server's OpenAPI spec.
+ *
+ * Every operation of an OpenAPI 3.0 / 3.1 document becomes a `Tool`: query
+ * and path parameters plus the JSON body's properties form its input
+ * schema, the summary (or description) its description, and the
+ * x402 extensions `openApiPlugin` emits (`x-x402`, or the flat `x-x402-*`
+ * strings of 3.0 specs) its `price`:
+ *
+ *   const tools = await createToolsFromOpenApi(
+ *     'https://api.example.com/x402/openapi.json',
+ *     { payer },
+ *     { maxPrice: '0.05' },
+ *   );
+ *
+ * Local `$ref`s (`#/components/...`) are resolved; header and cookie
+ * parameters are left to `fetchOptions`.
+ */
+import { compareDecimal } from './budget.js';
+import { createTool } from './tool.js';
+import type { Tool } from './tool.js';
+import type { ChallengeOption, JsonSchema, ToolConfig, ToolPrice, X402FetchOptions } from './types.js';
+
+/** The parts of an OpenAPI 3.0 / 3.1 document tools are built from. */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: Array<{ url: string }>;
+  paths?: Record<string, Record<string, unknown>>;
+  components?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface OpenApiToolOptions {
+  /** Base URL of the endpoints (default: the spec's first server, else the origin it was fetched from) */
+  baseUrl?: string;
+  /**
+   * Skip operations whose cheapest accepted option costs more than this
+   * (a decimal string or number), and operations priced per request.
+   */
+  maxPrice?: string | number;
+}
+
+interface OpenApiParameter {
+  name: string;
+  in: string;
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { content?: Record<string, { schema?: JsonSchema }> };
+  'x-x402'?: {
+    price?: string;
+    asset?: string;
+    network?: string;
+    recipient?: string;
+    scheme?: string;
+    dynamicPrice?: boolean;
+    accepts?: ChallengeOption[];
+  };
+  'x-x402-price'?: string;
+  'x-x402-asset'?: string;
+  'x-x402-network'?: string;
+  'x-x402-recipient'?: string;
+  'x-x402-scheme'?: string;
+  'x-x402-dynamic-price'?: boolean;
+  'x-x402-accepts'?: ChallengeOption[];
+}
+
+const TOOL_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+/** Resolve local `$ref`s in `value`, leaving cyclic references in place. */
+function dereference(doc: OpenApiDocument, value: unknown, seen: string[] = []): unknown {
+  if (Array.isArray(value)) return value.map((item) => dereference(doc, item, seen));
+  if (!value || typeof value !== 'object') return value;
+
+  const ref = (value as { $ref?: unknown }).$ref;
+  if (typeof ref === 'string' && ref.startsWith('#/') && !seen.includes(ref)) {
+    let target: unknown = doc;
+    for (const segment of ref.slice(2).split('/')) {
+      const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+      target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+    }
+    if (target !== undefined) return dereference(doc, target, [...seen, ref]);
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) out[key] = dereference(doc, item, seen);
+  return out;
+}
+
+function toolName(method: string, path: string, operationId?: string): string {
+  const raw = operationId ?? [method, ...path.split('/').filter(Boolean)].join('_');
+  return raw.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '').slice(0, 64);
+}
+
+/** The structured `x-x402` object (OpenAPI 3.1 mode), else the flat `x-x402-*` strings. */
+function readPrice(operation: OpenApiOperation): ToolPrice | undefined {
+  const x402 = operation['x-x402'];
+  const price = x402 ? x402.price : operation['x-x402-price'];
+  const asset = x402 ? x402.asset : operation['x-x402-asset'];
+  const network = x402 ? x402.network : operation['x-x402-network'];
+  const recipient = x402 ? x402.recipient : operation['x-x402-recipient'];
+  if (!price || !asset || !network || !recipient) return undefined;
+  const accepts = x402 ? x402.accepts : operation['x-x402-accepts'];
+  return {
+    price,
+    asset,
+    network,
+    recipient,
+    scheme: (x402 ? x402.scheme : operation['x-x402-scheme']) ?? 'exact',
+    ...(accepts?.length ? { accepts } : {}),
+  };
+}
+
+function withinPrice(price: ToolPrice, maxPrice: string): boolean {
+  const options = price.accepts?.length ? price.accepts : [price];
+  return options.some((option) => compareDecimal(option.price, maxPrice) <= 0);
+}
+
+function buildInput(operation: OpenApiOperation): { inputSchema: JsonSchema; queryParams: string[] } {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  const queryParams: string[] = [];
+
+  for (const param of operation.parameters ?? []) {
+    if (param.in !== 'query' && param.in !== 'path') continue;
+    properties[param.name] = {
+      ...(param.schema ?? { type: 'string' }),
+      ...(param.description ? { description: param.description } : {}),
+    };
+    if (param.required || param.in === 'path') required.push(param.name);
+    if (param.in === 'query') queryParams.push(param.name);
+  }
+
+  const body = operation.requestBody?.content?.['application/json']?.schema;
+  if (body?.properties) {
+    Object.assign(properties, body.properties);
+    required.push(...(body.required ?? []));
+  }
+
+  return {
+    inputSchema: { type: 'object', properties, ...(required.length ? { required } : {}) },
+    queryParams,
+  };
+}
+
+async function loadDocument(specOrUrl: OpenApiDocument | string | URL): Promise<[OpenApiDocument, URL?]> {
+  if (typeof specOrUrl === 'object' && !(specOrUrl instanceof URL)) return [specOrUrl];
+  const url = new URL(specOrUrl);
+  const res = await fetch(url);
+  if (!res.ok) {
+    await res.body?.cancel();
+    throw new Error(`[createToolsFromOpenApi] ${url.href} answered ${res.status}`);
+  }
+  return [(await res.json()) as OpenApiDocument, url];
+}
+
+/**
+ * Create one tool per operation of an OpenAPI document (or the URL serving
+ * it). Operations without x402 extensions become tools without a price.
+ */
+export async function createToolsFromOpenApi(
+  specOrUrl: OpenApiDocument | string | URL,
+  fetchOptions: X402FetchOptions,
+  options: OpenApiToolOptions = {},
+): Promise<Tool[]> {
+  const [doc, specUrl] = await loadDocument(specOrUrl);
+  if (typeof doc.openapi !== 'string' || !doc.openapi.startsWith('3.')) {
+    throw new Error(`[createToolsFromOpenApi] Unsupported OpenAPI version: ${String(doc.openapi)}`);
+  }
+
+  const server = doc.servers?.[0]?.url;
+  const baseUrl = options.baseUrl
+    ?? (server ? new URL(server, specUrl).href : specUrl?.origin);
+  if (!baseUrl) {
+    throw new Error('[createToolsFromOpenApi] The spec lists no servers; pass a baseUrl in options');
+  }
+  const maxPrice = options.maxPrice === undefined ? undefined : String(options.maxPrice);
+
+  const tools: Tool[] = [];
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    for (const method of TOOL_METHODS) {
+      if (!pathItem[method]) continue;
+      const operation = dereference(doc, pathItem[method]) as OpenApiOperation;
+      const shared = (dereference(doc, pathItem.parameters ?? []) as OpenApiParameter[])
+        .filter((param) => !operation.parameters?.some((own) => own.name === param.name && own.in === param.in));
+      operation.parameters = [...shared, ...(operation.parameters ?? [])];
+
+      const price = readPrice(operation);
+      const dynamicPrice = (operation['x-x402']?.dynamicPrice ?? operation['x-x402-dynamic-price']) === true;
+      if (maxPrice !== undefined && (dynamicPrice || (price && !withinPrice(price, maxPrice)))) continue;
+
+      const { inputSchema, queryParams } = buildInput(operation);
+      tools.push(createTool({
+        name: toolName(method, path, operation.operationId),
+        description: operation.summary ?? operation.description ?? `${method.toUpperCase()} ${path}`,
+        inputSchema,
+        endpoint: `${baseUrl.replace(/\/+$/, '')}${path}`,
+        method: method.toUpperCase() as ToolConfig['method'],
+        queryParams,
+        ...(price ? { price } : {}),
+        ...(dynamicPrice ? { dynamicPrice } : {}),
+        fetchOptions,
+      }));
+    }
+  }
+  return tools;
+}
@@ -0,0 +1,62 @@
+/**
+ * quote — what a priced route costs, before deciding to call it.
+ *
+ * Asking for a 402 challenge makes the server mint a nonce; a quote does
+ * not. GET routes are asked with HEAD, other methods through the server's
+ * quote endpoint (`GET /x402/quote?method=&path=`), which is also the
+ * fallback when HEAD carries no price:
+ *
+ *   const price = await quote('https://api.example.com/search', { method: 'POST' });
+ *   if (price && Number(price.price) <= 0.01) await x402Fetch(…);
+ *
+ * Headers in `init` (e.g. `X-402-Payer`, `X-402-Coupon`) are sent along,
+ * so the quote reflects the caller's volume tier and coupon.
+ */
+
+export interface PriceQuote {
+  /** Price of one call, as a decimal string */
+  price: string;
+  asset: string;
+  network: string;
+  recipient: string;
+  scheme: string;
+  /** The undiscounted price, when a volume tier or coupon changed `price` */
+  originalPrice?: string;
+}
+
+const QUOTE_PATH = '/x402/quote';
+
+function readQuote(headers: Headers): PriceQuote | undefined {
+  const price = headers.get('x-402-price');
+  const asset = headers.get('x-402-asset');
+  const network = headers.get('x-402-network');
+  const recipient = headers.get('x-402-recipient');
+  const scheme = headers.get('x-402-scheme');
+  if (!price || !asset || !network || !recipient || !scheme) return undefined;
+  const originalPrice = headers.get('x-402-original-price');
+  return { price, asset, network, recipient, scheme, ...(originalPrice ? { originalPrice } : {}) };
+}
+
+/**
+ * Quote the request `x402Fetch(url, init)` would make. Resolves undefined
+ * when the route is not priced, its price depends on the request body, or
+ * the server does not serve quotes.
+ */
+export async function quote(url: string | URL, init: RequestInit = {}): Promise<PriceQuote | undefined> {
+  const target = new URL(url);
+  const method = (init.method ?? 'GET').toUpperCase();
+  const headers = new Headers(init.headers);
+
+  if (method === 'GET' || method === 'HEAD') {
+    const head = await fetch(target, { headers, method: 'HEAD' });
+    const quoted = readQuote(head.headers);
+    if (quoted) return quoted;
+  }
+
+  const endpoint = new URL(QUOTE_PATH, target);
+  endpoint.searchParams.set('method', method);
+  endpoint.searchParams.set('path', `${target.pathname}${target.search}`);
+  const res = await fetch(endpoint, { headers });
+  await res.body?.cancel();
+  return res.ok ? readQuote(res.headers) : undefined;
+}
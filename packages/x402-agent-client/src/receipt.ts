@@ -0,0 +1,132 @@
+/**
+ * verifyReceipt — check a server's signed receipt offline.
+ *
+ * Servers with a receipt signer send each paid response's receipt as a
+ * compact JWS (Ed25519) in `X-Payment-Receipt`, and publish their public
+ * keys at `/.well-known/jwks.json`. Keeping the token is evidence of what
+ * was bought that anyone holding the keys can check later:
+ *
+ *   const res = await x402Fetch(url, {}, { payer });
+ *   const receipt = await verifyReceipt(res);   // keys from the server's JWKS
+ *   if (!receipt) throw new Error('forged or missing receipt');
+ *
+ * Pass the key set itself (fetched once, or pinned) to verify without
+ * asking the server. Uses WebCrypto, so it runs wherever fetch does.
+ */
+
+/** The receipt a server signed (see x402-tool-server's `Receipt`). */
+export interface PaymentReceipt {
+  /** The challenge nonce that was paid */
+  nonce: string;
+  payer: string;
+  /** Amount paid (on metered routes: the maximum authorized) */
+  amount: string;
+  asset: string;
+  network: string;
+  recipient: string;
+  /** The endpoint that was paid for */
+  endpoint: string;
+  method: string;
+  /** SHA-256 hex digest of the canonical request */
+  requestHash: string;
+  /** ISO-8601 timestamp when the payment was verified */
+  paidAt: string;
+  /** Timestamp the payer put in its proof (unverified) */
+  proofTimestamp?: string;
+  txRef?: string;
+  sessionId?: string;
+  passId?: string;
+  free?: boolean;
+  /** Amount actually charged on a metered route, once settled */
+  charged?: string;
+  voidedAt?: string;
+  [field: string]: unknown;
+}
+
+/** An Ed25519 public key as a JSON Web Key. */
+export interface ReceiptJwk {
+  kty: string;
+  crv?: string;
+  x?: string;
+  kid?: string;
+  alg?: string;
+}
+
+export interface ReceiptKeySet {
+  keys: ReceiptJwk[];
+}
+
+const RECEIPT_HEADER = 'x-payment-receipt';
+const JWKS_PATH = '/.well-known/jwks.json';
+
+function decodeBase64Url(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(decodeBase64Url(segment))) as unknown;
+    return parsed !== null && typeof parsed === 'object' ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadKeys(keys: ReceiptKeySet | string | URL): Promise<ReceiptKeySet> {
+  if (typeof keys === 'object' && !(keys instanceof URL)) return keys;
+  const res = await fetch(keys);
+  if (!res.ok) {
+    await res.body?.cancel();
+    throw new Error(`[verifyReceipt] ${String(keys)} answered ${res.status}`);
+  }
+  return (await res.json()) as ReceiptKeySet;
+}
+
+/**
+ * Verify a signed receipt — the token itself, or a response carrying it in
+ * `X-Payment-Receipt` — against a JSON Web Key Set or the URL serving one.
+ * For a response, `keys` defaults to the JWKS of the server that sent it.
+ * Resolves the receipt, or null when the token is missing, malformed,
+ * signed by an unknown key or forged.
+ */
+export async function verifyReceipt(
+  source: string | Response,
+  keys?: ReceiptKeySet | string | URL,
+): Promise<PaymentReceipt | null> {
+  const token = typeof source === 'string' ? source : source.headers.get(RECEIPT_HEADER);
+  if (!token) return null;
+  const serverUrl = typeof source === 'string' ? undefined : source.url;
+  const keySource = keys ?? (serverUrl ? new URL(JWKS_PATH, serverUrl) : undefined);
+  if (!keySource) throw new Error('[verifyReceipt] Pass the server\'s JWKS (or its URL) to verify this receipt');
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+  const header = decodeSegment<{ alg?: string; kid?: string; typ?: string }>(headerSegment);
+  if (!header || header.typ !== 'x402-receipt' || header.alg !== 'EdDSA') return null;
+
+  const { keys: jwks } = await loadKeys(keySource);
+  const jwk = jwks.find((key) => key.kid === header.kid && key.kty === 'OKP' && key.crv === 'Ed25519');
+  if (!jwk?.x) return null;
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'OKP', crv: 'Ed25519', x: jwk.x },
+      { name: 'Ed25519' },
+      false,
+      ['verify'],
+    );
+    const valid = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      publicKey,
+      decodeBase64Url(signatureSegment),
+      new TextEncoder().encode(`${headerSegment}.${payloadSegment}`),
+    );
+    return valid ? decodeSegment<PaymentReceipt>(payloadSegment) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * SessionManager — remembers prepaid x402 sessions for x402Fetch.
+ *
+ * Servers with sessions enabled sell credit at POST /x402/sessions and
+ * accept `Authorization: Bearer <token>` in place of a per-call payment.
+ * Pass one SessionManager to every x402Fetch call and it keeps one session
+ * per origin: x402Fetch opens a session on the first 402 that advertises
+ * `X-402-Session-Endpoint`, tops it up when the balance runs out, and
+ * tracks the remaining balance from `X-402-Session-Balance`.
+ *
+ * Usage:
+ *   const sessions = new SessionManager();
+ *   await x402Fetch(url, {}, { payer, sessions });
+ *   sessions.get(new URL(url).origin)?.balance;
+ */
+
+export interface SessionInfo {
+  /** Bearer token spending the session */
+  token: string;
+  /** Remaining credit as decimal string */
+  balance: string;
+  /** ISO-8601 timestamp after which the server no longer accepts the session */
+  expiresAt: string;
+  asset?: string;
+  network?: string;
+}
+
+export class SessionManager {
+  private readonly sessions = new Map<string, SessionInfo>();
+
+  /** The live session for `origin`, if any. */
+  get(origin: string): SessionInfo | undefined {
+    const session = this.sessions.get(origin);
+    if (session && Date.now() > new Date(session.expiresAt).getTime()) {
+      this.sessions.delete(origin);
+      return undefined;
+    }
+    return session;
+  }
+
+  set(origin: string, session: SessionInfo): void {
+    this.sessions.set(origin, { ...session });
+  }
+
+  delete(origin: string): void {
+    this.sessions.delete(origin);
+  }
+
+  /** Record the balance and expiry a server reported on `response`. */
+  update(origin: string, response: Response): void {
+    const session = this.sessions.get(origin);
+    if (!session) return;
+    const balance = response.headers.get('x-402-session-balance');
+    const expiresAt = response.headers.get('x-402-session-expires');
+    if (balance !== null) session.balance = balance;
+    if (expiresAt !== null) session.expiresAt = expiresAt;
+  }
+
+  /** Number of sessions held. */
+  get size(): number {
+    return this.sessions.size;
+  }
+}
@@ -22,7 +22,7 @@
  *   const result = await weatherTool.invoke({ city: 'London' });
  */
 import { x402Fetch } from './fetch.js';
-import type { ToolConfig, ToolInvokeResult, JsonSchema } from './types.js';
+import type { ToolConfig, ToolInvokeResult, ToolPrice, JsonSchema } from './types.js';
 
 function validateInput(input: Record<string, unknown>, schema: JsonSchema): string | null {
   if (!schema.required) return null;
@@ -34,6 +34,20 @@ function validateInput(input: Record<string, unknown>, schema: JsonSchema): stri
   return null;
 }
 
+/**
+ * Fill `{name}` placeholders of the endpoint from the input, returning the
+ * endpoint and the input fields left over.
+ */
+function fillPath(endpoint: string, input: Record<string, unknown>): [string, Record<string, unknown>] {
+  const rest = { ...input };
+  const filled = endpoint.replace(/\{([^}/]+)\}/g, (_match, name: string) => {
+    const value = rest[name];
+    delete rest[name];
+    return encodeURIComponent(String(value));
+  });
+  return [filled, rest];
+}
+
 function buildUrl(endpoint: string, params: Record<string, unknown>): URL {
   const url = new URL(endpoint);
   for (const [key, value] of Object.entries(params)) {
@@ -51,6 +65,10 @@ export interface Tool<TInput extends Record<string, unknown> = Record<string, un
   description: string;
   /** JSON Schema for the input */
   inputSchema: JsonSchema;
+  /** Price the endpoint advertises, when known */
+  price?: ToolPrice;
+  /** True when the endpoint resolves its price per request */
+  dynamicPrice?: boolean;
   /**
    * Invoke the tool with the given input.
    * For GET requests, input fields are appended as query params.
@@ -72,6 +90,8 @@ export function createTool<
     name: config.name,
     description: config.description,
     inputSchema: config.inputSchema,
+    ...(config.price ? { price: config.price } : {}),
+    ...(config.dynamicPrice ? { dynamicPrice: true } : {}),
 
     async invoke(input: TInput): Promise<ToolInvokeResult<TOutput>> {
       // Validate required fields.
@@ -84,11 +104,18 @@ export function createTool<
       let body: string | undefined;
       let headers: Record<string, string> = {};
 
+      const [endpoint, fields] = fillPath(config.endpoint, input);
       if (method === 'GET' || method === 'DELETE') {
-        url = buildUrl(config.endpoint, input);
+        url = buildUrl(endpoint, fields);
       } else {
-        url = new URL(config.endpoint);
-        body = JSON.stringify(input);
+        const query: Record<string, unknown> = {};
+        const payload: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(fields)) {
+          if (config.queryParams?.includes(key)) query[key] = value;
+          else payload[key] = value;
+        }
+        url = buildUrl(endpoint, query);
+        body = JSON.stringify(payload);
         headers = { 'content-type': 'application/json' };
       }
 
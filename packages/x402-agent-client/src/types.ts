@@ -8,6 +8,23 @@
 
 // ─── Challenge (received in 402 body) ────────────────────────────────────────
 
+/** One accepted way to pay a challenge. */
+export interface ChallengeOption {
+  scheme: string;
+  price: string;
+  asset: string;
+  network: string;
+  recipient: string;
+}
+
+/** Per-unit pricing of a metered route. */
+export interface MeteredTerms {
+  /** Price of one unit as a decimal string */
+  unitPrice: string;
+  /** What a unit is, e.g. "token" */
+  unit?: string;
+}
+
 export interface X402Challenge {
   version: number;
   scheme: string;
@@ -19,6 +36,14 @@ export interface X402Challenge {
   expiresAt: string;
   requestHash: string;
   description?: string;
+  /** Every accepted payment option, primary first (multi-option routes only) */
+  accepts?: ChallengeOption[];
+  /** Per-unit terms of a metered route; `price` is then the maximum charge */
+  metered?: MeteredTerms;
+  /** The route's undiscounted price, when a volume tier or coupon changed `price` */
+  originalPrice?: string;
+  /** Server-signed challenge seal; payers must echo it in PaymentProof */
+  challengeToken?: string;
 }
 
 export interface X402ChallengeBody {
@@ -35,6 +60,35 @@ export interface PaymentProof {
   timestamp: string;
   expiresAt: string;
   signature: string;
+  challengeToken?: string;
+  /** Network of the option paid, when the challenge offered several */
+  network?: string;
+  /** Asset of the option paid, when the challenge offered several */
+  asset?: string;
+}
+
+// ─── Payment response (received with a paid response) ────────────────────────
+
+/**
+ * Settlement of a paid request, from the server's `X-Payment-Response`
+ * (toolkit) or `PAYMENT-RESPONSE` (Coinbase) header.
+ */
+export interface PaymentSettlement {
+  success: boolean;
+  /** Wire format of the header it was read from */
+  format: 'toolkit' | 'coinbase';
+  /** Toolkit network name (CAIP-2 identifiers are mapped back) */
+  network: string;
+  payer?: string;
+  /** Settlement reference, e.g. a transaction signature */
+  txRef?: string;
+  /** Nonce of the challenge that was paid (toolkit format only) */
+  nonce?: string;
+  /** Amount paid as a decimal string (toolkit format only) */
+  amount?: string;
+  asset?: string;
+  /** Why settlement failed, when `success` is false */
+  errorReason?: string;
 }
 
 // ─── Payer interface ──────────────────────────────────────────────────────────
@@ -55,6 +109,7 @@ export interface PayerInterface {
 // ─── x402Fetch options ────────────────────────────────────────────────────────
 
 import type { BudgetTracker } from './budget.js';
+import type { SessionManager } from './session.js';
 
 export interface X402FetchOptions {
   /** Payer implementation (e.g. MockPayer) */
@@ -66,6 +121,23 @@ export interface X402FetchOptions {
   maxRetries?: number;
   /** Optional spend budget tracker */
   budget?: BudgetTracker;
+  /**
+   * Picks which option to pay when a challenge accepts several (e.g. by
+   * preferred network). Default: the first (primary) option.
+   */
+  selectOption?: (options: ChallengeOption[]) => ChallengeOption | undefined;
+  /**
+   * Prepaid sessions, one per origin. When set, a 402 that advertises a
+   * session endpoint buys (or tops up) a session with one payment, and later
+   * calls spend it via `Authorization: Bearer`. Ignored for requests that
+   * set their own `authorization` header.
+   */
+  sessions?: SessionManager;
+  /**
+   * Called with the server's settlement of a payment this call made, when
+   * the paid response carries one (see `readPaymentResponse`).
+   */
+  onPaymentResponse?: (settlement: PaymentSettlement, response: Response) => void;
 }
 
 // ─── createTool options ───────────────────────────────────────────────────────
@@ -80,6 +152,12 @@ export interface JsonSchema {
   [key: string]: unknown;
 }
 
+/** What a tool's endpoint charges per call, as advertised by the server. */
+export interface ToolPrice extends ChallengeOption {
+  /** Every accepted payment option, when the endpoint accepts several */
+  accepts?: ChallengeOption[];
+}
+
 export interface ToolConfig {
   /** Tool name (used in agent frameworks) */
   name: string;
@@ -87,10 +165,22 @@ export interface ToolConfig {
   description: string;
   /** JSON Schema describing the tool's input */
   inputSchema: JsonSchema;
-  /** Full URL of the priced endpoint */
+  /**
+   * Full URL of the priced endpoint. `{name}` placeholders in the path are
+   * filled from the input field of that name.
+   */
   endpoint: string;
   /** HTTP method (default: GET) */
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /**
+   * Input fields sent as query parameters by POST/PUT/PATCH tools; the rest
+   * form the JSON body. GET/DELETE tools send every field in the query.
+   */
+  queryParams?: string[];
+  /** Advertised price, exposed as `tool.price` */
+  price?: ToolPrice;
+  /** The price is resolved per request, exposed as `tool.dynamicPrice` */
+  dynamicPrice?: boolean;
   /** x402Fetch options (payer, maxRetries) */
   fetchOptions: X402FetchOptions;
 }
@@ -0,0 +1,107 @@
+/**
+ * x402 access policies — let some callers use priced routes without paying.
+ *
+ * The gate asks `accessPolicy` about every priced request before looking
+ * for a proof, pass or session:
+ *
+ *   'free'         serve it without a challenge; recorded as a zero-amount
+ *                  receipt (`free: true`) and announced with `x402:free`
+ *   'charge'       the usual payment flow
+ *   { pricing }    the usual payment flow at different pricing
+ *
+ *   createX402Middleware({
+ *     verifier,
+ *     accessPolicy: (request) =>
+ *       request.headers['x-api-key'] === INTERNAL_KEY ? 'free' : 'charge',
+ *   });
+ *
+ * A policy answering `{ pricing }` must give the same answer for the
+ * challenge and for the paid retry, like a PricingResolver — the proof is
+ * checked against the pricing the policy returns.
+ *
+ * `freeTierPolicy` is the built-in policy: N free calls per caller per
+ * fixed window, then the route's price.
+ */
+import type { GateRequest } from './core.js';
+import type { PricingConfig } from './types.js';
+
+export type AccessDecision = 'free' | 'charge' | { pricing: PricingConfig };
+
+/** Decides, per priced request, whether the caller pays (and how much). */
+export type AccessPolicy = (
+  request: GateRequest,
+  pricing: PricingConfig,
+) => AccessDecision | Promise<AccessDecision>;
+
+export interface FreeTierOptions {
+  /** Free calls per key per window */
+  calls: number;
+  /** Window length in milliseconds; counts reset when it elapses */
+  windowMs: number;
+  /**
+   * The caller's key; requests without one are charged. Default: the
+   * client address. A key read from a request header is whatever the
+   * client sends — look it up (and return undefined for unknown keys), or
+   * rotating keys buys unlimited free calls.
+   */
+  keyExtractor?: (request: GateRequest) => string | undefined;
+  /**
+   * Most keys counted at once. Once reached, callers without a count are
+   * charged until expired windows are swept. Default: 10 000.
+   */
+  maxKeys?: number;
+}
+
+interface WindowEntry {
+  count: number;
+  windowStart: number;
+}
+
+const defaultKeyExtractor = (request: GateRequest): string | undefined => request.ip || undefined;
+
+/**
+ * Built-in free tier: the first `calls` priced requests of each key within
+ * a fixed window are free, later ones are charged until the window resets.
+ * Counts live in memory, per process, for at most `maxKeys` keys.
+ */
+export function freeTierPolicy(options: FreeTierOptions): AccessPolicy {
+  const { calls, windowMs, keyExtractor = defaultKeyExtractor, maxKeys = 10_000 } = options;
+
+  const store = new Map<string, WindowEntry>();
+  let lastCleanup = Date.now();
+  const CLEANUP_INTERVAL_MS = 60_000;
+
+  const cleanup = (now: number, force = false): void => {
+    if (!force && now - lastCleanup < CLEANUP_INTERVAL_MS) return;
+    lastCleanup = now;
+    for (const [key, entry] of store) {
+      if (now - entry.windowStart >= windowMs) {
+        store.delete(key);
+      }
+    }
+  };
+
+  return (request) => {
+    const now = Date.now();
+    cleanup(now);
+
+    const key = keyExtractor(request);
+    if (!key) return 'charge';
+
+    let entry = store.get(key);
+    if (!entry && store.size >= maxKeys) {
+      // Full: make room from expired windows, else charge the newcomer.
+      cleanup(now, true);
+      if (store.size >= maxKeys) return 'charge';
+    }
+    if (!entry || now - entry.windowStart >= windowMs) {
+      entry = { count: 0, windowStart: now };
+      store.set(key, entry);
+    }
+
+    // Charged calls do not count, so the free quota is exactly `calls`.
+    if (entry.count >= calls) return 'charge';
+    entry.count += 1;
+    return 'free';
+  };
+}
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+/**
+ * x402-audit-verify — check the hash chain of an AuditLog file.
+ *
+ *   x402-audit-verify <path> [--entries <n> --hash <hex>]
+ *
+ * `--entries` / `--hash` give a head recorded earlier (`AuditLog.head`) so
+ * a log cut short is caught too. Exits 0 when the log checks out, 1 when
+ * it was tampered with, 2 on bad usage or an unreadable file.
+ */
+import { parseArgs } from 'util';
+import { verifyAuditLog } from './audit-log.js';
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: { entries: { type: 'string' }, hash: { type: 'string' } },
+    });
+  } catch (err) {
+    console.error(`x402-audit-verify: ${(err as Error).message}`);
+    return 2;
+  }
+  const { positionals, values } = parsed;
+  const entries = values.entries === undefined ? undefined : Number(values.entries);
+  if (
+    positionals.length !== 1 ||
+    (values.entries === undefined) !== (values.hash === undefined) ||
+    (entries !== undefined && !Number.isSafeInteger(entries))
+  ) {
+    console.error('usage: x402-audit-verify <path> [--entries <n> --hash <hex>]');
+    return 2;
+  }
+
+  try {
+    const result = await verifyAuditLog(
+      positionals[0],
+      entries !== undefined && values.hash ? { entries, hash: values.hash } : undefined,
+    );
+    if (result.ok) {
+      console.log(`ok: ${result.entries} entries, head ${result.lastHash}`);
+      return 0;
+    }
+    const { line, reason } = result.failure!;
+    console.log(`FAILED at line ${line}: ${reason} (${result.entries} entries verified before it)`);
+    return 1;
+  } catch (err) {
+    console.error(`x402-audit-verify: ${(err as Error).message}`);
+    return 2;
+  }
+}
+
+process.exitCode = await main();
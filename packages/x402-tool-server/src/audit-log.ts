@@ -0,0 +1,249 @@
+/**
+ * AuditLog — tamper-evident record of every challenge, payment and
+ * rejection a gate emits.
+ *
+ * Events are written to an append-only JSON Lines file. Each entry carries
+ * the hash of the entry before it, so editing, deleting or reordering any
+ * line breaks the chain from that point on; `verifyAuditLog` (and the
+ * `x402-audit-verify` CLI) walks the chain and reports the first break.
+ *
+ *   const auditLog = new AuditLog({ path: './data/audit.jsonl' });
+ *   app.register(createX402Middleware({ verifier, auditLog }));
+ *
+ * Uses node:fs and node:crypto — kept out of the gate so it can still run
+ * on edge runtimes.
+ */
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { JsonlLog } from './jsonl-log.js';
+import type {
+  X402ChallengeEvent,
+  X402ErrorEvent,
+  X402EventEmitter,
+  X402PaymentEvent,
+} from './events.js';
+
+/** Events recorded in the audit log. */
+export type AuditEventType = 'x402:challenge' | 'x402:payment' | 'x402:error';
+
+/** One line of the audit log. */
+export interface AuditEntry {
+  /** Position in the log, from 0 */
+  seq: number;
+  type: AuditEventType;
+  /** `hash` of the previous entry (64 zeros for the first) */
+  prevHash: string;
+  /** The event as emitted (error events without the route's coupon codes) */
+  event: X402ChallengeEvent | X402PaymentEvent | X402ErrorEvent;
+  /** SHA-256 hex of the entry's other fields, serialized in this order */
+  hash: string;
+}
+
+/** The last entry written — keep a copy elsewhere to detect truncation. */
+export interface AuditHead {
+  /** Number of entries in the log */
+  entries: number;
+  /** `hash` of the last entry (64 zeros for an empty log) */
+  hash: string;
+}
+
+/** Anything the gate can hand its event emitter to (`auditLog` option). */
+export interface AuditSink {
+  attach(events: X402EventEmitter): void;
+}
+
+export interface AuditLogOptions {
+  /** Path of the log file (created on first write) */
+  path: string;
+  /**
+   * Flush every entry to disk (fsync) before it counts as written.
+   * Default: false.
+   */
+  fsync?: boolean;
+  /**
+   * Called when an entry cannot be written. Without it the first failure
+   * is thrown from `flush()` and `close()`.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export type AuditFailureReason =
+  /** The line is not a JSON audit entry */
+  | 'malformed'
+  /** `seq` is not one more than the previous entry's: lines were removed or inserted */
+  | 'sequence_gap'
+  /** `prevHash` does not match the previous entry's `hash` */
+  | 'broken_chain'
+  /** `hash` does not match the entry's contents: the entry was edited */
+  | 'hash_mismatch'
+  /** The log does not reach the expected head: it was cut short or rewritten */
+  | 'head_mismatch';
+
+export interface AuditVerification {
+  /** true when every entry checks out (and the expected head is present) */
+  ok: boolean;
+  /** Entries verified before the first failure (all of them when ok) */
+  entries: number;
+  /** `hash` of the last verified entry */
+  lastHash: string;
+  /** The first problem found */
+  failure?: {
+    /** 1-based line number in the file */
+    line: number;
+    reason: AuditFailureReason;
+  };
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+const AUDITED_EVENTS: AuditEventType[] = ['x402:challenge', 'x402:payment', 'x402:error'];
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const body = JSON.stringify({
+    seq: entry.seq,
+    type: entry.type,
+    prevHash: entry.prevHash,
+    event: entry.event,
+  });
+  return createHash('sha256').update(body).digest('hex');
+}
+
+// Coupon codes are secrets; the audit log only needs the price terms.
+function toAuditEvent(type: AuditEventType, event: AuditEntry['event']): AuditEntry['event'] {
+  if (type !== 'x402:error') return event;
+  const error = event as X402ErrorEvent;
+  if (!error.pricing.coupons) return event;
+  const pricing = { ...error.pricing };
+  delete pricing.coupons;
+  return { ...error, pricing };
+}
+
+/**
+ * Hash-chained audit log of `x402:challenge`, `x402:payment` and
+ * `x402:error` events. Pass it as the `auditLog` option (or call
+ * `attach(gate.events)`); one log can record several gates.
+ *
+ * Entries are chained in the order the events are emitted and appended in
+ * that order. On startup the log is replayed to continue the chain from
+ * its last entry; a torn final line left by a crash is cut off. Not safe
+ * for several processes sharing one file.
+ */
+export class AuditLog implements AuditSink {
+  private readonly log: JsonlLog<AuditEntry>;
+  private readonly onError?: (error: unknown) => void;
+  private readonly detachers: Array<() => void> = [];
+  private lastHash = GENESIS_HASH;
+  private nextSeq = 0;
+  private failure: unknown;
+
+  constructor(options: AuditLogOptions) {
+    this.log = new JsonlLog({ path: options.path, fsync: options.fsync });
+    this.onError = options.onError;
+
+    const entries = this.log.replay();
+    const last = entries[entries.length - 1];
+    if (last) {
+      this.lastHash = last.hash;
+      this.nextSeq = last.seq + 1;
+    }
+  }
+
+  /** Record the audited events of `events` from now on. */
+  attach(events: X402EventEmitter): void {
+    for (const type of AUDITED_EVENTS) {
+      const listener = (event: AuditEntry['event']) => this.record(type, event);
+      events.on(type, listener);
+      this.detachers.push(() => events.off(type, listener));
+    }
+  }
+
+  /** Append one entry. Entries are chained synchronously, in call order. */
+  record(type: AuditEventType, event: AuditEntry['event']): void {
+    const unsigned = { seq: this.nextSeq, type, prevHash: this.lastHash, event: toAuditEvent(type, event) };
+    const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+    this.nextSeq += 1;
+    this.lastHash = entry.hash;
+
+    this.log.append(entry).catch((error: unknown) => {
+      if (this.onError) this.onError(error);
+      else this.failure ??= error;
+    });
+  }
+
+  /** The last entry recorded. Pass it to `verifyAuditLog` to detect truncation. */
+  get head(): AuditHead {
+    return { entries: this.nextSeq, hash: this.lastHash };
+  }
+
+  /** Resolves once every recorded entry is written. */
+  async flush(): Promise<void> {
+    await this.log.flush();
+    if (this.failure !== undefined) throw this.failure;
+  }
+
+  /** Stop recording and wait for pending writes. */
+  async close(): Promise<void> {
+    for (const detach of this.detachers.splice(0)) detach();
+    await this.flush();
+  }
+}
+
+/**
+ * Walk the hash chain of an audit log and report the first entry that was
+ * edited, removed, inserted or reordered. The chain alone cannot tell a
+ * log cut short from one that ended there: pass a head recorded earlier
+ * (`AuditLog.head`, kept somewhere the log's writer cannot change) to
+ * check the log still reaches it.
+ *
+ * Reads the file as a stream, so logs of any size can be checked.
+ */
+export async function verifyAuditLog(
+  path: string,
+  expectedHead?: AuditHead,
+): Promise<AuditVerification> {
+  let entries = 0;
+  let lastHash = GENESIS_HASH;
+  let line = 0;
+  const fail = (reason: AuditFailureReason): AuditVerification => ({
+    ok: false,
+    entries,
+    lastHash,
+    failure: { line, reason },
+  });
+
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  try {
+    for await (const text of lines) {
+      line += 1;
+      if (!text) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(text) as AuditEntry;
+      } catch {
+        return fail('malformed');
+      }
+      if (
+        typeof entry !== 'object' || entry === null ||
+        typeof entry.seq !== 'number' || typeof entry.hash !== 'string' ||
+        typeof entry.prevHash !== 'string' || !AUDITED_EVENTS.includes(entry.type)
+      ) {
+        return fail('malformed');
+      }
+      if (entry.seq !== entries) return fail('sequence_gap');
+      if (entry.prevHash !== lastHash) return fail('broken_chain');
+      if (entry.hash !== hashEntry(entry)) return fail('hash_mismatch');
+      if (expectedHead && entries === expectedHead.entries - 1 && entry.hash !== expectedHead.hash) {
+        return fail('head_mismatch');
+      }
+
+      entries += 1;
+      lastHash = entry.hash;
+    }
+  } finally {
+    lines.close();
+  }
+
+  if (expectedHead && entries < expectedHead.entries) return fail('head_mismatch');
+  return { ok: true, entries, lastHash };
+}
@@ -0,0 +1,203 @@
+/**
+ * Signed challenge tokens — stateless alternative to a shared ChallengeStore.
+ *
+ * Each issued challenge carries a `challengeToken`: a compact JWS
+ * (header.payload.signature, all base64url) whose payload covers the nonce,
+ * price, asset, network, recipient, scheme, requestHash, expiresAt and any
+ * alternative payment options (`accepts`).
+ * The client echoes the token in its PaymentProof, so any node holding the
+ * key can confirm the proof answers a genuine challenge without shared memory.
+ *
+ * Supported algorithms:
+ *   HS256  HMAC-SHA256 with a shared secret
+ *   EdDSA  Ed25519 (verify-only nodes need just the public key)
+ *
+ * Key rotation: pass several keys; tokens are signed with `activeKid` and
+ * verified with whichever key their header `kid` names.
+ *
+ * The same signing machinery seals pass tokens (passes.ts) under their own
+ * token type, so one kind of token is never accepted as the other.
+ */
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  sign as cryptoSign,
+  verify as cryptoVerify,
+  timingSafeEqual,
+} from 'crypto';
+import type { KeyObject } from 'crypto';
+import type { X402Challenge } from './types.js';
+import type { PassClaims, PassSigner } from './passes.js';
+
+/** Challenge fields sealed into a token. */
+export type ChallengeTokenClaims = Pick<
+  X402Challenge,
+  'nonce' | 'requestHash' | 'price' | 'asset' | 'network' | 'recipient' | 'scheme' | 'expiresAt' | 'accepts'
+>;
+
+export type ChallengeSigningKey =
+  | {
+      /** Key identifier, written to the token header */
+      kid: string;
+      alg: 'HS256';
+      /** Shared HMAC secret (≥32 random bytes recommended) */
+      secret: string | Buffer;
+    }
+  | {
+      kid: string;
+      alg: 'EdDSA';
+      /** Ed25519 private key (KeyObject or PEM). Required only for the active key. */
+      privateKey?: KeyObject | string;
+      /** Ed25519 public key (KeyObject or PEM). Derived from privateKey if omitted. */
+      publicKey?: KeyObject | string;
+    };
+
+export interface ChallengeSignerOptions {
+  /** All keys accepted for verification. */
+  keys: ChallengeSigningKey[];
+  /** kid of the key used to sign new tokens. Default: the first key. */
+  activeKid?: string;
+}
+
+/**
+ * Interface for challenge token signers.
+ * Async so implementations can use WebCrypto or a remote KMS.
+ */
+export interface ChallengeSigner {
+  /** Seal challenge claims into a token. */
+  sign(claims: ChallengeTokenClaims): Promise<string>;
+  /** Return the claims of a genuine token, or null if it is malformed or forged. */
+  verify(token: string): Promise<ChallengeTokenClaims | null>;
+}
+
+/** Signs and verifies compact-JWS tokens carrying claims of type `TClaims`. */
+export interface TokenSigner<TClaims> {
+  sign(claims: TClaims): Promise<string>;
+  verify(token: string): Promise<TClaims | null>;
+}
+
+interface TokenHeader {
+  alg: string;
+  kid: string;
+  typ: string;
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as unknown;
+    return parsed !== null && typeof parsed === 'object' ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toPrivateKey(key: KeyObject | string): KeyObject {
+  return typeof key === 'string' ? createPrivateKey(key) : key;
+}
+
+function toPublicKey(key: KeyObject | string): KeyObject {
+  return typeof key === 'string' ? createPublicKey(key) : key;
+}
+
+function signWith(key: ChallengeSigningKey, data: string, label: string): Buffer {
+  if (key.alg === 'HS256') {
+    return createHmac('sha256', key.secret).update(data).digest();
+  }
+  if (!key.privateKey) {
+    throw new Error(`${label} signing key "${key.kid}" has no privateKey`);
+  }
+  return cryptoSign(null, Buffer.from(data, 'utf8'), toPrivateKey(key.privateKey));
+}
+
+function verifyWith(key: ChallengeSigningKey, data: string, signature: Buffer): boolean {
+  if (key.alg === 'HS256') {
+    const expected = createHmac('sha256', key.secret).update(data).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+  const publicKey = key.publicKey
+    ? toPublicKey(key.publicKey)
+    : key.privateKey
+      ? createPublicKey(toPrivateKey(key.privateKey))
+      : undefined;
+  if (!publicKey) return false;
+  try {
+    return cryptoVerify(null, Buffer.from(data, 'utf8'), publicKey, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a signer for tokens of type `typ` (the JWS header `typ`).
+ * `label` names the token kind in error messages, e.g. "Challenge".
+ */
+export function createTokenSigner<TClaims>(
+  typ: string,
+  label: string,
+  options: ChallengeSignerOptions,
+): TokenSigner<TClaims> {
+  if (options.keys.length === 0) {
+    throw new Error(`create${label}Signer requires at least one key`);
+  }
+  const keysByKid = new Map(options.keys.map((k) => [k.kid, k]));
+  const activeKid = options.activeKid ?? options.keys[0].kid;
+  const activeKey = keysByKid.get(activeKid);
+  if (!activeKey) {
+    throw new Error(`Active ${label.toLowerCase()} signing key "${activeKid}" is not in keys`);
+  }
+
+  return {
+    async sign(claims) {
+      const header: TokenHeader = { alg: activeKey.alg, kid: activeKey.kid, typ };
+      const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+      return `${signingInput}.${signWith(activeKey, signingInput, label).toString('base64url')}`;
+    },
+
+    async verify(token) {
+      const parts = token.split('.');
+      if (parts.length !== 3) return null;
+      const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+      const header = decodeSegment<TokenHeader>(headerSegment);
+      if (!header || header.typ !== typ) return null;
+      const key = keysByKid.get(header.kid);
+      if (!key || key.alg !== header.alg) return null;
+
+      const signature = Buffer.from(signatureSegment, 'base64url');
+      if (!verifyWith(key, `${headerSegment}.${payloadSegment}`, signature)) return null;
+
+      return decodeSegment<TClaims>(payloadSegment);
+    },
+  };
+}
+
+/**
+ * Create a ChallengeSigner backed by node:crypto.
+ *
+ *   createChallengeSigner({
+ *     keys: [
+ *       { kid: '2026-06', alg: 'HS256', secret: process.env.X402_CHALLENGE_KEY! },
+ *       { kid: '2026-03', alg: 'HS256', secret: process.env.X402_CHALLENGE_KEY_OLD! },
+ *     ],
+ *     activeKid: '2026-06',
+ *   });
+ */
+export function createChallengeSigner(options: ChallengeSignerOptions): ChallengeSigner {
+  return createTokenSigner<ChallengeTokenClaims>('x402-challenge', 'Challenge', options);
+}
+
+/**
+ * Create a PassSigner backed by node:crypto. Takes the same keys as
+ * `createChallengeSigner`; pass tokens carry their own token type, so a
+ * challenge token is never accepted as a pass.
+ *
+ *   createPassSigner({ keys: [{ kid: 'passes-1', alg: 'HS256', secret: process.env.X402_PASS_KEY! }] });
+ */
+export function createPassSigner(options: ChallengeSignerOptions): PassSigner {
+  return createTokenSigner<PassClaims>('x402-pass', 'Pass', options);
+}
@@ -0,0 +1,70 @@
+/**
+ * x402 Challenge Store — remembers every challenge the server has issued.
+ *
+ * When a 402 is sent, the middleware saves the challenge keyed by nonce.
+ * When a proof arrives, the payment gate looks the nonce up and rejects
+ * proofs whose nonce was never issued, was issued for a different request
+ * or price, or whose expiresAt differs from the issued value.
+ */
+import type { X402Challenge } from './types.js';
+
+/**
+ * Interface for challenge storage backends.
+ * Implement this to share issued challenges across processes (Redis, etc.).
+ */
+export interface ChallengeStore {
+  /** Record an issued challenge. */
+  save(challenge: X402Challenge): Promise<void>;
+  /** Retrieve an issued challenge by nonce. Resolves undefined if unknown or expired. */
+  get(nonce: string): Promise<X402Challenge | undefined>;
+}
+
+/**
+ * Default in-memory challenge store.
+ * Challenges are kept until their expiresAt + `graceMs` (default: 60 s), then swept.
+ */
+export class MemoryChallengeStore implements ChallengeStore {
+  private readonly store = new Map<string, { challenge: X402Challenge; expiresAt: number }>();
+  private readonly graceMs: number;
+  private readonly sweepInterval: ReturnType<typeof setInterval>;
+
+  constructor(options?: { graceMs?: number }) {
+    this.graceMs = options?.graceMs ?? 60_000;
+
+    this.sweepInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [nonce, entry] of this.store) {
+        if (now > entry.expiresAt) this.store.delete(nonce);
+      }
+    }, 60_000);
+
+    if (this.sweepInterval.unref) this.sweepInterval.unref();
+  }
+
+  async save(challenge: X402Challenge): Promise<void> {
+    this.store.set(challenge.nonce, {
+      challenge,
+      expiresAt: new Date(challenge.expiresAt).getTime() + this.graceMs,
+    });
+  }
+
+  async get(nonce: string): Promise<X402Challenge | undefined> {
+    const entry = this.store.get(nonce);
+    if (!entry) return undefined;
+    if (Date.now() > entry.expiresAt) {
+      this.store.delete(nonce);
+      return undefined;
+    }
+    return entry.challenge;
+  }
+
+  /** Number of challenges currently stored. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Stop the background sweep timer. */
+  destroy(): void {
+    clearInterval(this.sweepInterval);
+  }
+}
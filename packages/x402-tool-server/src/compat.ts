@@ -1,4 +1,6 @@
-import type { X402Challenge } from './types.js';
+import { decodeJsonBase64, encodeJsonBase64 } from './encoding.js';
+import type { Receipt } from './receipts.js';
+import type { ChallengeOption, X402Challenge, X402PaymentResponse } from './types.js';
 
 export type WireFormat = 'toolkit' | 'coinbase' | 'dual';
 
@@ -34,6 +36,17 @@ export interface CoinbasePaymentPayload {
   extensions?: Record<string, string>;
 }
 
+/** Settlement result sent base64-encoded in the PAYMENT-RESPONSE header. */
+export interface CoinbaseSettlementResponse {
+  success: boolean;
+  errorReason?: string;
+  /** Transaction reference ("" when the verifier reports none) */
+  transaction: string;
+  /** CAIP-2 network identifier */
+  network: string;
+  payer?: string;
+}
+
 const NETWORK_TO_CAIP2: Record<string, string> = {
   'base': 'eip155:8453',
   'base-sepolia': 'eip155:84532',
@@ -109,15 +122,15 @@ export function atomicUnitsToHumanDecimal(amount: string, decimals: number): str
   return `${intPart}.${fracPart}`;
 }
 
+/**
+ * Render a challenge as a Coinbase PaymentRequired — one `accepts` entry per
+ * payment option. `assetDecimals` may be given per option, in `accepts` order.
+ */
 export function challengeToPaymentRequired(
   challenge: X402Challenge,
   requestUrl: string,
-  assetDecimals: number = 6,
+  assetDecimals: number | number[] = 6,
 ): CoinbasePaymentRequired {
-  const caip2 = toolkitNetworkToCaip2(challenge.network);
-  const assetAddress = toolkitAssetToAddress(challenge.asset, caip2);
-  const amount = humanDecimalToAtomicUnits(challenge.price, assetDecimals);
-
   const expiresMs = new Date(challenge.expiresAt).getTime();
   const nowMs = Date.now();
   const maxTimeoutSeconds = Math.max(0, Math.round((expiresMs - nowMs) / 1000));
@@ -125,25 +138,41 @@ export function challengeToPaymentRequired(
   const extra: Record<string, string> = {};
   if (challenge.nonce) extra['nonce'] = challenge.nonce;
   if (challenge.requestHash) extra['requestHash'] = challenge.requestHash;
+  if (challenge.expiresAt) extra['expiresAt'] = challenge.expiresAt;
+  if (challenge.challengeToken) extra['challengeToken'] = challenge.challengeToken;
 
   const resource: CoinbaseResourceInfo = { url: requestUrl };
   if (challenge.description) resource.description = challenge.description;
 
+  const options: ChallengeOption[] = challenge.accepts ?? [challenge];
+
   return {
     x402Version: 1,
     error: 'Payment Required',
     resource,
-    accepts: [
-      {
-        scheme: challenge.scheme,
+    accepts: options.map((option, i) => {
+      const caip2 = toolkitNetworkToCaip2(option.network);
+      const decimals = Array.isArray(assetDecimals) ? (assetDecimals[i] ?? 6) : assetDecimals;
+      return {
+        scheme: option.scheme,
         network: caip2,
-        asset: assetAddress,
-        amount,
-        payTo: challenge.recipient,
+        asset: toolkitAssetToAddress(option.asset, caip2),
+        amount: humanDecimalToAtomicUnits(option.price, decimals),
+        payTo: option.recipient,
         maxTimeoutSeconds,
         extra,
-      },
-    ],
+      };
+    }),
+  };
+}
+
+function requirementsToChallengeOption(req: CoinbasePaymentRequirements): ChallengeOption {
+  return {
+    scheme: req.scheme,
+    price: atomicUnitsToHumanDecimal(req.amount, 6),
+    asset: addressToToolkitAsset(req.asset, req.network),
+    network: caip2ToToolkitNetwork(req.network),
+    recipient: req.payTo,
   };
 }
 
@@ -152,28 +181,25 @@ export function paymentRequiredToChallenge(
   requirementIndex: number = 0,
 ): X402Challenge {
   const req = paymentRequired.accepts[requirementIndex];
-  const network = caip2ToToolkitNetwork(req.network);
-  const asset = addressToToolkitAsset(req.asset, req.network);
-  const price = atomicUnitsToHumanDecimal(req.amount, 6);
-  const expiresAt = new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString();
+  const expiresAt = req.extra['expiresAt']
+    ?? new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString();
 
   return {
     version: 1,
-    scheme: req.scheme,
-    price,
-    asset,
-    network,
-    recipient: req.payTo,
+    ...requirementsToChallengeOption(req),
     nonce: req.extra['nonce'] ?? '',
     expiresAt,
     requestHash: req.extra['requestHash'] ?? '',
     description: paymentRequired.resource.description,
+    ...(paymentRequired.accepts.length > 1
+      ? { accepts: paymentRequired.accepts.map(requirementsToChallengeOption) }
+      : {}),
+    ...(req.extra['challengeToken'] ? { challengeToken: req.extra['challengeToken'] } : {}),
   };
 }
 
 export function coinbasePayloadToProofHeader(payloadHeader: string): string {
-  const decoded = Buffer.from(payloadHeader, 'base64').toString('utf8');
-  const payload = JSON.parse(decoded) as CoinbasePaymentPayload;
+  const payload = decodeJsonBase64(payloadHeader) as CoinbasePaymentPayload;
 
   const proof = {
     version: payload.x402Version,
@@ -183,9 +209,17 @@ export function coinbasePayloadToProofHeader(payloadHeader: string): string {
     timestamp: payload.payload['timestamp'] ?? '',
     expiresAt: payload.payload['expiresAt'] ?? '',
     signature: payload.payload['signature'] ?? '',
+    ...(payload.payload['challengeToken'] ? { challengeToken: payload.payload['challengeToken'] } : {}),
+    // The requirements entry the client accepted names the option it paid.
+    ...(payload.accepted
+      ? {
+          network: caip2ToToolkitNetwork(payload.accepted.network),
+          asset: addressToToolkitAsset(payload.accepted.asset, payload.accepted.network),
+        }
+      : {}),
   };
 
-  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+  return encodeJsonBase64(proof, true);
 }
 
 export function proofHeaderToCoinbasePayload(
@@ -193,8 +227,7 @@ export function proofHeaderToCoinbasePayload(
   challenge: X402Challenge,
   assetDecimals: number = 6,
 ): string {
-  const decoded = Buffer.from(proofHeader, 'base64url').toString('utf8');
-  const proof = JSON.parse(decoded) as {
+  const proof = decodeJsonBase64(proofHeader) as {
     version: number;
     nonce: string;
     requestHash: string;
@@ -202,6 +235,7 @@ export function proofHeaderToCoinbasePayload(
     timestamp: string;
     expiresAt: string;
     signature: string;
+    challengeToken?: string;
   };
 
   const caip2 = toolkitNetworkToCaip2(challenge.network);
@@ -214,6 +248,8 @@ export function proofHeaderToCoinbasePayload(
   const extra: Record<string, string> = {};
   if (challenge.nonce) extra['nonce'] = challenge.nonce;
   if (challenge.requestHash) extra['requestHash'] = challenge.requestHash;
+  if (challenge.expiresAt) extra['expiresAt'] = challenge.expiresAt;
+  if (challenge.challengeToken) extra['challengeToken'] = challenge.challengeToken;
 
   const coinbasePayload: CoinbasePaymentPayload = {
     x402Version: proof.version,
@@ -233,10 +269,11 @@ export function proofHeaderToCoinbasePayload(
       payer: proof.payer,
       timestamp: proof.timestamp,
       expiresAt: proof.expiresAt,
+      ...(proof.challengeToken ? { challengeToken: proof.challengeToken } : {}),
     },
   };
 
-  return Buffer.from(JSON.stringify(coinbasePayload), 'utf8').toString('base64');
+  return encodeJsonBase64(coinbasePayload);
 }
 
 export function extractProofHeader(
@@ -256,3 +293,43 @@ export function extractProofHeader(
 
   return null;
 }
+
+/** The toolkit settlement of a proof-paid receipt (`X-Payment-Response`). */
+export function receiptToPaymentResponse(receipt: Receipt): X402PaymentResponse {
+  return {
+    success: true,
+    nonce: receipt.nonce,
+    payer: receipt.payer,
+    amount: receipt.amount,
+    asset: receipt.asset,
+    network: receipt.network,
+    ...(receipt.txRef ? { txRef: receipt.txRef } : {}),
+    ...(receipt.settledAmount ? { settledAmount: receipt.settledAmount } : {}),
+  };
+}
+
+/** The Coinbase settlement of a proof-paid receipt (`PAYMENT-RESPONSE`). */
+export function receiptToSettlementResponse(receipt: Receipt): CoinbaseSettlementResponse {
+  return {
+    success: true,
+    transaction: receipt.txRef ?? '',
+    network: toolkitNetworkToCaip2(receipt.network),
+    payer: receipt.payer,
+  };
+}
+
+/**
+ * Settlement headers for a proof-paid response: `X-Payment-Response`
+ * (base64url) in toolkit format, `PAYMENT-RESPONSE` (base64) in coinbase
+ * format, both in dual.
+ */
+export function paymentResponseHeaders(receipt: Receipt, wireFormat: WireFormat): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (wireFormat === 'toolkit' || wireFormat === 'dual') {
+    headers['x-payment-response'] = encodeJsonBase64(receiptToPaymentResponse(receipt), true);
+  }
+  if (wireFormat === 'coinbase' || wireFormat === 'dual') {
+    headers['payment-response'] = encodeJsonBase64(receiptToSettlementResponse(receipt));
+  }
+  return headers;
+}
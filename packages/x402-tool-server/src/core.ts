@@ -0,0 +1,1207 @@
+/**
+ * createPaymentGate — the framework-agnostic x402 payment gate.
+ *
+ * Holds everything the gate needs between requests (stores, signer,
+ * verifiers, event emitter) and decides, for one priced request, whether to
+ * answer it directly (402 challenge, rejection, idempotent replay, 409) or
+ * let the route handler run.
+ *
+ * Framework adapters only translate requests and responses:
+ *   middleware.ts  Fastify plugin (createX402Middleware)
+ *   express.ts     Express / Connect middleware (createX402Express)
+ *   node.ts        node:http handler wrapper (createX402Node)
+ *   fetch.ts       Fetch-API handler wrapper (withX402)
+ *
+ *   const decision = await gate.handle(request, pricing);
+ *   if (decision.type === 'respond') send(decision.response);
+ *   else { run handler; await decision.onResponse(response); send(response); }
+ */
+import { computeRequestHashAsync } from './hash.js';
+import { decodeJsonBase64, encodeJsonBase64 } from './encoding.js';
+import { X402EventEmitter } from './events.js';
+import { MemoryIdempotencyStore, toAsyncIdempotencyStore } from './idempotency.js';
+import { RECEIPT_HEADER, toAsyncReceiptStore } from './receipts.js';
+import { MemoryChallengeStore } from './challenges.js';
+import { MemoryNonceStore } from './nonces.js';
+import { toResultVerifier } from './verification.js';
+import {
+  expandPaymentOptions,
+  sameChallengeOptions,
+  selectPaymentOption,
+  toChallengeOption,
+} from './payment-options.js';
+import {
+  challengeToPaymentRequired,
+  coinbasePayloadToProofHeader,
+  extractProofHeader,
+  paymentResponseHeaders,
+} from './compat.js';
+import type { NonceStore } from './nonces.js';
+import type { ChallengeStore } from './challenges.js';
+import type { ChallengeSigner, ChallengeTokenClaims } from './challenge-token.js';
+import { shouldRefund } from './refunds.js';
+import { compareDecimal, multiplyDecimal, subtractDecimal } from './decimal.js';
+import {
+  MemorySessionStore,
+  SESSIONS_PATH,
+  createSessionToken,
+  readSessionToken,
+  sessionHeaders,
+  sessionPaymentOption,
+} from './sessions.js';
+import type {
+  RequestInfo,
+  X402ErrorReason,
+  X402PassEvent,
+  X402PaymentEvent,
+  X402SessionEvent,
+} from './events.js';
+import { MemoryPassStore, passCovers, passHeaders, readPassToken } from './passes.js';
+import type { Session, SessionOptions, SessionStore } from './sessions.js';
+import type { AccessPolicy } from './access.js';
+import { MemoryUsageStore, discountPricing } from './discounts.js';
+import type { Discount, UsageStore } from './discounts.js';
+import { quoteHeaders, toPriceQuote } from './quotes.js';
+import type { PriceQuote } from './quotes.js';
+import type {
+  MintedPass,
+  PassClaims,
+  PassError,
+  PassOptions,
+  PassSigner,
+  PassStore,
+} from './passes.js';
+import type { Refunder, RefundPolicy, RefundResult } from './refunds.js';
+import type { ReceiptStore, SyncReceiptStore, Receipt } from './receipts.js';
+import type { ReceiptSigner } from './receipt-signing.js';
+import type { AuditSink } from './audit-log.js';
+import type { WireFormat } from './compat.js';
+import type {
+  VerifierInterface,
+  BooleanVerifierInterface,
+  IdempotencyStore,
+  SyncIdempotencyStore,
+  X402Challenge,
+  X402ChallengeBody,
+  PricingConfig,
+  MeteredPricing,
+  PassTerms,
+  PaymentProof,
+  StoredResponse,
+} from './types.js';
+
+export interface X402MiddlewareOptions {
+  /**
+   * Verifier instance — validates payment proofs. Verifiers resolving a bare
+   * boolean are still accepted and wrapped with `toResultVerifier`.
+   */
+  verifier: VerifierInterface | BooleanVerifierInterface;
+  /**
+   * Per-network verifiers for routes that accept several payment options.
+   * A proof is verified by the entry for the network it paid on, falling
+   * back to `verifier`.
+   */
+  verifiers?: Record<string, VerifierInterface | BooleanVerifierInterface>;
+  /**
+   * Idempotency store (defaults to in-memory). Synchronous stores are
+   * still accepted and wrapped with `toAsyncIdempotencyStore`.
+   */
+  idempotencyStore?: IdempotencyStore | SyncIdempotencyStore;
+  /**
+   * Default challenge TTL in seconds if not set per route.
+   * Default: 300 (5 minutes).
+   */
+  defaultTtlSeconds?: number;
+  /**
+   * Optional receipt store — if provided, successful payments are recorded
+   * and a GET /x402/receipts/:nonce route is served.
+   */
+  receiptStore?: ReceiptStore | SyncReceiptStore;
+  /**
+   * Authorizes the receipt admin routes of the Fastify plugin — GET
+   * /x402/receipts (paginated listing), /x402/receipts/totals and
+   * /x402/receipts/export (CSV or NDJSON). Without it those routes are not
+   * served. Requires a receipt store implementing `list()`.
+   */
+  receiptsAuth?: (request: GateRequest) => boolean | Promise<boolean>;
+  /**
+   * Signs the receipt of every paid request (`createReceiptSigner`) into
+   * an `X-Payment-Receipt` header, and serves the public keys at GET
+   * /.well-known/jwks.json so clients can verify receipts offline.
+   */
+  receiptSigner?: ReceiptSigner;
+  /**
+   * Store of issued challenges (defaults to in-memory). Proofs are only
+   * accepted for nonces this server actually issued, for the same request
+   * and pricing, with an unchanged expiresAt.
+   */
+  challengeStore?: ChallengeStore;
+  /**
+   * Signs every issued challenge (`challengeToken`) and requires proofs to
+   * echo a genuine token — lets stateless nodes validate proofs without
+   * sharing memory. When set, no default challenge store is used; pass
+   * `challengeStore` explicitly to enforce both.
+   */
+  challengeSigner?: ChallengeSigner;
+  /**
+   * Replay-protection store (defaults to in-memory). Supply a shared
+   * backend so used nonces survive restarts and are seen by every node.
+   */
+  nonceStore?: NonceStore;
+  wireFormat?: WireFormat;
+  /**
+   * Void the payment when the paid handler fails: 'error' (handler threw),
+   * '5xx' (status >= 500, including thrown errors) or a predicate. Off by
+   * default — a verified payment is final.
+   */
+  refundOn?: RefundPolicy;
+  /**
+   * Sends voided payments back to the payer. Without one, voided payments
+   * only release their nonce so the same proof can be retried.
+   */
+  refunder?: Refunder;
+  /**
+   * Enable prepaid sessions: clients buy credit at POST /x402/sessions and
+   * spend it on priced routes with `Authorization: Bearer <token>`.
+   */
+  sessions?: SessionOptions;
+  /**
+   * Enable passes: routes whose pricing sets `passes` mint signed pass
+   * tokens, and priced routes accept `X-402-Pass` in place of a proof.
+   */
+  passes?: PassOptions;
+  /**
+   * Decide per priced request whether the caller pays: 'free' serves it
+   * without a challenge, 'charge' runs the usual flow, `{ pricing }` charges
+   * different pricing. See `freeTierPolicy` for the built-in free tier.
+   */
+  accessPolicy?: AccessPolicy;
+  /**
+   * Per-payer paid-call counts for routes with volume `tiers` (defaults to
+   * in-memory). Supply a shared backend so tiers hold across nodes.
+   */
+  usageStore?: UsageStore;
+  /**
+   * Records every x402:challenge, x402:payment and x402:error event in a
+   * tamper-evident, hash-chained log (`AuditLog`). Check it with
+   * `verifyAuditLog` or the `x402-audit-verify` CLI.
+   */
+  auditLog?: AuditSink;
+}
+
+/** A priced request, as the gate sees it. */
+export interface GateRequest {
+  /** HTTP method, e.g. "GET" */
+  method: string;
+  /** Path and query string, e.g. "/weather?city=SF" */
+  url: string;
+  /** Lower-case header names */
+  headers: Record<string, string | string[] | undefined>;
+  /** Raw body bytes exactly as received (empty for GET) */
+  rawBody: Uint8Array;
+  /** Client address, for events */
+  ip: string;
+}
+
+/** A response the adapter should send (or has produced). */
+export interface GateResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  /** JSON-serializable value, or an already-serialized string */
+  body: unknown;
+}
+
+/** Payment accepted — run the handler. */
+export interface GateProceed {
+  type: 'proceed';
+  /**
+   * True when `onResponse` needs the response body (the request carried
+   * an idempotency key); adapters may skip buffering it otherwise.
+   */
+  storesResponse: boolean;
+  /** Headers to add to the handler's response (e.g. remaining session balance) */
+  headers: Record<string, string>;
+  /** Receipt of the payment (a proof, a pass, a debit from a session, or a free call) */
+  receipt: Receipt;
+  /** The session after the debit, when the request was paid from one */
+  session?: Session;
+  /** The pass that paid for the request, when it was paid with one */
+  pass?: PassClaims;
+  /** The pass this request bought, on routes that sell passes */
+  mintedPass?: MintedPass;
+  /**
+   * Report usage on a metered route (whole units, cumulative). The charge
+   * is settled from the total once `onComplete` runs. Throws on routes
+   * without metered pricing.
+   */
+  meter(units: number): void;
+  /**
+   * Call with the handler's response (and the error it threw, if any)
+   * before sending it. Persists the response for idempotent replay when the
+   * request carried a key, unless the refund policy voids the payment.
+   */
+  onResponse(response: GateResponse, error?: unknown): Promise<void>;
+  /**
+   * Call once the response has been sent (for streams: once the stream has
+   * ended). Voids and refunds the payment when `onResponse` saw an outcome
+   * matching `refundOn`; otherwise settles a metered charge.
+   */
+  onComplete(): Promise<void>;
+}
+
+export type GateDecision =
+  | {
+      /** Answer the request with `response`; do not run the handler. */
+      type: 'respond';
+      response: GateResponse;
+    }
+  | GateProceed;
+
+type GateRespond = Exclude<GateDecision, GateProceed>;
+
+/** What a gate offers besides per-call payment (see the discovery manifest). */
+export interface X402Capabilities {
+  /** Receipts are kept and served at GET /x402/receipts/:nonce */
+  receipts: boolean;
+  /** Paid requests honor `Idempotency-Key` */
+  idempotency: boolean;
+  /** Prepaid sessions are sold at /x402/sessions */
+  sessions: boolean;
+  /** Priced routes accept `X-402-Pass` */
+  passes: boolean;
+  /** HEAD on a priced route answers with its price */
+  quotes: boolean;
+  /** Paid responses carry a signed receipt in `X-Payment-Receipt` */
+  signedReceipts: boolean;
+}
+
+export interface PaymentGate {
+  /**
+   * Emits x402:challenge, x402:payment, x402:error, x402:refund,
+   * x402:session, x402:meter, x402:pass and x402:free
+   */
+  readonly events: X402EventEmitter;
+  /** Receipt store serving GET /x402/receipts/:nonce (when configured) */
+  readonly receiptStore?: ReceiptStore;
+  /** Signs receipts and publishes their keys (when configured) */
+  readonly receiptSigner?: ReceiptSigner;
+  /** Session store, when prepaid sessions are enabled */
+  readonly sessionStore?: SessionStore;
+  /** Challenge wire format(s) the gate answers with */
+  readonly wireFormat: WireFormat;
+  readonly capabilities: X402Capabilities;
+  /**
+   * Run the gate for one request to a route priced at `pricing`. HEAD
+   * requests are answered with the route's quote headers and never run
+   * the handler.
+   */
+  handle(request: GateRequest, pricing: PricingConfig): Promise<GateDecision>;
+  /**
+   * The price a challenge for `request` would ask, including its volume
+   * tier and coupon. Issues no challenge and never asks the access policy.
+   */
+  quote(request: GateRequest, pricing: PricingConfig): Promise<PriceQuote>;
+  /**
+   * Serve the sessions endpoint: POST buys credit (or tops up the session
+   * named by the bearer token), GET reports the bearer session's balance.
+   */
+  handleSession(request: GateRequest): Promise<GateResponse>;
+}
+
+/** Per-request state shared by the proof and session paths. */
+interface PaidRequest {
+  request: GateRequest;
+  pathname: string;
+  requestHash: string;
+  idempotencyKey?: string;
+  /** How the request's price was discounted, if it was */
+  discount?: Discount;
+}
+
+/** What a payment path hands `proceed`: its receipt and how to take money back. */
+interface Settlement {
+  receipt: Receipt;
+  /** Headers to add to the handler's response */
+  headers: Record<string, string>;
+  session?: Session;
+  pass?: PassClaims;
+  mintedPass?: MintedPass;
+  /** The paid option's metered pricing, if any */
+  metered?: MeteredPricing;
+  /** Void the whole payment — the refund policy matched. */
+  onVoid(statusCode: number, error: unknown): Promise<void>;
+  /** Hand back the unused remainder of a metered authorization. */
+  onRemainder(remainder: string): Promise<RefundResult | undefined>;
+}
+
+const RETRY_HINT = 'Obtain a fresh challenge by calling this endpoint without X-Payment-Proof';
+
+/** Decode a base64url JSON proof header; returns null if it is malformed. */
+function decodeProof(proofHeader: string): Partial<PaymentProof> | null {
+  try {
+    const proof = decodeJsonBase64(proofHeader);
+    return proof !== null && typeof proof === 'object' ? (proof as Partial<PaymentProof>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when an issued challenge was minted for this exact request and price
+ * (every payment option), and the proof carries the nonce and expiresAt the
+ * server issued.
+ */
+function matchesIssuedChallenge(
+  issued: ChallengeTokenClaims,
+  proof: Partial<PaymentProof>,
+  requestHash: string,
+  pricing: PricingConfig,
+): boolean {
+  const issuedOptions = issued.accepts ?? [toChallengeOption(issued as PricingConfig)];
+  return (
+    issued.nonce === proof.nonce &&
+    issued.requestHash === requestHash &&
+    issued.expiresAt === proof.expiresAt &&
+    sameChallengeOptions(issuedOptions, expandPaymentOptions(pricing).map(toChallengeOption))
+  );
+}
+
+function respond(statusCode: number, body: unknown, headers: Record<string, string> = {}): GateRespond {
+  return { type: 'respond', response: { statusCode, headers, body } };
+}
+
+/** Receipt fields recording a discount, for payment options priced by it. */
+function discountFields(
+  discount: Discount | undefined,
+  option: PricingConfig,
+  pricing: PricingConfig,
+): Pick<Receipt, 'originalPrice' | 'coupon'> {
+  if (!discount || option.price !== pricing.price) return {};
+  return { originalPrice: discount.originalPrice, ...(discount.coupon ? { coupon: discount.coupon } : {}) };
+}
+
+/** A session as reported by GET /x402/sessions and events, without its token. */
+function describeSession(session: Session): Omit<Session, 'token'> {
+  const { id, balance, asset, network, recipient, payer, createdAt, expiresAt } = session;
+  return { id, balance, asset, network, recipient, payer, createdAt, expiresAt };
+}
+
+/**
+ * Create a payment gate. One gate should serve every priced route of a
+ * server so they share stores and events.
+ */
+export function createPaymentGate(options: X402MiddlewareOptions): PaymentGate {
+  const idempotencyStore = toAsyncIdempotencyStore(
+    options.idempotencyStore ?? new MemoryIdempotencyStore(),
+  );
+  const defaultTtl = options.defaultTtlSeconds ?? 300;
+  const receiptStore = options.receiptStore && toAsyncReceiptStore(options.receiptStore);
+  const receiptSigner = options.receiptSigner;
+  const nonceStore = options.nonceStore ?? new MemoryNonceStore();
+  const challengeSigner = options.challengeSigner;
+  const challengeStore = options.challengeStore
+    ?? (challengeSigner ? undefined : new MemoryChallengeStore());
+  const wireFormat: WireFormat = options.wireFormat ?? 'toolkit';
+  const defaultVerifier = toResultVerifier(options.verifier);
+  const networkVerifiers = new Map(
+    Object.entries(options.verifiers ?? {}).map(([network, v]) => [network, toResultVerifier(v)]),
+  );
+
+  const refundOn = options.refundOn;
+  const refunder = options.refunder;
+
+  const sessionPricing = options.sessions?.pricing;
+  const sessionStore = options.sessions && (options.sessions.store ?? new MemorySessionStore());
+  const sessionTtl = options.sessions?.ttlSeconds ?? 3600;
+
+  const passSigner = options.passes?.signer;
+  const passStore = options.passes && (options.passes.store ?? new MemoryPassStore());
+
+  const accessPolicy = options.accessPolicy;
+  const usageStore = options.usageStore ?? new MemoryUsageStore();
+
+  const emitter = new X402EventEmitter();
+  options.auditLog?.attach(emitter);
+
+  const requestInfo = (request: GateRequest): RequestInfo => ({
+    method: request.method,
+    url: request.url,
+    ip: request.ip,
+  });
+
+  const emitError = (
+    reason: X402ErrorReason,
+    pricing: PricingConfig,
+    request: GateRequest,
+    extra: Record<string, unknown> = {},
+  ) => {
+    if (emitter.listenerCount('x402:error') > 0) {
+      emitter.emit('x402:error', {
+        reason,
+        pricing,
+        ...extra,
+        request: requestInfo(request),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+
+  // Resolve the challenge a proof claims to answer: from its signed token
+  // when a signer is configured, and from the store when one is in use.
+  const lookupIssuedChallenge = async (
+    proof: Partial<PaymentProof>,
+  ): Promise<ChallengeTokenClaims | undefined> => {
+    if (!proof.nonce) return undefined;
+    let issued: ChallengeTokenClaims | undefined;
+    if (challengeSigner) {
+      if (!proof.challengeToken) return undefined;
+      issued = (await challengeSigner.verify(proof.challengeToken)) ?? undefined;
+      if (!issued) return undefined;
+    }
+    if (challengeStore) {
+      issued = await challengeStore.get(proof.nonce);
+    }
+    return issued;
+  };
+
+  const emitSession = (
+    action: X402SessionEvent['action'],
+    session: Session,
+    amount: string,
+    request: GateRequest,
+  ) => {
+    if (emitter.listenerCount('x402:session') > 0) {
+      try {
+        emitter.emit('x402:session', {
+          action,
+          session: describeSession(session),
+          amount,
+          request: requestInfo(request),
+          timestamp: new Date().toISOString(),
+        });
+      } catch {
+        // Non-critical — event emission failure should not block the response.
+      }
+    }
+  };
+
+  const emitPass = (
+    action: X402PassEvent['action'],
+    pass: PassClaims,
+    used: number,
+    request: GateRequest,
+  ) => {
+    if (emitter.listenerCount('x402:pass') > 0) {
+      try {
+        emitter.emit('x402:pass', {
+          action,
+          pass,
+          used,
+          request: requestInfo(request),
+          timestamp: new Date().toISOString(),
+        });
+      } catch {
+        // Non-critical — event emission failure should not block the response.
+      }
+    }
+  };
+
+  const saveReceipt = async (receipt: Receipt) => {
+    if (!receiptStore) return;
+    try {
+      await receiptStore.save(receipt);
+    } catch {
+      // Non-critical — receipt saving failure should not block the response.
+    }
+  };
+
+  // Ask the refunder (if any) to send `amount` — by default the whole
+  // payment — back to the payer. Failures are reported, never thrown.
+  const sendRefund = async (receipt: Receipt, amount?: string): Promise<RefundResult | undefined> => {
+    if (!refunder) return undefined;
+    try {
+      return await refunder.refund(receipt, amount);
+    } catch (err) {
+      return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  };
+
+  // Void a paid request whose handler failed: refund it when a refunder is
+  // configured, otherwise release the nonce so the same proof can be retried.
+  const voidPayment = async (
+    request: GateRequest,
+    receipt: Receipt,
+    statusCode: number,
+    error: unknown,
+  ): Promise<void> => {
+    const voided: Receipt = { ...receipt, voidedAt: new Date().toISOString() };
+
+    const refund = await sendRefund(receipt);
+    if (refund?.ok && refund.txRef) voided.refundTxRef = refund.txRef;
+
+    let nonceReleased = false;
+    if (!refund?.ok && nonceStore.release) {
+      try {
+        await nonceStore.release(receipt.nonce);
+        nonceReleased = true;
+      } catch {
+        // Non-critical — the proof simply stays spent.
+      }
+    }
+
+    await saveReceipt(voided);
+
+    if (emitter.listenerCount('x402:refund') > 0) {
+      try {
+        emitter.emit('x402:refund', {
+          receipt: voided,
+          statusCode,
+          ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+          ...(refund ? { refund } : {}),
+          nonceReleased,
+          request: requestInfo(request),
+          timestamp: new Date().toISOString(),
+        });
+      } catch {
+        // Non-critical — event emission failure should not block the refund.
+      }
+    }
+  };
+
+  // Void a request paid from a session: the debit goes back to the session.
+  const voidSessionDebit = async (request: GateRequest, token: string, receipt: Receipt): Promise<void> => {
+    if (!sessionStore) return;
+    await saveReceipt({ ...receipt, voidedAt: new Date().toISOString() });
+    const session = await sessionStore.credit(token, receipt.amount);
+    if (session) emitSession('refund', session, receipt.amount, request);
+  };
+
+  // Count a paid call towards the volume tier of the payer it was priced for.
+  const countUsage = async (paid: PaidRequest): Promise<void> => {
+    if (!paid.discount?.payer) return;
+    try {
+      await usageStore.increment(paid.discount.payer);
+    } catch {
+      // Non-critical — the call is simply not counted.
+    }
+  };
+
+  // Settle a metered request once its response has been sent: record the
+  // actual charge on the receipt and hand the unused remainder back.
+  const settleMetered = async (
+    request: GateRequest,
+    receipt: Receipt,
+    metered: MeteredPricing,
+    units: number,
+    onRemainder: Settlement['onRemainder'],
+  ): Promise<void> => {
+    const usage = multiplyDecimal(metered.unitPrice, units);
+    const charged = compareDecimal(usage, receipt.amount) < 0 ? usage : receipt.amount;
+    const remainder = subtractDecimal(receipt.amount, charged);
+    const settled: Receipt = { ...receipt, units, charged, remainder };
+
+    let refund: RefundResult | undefined;
+    if (compareDecimal(remainder, '0') > 0) {
+      try {
+        refund = await onRemainder(remainder);
+      } catch (err) {
+        refund = { ok: false, message: err instanceof Error ? err.message : String(err) };
+      }
+      if (refund?.ok && refund.txRef) settled.refundTxRef = refund.txRef;
+    }
+    // Saved once, after the remainder went back, so a receipt showing the
+    // charge is final.
+    await saveReceipt(settled);
+
+    if (emitter.listenerCount('x402:meter') > 0) {
+      try {
+        emitter.emit('x402:meter', {
+          receipt: settled,
+          ...(refund ? { refund } : {}),
+          request: requestInfo(request),
+          timestamp: new Date().toISOString(),
+        });
+      } catch {
+        // Non-critical — event emission failure should not block settlement.
+      }
+    }
+  };
+
+  const issueChallenge = async (paid: PaidRequest, pricing: PricingConfig): Promise<GateRespond> => {
+    const { request, pathname, requestHash, discount } = paid;
+    const ttl = pricing.ttlSeconds ?? defaultTtl;
+    const nonce = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+
+    const challenge: X402Challenge = {
+      version: 1,
+      scheme: pricing.scheme ?? 'exact',
+      price: pricing.price,
+      asset: pricing.asset,
+      network: pricing.network ?? 'mock',
+      recipient: pricing.recipient,
+      nonce,
+      expiresAt,
+      requestHash,
+      description: pricing.description,
+    };
+    if (pricing.metered) challenge.metered = { ...pricing.metered };
+    if (discount && discount.originalPrice !== pricing.price) challenge.originalPrice = discount.originalPrice;
+    const paymentOptions = expandPaymentOptions(pricing);
+    if (paymentOptions.length > 1) {
+      challenge.accepts = paymentOptions.map(toChallengeOption);
+    }
+    if (challengeSigner) {
+      challenge.challengeToken = await challengeSigner.sign({
+        nonce: challenge.nonce,
+        requestHash: challenge.requestHash,
+        price: challenge.price,
+        asset: challenge.asset,
+        network: challenge.network,
+        recipient: challenge.recipient,
+        scheme: challenge.scheme,
+        expiresAt: challenge.expiresAt,
+        ...(challenge.accepts ? { accepts: challenge.accepts } : {}),
+      });
+    }
+    if (challengeStore) await challengeStore.save(challenge);
+
+    if (emitter.listenerCount('x402:challenge') > 0) {
+      emitter.emit('x402:challenge', {
+        challenge,
+        request: requestInfo(request),
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const headers: Record<string, string> = {};
+    if (sessionStore) headers['x-402-session-endpoint'] = SESSIONS_PATH;
+    if (wireFormat === 'coinbase' || wireFormat === 'dual') {
+      const assetDecimals = paymentOptions.map((option) => option.assetDecimals ?? 6);
+      const paymentRequired = challengeToPaymentRequired(challenge, pathname, assetDecimals);
+      headers['payment-required'] = encodeJsonBase64(paymentRequired);
+    }
+
+    if (wireFormat === 'toolkit' || wireFormat === 'dual') {
+      const body: X402ChallengeBody = { x402: challenge };
+      return respond(402, body, headers);
+    }
+    return respond(402, { error: 'Payment Required' }, headers);
+  };
+
+
+  // Resolve what every paid request needs; answers idempotent replays and
+  // key conflicts directly.
+  const prepare = async (request: GateRequest): Promise<PaidRequest | GateRespond> => {
+    // Parse URL components for canonical hashing.
+    const url = new URL(request.url, 'http://localhost');
+    const requestHash = await computeRequestHashAsync(
+      request.method,
+      url.pathname,
+      url.search.replace(/^\?/, ''),
+      request.rawBody,
+    );
+
+    // ── Idempotency check ────────────────────────────────────────────────
+    const idempotencyHeader = request.headers['idempotency-key'];
+    const idempotencyKey = Array.isArray(idempotencyHeader) ? idempotencyHeader[0] : idempotencyHeader;
+    if (idempotencyKey) {
+      const stored = await idempotencyStore.get(idempotencyKey);
+      if (stored) {
+        if (stored.requestHash === requestHash) {
+          // Same key + same request → replay stored response; no new charge.
+          return respond(stored.statusCode, stored.body, { ...stored.headers, 'x-idempotent-replay': 'true' });
+        }
+        // Same key, different request → 409 Conflict.
+        return respond(409, {
+          error: 'Idempotency key reused with a different request',
+          idempotencyKey,
+        });
+      }
+    }
+
+    return { request, pathname: url.pathname, requestHash, idempotencyKey };
+  };
+
+  // The proceed decision shared by both payment paths. Once the response is
+  // sent, `onVoid` runs when the refund policy matched; otherwise a metered
+  // request is settled.
+  const proceed = async (paid: PaidRequest, settlement: Settlement): Promise<GateProceed> => {
+    const { request, requestHash, idempotencyKey } = paid;
+    const { receipt, session, pass, mintedPass, metered, onVoid, onRemainder } = settlement;
+    const headers = { ...settlement.headers };
+    // Metered responses point at their receipt, which records the actual
+    // charge once the response has completed.
+    if (metered && receiptStore) {
+      headers['x-402-receipt'] = `/x402/receipts/${encodeURIComponent(receipt.nonce)}`;
+    }
+    if (receiptSigner) headers[RECEIPT_HEADER] = await receiptSigner.sign(receipt);
+    let voidOutcome: { statusCode: number; error: unknown } | undefined;
+    let units = 0;
+    let completed = false;
+    return {
+      type: 'proceed',
+      storesResponse: Boolean(idempotencyKey),
+      headers,
+      receipt,
+      ...(session ? { session } : {}),
+      ...(pass ? { pass } : {}),
+      ...(mintedPass ? { mintedPass } : {}),
+      meter(count) {
+        if (!metered) throw new Error('x402: meter() called on a route without metered pricing');
+        if (completed) throw new Error('x402: meter() called after the response was settled');
+        if (!Number.isSafeInteger(count) || count < 0) {
+          throw new RangeError(`x402: meter() expects a whole number of units, got ${count}`);
+        }
+        units += count;
+      },
+      // Awaited before the response goes out so the stored response exists
+      // before the client can see (and retry) this one.
+      async onResponse(response, error) {
+        const outcome = { statusCode: response.statusCode, error, receipt };
+        if (refundOn && shouldRefund(refundOn, outcome)) {
+          // The payment will be voided — let the client retry rather than
+          // replaying the failure.
+          voidOutcome = { statusCode: response.statusCode, error };
+          return;
+        }
+        if (!idempotencyKey) return;
+        const stored: StoredResponse = {
+          requestHash,
+          statusCode: response.statusCode,
+          body: response.body,
+          headers: { ...response.headers, ...headers },
+        };
+        await idempotencyStore.set(idempotencyKey, stored);
+      },
+      async onComplete() {
+        if (completed) return;
+        completed = true;
+        if (voidOutcome) {
+          await onVoid(voidOutcome.statusCode, voidOutcome.error);
+          return;
+        }
+        if (metered) await settleMetered(request, receipt, metered, units, onRemainder);
+      },
+    };
+  };
+
+  // Pay with an x402 proof, or issue a challenge when there is none.
+  const payWithProof = async (
+    paid: PaidRequest,
+    pricing: PricingConfig,
+  ): Promise<GateRespond | GateProceed> => {
+    const { request, pathname, requestHash } = paid;
+
+    // ── Payment proof check ───────────────────────────────────────────────
+    const extracted = extractProofHeader(request.headers);
+    if (!extracted) {
+      // No proof — issue a 402 challenge.
+      return issueChallenge(paid, pricing);
+    }
+
+    // Proof is present — normalize Coinbase proofs, then check it answers
+    // a challenge this server issued before handing it to the verifier.
+    const normalizedProof = extracted.format === 'coinbase'
+      ? coinbasePayloadToProofHeader(extracted.proof)
+      : extracted.proof;
+
+    const claimed = decodeProof(normalizedProof);
+    const issued = claimed ? await lookupIssuedChallenge(claimed) : undefined;
+    if (!claimed || !issued) {
+      emitError('unknown_challenge', pricing, request);
+      return respond(402, { error: 'Unknown payment challenge', hint: RETRY_HINT });
+    }
+    const option = selectPaymentOption(pricing, claimed);
+    if (!option || !matchesIssuedChallenge(issued, claimed, requestHash, pricing)) {
+      emitError('challenge_mismatch', pricing, request);
+      return respond(402, { error: 'Payment proof does not match the issued challenge', hint: RETRY_HINT });
+    }
+
+    // Verify against the option the proof paid with, on that network's verifier.
+    const verifier = networkVerifiers.get(option.network ?? 'mock') ?? defaultVerifier;
+    const verification = await verifier.verify(normalizedProof, requestHash, option);
+    if (!verification.ok) {
+      emitError('invalid_proof', option, request, { verification });
+      return respond(402, {
+        error: 'Invalid or expired payment proof',
+        reason: verification.reason ?? 'unspecified',
+        ...(verification.message ? { detail: verification.message } : {}),
+        hint: RETRY_HINT,
+      });
+    }
+
+    // A tier chosen for a named payer is only theirs to pay.
+    const payer = verification.payer ?? claimed.payer ?? 'unknown';
+    if (paid.discount?.payer && payer !== paid.discount.payer) {
+      emitError('payer_mismatch', option, request);
+      return respond(402, { error: 'Payment does not come from the payer named in X-402-Payer', hint: RETRY_HINT });
+    }
+
+    // ── Replay protection: claim the nonce ───────────────────────────────
+    // Keep the claim until the challenge expiry + 60s grace; after that the
+    // verifier's own expiry check rejects the proof anyway.
+    const nonceExpiresAt = new Date(issued.expiresAt).getTime() + 60_000;
+    if (!(await nonceStore.claim(issued.nonce, nonceExpiresAt))) {
+      emitError('nonce_replay', option, request);
+      return respond(402, { error: 'Nonce already used (replay detected)' });
+    }
+
+    const paidReceipt: X402PaymentEvent['receipt'] = {
+      nonce: issued.nonce,
+      payer,
+      amount: option.price,
+      asset: option.asset,
+      network: option.network ?? 'mock',
+      recipient: option.recipient,
+      endpoint: pathname,
+      method: request.method,
+      requestHash,
+      ...(verification.settledAmount ? { settledAmount: verification.settledAmount } : {}),
+      ...(verification.txRef ? { txRef: verification.txRef } : {}),
+    };
+    const receipt: Receipt = {
+      ...paidReceipt,
+      paidAt: new Date().toISOString(),
+      ...(typeof claimed.timestamp === 'string' ? { proofTimestamp: claimed.timestamp } : {}),
+      ...discountFields(paid.discount, option, pricing),
+    };
+
+    // ── Save receipt ────────────────────────────────────────────────────
+    await saveReceipt(receipt);
+    await countUsage(paid);
+
+    // ── Emit payment event ─────────────────────────────────────────────
+    if (emitter.listenerCount('x402:payment') > 0) {
+      try {
+        emitter.emit('x402:payment', {
+          receipt: paidReceipt,
+          request: requestInfo(request),
+          timestamp: new Date().toISOString(),
+        });
+      } catch {
+        // Non-critical — event emission failure should not block the response.
+      }
+    }
+
+    const minted = option.passes && passSigner
+      ? await mintPass(passSigner, option.passes, receipt, request)
+      : undefined;
+
+    return proceed(paid, {
+      receipt,
+      headers: {
+        ...paymentResponseHeaders(receipt, wireFormat),
+        ...(minted ? { 'x-402-pass': minted.token, ...passHeaders(minted.pass, 0) } : {}),
+      },
+      ...(minted ? { mintedPass: minted } : {}),
+      metered: option.metered,
+      async onVoid(statusCode, error) {
+        // A voided purchase must not leave a working pass behind.
+        if (minted && passStore) {
+          await passStore.revoke(minted.pass.id, minted.pass.expiresAt);
+          emitPass('revoke', minted.pass, 0, request);
+        }
+        await voidPayment(request, receipt, statusCode, error);
+      },
+      onRemainder: (remainder) => sendRefund(receipt, remainder),
+    });
+  };
+
+  // Mint the pass a paid request to a pass-selling route bought.
+  const mintPass = async (
+    signer: PassSigner,
+    terms: PassTerms,
+    receipt: Receipt,
+    request: GateRequest,
+  ): Promise<MintedPass> => {
+    const issuedAt = new Date();
+    const pass: PassClaims = {
+      id: crypto.randomUUID(),
+      scope: terms.scope,
+      ...(terms.maxCalls !== undefined ? { maxCalls: terms.maxCalls } : {}),
+      payer: receipt.payer,
+      purchaseNonce: receipt.nonce,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: new Date(issuedAt.getTime() + terms.ttlSeconds * 1000).toISOString(),
+    };
+    const token = await signer.sign(pass);
+    emitPass('mint', pass, 0, request);
+    return { token, pass };
+  };
+
+  // Pay with a pass. A pass that is not genuine, has expired, does not
+  // cover this route or is used up gets the route's challenge, marked with
+  // the reason.
+  const payWithPass = async (
+    store: PassStore,
+    token: string,
+    paid: PaidRequest,
+    pricing: PricingConfig,
+  ): Promise<GateRespond | GateProceed> => {
+    const { request, pathname, requestHash } = paid;
+    const reject = async (reason: PassError): Promise<GateRespond> => {
+      const challenge = await issueChallenge(paid, pricing);
+      challenge.response.headers['x-402-pass-error'] = reason;
+      return challenge;
+    };
+
+    const pass = passSigner ? await passSigner.verify(token) : null;
+    if (!pass) return reject('invalid_pass');
+    if (Date.now() > new Date(pass.expiresAt).getTime()) return reject('expired_pass');
+    if (!passCovers(pass.scope, pathname)) return reject('out_of_scope');
+    const use = await store.use(pass);
+    if (!use.ok) return reject(use.reason);
+
+    // The pass was paid for up front; the call itself is recorded at zero.
+    const option = expandPaymentOptions(pricing)[0];
+    const receipt: Receipt = {
+      nonce: crypto.randomUUID(),
+      payer: pass.payer,
+      amount: '0',
+      asset: option.asset,
+      network: option.network ?? 'mock',
+      recipient: option.recipient,
+      endpoint: pathname,
+      method: request.method,
+      requestHash,
+      paidAt: new Date().toISOString(),
+      passId: pass.id,
+    };
+    await saveReceipt(receipt);
+    emitPass('use', pass, use.used, request);
+
+    return proceed(paid, {
+      receipt,
+      headers: passHeaders(pass, use.used),
+      pass,
+      metered: option.metered,
+      async onVoid() {
+        await saveReceipt({ ...receipt, voidedAt: new Date().toISOString() });
+        await store.release(pass.id);
+        emitPass('release', pass, use.used - 1, request);
+      },
+      onRemainder: async () => undefined,
+    });
+  };
+
+  // Serve a request the access policy let through for free. Nothing was
+  // paid, so there is nothing to void or refund; the call is recorded at zero.
+  const grantFree = async (paid: PaidRequest, pricing: PricingConfig): Promise<GateProceed> => {
+    const { request, pathname, requestHash } = paid;
+    const option = expandPaymentOptions(pricing)[0];
+    const receipt: Receipt = {
+      nonce: crypto.randomUUID(),
+      payer: 'unknown',
+      amount: '0',
+      asset: option.asset,
+      network: option.network ?? 'mock',
+      recipient: option.recipient,
+      endpoint: pathname,
+      method: request.method,
+      requestHash,
+      paidAt: new Date().toISOString(),
+      free: true,
+    };
+    await saveReceipt(receipt);
+
+    if (emitter.listenerCount('x402:free') > 0) {
+      try {
+        emitter.emit('x402:free', {
+          receipt,
+          request: requestInfo(request),
+          timestamp: new Date().toISOString(),
+        });
+      } catch {
+        // Non-critical — event emission failure should not block the response.
+      }
+    }
+
+    return proceed(paid, {
+      receipt,
+      headers: {},
+      metered: option.metered,
+      async onVoid() {
+        await saveReceipt({ ...receipt, voidedAt: new Date().toISOString() });
+      },
+      onRemainder: async () => undefined,
+    });
+  };
+
+  // Pay from a prepaid session. A session that is unknown, cannot pay this
+  // route or runs short gets the route's challenge, marked with the reason.
+  const payFromSession = async (
+    store: SessionStore,
+    token: string,
+    paid: PaidRequest,
+    pricing: PricingConfig,
+  ): Promise<GateRespond | GateProceed> => {
+    const { request, pathname, requestHash } = paid;
+    const reject = async (reason: string, session?: Session): Promise<GateRespond> => {
+      const challenge = await issueChallenge(paid, pricing);
+      Object.assign(challenge.response.headers, {
+        'x-402-session-error': reason,
+        ...(session ? sessionHeaders(session) : {}),
+      });
+      return challenge;
+    };
+
+    const current = await store.get(token);
+    if (!current) return reject('unknown_session');
+    if (paid.discount?.payer && current.payer !== paid.discount.payer) return reject('payer_mismatch', current);
+    const option = sessionPaymentOption(expandPaymentOptions(pricing), current);
+    if (!option) return reject('unsupported_route', current);
+    const debit = await store.debit(token, option.price);
+    if (!debit.ok) return reject(debit.reason, 'session' in debit ? debit.session : undefined);
+
+    const { session } = debit;
+    const receipt: Receipt = {
+      nonce: crypto.randomUUID(),
+      payer: session.payer,
+      amount: option.price,
+      asset: session.asset,
+      network: session.network,
+      recipient: session.recipient,
+      endpoint: pathname,
+      method: request.method,
+      requestHash,
+      paidAt: new Date().toISOString(),
+      sessionId: session.id,
+      ...discountFields(paid.discount, option, pricing),
+    };
+    await saveReceipt(receipt);
+    await countUsage(paid);
+    emitSession('debit', session, option.price, request);
+
+    return proceed(paid, {
+      receipt,
+      headers: sessionHeaders(session),
+      session,
+      metered: option.metered,
+      onVoid: () => voidSessionDebit(request, token, receipt),
+      async onRemainder(remainder) {
+        const credited = await store.credit(token, remainder);
+        if (!credited) return { ok: false, message: 'Session expired before the remainder was returned' };
+        emitSession('refund', credited, remainder, request);
+        return { ok: true };
+      },
+    });
+  };
+
+  // Credit a paid purchase to the bearer's session, or open a new one.
+  const purchaseSession = async (
+    store: SessionStore,
+    request: GateRequest,
+    pricing: PricingConfig,
+  ): Promise<GateResponse> => {
+    const paid = await prepare(request);
+    if ('type' in paid) return paid.response;
+    const decision = await payWithProof(paid, pricing);
+    if (decision.type === 'respond') return decision.response;
+
+    const { receipt } = decision;
+    const amount = receipt.settledAmount ?? receipt.amount;
+    const expiresAt = new Date(Date.now() + sessionTtl * 1000).toISOString();
+
+    // Top up only a live session holding the same asset, network and recipient.
+    const token = readSessionToken(request.headers);
+    const existing = token ? await store.get(token) : undefined;
+    const topUp = existing
+      && existing.asset === receipt.asset
+      && existing.network === receipt.network
+      && existing.recipient === receipt.recipient;
+    let session = topUp && token ? await store.credit(token, amount, expiresAt) : undefined;
+    const action = session ? 'topup' : 'open';
+    if (!session) {
+      session = {
+        id: crypto.randomUUID(),
+        token: createSessionToken(),
+        balance: amount,
+        asset: receipt.asset,
+        network: receipt.network,
+        recipient: receipt.recipient,
+        payer: receipt.payer,
+        createdAt: new Date().toISOString(),
+        expiresAt,
+      };
+      await store.create(session);
+    }
+
+    const response: GateResponse = {
+      statusCode: action === 'open' ? 201 : 200,
+      headers: { ...decision.headers, ...sessionHeaders(session) },
+      body: { session },
+    };
+    await decision.onResponse(response);
+    await decision.onComplete();
+    emitSession(action, session, amount, request);
+    return response;
+  };
+
+  // Quote the price a challenge would ask — discounts apply, free calls do not.
+  const quote = async (request: GateRequest, pricing: PricingConfig): Promise<PriceQuote> => {
+    const discounted = await discountPricing(pricing, request.headers, usageStore);
+    return toPriceQuote(discounted.pricing, discounted.discount);
+  };
+
+  return {
+    events: emitter,
+    receiptStore,
+    receiptSigner,
+    sessionStore,
+    wireFormat,
+    capabilities: {
+      receipts: Boolean(receiptStore),
+      idempotency: true,
+      sessions: Boolean(sessionStore),
+      passes: Boolean(passStore),
+      quotes: true,
+      signedReceipts: Boolean(receiptSigner),
+    },
+
+    async handle(request, routePricing) {
+      if (request.method === 'HEAD') {
+        return respond(200, '', quoteHeaders(await quote(request, routePricing)));
+      }
+      const paid = await prepare(request);
+      if ('type' in paid) return paid;
+
+      // Asked after idempotent replays, so a replay never uses up free calls.
+      const access = accessPolicy ? await accessPolicy(request, routePricing) : 'charge';
+      const policyPricing = typeof access === 'object' ? access.pricing : routePricing;
+      if (policyPricing.passes && !passSigner) {
+        throw new Error('x402: route sells passes but the gate has no `passes` option');
+      }
+      if (access === 'free') return grantFree(paid, policyPricing);
+
+      // Tiers and coupons reprice the request before any payment path sees it.
+      const { pricing, discount } = await discountPricing(policyPricing, request.headers, usageStore);
+      const priced: PaidRequest = discount ? { ...paid, discount } : paid;
+
+      // A proof always wins; otherwise a pass, then a session bearer token pays.
+      const hasProof = Boolean(extractProofHeader(request.headers));
+      const passToken = passStore && !hasProof ? readPassToken(request.headers) : undefined;
+      if (passStore && passToken) return payWithPass(passStore, passToken, priced, pricing);
+      const token = sessionStore && !hasProof ? readSessionToken(request.headers) : undefined;
+      if (sessionStore && token) return payFromSession(sessionStore, token, priced, pricing);
+      return payWithProof(priced, pricing);
+    },
+
+    quote,
+
+    async handleSession(request) {
+      if (!sessionStore || !sessionPricing) {
+        return { statusCode: 404, headers: {}, body: { error: 'Sessions are not enabled' } };
+      }
+      if (request.method === 'POST') return purchaseSession(sessionStore, request, sessionPricing);
+      if (request.method !== 'GET') {
+        return { statusCode: 405, headers: { allow: 'GET, POST' }, body: { error: 'Method Not Allowed' } };
+      }
+
+      const token = readSessionToken(request.headers);
+      const session = token ? await sessionStore.get(token) : undefined;
+      if (!session) return { statusCode: 404, headers: {}, body: { error: 'Session not found' } };
+      return { statusCode: 200, headers: sessionHeaders(session), body: { session: describeSession(session) } };
+    },
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * String-based decimal arithmetic for prices and balances.
+ *
+ * Amounts stay decimal strings everywhere in the toolkit; these helpers
+ * scale them to bigints so sums and differences never pick up float error.
+ * Mirrors the helpers behind the client's BudgetTracker.
+ */
+
+function toParts(s: string): [bigint, number] {
+  const [intPart = '0', fracPart = ''] = s.split('.');
+  const scale = fracPart.length;
+  return [BigInt(intPart || '0') * 10n ** BigInt(scale) + BigInt(fracPart || '0'), scale];
+}
+
+function alignScale(a: string, b: string): [bigint, bigint, number] {
+  const [aVal, aScale] = toParts(a);
+  const [bVal, bScale] = toParts(b);
+  const maxScale = Math.max(aScale, bScale);
+  return [
+    aVal * 10n ** BigInt(maxScale - aScale),
+    bVal * 10n ** BigInt(maxScale - bScale),
+    maxScale,
+  ];
+}
+
+function bigintToDecimal(val: bigint, scale: number): string {
+  if (scale === 0) return val.toString();
+  const str = val.toString().padStart(scale + 1, '0');
+  const intPart = str.slice(0, str.length - scale);
+  const fracPart = str.slice(str.length - scale).replace(/0+$/, '');
+  return fracPart ? `${intPart}.${fracPart}` : intPart;
+}
+
+export function addDecimal(a: string, b: string): string {
+  const [aVal, bVal, scale] = alignScale(a, b);
+  return bigintToDecimal(aVal + bVal, scale);
+}
+
+/** a − b, floored at zero. */
+export function subtractDecimal(a: string, b: string): string {
+  const [aVal, bVal, scale] = alignScale(a, b);
+  const result = aVal - bVal;
+  if (result < 0n) return '0';
+  return bigintToDecimal(result, scale);
+}
+
+/** a × n for a whole number n ≥ 0. */
+export function multiplyDecimal(a: string, n: number): string {
+  const [aVal, scale] = toParts(a);
+  return bigintToDecimal(aVal * BigInt(n), scale);
+}
+
+/** a × percent / 100 for a whole number percent ≥ 0. */
+export function percentOfDecimal(a: string, percent: number): string {
+  const [aVal, scale] = toParts(a);
+  return bigintToDecimal(aVal * BigInt(percent), scale + 2);
+}
+
+/**
+ * `a` rounded up to at most `decimals` fractional digits, so a price never
+ * drops below what an asset with that many decimals can transfer.
+ */
+export function ceilDecimal(a: string, decimals: number): string {
+  const [aVal, scale] = toParts(a);
+  if (scale <= decimals) return bigintToDecimal(aVal, scale);
+  const unit = 10n ** BigInt(scale - decimals);
+  const units = aVal / unit + (aVal % unit === 0n ? 0n : 1n);
+  return bigintToDecimal(units, decimals);
+}
+
+export function compareDecimal(a: string, b: string): number {
+  const [aVal, bVal] = alignScale(a, b);
+  if (aVal < bVal) return -1;
+  if (aVal > bVal) return 1;
+  return 0;
+}
@@ -0,0 +1,156 @@
+/**
+ * x402 discounts — volume tiers per payer and coupon codes.
+ *
+ * A route whose pricing sets `tiers` charges by how many paid calls the
+ * payer has made so far, counted in a UsageStore. The payer is not known
+ * until a proof arrives, so callers name themselves when asking for the
+ * challenge:
+ *
+ *   X-402-Payer: <payer address>
+ *   X-402-Coupon: <code>
+ *
+ * The challenge asks for the discounted price (and reports `originalPrice`),
+ * so the discount is sealed into the challenge like any other price. The
+ * payment must then come from the payer named — otherwise the proof is
+ * rejected (`payer_mismatch`) — and receipts record `originalPrice` and the
+ * `coupon` used. Coupons apply after tiers; unknown codes are ignored.
+ *
+ * Tiers and coupons reprice the route's primary payment option, and the
+ * `options` that inherit its price. Options with a price of their own keep it.
+ * A discounted price is rounded up to the fewest `assetDecimals` among the
+ * options paying it, so it never falls below one base unit of the asset.
+ */
+import { ceilDecimal, percentOfDecimal, subtractDecimal } from './decimal.js';
+import type { Coupon, PriceTier, PricingConfig } from './types.js';
+
+/**
+ * Interface for per-payer usage backends. `increment` must be atomic per
+ * payer.
+ */
+export interface UsageStore {
+  /** Paid calls counted for `payer` so far. */
+  count(payer: string): Promise<number>;
+  /** Count one more paid call for `payer`; resolves the new total. */
+  increment(payer: string): Promise<number>;
+}
+
+/** Default in-memory usage store. Counts are per process and never reset. */
+export class MemoryUsageStore implements UsageStore {
+  private readonly store = new Map<string, number>();
+
+  async count(payer: string): Promise<number> {
+    return this.store.get(payer) ?? 0;
+  }
+
+  async increment(payer: string): Promise<number> {
+    const count = (this.store.get(payer) ?? 0) + 1;
+    this.store.set(payer, count);
+    return count;
+  }
+
+  /** Number of payers with counted calls. */
+  get size(): number {
+    return this.store.size;
+  }
+}
+
+/** How a request's price was discounted. */
+export interface Discount {
+  /** The route's undiscounted price */
+  originalPrice: string;
+  /** Payer the tier was chosen for; the payment must come from it */
+  payer?: string;
+  /** Discount code applied */
+  coupon?: string;
+}
+
+function readHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  const header = headers[name];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value?.trim() || undefined;
+}
+
+/** The payer named in `X-402-Payer`, if any. */
+export function readPayerHeader(headers: Record<string, string | string[] | undefined>): string | undefined {
+  return readHeader(headers, 'x-402-payer');
+}
+
+/** The discount code from `X-402-Coupon`, if any. */
+export function readCouponCode(headers: Record<string, string | string[] | undefined>): string | undefined {
+  return readHeader(headers, 'x-402-coupon');
+}
+
+/** The tier price of the next call after `used` paid calls. */
+export function tierPrice(tiers: PriceTier[], used: number): string | undefined {
+  return tiers.find((tier) => tier.upTo === undefined || used < tier.upTo)?.price ?? tiers.at(-1)?.price;
+}
+
+/**
+ * Throw on coupons the discount math cannot apply: `percentOff` must be a
+ * whole number from 0 to 100, `amountOff` a non-negative decimal string.
+ */
+export function validateCoupons(coupons: Record<string, Coupon>): void {
+  for (const [code, coupon] of Object.entries(coupons)) {
+    const { percentOff, amountOff } = coupon;
+    if (percentOff !== undefined && (!Number.isInteger(percentOff) || percentOff < 0 || percentOff > 100)) {
+      throw new RangeError(`x402: coupon "${code}" needs a whole-number percentOff from 0 to 100, got ${percentOff}`);
+    }
+    if (amountOff !== undefined && !/^\d+(\.\d+)?$/.test(amountOff)) {
+      throw new RangeError(`x402: coupon "${code}" needs amountOff as a decimal string, got ${String(amountOff)}`);
+    }
+  }
+}
+
+/** Fewest decimals among the payment options that take the route's price. */
+function priceDecimals(pricing: PricingConfig): number {
+  const inheriting = (pricing.options ?? []).filter((option) => option.price === undefined);
+  const decimals = inheriting.map((option) => option.assetDecimals ?? pricing.assetDecimals ?? 6);
+  return Math.min(pricing.assetDecimals ?? 6, ...decimals);
+}
+
+/** `price` with a coupon taken off, floored at zero. */
+export function applyCoupon(price: string, coupon: Coupon): string {
+  let discounted = price;
+  if (coupon.percentOff !== undefined) {
+    const percent = Math.min(Math.max(coupon.percentOff, 0), 100);
+    discounted = percentOfDecimal(discounted, 100 - percent);
+  }
+  if (coupon.amountOff !== undefined) discounted = subtractDecimal(discounted, coupon.amountOff);
+  return discounted;
+}
+
+/**
+ * Reprice a request by the payer's tier and the coupon it carries.
+ * Resolves the pricing unchanged (and no discount) when neither applies.
+ * Throws when the pricing's coupons are misconfigured (see `validateCoupons`).
+ */
+export async function discountPricing(
+  pricing: PricingConfig,
+  headers: Record<string, string | string[] | undefined>,
+  usage: UsageStore,
+): Promise<{ pricing: PricingConfig; discount?: Discount }> {
+  if (pricing.coupons) validateCoupons(pricing.coupons);
+  const payer = pricing.tiers?.length ? readPayerHeader(headers) : undefined;
+  const code = pricing.coupons ? readCouponCode(headers) : undefined;
+  const coupon = code !== undefined && Object.hasOwn(pricing.coupons ?? {}, code)
+    ? pricing.coupons?.[code]
+    : undefined;
+  if (!payer && !coupon) return { pricing };
+
+  let price = pricing.price;
+  if (payer && pricing.tiers) price = tierPrice(pricing.tiers, await usage.count(payer)) ?? price;
+  if (coupon) price = applyCoupon(price, coupon);
+  price = ceilDecimal(price, priceDecimals(pricing));
+
+  return {
+    pricing: { ...pricing, price },
+    discount: {
+      originalPrice: pricing.price,
+      ...(payer ? { payer } : {}),
+      ...(coupon ? { coupon: code } : {}),
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Runtime-neutral byte encoding helpers.
+ *
+ * The payment gate runs on Node, Bun, Deno and edge runtimes, so it avoids
+ * `Buffer` and uses TextEncoder / TextDecoder / btoa / atob instead. Output
+ * matches Buffer's `base64` and `base64url` (unpadded) encodings.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function utf8Encode(text: string): Uint8Array {
+  return encoder.encode(text);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, chunk) => n + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, '0');
+  return hex;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function encodeBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Decode standard or URL-safe base64, padded or not. Throws on invalid input. */
+export function decodeBase64(text: string): Uint8Array {
+  const normalized = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** JSON → UTF-8 → base64 (`url: true` for unpadded base64url). */
+export function encodeJsonBase64(value: unknown, url = false): string {
+  const bytes = utf8Encode(JSON.stringify(value));
+  return url ? encodeBase64Url(bytes) : encodeBase64(bytes);
+}
+
+/** base64 / base64url → UTF-8 → JSON. Throws on invalid input. */
+export function decodeJsonBase64(text: string): unknown {
+  return JSON.parse(utf8Decode(decodeBase64(text))) as unknown;
+}
@@ -1,5 +1,9 @@
 import { EventEmitter } from 'events';
-import type { X402Challenge, PricingConfig } from './types.js';
+import type { X402Challenge, PricingConfig, VerificationResult } from './types.js';
+import type { Receipt } from './receipts.js';
+import type { RefundResult } from './refunds.js';
+import type { Session } from './sessions.js';
+import type { PassClaims } from './passes.js';
 
 export interface RequestInfo {
   method: string;
@@ -24,16 +28,93 @@ export interface X402PaymentEvent {
     endpoint: string;
     method: string;
     requestHash: string;
+    settledAmount?: string;
+    txRef?: string;
   };
   request: RequestInfo;
   timestamp: string;
 }
 
-export type X402ErrorReason = 'invalid_proof' | 'nonce_replay';
+export type X402ErrorReason =
+  | 'invalid_proof'
+  | 'nonce_replay'
+  | 'unknown_challenge'
+  | 'challenge_mismatch'
+  | 'payer_mismatch';
 
 export interface X402ErrorEvent {
   reason: X402ErrorReason;
   pricing: PricingConfig;
+  /** The verifier's answer, for `invalid_proof` errors */
+  verification?: VerificationResult;
+  request: RequestInfo;
+  timestamp: string;
+}
+
+export interface X402RefundEvent {
+  /** The voided receipt (`voidedAt` set, `refundTxRef` when refunded) */
+  receipt: Receipt;
+  /** Status code the client received */
+  statusCode: number;
+  /** Message of the error the handler threw, if any */
+  error?: string;
+  /** The refunder's answer, when a refunder is configured */
+  refund?: RefundResult;
+  /** true when the nonce was released so the proof can be retried */
+  nonceReleased: boolean;
+  request: RequestInfo;
+  timestamp: string;
+}
+
+export interface X402SessionEvent {
+  /**
+   * open    a purchase opened a new session
+   * topup   a purchase added credit to an existing session
+   * debit   a priced request was paid from the session
+   * refund  a debit was credited back by the refund policy, or the
+   *         unused remainder of a metered debit was returned
+   */
+  action: 'open' | 'topup' | 'debit' | 'refund';
+  /** The session after the change, without its token */
+  session: Omit<Session, 'token'>;
+  /** Amount added or debited, as decimal string */
+  amount: string;
+  request: RequestInfo;
+  timestamp: string;
+}
+
+export interface X402PassEvent {
+  /**
+   * mint     a paid request to a pass-selling route minted a pass
+   * use      a priced request was paid with the pass
+   * release  a call was given back by the refund policy
+   * revoke   the pass purchase was voided by the refund policy
+   */
+  action: 'mint' | 'use' | 'release' | 'revoke';
+  /** The pass terms (never the token) */
+  pass: PassClaims;
+  /** Calls used so far */
+  used: number;
+  request: RequestInfo;
+  timestamp: string;
+}
+
+export interface X402MeterEvent {
+  /** The settled receipt (`units`, `charged` and `remainder` set) */
+  receipt: Receipt;
+  /**
+   * How the remainder went back: the refunder's answer for proof payments,
+   * `{ ok: true }` once credited back to a session. Absent when nothing was
+   * left over, or no refunder is configured.
+   */
+  refund?: RefundResult;
+  request: RequestInfo;
+  timestamp: string;
+}
+
+export interface X402FreeEvent {
+  /** The zero-amount receipt of the free call (`free: true`) */
+  receipt: Receipt;
   request: RequestInfo;
   timestamp: string;
 }
@@ -42,6 +123,11 @@ export interface X402EventMap {
   'x402:challenge': [event: X402ChallengeEvent];
   'x402:payment': [event: X402PaymentEvent];
   'x402:error': [event: X402ErrorEvent];
+  'x402:refund': [event: X402RefundEvent];
+  'x402:session': [event: X402SessionEvent];
+  'x402:meter': [event: X402MeterEvent];
+  'x402:pass': [event: X402PassEvent];
+  'x402:free': [event: X402FreeEvent];
 }
 
 export class X402EventEmitter extends EventEmitter<X402EventMap> {}
@@ -0,0 +1,105 @@
+/**
+ * createX402Express — Express / Connect middleware for x402 payment gating.
+ *
+ * Usage:
+ *   const x402 = createX402Express({ verifier, receiptStore });
+ *
+ *   app.use(express.json({ verify: captureRawBody }));
+ *   app.use(x402.receipts);
+ *   app.use(x402.sessions);        // with `sessions` enabled
+ *   app.get('/weather', x402.priced({ price: '0.001', asset: 'USDC', recipient: '0xABC' }), handler);
+ *   app.use(x402.captureErrors);   // only needed for refundOn: 'error'
+ *
+ * Body parsers must keep the raw bytes (`verify: captureRawBody`) so the
+ * request hash matches what the client signed; without a body parser the
+ * gate reads the body itself and leaves it on `req.rawBody`.
+ *
+ * Written against node:http types only, so `express` is not a dependency.
+ */
+import type { IncomingMessage, ServerResponse } from 'http';
+import { interceptResponse, runGate, serveReceipt, serveSession, toPaymentGate } from './node.js';
+import type { NodeRequest } from './node.js';
+import type { PaymentGate, X402MiddlewareOptions } from './core.js';
+import type { X402EventEmitter } from './events.js';
+import type { PricingConfig, PricingResolver } from './types.js';
+
+export type ExpressNext = (err?: unknown) => void;
+
+export type ExpressMiddleware<TRequest extends IncomingMessage = NodeRequest> = (
+  req: TRequest,
+  res: ServerResponse,
+  next: ExpressNext,
+) => void;
+
+export type ExpressErrorMiddleware = (
+  err: unknown,
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: ExpressNext,
+) => void;
+
+export interface X402Express {
+  /** The shared payment gate */
+  readonly gate: PaymentGate;
+  /** Emits x402:challenge, x402:payment, x402:error, x402:refund, x402:session, x402:pass and x402:free */
+  readonly events: X402EventEmitter;
+  /** Route middleware that only calls `next()` once the request is paid for. */
+  priced<TRequest extends IncomingMessage = NodeRequest>(
+    pricing: PricingConfig | PricingResolver<TRequest>,
+  ): ExpressMiddleware<TRequest>;
+  /**
+   * Serves GET /x402/receipts/:nonce when a receipt store is configured,
+   * and GET /.well-known/jwks.json when a receipt signer is.
+   */
+  readonly receipts: ExpressMiddleware<IncomingMessage>;
+  /** Serves GET/POST /x402/sessions when prepaid sessions are enabled. */
+  readonly sessions: ExpressMiddleware;
+  /**
+   * Error middleware that shows handler errors to the refund policy
+   * (`refundOn: 'error'`). Register after the priced routes; it passes
+   * the error on unchanged.
+   */
+  readonly captureErrors: ExpressErrorMiddleware;
+}
+
+/**
+ * Returns Express middleware that gates routes with x402 payment
+ * verification. Pass an existing gate to share stores and events with
+ * another adapter.
+ */
+export function createX402Express(optionsOrGate: X402MiddlewareOptions | PaymentGate): X402Express {
+  const gate = toPaymentGate(optionsOrGate);
+  const errors = new WeakMap<ServerResponse, unknown>();
+
+  return {
+    gate,
+    events: gate.events,
+
+    priced(pricing) {
+      return (req, res, next) => {
+        runGate(gate, req, res, pricing).then((proceed) => {
+          if (!proceed) return;
+          interceptResponse(res, proceed, () => errors.get(res));
+          next();
+        }, next);
+      };
+    },
+
+    receipts(req, res, next) {
+      serveReceipt(gate, req, res).then((handled) => {
+        if (!handled) next();
+      }, next);
+    },
+
+    sessions(req, res, next) {
+      serveSession(gate, req, res).then((handled) => {
+        if (!handled) next();
+      }, next);
+    },
+
+    captureErrors(err, _req, res, next) {
+      errors.set(res, err);
+      next(err);
+    },
+  };
+}
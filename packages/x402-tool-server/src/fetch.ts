@@ -0,0 +1,129 @@
+/**
+ * withX402 — x402 payment gating for Fetch-API handlers
+ * (`(Request) => Response`), as used by Hono, Bun, Deno and edge runtimes.
+ *
+ * Usage:
+ *   const weather = withX402(
+ *     (request) => Response.json({ sun: true }),
+ *     { price: '0.001', asset: 'USDC', recipient: '0xABC' },
+ *     { verifier },
+ *   );
+ *
+ *   Bun.serve({ fetch: weather });
+ *   app.get('/weather', (c) => weather(c.req.raw));   // Hono
+ *
+ * Hashing uses WebCrypto and nothing here touches Buffer or node:fs, so
+ * requestHashes match the Fastify, Express and node:http adapters byte for
+ * byte. Import from `x402-tool-server/fetch` to avoid loading the Fastify
+ * plugin on runtimes without Node built-ins.
+ */
+import { createPaymentGate } from './core.js';
+import type { GateRequest, GateResponse, PaymentGate, X402MiddlewareOptions } from './core.js';
+import type { PricingConfig, PricingResolver } from './types.js';
+
+// Share one gate between handlers (and the sessions endpoint) without
+// importing the package root.
+export { createPaymentGate } from './core.js';
+
+export type FetchHandler<TArgs extends unknown[] = []> = (
+  request: Request,
+  ...args: TArgs
+) => Response | Promise<Response>;
+
+function toResponse({ statusCode, headers, body }: GateResponse): Response {
+  const responseHeaders = new Headers(headers);
+  const isText = typeof body === 'string';
+  if (!responseHeaders.has('content-type')) {
+    responseHeaders.set('content-type', isText ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8');
+  }
+  return new Response(isText ? body : JSON.stringify(body ?? null), {
+    status: statusCode,
+    headers: responseHeaders,
+  });
+}
+
+/** Client address from common proxy headers; Fetch requests carry none. */
+function clientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  return request.headers.get('cf-connecting-ip') ?? forwarded?.split(',')[0].trim() ?? '';
+}
+
+async function toGateRequest(request: Request): Promise<GateRequest> {
+  const url = new URL(request.url);
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  // Read a clone so the handler can still consume the body.
+  const rawBody = request.body ? new Uint8Array(await request.clone().arrayBuffer()) : new Uint8Array(0);
+  return {
+    method: request.method,
+    url: url.pathname + url.search,
+    headers,
+    rawBody,
+    ip: clientIp(request),
+  };
+}
+
+/** `response` with `headers` added; the original may have immutable headers. */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  if (Object.keys(headers).length === 0) return response;
+  const copy = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) copy.headers.set(name, value);
+  return copy;
+}
+
+/**
+ * Wrap a Fetch-API handler so it only runs once the request is paid for.
+ * Any extra handler arguments (Cloudflare `env`/`ctx`, Deno `info`, …) are
+ * passed through. Pass an existing gate to share stores and events with
+ * other routes.
+ */
+export function withX402<TArgs extends unknown[] = []>(
+  handler: FetchHandler<TArgs>,
+  pricing: PricingConfig | PricingResolver<Request>,
+  optionsOrGate: X402MiddlewareOptions | PaymentGate,
+): FetchHandler<TArgs> {
+  const gate = 'handle' in optionsOrGate ? optionsOrGate : createPaymentGate(optionsOrGate);
+
+  return async (request, ...args) => {
+    // Dynamic pricing is resolved on every pass through the gate, as in the
+    // Fastify plugin.
+    const routePricing = typeof pricing === 'function' ? await pricing(request) : pricing;
+    const decision = await gate.handle(await toGateRequest(request), routePricing);
+    if (decision.type === 'respond') return toResponse(decision.response);
+
+    let response: Response;
+    try {
+      response = await handler(request, ...args);
+    } catch (err) {
+      // Let the refund policy see the failure, then surface it unchanged.
+      await decision.onResponse({ statusCode: 500, headers: {}, body: undefined }, err);
+      await decision.onComplete();
+      throw err;
+    }
+    const contentType = response.headers.get('content-type');
+    await decision.onResponse({
+      statusCode: response.status,
+      headers: contentType !== null ? { 'content-type': contentType } : {},
+      body: decision.storesResponse ? await response.clone().text() : undefined,
+    });
+    // Edge runtimes may stop work once the response is returned, so any
+    // refund completes first.
+    await decision.onComplete();
+    return withHeaders(response, decision.headers);
+  };
+}
+
+/**
+ * Fetch handler for the prepaid session endpoint (GET/POST /x402/sessions).
+ * Pass the gate your priced handlers share:
+ *
+ *   const gate = createPaymentGate({ verifier, sessions: { pricing } });
+ *   const sessions = x402SessionsHandler(gate);
+ *   app.all('/x402/sessions', (c) => sessions(c.req.raw));   // Hono
+ */
+export function x402SessionsHandler(gate: PaymentGate): (request: Request) => Promise<Response> {
+  return async (request) => toResponse(await gate.handleSession(await toGateRequest(request)));
+}
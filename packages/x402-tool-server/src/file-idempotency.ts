@@ -0,0 +1,87 @@
+/**
+ * FileIdempotencyStore — restart-safe idempotency store for a single process.
+ *
+ * Kept apart from idempotency.ts so the payment gate itself never imports
+ * node:fs and can run on edge runtimes.
+ */
+import { JsonlLog } from './jsonl-log.js';
+import type { FileStoreOptions } from './jsonl-log.js';
+import type { IdempotencyStore, StoredResponse } from './types.js';
+
+interface IdempotencyRecord {
+  key: string;
+  value: StoredResponse;
+  expiresAt: number;
+}
+
+/**
+ * File-backed idempotency store — an append-only JSONL log of stored
+ * responses, so a client retrying with the same `Idempotency-Key` after a
+ * restart still gets the original response instead of a second charge.
+ *
+ * Entries are served from memory and appended to the file before `set`
+ * resolves. Keys expire `ttlMs` (default 1 hour) after they were stored;
+ * the sweep drops expired keys and rewrites the log without them (write
+ * to a temp file, then rename). Not safe for several processes sharing
+ * one file.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly store = new Map<string, IdempotencyRecord>();
+  private readonly log: JsonlLog<IdempotencyRecord>;
+  private readonly ttlMs: number;
+
+  constructor(options: FileStoreOptions & { ttlMs?: number }) {
+    this.ttlMs = options.ttlMs ?? 3_600_000; // 1 h
+    this.log = new JsonlLog(options);
+
+    for (const record of this.log.replay()) {
+      if (record.key) this.store.set(record.key, record);
+    }
+    this.sweep();
+
+    const sweepIntervalMs = options.sweepIntervalMs ?? 300_000; // 5 min
+    this.log.startSweeping(sweepIntervalMs, () => this.sweep(), () => this.store.values());
+  }
+
+  async get(key: string): Promise<StoredResponse | undefined> {
+    const record = this.store.get(key);
+    if (!record) return undefined;
+    if (Date.now() > record.expiresAt) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return record.value;
+  }
+
+  async set(key: string, value: StoredResponse): Promise<void> {
+    const record: IdempotencyRecord = { key, value, expiresAt: Date.now() + this.ttlMs };
+    this.store.set(key, record);
+    await this.log.append(record);
+  }
+
+  /** Drop expired keys and rewrite the log with the live ones. */
+  async compact(): Promise<void> {
+    this.sweep();
+    await this.log.rewrite(this.store.values());
+  }
+
+  /** Number of live entries. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Stop the background sweep timer and wait for pending writes. */
+  async destroy(): Promise<void> {
+    this.log.stopSweeping();
+    await this.log.flush();
+  }
+
+  /** Drop expired entries; returns how many are left. */
+  private sweep(): number {
+    const now = Date.now();
+    for (const [key, record] of this.store) {
+      if (now > record.expiresAt) this.store.delete(key);
+    }
+    return this.store.size;
+  }
+}
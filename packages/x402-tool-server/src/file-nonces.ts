@@ -0,0 +1,87 @@
+/**
+ * FileNonceStore — restart-safe nonce store for a single process.
+ *
+ * Kept apart from nonces.ts so the payment gate itself never imports
+ * node:fs and can run on edge runtimes.
+ */
+import { JsonlLog } from './jsonl-log.js';
+import type { FileStoreOptions } from './jsonl-log.js';
+import type { NonceStore } from './nonces.js';
+
+interface NonceRecord {
+  nonce: string;
+  expiresAt: number;
+}
+
+/**
+ * File-backed nonce store — an append-only JSONL log of claims.
+ *
+ * Claims are decided in memory (so concurrent claims in one process are
+ * atomic) and appended to the file before `claim` resolves. On startup the
+ * log is replayed, skipping expired entries and any torn final line left by
+ * a crash. A released claim is logged again with an expiry of 0, which
+ * drops it on replay. The sweep rewrites the log with only live claims
+ * (write to a temp file, then rename) so it does not grow without bound.
+ *
+ * Not safe for several processes sharing one file — use a shared backend.
+ */
+export class FileNonceStore implements NonceStore {
+  private readonly store = new Map<string, number>();
+  private readonly log: JsonlLog<NonceRecord>;
+
+  constructor(options: FileStoreOptions) {
+    this.log = new JsonlLog(options);
+
+    const now = Date.now();
+    for (const record of this.log.replay()) {
+      // Released claims are logged with an expiry in the past.
+      if (record.expiresAt >= now) this.store.set(record.nonce, record.expiresAt);
+      else this.store.delete(record.nonce);
+    }
+
+    this.log.startSweeping(options.sweepIntervalMs ?? 60_000, () => this.sweep(), () => this.records());
+  }
+
+  async claim(nonce: string, expiresAt: number): Promise<boolean> {
+    const existing = this.store.get(nonce);
+    if (existing !== undefined && Date.now() <= existing) return false;
+    this.store.set(nonce, expiresAt);
+    await this.log.append({ nonce, expiresAt });
+    return true;
+  }
+
+  async release(nonce: string): Promise<void> {
+    if (!this.store.delete(nonce)) return;
+    await this.log.append({ nonce, expiresAt: 0 });
+  }
+
+  /** Drop expired claims from memory and rewrite the log with the live ones. */
+  async compact(): Promise<void> {
+    this.sweep();
+    await this.log.rewrite(this.records());
+  }
+
+  /** Number of claims currently held. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Stop the background sweep timer and wait for pending writes. */
+  async destroy(): Promise<void> {
+    this.log.stopSweeping();
+    await this.log.flush();
+  }
+
+  private records(): NonceRecord[] {
+    return [...this.store].map(([nonce, expiresAt]) => ({ nonce, expiresAt }));
+  }
+
+  /** Drop expired claims; returns how many are left. */
+  private sweep(): number {
+    const now = Date.now();
+    for (const [nonce, exp] of this.store) {
+      if (now > exp) this.store.delete(nonce);
+    }
+    return this.store.size;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * FileReceiptStore — restart-safe receipt store for a single process.
+ *
+ * Kept apart from receipts.ts so the payment gate itself never imports
+ * node:fs and can run on edge runtimes.
+ */
+import { JsonlLog } from './jsonl-log.js';
+import type { FileStoreOptions } from './jsonl-log.js';
+import { pageReceipts } from './receipts.js';
+import type { Receipt, ReceiptPage, ReceiptQuery, ReceiptStore } from './receipts.js';
+
+interface ReceiptRecord {
+  receipt: Receipt;
+  /** Epoch ms after which the receipt is dropped; absent = kept for good */
+  expiresAt?: number;
+}
+
+/**
+ * File-backed receipt store — an append-only JSONL log of saved receipts.
+ *
+ * Receipts are served from memory and appended to the file before `save`
+ * resolves; saving a receipt again (a voided payment, a settled metered
+ * charge) appends its new state, and the last one wins on replay. The
+ * sweep drops expired receipts and rewrites the log once it holds
+ * superseded lines (write to a temp file, then rename).
+ *
+ * Receipts are kept until `ttlMs` after their last save, or for good when
+ * no `ttlMs` is given. Implements `list()`, so it backs the receipt admin
+ * routes. Not safe for several processes sharing one file.
+ */
+export class FileReceiptStore implements ReceiptStore {
+  private readonly store = new Map<string, ReceiptRecord>();
+  private readonly log: JsonlLog<ReceiptRecord>;
+  private readonly ttlMs?: number;
+
+  constructor(options: FileStoreOptions & { ttlMs?: number }) {
+    this.ttlMs = options.ttlMs;
+    this.log = new JsonlLog(options);
+
+    for (const record of this.log.replay()) {
+      if (record.receipt?.nonce) this.store.set(record.receipt.nonce, record);
+    }
+    this.sweep();
+
+    this.log.startSweeping(options.sweepIntervalMs ?? 60_000, () => this.sweep(), () => this.store.values());
+  }
+
+  async save(receipt: Receipt): Promise<void> {
+    const record: ReceiptRecord = {
+      receipt,
+      ...(this.ttlMs !== undefined ? { expiresAt: Date.now() + this.ttlMs } : {}),
+    };
+    this.store.set(receipt.nonce, record);
+    await this.log.append(record);
+  }
+
+  async get(nonce: string): Promise<Receipt | undefined> {
+    const record = this.store.get(nonce);
+    if (!record || this.isExpired(record, Date.now())) return undefined;
+    return record.receipt;
+  }
+
+  async list(query: ReceiptQuery): Promise<ReceiptPage> {
+    const now = Date.now();
+    const live = [...this.store.values()].filter((record) => !this.isExpired(record, now));
+    return pageReceipts(live.map(({ receipt }) => receipt), query);
+  }
+
+  /** Drop expired receipts and rewrite the log with the current ones. */
+  async compact(): Promise<void> {
+    this.sweep();
+    await this.log.rewrite(this.store.values());
+  }
+
+  /** Number of receipts currently stored. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Stop the background sweep timer and wait for pending writes. */
+  async destroy(): Promise<void> {
+    this.log.stopSweeping();
+    await this.log.flush();
+  }
+
+  private isExpired(record: ReceiptRecord, now: number): boolean {
+    return record.expiresAt !== undefined && now > record.expiresAt;
+  }
+
+  /** Drop expired entries; returns how many are left. */
+  private sweep(): number {
+    const now = Date.now();
+    for (const [nonce, record] of this.store) {
+      if (this.isExpired(record, now)) this.store.delete(nonce);
+    }
+    return this.store.size;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Synchronous request hashing with node:crypto — see hash.ts for the
+ * canonical form and the runtime-neutral `computeRequestHashAsync`.
+ */
+import { createHash } from 'crypto';
+import { canonicalRequestPrefix } from './hash.js';
+
+/**
+ * Compute the requestHash for a given request.
+ *
+ * @param method      - HTTP method (uppercase, e.g. "GET")
+ * @param pathname    - URL path without query string (e.g. "/weather")
+ * @param rawQuery    - raw query string without leading "?" (may be empty)
+ * @param rawBody     - raw body bytes (empty Buffer for GET)
+ * @returns lowercase hex SHA-256 digest
+ */
+export function computeRequestHash(
+  method: string,
+  pathname: string,
+  rawQuery: string,
+  rawBody: Uint8Array,
+): string {
+  const hash = createHash('sha256');
+  hash.update(canonicalRequestPrefix(method, pathname, rawQuery), 'utf8');
+  hash.update(rawBody);
+  return hash.digest('hex');
+}
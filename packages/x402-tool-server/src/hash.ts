@@ -9,8 +9,12 @@
  * )
  *
  * This is documented in docs/DESIGN.md §requestHash.
+ *
+ * This module uses WebCrypto only, so it runs on Node, Bun, Deno and edge
+ * runtimes. The synchronous `computeRequestHash` (node:crypto) lives in
+ * hash-node.ts; both produce identical digests.
  */
-import { createHash } from 'crypto';
+import { concatBytes, toHex, utf8Encode } from './encoding.js';
 
 /**
  * Produce the canonical query string: keys sorted, values percent-encoded.
@@ -27,24 +31,26 @@ export function canonicalQueryString(rawQuery: string): string {
   return pairs.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join('&');
 }
 
+/** The hashed text preceding the raw body bytes. */
+export function canonicalRequestPrefix(method: string, pathname: string, rawQuery: string): string {
+  return `${method.toUpperCase()}\n${pathname}\n${canonicalQueryString(rawQuery)}\n`;
+}
+
 /**
- * Compute the requestHash for a given request.
+ * Compute the requestHash for a given request with WebCrypto.
  *
  * @param method      - HTTP method (uppercase, e.g. "GET")
  * @param pathname    - URL path without query string (e.g. "/weather")
  * @param rawQuery    - raw query string without leading "?" (may be empty)
- * @param rawBody     - raw body bytes (empty Buffer for GET)
+ * @param rawBody     - raw body bytes (empty for GET)
  * @returns lowercase hex SHA-256 digest
  */
-export function computeRequestHash(
+export async function computeRequestHashAsync(
   method: string,
   pathname: string,
   rawQuery: string,
-  rawBody: Buffer,
-): string {
-  const canonical = `${method.toUpperCase()}\n${pathname}\n${canonicalQueryString(rawQuery)}\n`;
-  const hash = createHash('sha256');
-  hash.update(canonical, 'utf8');
-  hash.update(rawBody);
-  return hash.digest('hex');
+  rawBody: Uint8Array,
+): Promise<string> {
+  const data = concatBytes([utf8Encode(canonicalRequestPrefix(method, pathname, rawQuery)), rawBody]);
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
 }
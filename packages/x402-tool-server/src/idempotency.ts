@@ -9,7 +9,7 @@
  *
  * See docs/DESIGN.md §idempotency for the swap guide.
  */
-import type { IdempotencyStore, StoredResponse } from './types.js';
+import type { IdempotencyStore, SyncIdempotencyStore, StoredResponse } from './types.js';
 
 interface Entry {
   value: StoredResponse;
@@ -31,7 +31,7 @@ export class MemoryIdempotencyStore implements IdempotencyStore {
     if (this.timer.unref) this.timer.unref();
   }
 
-  get(key: string): StoredResponse | undefined {
+  async get(key: string): Promise<StoredResponse | undefined> {
     const entry = this.store.get(key);
     if (!entry) return undefined;
     if (Date.now() > entry.expiresAt) {
@@ -41,7 +41,7 @@ export class MemoryIdempotencyStore implements IdempotencyStore {
     return entry.value;
   }
 
-  set(key: string, value: StoredResponse): void {
+  async set(key: string, value: StoredResponse): Promise<void> {
     this.store.set(key, { value, expiresAt: Date.now() + this.ttlMs });
   }
 
@@ -63,3 +63,21 @@ export class MemoryIdempotencyStore implements IdempotencyStore {
     return this.store.size;
   }
 }
+
+/**
+ * Adapt an idempotency store to the async interface. Synchronous stores
+ * (the pre-async `SyncIdempotencyStore` shape) keep working unchanged;
+ * async stores pass through.
+ */
+export function toAsyncIdempotencyStore(
+  store: IdempotencyStore | SyncIdempotencyStore,
+): IdempotencyStore {
+  return {
+    async get(key) {
+      return store.get(key);
+    },
+    async set(key, value) {
+      await store.set(key, value);
+    },
+  };
+}
@@ -5,27 +5,108 @@
  *   createX402Middleware  Fastify plugin that gates priced routes
  *   pricedRoute           Full RouteOptions factory (method + url + handler + pricing)
  *   pricedHandler         Shorthand options factory (pricing only, use with fastify.get/post)
+ *   createX402Express     Express / Connect middleware (priced routes + receipts endpoint)
+ *   createX402Node        node:http handler wrapper (priced handlers + receipts endpoint)
+ *   withX402              Fetch-API handler wrapper (Hono, Bun, Deno, edge; also at x402-tool-server/fetch)
+ *   x402SessionsHandler   Fetch-API handler for the prepaid session endpoint
+ *   captureRawBody        Body-parser `verify` hook keeping raw bytes for request hashing
+ *   createPaymentGate     Framework-agnostic gate shared by every adapter
  *
  *   X402Challenge         Type: 402 response body inner object
  *   X402ChallengeBody     Type: full 402 response body { x402: X402Challenge }
  *   PaymentProof          Type: proof sent back by the client
+ *   X402PaymentResponse   Type: settlement sent with a paid response (X-Payment-Response)
  *   PricingConfig         Type: per-route pricing configuration
+ *   PricingResolver       Type: function computing PricingConfig per request
+ *   PaymentOption         Type: an alternative accepted payment option (PricingConfig.options)
+ *   MeteredPricing        Type: per-unit pricing of a metered route (PricingConfig.metered)
+ *   X402Reply             Type: reply.x402 — the receipt of a paid request and meter(units)
+ *   ChallengeOption       Type: one accepted option as sent in X402Challenge.accepts
  *   VerifierInterface     Interface that verifiers must implement
+ *   VerificationResult    Type: structured verifier answer (ok, reason, payer, txRef, …)
+ *   toResultVerifier      Adapter: wrap a verifier that resolves a bare boolean
  *   IdempotencyStore      Interface for custom idempotency backends
  *   StoredResponse        Type stored by IdempotencyStore
  *   MemoryIdempotencyStore Default in-memory idempotency store
+ *   FileIdempotencyStore  Restart-safe append-only JSONL idempotency store
+ *   toAsyncIdempotencyStore Adapter: wrap a synchronous idempotency store
  *
  *   Receipt               Type: payment receipt record
  *   ReceiptStore          Interface for receipt storage backends
  *   MemoryReceiptStore    Default in-memory receipt store
+ *   FileReceiptStore      Restart-safe append-only JSONL receipt store
+ *   toAsyncReceiptStore   Adapter: wrap a synchronous receipt store
+ *   ReceiptQuery          Type: filters and paging for ReceiptStore.list()
+ *   summarizeReceipts     Totals charged per asset, endpoint and payer over a receipt query
+ *   exportReceipts        CSV / NDJSON lines of every receipt matching a query
+ *   createReceiptSigner   Ed25519 signer for receipts (X-Payment-Receipt) with a JWKS of its keys
  *
- *   X402MiddlewareOptions Type: options for createX402Middleware
- *   computeRequestHash    Utility: compute the canonical request hash
+ *   ChallengeStore        Interface for issued-challenge storage backends
+ *   MemoryChallengeStore  Default in-memory challenge store
+ *   createChallengeSigner HMAC/Ed25519 signer for stateless challenge tokens
+ *
+ *   Refunder              Interface for adapters that send voided payments back
+ *   RefundPolicy          Type: refundOn option ('error' | '5xx' | predicate)
+ *   shouldRefund          Utility: evaluate a RefundPolicy against a handler outcome
+ *
+ *   Session               Type: prepaid credit session
+ *   SessionStore          Interface for session storage backends
+ *   MemorySessionStore    Default in-memory session store
+ *
+ *   PassClaims            Type: terms sealed into a pass token
+ *   PassTerms             Type: what a pass-selling route grants (PricingConfig.passes)
+ *   PassStore             Interface for pass usage backends
+ *   MemoryPassStore       Default in-memory pass store
+ *   createPassSigner      HMAC/Ed25519 signer for pass tokens
+ *
+ *   PriceTier             Type: one volume tier of PricingConfig.tiers
+ *   Coupon                Type: a discount code of PricingConfig.coupons
+ *   UsageStore            Interface for per-payer usage backends (volume tiers)
+ *   MemoryUsageStore      Default in-memory usage store
+ *
+ *   PriceQuote            Type: a route's price as served by HEAD and GET /x402/quote
+ *
+ *   manifestPlugin        Fastify plugin serving the /.well-known/x402.json discovery manifest
+ *   X402Manifest          Type: the discovery manifest (priced routes, wire formats, capabilities)
+ *   X402Capabilities      Type: which optional x402 features a gate has enabled
+ *
+ *   freeTierPolicy        Built-in access policy: N free calls per API key per window
+ *   AccessPolicy          Type: accessPolicy option ('free' | 'charge' | { pricing })
+ *
+ *   NonceStore            Interface for replay-protection backends
+ *   MemoryNonceStore      Default in-memory nonce store
+ *   FileNonceStore        Restart-safe append-only JSONL nonce store
+ *
+ *   AuditLog              Hash-chained, tamper-evident log of challenges, payments and rejections
+ *   verifyAuditLog        Check an audit log's hash chain (also the x402-audit-verify CLI)
+ *
+ *   X402MiddlewareOptions Type: options for createX402Middleware and the other adapters
+ *   computeRequestHash    Utility: compute the canonical request hash (node:crypto)
+ *   computeRequestHashAsync Utility: same hash via WebCrypto, for any runtime
  *   canonicalQueryString  Utility: produce sorted canonical query string
  */
 
 export { createX402Middleware } from './middleware.js';
-export type { X402MiddlewareOptions } from './middleware.js';
+export type { X402MiddlewareOptions, X402Reply } from './middleware.js';
+
+export { createPaymentGate } from './core.js';
+export type {
+  PaymentGate,
+  GateRequest,
+  GateResponse,
+  GateDecision,
+  GateProceed,
+  X402Capabilities,
+} from './core.js';
+
+export { createX402Express } from './express.js';
+export type { X402Express, ExpressMiddleware, ExpressNext } from './express.js';
+
+export { createX402Node, captureRawBody } from './node.js';
+export type { X402Node, X402NodeOptions, NodeHandler, NodeRequest } from './node.js';
+
+export { withX402, x402SessionsHandler } from './fetch.js';
+export type { FetchHandler } from './fetch.js';
 
 export { X402EventEmitter } from './events.js';
 export type {
@@ -34,34 +115,116 @@ export type {
   X402PaymentEvent,
   X402ErrorEvent,
   X402ErrorReason,
+  X402RefundEvent,
+  X402SessionEvent,
+  X402MeterEvent,
+  X402PassEvent,
+  X402FreeEvent,
   RequestInfo as X402RequestInfo,
 } from './events.js';
 
 export { pricedRoute, pricedHandler } from './route.js';
 export type { PricedRouteOptions } from './route.js';
 
-export { computeRequestHash, canonicalQueryString } from './hash.js';
+export { computeRequestHashAsync, canonicalQueryString } from './hash.js';
+export { computeRequestHash } from './hash-node.js';
 
-export { MemoryIdempotencyStore } from './idempotency.js';
+export { MemoryIdempotencyStore, toAsyncIdempotencyStore } from './idempotency.js';
+export { FileIdempotencyStore } from './file-idempotency.js';
 
-export { MemoryReceiptStore } from './receipts.js';
-export type { Receipt, ReceiptStore } from './receipts.js';
+export { MemoryReceiptStore, toAsyncReceiptStore, InvalidReceiptCursorError } from './receipts.js';
+export { FileReceiptStore } from './file-receipts.js';
+export type { Receipt, ReceiptStore, SyncReceiptStore, ReceiptQuery, ReceiptPage } from './receipts.js';
+export { summarizeReceipts, exportReceipts, iterateReceipts } from './receipt-reports.js';
+export type { ReceiptTotals, AssetTotals, ReceiptExportFormat } from './receipt-reports.js';
+export { createReceiptSigner } from './receipt-signing.js';
+export type { ReceiptSigner, ReceiptSignerOptions, ReceiptSigningKey, ReceiptJwk } from './receipt-signing.js';
+
+export { MemoryChallengeStore } from './challenges.js';
+export type { ChallengeStore } from './challenges.js';
+
+export { createChallengeSigner, createPassSigner } from './challenge-token.js';
+export type {
+  ChallengeSigner,
+  ChallengeSignerOptions,
+  ChallengeSigningKey,
+  ChallengeTokenClaims,
+  TokenSigner,
+} from './challenge-token.js';
+
+export { shouldRefund } from './refunds.js';
+export type { Refunder, RefundResult, RefundPolicy, HandlerOutcome } from './refunds.js';
+
+export { MemorySessionStore } from './sessions.js';
+export type { Session, SessionStore, SessionOptions, SessionDebitResult } from './sessions.js';
+
+export { MemoryPassStore } from './passes.js';
+export type {
+  PassClaims,
+  PassStore,
+  PassOptions,
+  PassSigner,
+  PassUseResult,
+  PassError,
+  MintedPass,
+} from './passes.js';
+
+export { MemoryUsageStore } from './discounts.js';
+export type { UsageStore } from './discounts.js';
+
+export type { PriceQuote } from './quotes.js';
+
+export { freeTierPolicy } from './access.js';
+export type { AccessPolicy, AccessDecision, FreeTierOptions } from './access.js';
+
+export { MemoryNonceStore } from './nonces.js';
+export { FileNonceStore } from './file-nonces.js';
+export type { FileStoreOptions, JsonlLogOptions } from './jsonl-log.js';
+export type { NonceStore } from './nonces.js';
 
 export type {
   X402Challenge,
   X402ChallengeBody,
   PaymentProof,
+  X402PaymentResponse,
   PricingConfig,
+  PricingResolver,
+  PaymentOption,
+  MeteredPricing,
+  PassTerms,
+  PriceTier,
+  Coupon,
+  ChallengeOption,
   VerifierInterface,
+  BooleanVerifierInterface,
+  VerificationResult,
+  VerificationFailureReason,
   IdempotencyStore,
+  SyncIdempotencyStore,
   StoredResponse,
 } from './types.js';
 
+export { toResultVerifier, toVerificationResult } from './verification.js';
+
+export { AuditLog, verifyAuditLog } from './audit-log.js';
+export type {
+  AuditEntry,
+  AuditEventType,
+  AuditHead,
+  AuditSink,
+  AuditLogOptions,
+  AuditVerification,
+  AuditFailureReason,
+} from './audit-log.js';
+
 export { rateLimitMiddleware } from './rate-limit.js';
 export type { RateLimitOptions } from './rate-limit.js';
 
 export { openApiPlugin } from './openapi.js';
-export type { OpenApiOptions } from './openapi.js';
+export type { OpenApiOptions, X402OpenApiExtension } from './openapi.js';
+
+export { manifestPlugin } from './manifest.js';
+export type { ManifestOptions, X402Manifest, ManifestRoute } from './manifest.js';
 
 export type { WireFormat } from './compat.js';
 export {
@@ -76,8 +239,12 @@ export {
   coinbasePayloadToProofHeader,
   proofHeaderToCoinbasePayload,
   extractProofHeader,
+  receiptToPaymentResponse,
+  receiptToSettlementResponse,
+  paymentResponseHeaders,
 } from './compat.js';
 export type {
+  CoinbaseSettlementResponse,
   CoinbasePaymentRequired,
   CoinbasePaymentRequirements,
   CoinbasePaymentPayload,
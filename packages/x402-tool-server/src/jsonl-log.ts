@@ -0,0 +1,149 @@
+/**
+ * JsonlLog — the append-only JSON Lines file behind the file-backed stores
+ * (FileNonceStore, FileIdempotencyStore, FileReceiptStore).
+ *
+ * Stores keep their state in memory and log every change here. On startup
+ * they replay the log; the last record for a key wins. Compaction rewrites
+ * the log with only the live records (temp file, then rename), so a crash
+ * mid-compaction leaves the old log intact.
+ *
+ * Stores hand the log their sweep (`startSweeping`): it runs on a timer and
+ * compacts once the log holds superseded lines. A failed compaction keeps
+ * the old log and is reported to `onError`, never thrown.
+ *
+ * A crash mid-append can leave a torn final line. Replay skips it and cuts
+ * it off the file, so the next append starts on a fresh line.
+ *
+ * Uses node:fs — kept out of the gate so it can still run on edge runtimes.
+ */
+import { open, rename } from 'fs/promises';
+import { existsSync, readFileSync, truncateSync } from 'fs';
+
+export interface JsonlLogOptions {
+  /** Path of the log file (created on first write) */
+  path: string;
+  /**
+   * Flush every write to disk (fsync) before it resolves, so acknowledged
+   * records survive a power loss, not just a process crash. Default: false.
+   */
+  fsync?: boolean;
+  /**
+   * Called when a background compaction fails (disk full, permissions).
+   * Without it the first failure is thrown from `flush()`.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/** Options shared by the file-backed stores. */
+export interface FileStoreOptions extends JsonlLogOptions {
+  /** How often expired entries are swept and the log compacted. */
+  sweepIntervalMs?: number;
+}
+
+export class JsonlLog<TRecord> {
+  private readonly path: string;
+  private readonly fsync: boolean;
+  private readonly onError?: (error: unknown) => void;
+  private writes: Promise<unknown> = Promise.resolve();
+  private lines = 0;
+  private sweepInterval?: ReturnType<typeof setInterval>;
+  private failure: unknown;
+
+  constructor(options: JsonlLogOptions) {
+    this.path = options.path;
+    this.fsync = options.fsync ?? false;
+    this.onError = options.onError;
+  }
+
+  /** Records in the log, oldest first. Call once, before writing. */
+  replay(): TRecord[] {
+    if (!existsSync(this.path)) return [];
+    const text = readFileSync(this.path, 'utf8');
+    const end = text.lastIndexOf('\n') + 1;
+    if (end < text.length) truncateSync(this.path, Buffer.byteLength(text.slice(0, end), 'utf8'));
+
+    const records: TRecord[] = [];
+    for (const line of text.slice(0, end).split('\n')) {
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line) as TRecord);
+      } catch {
+        // Corrupt line — the write it belonged to never resolved, so skip it.
+      }
+    }
+    this.lines = records.length;
+    return records;
+  }
+
+  /** Append one record; resolves once it is written. */
+  append(record: TRecord): Promise<void> {
+    const line = JSON.stringify(record) + '\n';
+    this.lines += 1;
+    return this.enqueue(() => this.writeFile(this.path, 'a', line));
+  }
+
+  /** Replace the log with `records`, atomically. */
+  rewrite(records: Iterable<TRecord>): Promise<void> {
+    const lines = [...records].map((record) => JSON.stringify(record) + '\n');
+    this.lines = lines.length;
+    return this.enqueue(async () => {
+      const tmp = `${this.path}.tmp`;
+      await this.writeFile(tmp, 'w', lines.join(''));
+      await rename(tmp, this.path);
+    });
+  }
+
+  /**
+   * Lines in the log, including superseded ones. A store whose live
+   * record count is lower has something to compact.
+   */
+  get lineCount(): number {
+    return this.lines;
+  }
+
+  /**
+   * Every `intervalMs`, call `sweep` — which drops expired records and
+   * returns how many are live — and rewrite the log with `live()` once it
+   * holds more lines than that. The timer does not keep the process alive.
+   */
+  startSweeping(intervalMs: number, sweep: () => number, live: () => Iterable<TRecord>): void {
+    this.stopSweeping();
+    this.sweepInterval = setInterval(() => {
+      if (this.lines <= sweep()) return;
+      this.rewrite(live()).catch((error: unknown) => {
+        if (this.onError) this.onError(error);
+        else this.failure ??= error;
+      });
+    }, intervalMs);
+    if (this.sweepInterval.unref) this.sweepInterval.unref();
+  }
+
+  /** Stop the timer started by `startSweeping`. */
+  stopSweeping(): void {
+    clearInterval(this.sweepInterval);
+    this.sweepInterval = undefined;
+  }
+
+  /** Resolves once every pending write has finished. */
+  async flush(): Promise<void> {
+    await this.writes;
+    if (this.failure !== undefined) throw this.failure;
+  }
+
+  private async writeFile(path: string, flags: 'a' | 'w', text: string): Promise<void> {
+    const file = await open(path, flags);
+    try {
+      await file.writeFile(text, 'utf8');
+      if (this.fsync) await file.datasync();
+    } finally {
+      await file.close();
+    }
+  }
+
+  /** Serialize file writes so appends never interleave with a compaction. */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(write);
+    this.writes = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * manifestPlugin — machine-readable discovery manifest at /.well-known/x402.json.
+ *
+ * Lists every priced route with its method, path, payment options, input
+ * schema (from the route's Fastify `schema`) and description, plus the
+ * wire formats, capabilities and x402 endpoints the server offers. Agents
+ * fetch it once and build their tools from it (`createToolsFromManifest`
+ * in @darklrd/x402-agent-client).
+ *
+ * Like openApiPlugin, it collects routes as they are registered, so it must
+ * be registered (and awaited) before the priced routes:
+ *
+ *   await fastify.register(manifestPlugin, { name: 'Weather tools' });
+ *
+ * Capabilities and wire formats come from the x402 plugin's gate
+ * (`fastify.x402Gate`), whichever order the two are registered in.
+ */
+import type { FastifyPluginAsync, RouteOptions } from 'fastify';
+import fp from 'fastify-plugin';
+import { expandPaymentOptions, toChallengeOption } from './payment-options.js';
+import { QUOTE_PATH } from './quotes.js';
+import { SESSIONS_PATH } from './sessions.js';
+import { JWKS_PATH } from './receipts.js';
+import type { X402Capabilities } from './core.js';
+import type {
+  ChallengeOption,
+  MeteredPricing,
+  PassTerms,
+  PriceTier,
+  PricingConfig,
+  PricingResolver,
+} from './types.js';
+
+export const MANIFEST_PATH = '/.well-known/x402.json';
+
+export interface ManifestOptions {
+  /** Server name (default: "x402 Tool Server") */
+  name?: string;
+  description?: string;
+  version?: string;
+  /** Public base URL route paths are relative to, for clients that fetched the manifest elsewhere */
+  baseUrl?: string;
+}
+
+/** One priced route as listed in the manifest. */
+export interface ManifestRoute {
+  /** Tool-style name derived from method and path, e.g. "post_tools_search" */
+  name: string;
+  method: string;
+  /** Fastify route pattern, e.g. "/weather" or "/tools/:name" */
+  path: string;
+  description?: string;
+  /** Accepted payment options; absent when the price is resolved per request */
+  accepts?: ChallengeOption[];
+  /** True when the price is resolved per request (ask for a quote) */
+  dynamicPrice?: boolean;
+  metered?: MeteredPricing;
+  tiers?: PriceTier[];
+  /** The pass a paid request to this route mints */
+  passes?: PassTerms;
+  /** JSON Schemas of the route's input, from its Fastify `schema` */
+  input?: {
+    body?: Record<string, unknown>;
+    querystring?: Record<string, unknown>;
+    params?: Record<string, unknown>;
+  };
+}
+
+export interface X402Manifest {
+  x402Version: 1;
+  name: string;
+  description?: string;
+  version?: string;
+  baseUrl?: string;
+  /** Challenge wire formats the server answers with */
+  wireFormats: Array<'toolkit' | 'coinbase'>;
+  capabilities: X402Capabilities;
+  /** Paths of the x402 endpoints the server serves */
+  endpoints: {
+    quote?: string;
+    receipts?: string;
+    sessions?: string;
+    openapi?: string;
+    /** Public keys of signed receipts */
+    jwks?: string;
+  };
+  routes: ManifestRoute[];
+}
+
+const NO_CAPABILITIES: X402Capabilities = {
+  receipts: false,
+  idempotency: false,
+  sessions: false,
+  passes: false,
+  quotes: false,
+  signedReceipts: false,
+};
+
+function toolName(method: string, path: string): string {
+  const words = path.split('/').filter(Boolean).map((segment) => segment.replace(/[^A-Za-z0-9]+/g, '_'));
+  return [method.toLowerCase(), ...words].join('_').replace(/_+/g, '_').replace(/_$/, '');
+}
+
+function describeRoute(
+  method: string,
+  path: string,
+  routePricing: PricingConfig | PricingResolver,
+  schema: Record<string, unknown> | undefined,
+): ManifestRoute {
+  const route: ManifestRoute = { name: toolName(method, path), method, path };
+  if (typeof routePricing === 'function') {
+    route.dynamicPrice = true;
+  } else {
+    if (routePricing.description) route.description = routePricing.description;
+    route.accepts = expandPaymentOptions(routePricing).map(toChallengeOption);
+    if (routePricing.metered) route.metered = { ...routePricing.metered };
+    if (routePricing.tiers) route.tiers = routePricing.tiers.map((tier) => ({ ...tier }));
+    if (routePricing.passes) route.passes = { ...routePricing.passes };
+  }
+  if (!route.description && typeof schema?.description === 'string') route.description = schema.description;
+
+  const input: NonNullable<ManifestRoute['input']> = {};
+  for (const part of ['body', 'querystring', 'params'] as const) {
+    const partSchema = schema?.[part];
+    if (partSchema && typeof partSchema === 'object') input[part] = partSchema as Record<string, unknown>;
+  }
+  if (Object.keys(input).length > 0) route.input = input;
+  return route;
+}
+
+const manifestPluginImpl: FastifyPluginAsync<ManifestOptions> = async (fastify, opts) => {
+  const routes: ManifestRoute[] = [];
+
+  fastify.addHook('onRoute', (routeOptions) => {
+    const { url, config, schema } = routeOptions as RouteOptions;
+    const routePricing = config?.x402Pricing;
+    if (!routePricing || url.startsWith('/x402/')) return;
+    const methods = Array.isArray(routeOptions.method) ? routeOptions.method : [routeOptions.method];
+    for (const method of methods) {
+      // HEAD mirrors GET (and answers with a quote); list the GET only.
+      if (method.toUpperCase() === 'HEAD') continue;
+      routes.push(describeRoute(method.toUpperCase(), url, routePricing, schema as Record<string, unknown>));
+    }
+  });
+
+  fastify.get(MANIFEST_PATH, async (_request, reply) => {
+    const gate = fastify.hasDecorator('x402Gate') ? fastify.x402Gate : undefined;
+    const wireFormat = gate?.wireFormat ?? 'toolkit';
+    const capabilities = gate?.capabilities ?? NO_CAPABILITIES;
+
+    const manifest: X402Manifest = {
+      x402Version: 1,
+      name: opts.name ?? 'x402 Tool Server',
+      ...(opts.description ? { description: opts.description } : {}),
+      ...(opts.version ? { version: opts.version } : {}),
+      ...(opts.baseUrl ? { baseUrl: opts.baseUrl } : {}),
+      wireFormats: wireFormat === 'dual' ? ['toolkit', 'coinbase'] : [wireFormat],
+      capabilities,
+      endpoints: {
+        ...(gate ? { quote: QUOTE_PATH } : {}),
+        ...(capabilities.receipts ? { receipts: '/x402/receipts/{nonce}' } : {}),
+        ...(capabilities.sessions ? { sessions: SESSIONS_PATH } : {}),
+        ...(fastify.hasRoute({ method: 'GET', url: '/x402/openapi.json' }) ? { openapi: '/x402/openapi.json' } : {}),
+        ...(capabilities.signedReceipts ? { jwks: JWKS_PATH } : {}),
+      },
+      routes,
+    };
+    return reply.type('application/json').send(manifest);
+  });
+};
+
+export const manifestPlugin = fp(manifestPluginImpl, {
+  fastify: '>=4.0.0',
+  name: 'x402-manifest',
+});
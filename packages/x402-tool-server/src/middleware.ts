@@ -11,99 +11,222 @@
  *   fastify.get('/tool', { config: { x402Pricing: { … } } }, handler);
  *
  * or via the pricedRoute / pricedHandler helpers (see index.ts).
+ *
+ * HEAD requests to priced routes get the route's price in headers, and
+ * GET /x402/quote?method=&path= quotes any priced route — neither issues a
+ * challenge.
+ *
+ * With a `receiptSigner`, paid responses carry a signed receipt in
+ * `X-Payment-Receipt` and the signer's keys are served at
+ * GET /.well-known/jwks.json.
+ *
+ * Paid handlers find the payment on `reply.x402`; metered routes report
+ * usage with `reply.x402.meter(units)`, also while streaming.
+ *
+ * The gate itself lives in core.ts and is shared with the Express and
+ * node:http adapters; this plugin only wires it into Fastify's hooks.
  */
-import { randomUUID } from 'crypto';
-import type { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
+import type { FastifyPluginAsync, FastifyRequest, FastifyReply, InjectOptions } from 'fastify';
 import fp from 'fastify-plugin';
+import { METHODS } from 'http';
 import { Readable } from 'stream';
-import { computeRequestHash } from './hash.js';
-import { X402EventEmitter } from './events.js';
-import { MemoryIdempotencyStore } from './idempotency.js';
-import type {
-  VerifierInterface,
-  IdempotencyStore,
-  X402Challenge,
-  X402ChallengeBody,
-  PricingConfig,
-  StoredResponse,
-} from './types.js';
-import type { ReceiptStore, Receipt } from './receipts.js';
-import type { WireFormat } from './compat.js';
-import {
-  challengeToPaymentRequired,
-  coinbasePayloadToProofHeader,
-  extractProofHeader,
-} from './compat.js';
+import { createPaymentGate } from './core.js';
+import { SESSIONS_PATH } from './sessions.js';
+import { QUOTE_PATH, QUOTE_PROBE_HEADER, quoteHeaders } from './quotes.js';
+import { InvalidReceiptCursorError, JWKS_PATH, RECEIPT_HEADER } from './receipts.js';
+import { exportReceipts, parseReceiptQuery, summarizeReceipts } from './receipt-reports.js';
+import type { ReceiptExportFormat } from './receipt-reports.js';
+import type { PriceQuote } from './quotes.js';
+import type { X402EventEmitter } from './events.js';
+import type { GateProceed, GateRequest, GateResponse, PaymentGate, X402MiddlewareOptions } from './core.js';
+import type { PricingConfig } from './types.js';
 
-export interface X402MiddlewareOptions {
-  /** Verifier instance — validates payment proofs */
-  verifier: VerifierInterface;
-  /** Idempotency store (defaults to in-memory) */
-  idempotencyStore?: IdempotencyStore;
-  /**
-   * Default challenge TTL in seconds if not set per route.
-   * Default: 300 (5 minutes).
-   */
-  defaultTtlSeconds?: number;
-  /**
-   * Optional receipt store — if provided, successful payments are recorded
-   * and a GET /x402/receipts/:nonce route is registered automatically.
-   */
-  receiptStore?: ReceiptStore;
-  wireFormat?: WireFormat;
-}
+export type { X402MiddlewareOptions } from './core.js';
+
+/** The payment behind a paid request, as seen by its handler. */
+export type X402Reply = Pick<GateProceed, 'receipt' | 'session' | 'pass' | 'mintedPass' | 'meter'>;
 
 declare module 'fastify' {
   interface FastifyRequest {
     _x402RawBody?: Buffer;
+    _x402Proceed?: GateProceed;
+    _x402Response?: GateResponse;
+    _x402Error?: unknown;
+  }
+  interface FastifyReply {
+    /** Set once a priced route's payment is accepted (null on other routes) */
+    x402: X402Reply;
   }
   interface FastifyInstance {
     x402Events: X402EventEmitter;
+    /** The payment gate behind the plugin (stores, capabilities) */
+    x402Gate: PaymentGate;
   }
 }
 
+function toGateRequest(request: FastifyRequest): GateRequest {
+  return {
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    rawBody: request._x402RawBody ?? Buffer.alloc(0),
+    ip: request.ip,
+  };
+}
+
+function sendGateResponse(reply: FastifyReply, { statusCode, headers, body }: GateResponse): void {
+  reply.code(statusCode).headers(headers).send(body);
+}
+
 const x402Plugin: (options: X402MiddlewareOptions) => FastifyPluginAsync =
   (options) =>
   fp(async function x402PluginImpl(fastify) {
-    const idempotencyStore = options.idempotencyStore ?? new MemoryIdempotencyStore();
-    const defaultTtl = options.defaultTtlSeconds ?? 300;
-    const receiptStore = options.receiptStore;
-    const wireFormat: WireFormat = options.wireFormat ?? 'toolkit';
-
-    const emitter = new X402EventEmitter();
-    fastify.decorate('x402Events', emitter);
-
-    const requestInfo = (request: FastifyRequest) => ({
-      method: request.method,
-      url: request.url,
-      ip: request.ip,
-    });
+    const gate = createPaymentGate(options);
+    const { receiptStore, receiptSigner } = gate;
+    fastify.decorate('x402Events', gate.events);
+    fastify.decorate('x402Gate', gate);
+    fastify.decorateReply('x402', null);
 
     // ── Register receipt lookup route if store is provided ──────────────
     if (receiptStore) {
       fastify.get('/x402/receipts/:nonce', async (request, reply) => {
         const { nonce } = request.params as { nonce: string };
-        const receipt = receiptStore.get(nonce);
+        const receipt = await receiptStore.get(nonce);
         if (!receipt) {
           reply.code(404).send({ error: 'Receipt not found', nonce });
           return;
         }
+        if (receiptSigner) reply.header(RECEIPT_HEADER, await receiptSigner.sign(receipt));
         return receipt;
       });
     }
 
-    // In-memory nonce store for replay protection.
-    // Nonces are stored until their expiresAt + a 60-second grace period.
-    const usedNonces = new Map<string, number>(); // nonce -> expiry epoch ms
+    // ── Public keys of signed receipts ──────────────────────────────────
+    if (receiptSigner) {
+      fastify.get(JWKS_PATH, async () => receiptSigner.jwks());
+    }
+
+    // ── Receipt admin routes (listing, totals, export) ──────────────────
+    const receiptsAuth = options.receiptsAuth;
+    if (receiptsAuth) {
+      if (!receiptStore?.list) {
+        throw new Error('x402: receiptsAuth requires a receiptStore that implements list()');
+      }
+      const listReceipts = receiptStore.list.bind(receiptStore);
+
+      const authorizeReceipts = async (request: FastifyRequest, reply: FastifyReply) => {
+        if (!(await receiptsAuth(toGateRequest(request)))) {
+          reply.code(401).send({ error: 'Unauthorized' });
+          return reply;
+        }
+      };
+      // Totals and export always cover the whole filtered range, so they
+      // ignore `cursor`.
+      const readQuery = (request: FastifyRequest, reply: FastifyReply, paged = false) => {
+        const query = parseReceiptQuery(request.query as Record<string, string | undefined>);
+        if (typeof query === 'string') {
+          reply.code(400).send({ error: query });
+          return undefined;
+        }
+        if (!paged) delete query.cursor;
+        return query;
+      };
+
+      fastify.get('/x402/receipts', { onRequest: authorizeReceipts }, async (request, reply) => {
+        const query = readQuery(request, reply, true);
+        if (!query) return reply;
+        try {
+          return await listReceipts(query);
+        } catch (err) {
+          if (!(err instanceof InvalidReceiptCursorError)) throw err;
+          reply.code(400).send({ error: err.message });
+          return reply;
+        }
+      });
+
+      fastify.get('/x402/receipts/totals', { onRequest: authorizeReceipts }, async (request, reply) => {
+        const query = readQuery(request, reply);
+        if (!query) return reply;
+        return { totals: await summarizeReceipts(receiptStore, query) };
+      });
+
+      fastify.get('/x402/receipts/export', { onRequest: authorizeReceipts }, async (request, reply) => {
+        const query = readQuery(request, reply);
+        if (!query) return reply;
+        const format = (request.query as { format?: string }).format ?? 'csv';
+        if (format !== 'csv' && format !== 'ndjson') {
+          reply.code(400).send({ error: 'Invalid format: expected csv or ndjson' });
+          return reply;
+        }
+        const exportFormat: ReceiptExportFormat = format;
+        reply
+          .type(exportFormat === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson')
+          .header('content-disposition', `attachment; filename="receipts.${exportFormat}"`);
+        return reply.send(Readable.from(exportReceipts(receiptStore, query, exportFormat)));
+      });
+    }
+
+    // ── Register the prepaid session endpoint if sessions are enabled ─────
+    if (gate.sessionStore) {
+      fastify.route({
+        method: ['GET', 'POST'],
+        url: SESSIONS_PATH,
+        handler: async (request, reply) => {
+          sendGateResponse(reply, await gate.handleSession(toGateRequest(request)));
+          return reply;
+        },
+      });
+    }
+
+    // ── Price quotes ────────────────────────────────────────────────────
+    // GET /x402/quote routes the quoted request through Fastify itself (as
+    // an injected probe), so the quote comes from the route that would
+    // serve it — including dynamic prices, which see the probe's path,
+    // query and headers. The probe carries no body and is answered in
+    // onRequest, before parsing and validation, so resolvers see
+    // `request.body` undefined. Only probes carrying this plugin's secret
+    // are answered with a quote.
+    const probeToken = crypto.randomUUID();
+
+    fastify.addHook('onRequest', async (request, reply) => {
+      if (request.headers[QUOTE_PROBE_HEADER] !== probeToken) return;
+      const routePricing = request.routeOptions?.config?.x402Pricing;
+      if (!routePricing) {
+        reply.code(404).send({ error: 'No priced route matches' });
+        return reply;
+      }
+      const pricing = typeof routePricing === 'function' ? await routePricing(request) : routePricing;
+      reply.send({ quote: await gate.quote(toGateRequest(request), pricing) });
+      return reply;
+    });
 
-    // Background cleanup of expired nonces (runs every 60 seconds).
-    const nonceSweep = setInterval(() => {
-      const now = Date.now();
-      for (const [nonce, exp] of usedNonces) {
-        if (now > exp) usedNonces.delete(nonce);
+    fastify.get(QUOTE_PATH, async (request, reply) => {
+      const query = request.query as { method?: string; path?: string };
+      const method = query.method?.toUpperCase();
+      const path = query.path;
+      if (!method || !METHODS.includes(method) || !path?.startsWith('/')) {
+        reply.code(400).send({ error: 'Query parameters method and path (starting with "/") are required' });
+        return;
       }
-    }, 60_000);
-    if (nonceSweep.unref) nonceSweep.unref();
+
+      // Forward the caller's headers so tiers, coupons and resolvers see them.
+      const headers = Object.fromEntries(
+        Object.entries(request.headers).filter(([name]) => name !== 'host' && name !== 'content-length'),
+      );
+      const probe = await fastify.inject({
+        method: method as InjectOptions['method'],
+        url: path,
+        headers: { ...headers, [QUOTE_PROBE_HEADER]: probeToken },
+        remoteAddress: request.ip,
+      });
+      if (probe.statusCode !== 200) {
+        reply.code(404).send({ error: 'No priced route matches', method, path });
+        return;
+      }
+      const { quote } = probe.json() as { quote: PriceQuote };
+      reply.headers(quoteHeaders(quote));
+      return { method, path, quote };
+    });
 
     // ── 1. Capture raw body bytes ──────────────────────────────────────────
     // Intercept in preParsing, buffer the stream, then re-feed a fresh
@@ -124,207 +247,60 @@ const x402Plugin: (options: X402MiddlewareOptions) => FastifyPluginAsync =
     // ── 2. Payment gate ────────────────────────────────────────────────────
     fastify.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
       // Read pricing from route config (set via pricedRoute / pricedHandler).
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const pricing = (request.routeOptions?.config as any)?.x402Pricing;
-      if (!pricing) return; // Not a priced route — pass through.
+      const routePricing = request.routeOptions?.config?.x402Pricing;
+      if (!routePricing) return; // Not a priced route — pass through.
 
-      // Parse URL components for canonical hashing.
-      const url = new URL(request.url, 'http://localhost');
-      const rawBody = request._x402RawBody ?? Buffer.alloc(0);
-      const requestHash = computeRequestHash(
-        request.method,
-        url.pathname,
-        url.search.replace(/^\?/, ''),
-        rawBody,
-      );
-
-      // ── Idempotency check ────────────────────────────────────────────────
-      const idempotencyKey = request.headers['idempotency-key'] as string | undefined;
-      if (idempotencyKey) {
-        const stored = idempotencyStore.get(idempotencyKey);
-        if (stored) {
-          if (stored.requestHash === requestHash) {
-            // Same key + same request → replay stored response; no new charge.
-            reply
-              .code(stored.statusCode)
-              .headers({ ...stored.headers, 'x-idempotent-replay': 'true' })
-              .send(stored.body);
-            return;
-          } else {
-            // Same key, different request → 409 Conflict.
-            reply.code(409).send({
-              error: 'Idempotency key reused with a different request',
-              idempotencyKey,
-            });
-            return;
-          }
-        }
-      }
-
-      // ── Payment proof check ───────────────────────────────────────────────
-      const extracted = extractProofHeader(request.headers as Record<string, string | string[] | undefined>);
-      const proofHeader = extracted?.proof;
-      const proofFormat = extracted?.format;
+      // Dynamic pricing is resolved on every pass through the gate, so the
+      // price checked at verification is re-derived from the paid request
+      // exactly as it was when the challenge was issued.
+      const pricing: PricingConfig = typeof routePricing === 'function'
+        ? await routePricing(request)
+        : routePricing;
 
-      if (!proofHeader) {
-        // No proof — issue a 402 challenge.
-        const ttl = (pricing.ttlSeconds as number | undefined) ?? defaultTtl;
-        const nonce = randomUUID();
-        const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+      const decision = await gate.handle(toGateRequest(request), pricing);
 
-        const challenge: X402Challenge = {
-          version: 1,
-          scheme: (pricing.scheme as string | undefined) ?? 'exact',
-          price: pricing.price as string,
-          asset: pricing.asset as string,
-          network: (pricing.network as string | undefined) ?? 'mock',
-          recipient: pricing.recipient as string,
-          nonce,
-          expiresAt,
-          requestHash,
-          description: pricing.description as string | undefined,
-        };
-
-        if (emitter.listenerCount('x402:challenge') > 0) {
-          emitter.emit('x402:challenge', {
-            challenge,
-            request: requestInfo(request),
-            timestamp: new Date().toISOString(),
-          });
-        }
-
-        if (wireFormat === 'coinbase' || wireFormat === 'dual') {
-          const assetDecimals = (pricing.assetDecimals as number | undefined) ?? 6;
-          const paymentRequired = challengeToPaymentRequired(challenge, url.pathname, assetDecimals);
-          const encoded = Buffer.from(JSON.stringify(paymentRequired), 'utf8').toString('base64');
-          void reply.header('payment-required', encoded);
-        }
-
-        if (wireFormat === 'toolkit' || wireFormat === 'dual') {
-          const body: X402ChallengeBody = { x402: challenge };
-          reply.code(402).send(body);
-        } else {
-          reply.code(402).send({ error: 'Payment Required' });
-        }
+      if (decision.type === 'respond') {
+        sendGateResponse(reply, decision.response);
         return;
       }
 
-      // Proof is present — normalize Coinbase proofs, then verify.
-      const normalizedProof = proofFormat === 'coinbase'
-        ? coinbasePayloadToProofHeader(proofHeader)
-        : proofHeader;
-      const valid = await options.verifier.verify(normalizedProof, requestHash, pricing);
-      if (!valid) {
-        if (emitter.listenerCount('x402:error') > 0) {
-          emitter.emit('x402:error', {
-            reason: 'invalid_proof',
-            pricing: pricing as PricingConfig,
-            request: requestInfo(request),
-            timestamp: new Date().toISOString(),
-          });
-        }
-        reply.code(402).send({
-          error: 'Invalid or expired payment proof',
-          hint: 'Obtain a fresh challenge by calling this endpoint without X-Payment-Proof',
-        });
-        return;
-      }
-
-      // ── Replay protection: record nonce as used ──────────────────────────
-      try {
-        const decoded = Buffer.from(normalizedProof, 'base64url').toString('utf8');
-        const proof = JSON.parse(decoded) as { nonce?: string; expiresAt?: string };
-        const nonce = proof.nonce;
-        if (nonce) {
-          if (usedNonces.has(nonce)) {
-            if (emitter.listenerCount('x402:error') > 0) {
-              emitter.emit('x402:error', {
-                reason: 'nonce_replay',
-                pricing: pricing as PricingConfig,
-                request: requestInfo(request),
-                timestamp: new Date().toISOString(),
-              });
-            }
-            reply.code(402).send({ error: 'Nonce already used (replay detected)' });
-            return;
-          }
-          // Keep nonce until its expiry + 60s grace, then sweep can remove it.
-          const expMs = proof.expiresAt
-            ? new Date(proof.expiresAt).getTime() + 60_000
-            : Date.now() + 360_000;
-          usedNonces.set(nonce, expMs);
-        }
-      } catch {
-        // Proof already passed verifier.verify() so JSON parse failure is a
-        // corner case — we skip nonce tracking but allow the request through.
-      }
+      // ── Capture the handler's payload before serialization ──────────────
+      reply.headers(decision.headers);
+      reply.x402 = {
+        receipt: decision.receipt,
+        ...(decision.session ? { session: decision.session } : {}),
+        ...(decision.pass ? { pass: decision.pass } : {}),
+        ...(decision.mintedPass ? { mintedPass: decision.mintedPass } : {}),
+        meter: (units) => decision.meter(units),
+      };
+      request._x402Proceed = decision;
+      const originalSend = reply.send.bind(reply);
+      reply.send = function (payload?: unknown) {
+        request._x402Response = { statusCode: reply.statusCode, headers: {}, body: payload };
+        return originalSend(payload);
+      };
+    });
 
-      // ── Save receipt ────────────────────────────────────────────────────
-      if (receiptStore) {
-        try {
-          const decoded = Buffer.from(normalizedProof, 'base64url').toString('utf8');
-          const proof = JSON.parse(decoded) as { nonce?: string; payer?: string; timestamp?: string };
-          if (proof.nonce) {
-            const url = new URL(request.url, 'http://localhost');
-            const receipt: Receipt = {
-              nonce: proof.nonce,
-              payer: proof.payer ?? 'unknown',
-              amount: pricing.price as string,
-              asset: pricing.asset as string,
-              network: (pricing.network as string | undefined) ?? 'mock',
-              recipient: pricing.recipient as string,
-              endpoint: url.pathname,
-              method: request.method,
-              requestHash,
-              paidAt: proof.timestamp ?? new Date().toISOString(),
-            };
-            receiptStore.save(receipt);
-          }
-        } catch {
-          // Non-critical — receipt saving failure should not block the response.
-        }
-      }
+    // ── 3. Hand the response back to the gate ──────────────────────────────
+    // onError runs before the error handler sends its reply, so the error is
+    // known by onSend. onSend is awaited so the stored response exists before
+    // the client can see (and retry) this one; refunds run after sending.
+    fastify.addHook('onError', async (request, _reply, error) => {
+      request._x402Error = error;
+    });
 
-      // ── Emit payment event ─────────────────────────────────────────────
-      if (emitter.listenerCount('x402:payment') > 0) {
-        try {
-          const decodedForEvent = Buffer.from(normalizedProof, 'base64url').toString('utf8');
-          const proofForEvent = JSON.parse(decodedForEvent) as { nonce?: string; payer?: string; timestamp?: string };
-          const eventUrl = new URL(request.url, 'http://localhost');
-          emitter.emit('x402:payment', {
-            receipt: {
-              nonce: proofForEvent.nonce ?? '',
-              payer: proofForEvent.payer ?? 'unknown',
-              amount: pricing.price as string,
-              asset: pricing.asset as string,
-              network: (pricing.network as string | undefined) ?? 'mock',
-              recipient: pricing.recipient as string,
-              endpoint: eventUrl.pathname,
-              method: request.method,
-              requestHash,
-            },
-            request: requestInfo(request),
-            timestamp: new Date().toISOString(),
-          });
-        } catch {
-          // Non-critical — event emission failure should not block the response.
-        }
+    fastify.addHook('onSend', async (request, _reply, payload) => {
+      const proceed = request._x402Proceed;
+      const response = request._x402Response;
+      if (proceed && response) {
+        request._x402Response = undefined;
+        await proceed.onResponse(response, request._x402Error);
       }
+      return payload;
+    });
 
-      // ── Intercept response for idempotency storage ───────────────────────
-      if (idempotencyKey) {
-        const originalSend = reply.send.bind(reply);
-        reply.send = function (payload?: unknown) {
-          const stored: StoredResponse = {
-            requestHash,
-            statusCode: reply.statusCode,
-            body: payload,
-            headers: {},
-          };
-          idempotencyStore.set(idempotencyKey!, stored);
-          return originalSend(payload);
-        };
-      }
+    fastify.addHook('onResponse', async (request) => {
+      await request._x402Proceed?.onComplete();
     });
   });
 
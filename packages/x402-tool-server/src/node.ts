@@ -0,0 +1,321 @@
+/**
+ * createX402Node — x402 payment gating for plain node:http servers.
+ *
+ * Usage:
+ *   const x402 = createX402Node({ verifier });
+ *
+ *   const weather = x402.priced(
+ *     { price: '0.001', asset: 'USDC', recipient: '0xABC' },
+ *     (req, res) => res.end(JSON.stringify({ sun: true })),
+ *   );
+ *
+ *   http.createServer(async (req, res) => {
+ *     if (await x402.receipts(req, res)) return;
+ *     if (await x402.sessions(req, res)) return;   // with `sessions` enabled
+ *     if (req.url?.startsWith('/weather')) return weather(req, res);
+ *   });
+ *
+ * The gate itself lives in core.ts; this module also holds the node:http
+ * plumbing shared with the Express adapter (raw body capture, sending gate
+ * responses, capturing handler responses for idempotent replay).
+ */
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createPaymentGate } from './core.js';
+import { SESSIONS_PATH } from './sessions.js';
+import { JWKS_PATH, RECEIPT_HEADER } from './receipts.js';
+import type { GateProceed, GateResponse, PaymentGate, X402MiddlewareOptions } from './core.js';
+import type { X402EventEmitter } from './events.js';
+import type { PricingConfig, PricingResolver } from './types.js';
+
+/**
+ * An incoming request, possibly already processed by a body parser.
+ * `rawBody` is set by `captureRawBody`, or by the gate itself when it had
+ * to read the request stream.
+ */
+export type NodeRequest = IncomingMessage & {
+  rawBody?: Buffer | string;
+  body?: unknown;
+  ip?: string;
+};
+
+export type NodeHandler<TRequest extends IncomingMessage = NodeRequest> = (
+  req: TRequest,
+  res: ServerResponse,
+) => unknown;
+
+export interface X402Node {
+  /** The shared payment gate */
+  readonly gate: PaymentGate;
+  /** Emits x402:challenge, x402:payment, x402:error, x402:refund, x402:session, x402:pass and x402:free */
+  readonly events: X402EventEmitter;
+  /** Wrap a request handler so it only runs once the request is paid for. */
+  priced<TRequest extends IncomingMessage = NodeRequest>(
+    pricing: PricingConfig | PricingResolver<TRequest>,
+    handler: NodeHandler<TRequest>,
+  ): (req: TRequest, res: ServerResponse) => Promise<void>;
+  /**
+   * Serve GET /x402/receipts/:nonce when a receipt store is configured,
+   * and GET /.well-known/jwks.json when a receipt signer is.
+   * Resolves true if the request was handled.
+   */
+  receipts(req: IncomingMessage, res: ServerResponse): Promise<boolean>;
+  /**
+   * Serve GET/POST /x402/sessions when prepaid sessions are enabled.
+   * Resolves true if the request was handled.
+   */
+  sessions(req: IncomingMessage, res: ServerResponse): Promise<boolean>;
+}
+
+export interface X402NodeOptions {
+  /**
+   * Called with errors thrown while gating a request (e.g. by a pricing
+   * resolver) or by a priced handler. The client only gets a generic 500.
+   */
+  onError?: (error: unknown, req: IncomingMessage) => void;
+}
+
+const RECEIPT_PATH = /^\/x402\/receipts\/([^/]+)$/;
+
+function hasBody(req: IncomingMessage): boolean {
+  const length = req.headers['content-length'];
+  return req.headers['transfer-encoding'] !== undefined || (length !== undefined && length !== '0');
+}
+
+/**
+ * Body-parser `verify` hook that keeps the exact bytes the client sent, so
+ * the request hash matches what the client signed:
+ *
+ *   app.use(express.json({ verify: captureRawBody }));
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as NodeRequest).rawBody = buf;
+}
+
+/**
+ * Raw body bytes of a request. Uses bytes kept by `captureRawBody` or a raw
+ * body parser when present; otherwise reads the request stream and keeps the
+ * result on `req.rawBody` for the handler.
+ */
+export async function readRawBody(req: NodeRequest): Promise<Buffer> {
+  if (req.rawBody !== undefined) {
+    return Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.from(req.rawBody, 'utf8');
+  }
+  if (Buffer.isBuffer(req.body)) return req.body;
+  if (typeof req.body === 'string') return Buffer.from(req.body, 'utf8');
+  if (!hasBody(req)) return Buffer.alloc(0);
+  if (req.readableEnded) {
+    throw new Error(
+      'x402: request body was consumed without keeping its raw bytes; '
+        + 'pass `verify: captureRawBody` to your body parser',
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req as AsyncIterable<Buffer | string>) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  const raw = Buffer.concat(chunks);
+  req.rawBody = raw;
+  return raw;
+}
+
+/** Send a gate response: objects as JSON, strings and buffers as-is. */
+export function sendGateResponse(res: ServerResponse, response: GateResponse): void {
+  const { statusCode, headers, body } = response;
+  const isRaw = typeof body === 'string' || Buffer.isBuffer(body);
+  const payload = isRaw ? body : JSON.stringify(body ?? null);
+
+  res.statusCode = statusCode;
+  for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+  if (!res.hasHeader('content-type')) {
+    res.setHeader('content-type', isRaw ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8');
+  }
+  res.end(payload);
+}
+
+/**
+ * Hand what a handler writes to the gate's `onResponse` before the
+ * response is finished, so an idempotent response is stored before the
+ * client can see (and retry) it; then run `onComplete`. The body is only
+ * buffered when the gate stores it (`proceed.storesResponse`); otherwise
+ * chunks go straight through.
+ * `getError` reports an error the handler threw, if the adapter saw one.
+ */
+export function interceptResponse(
+  res: ServerResponse,
+  proceed: GateProceed,
+  getError: () => unknown = () => undefined,
+): void {
+  const chunks: Buffer[] = [];
+  const collect = (chunk: unknown, encoding: unknown) => {
+    if (!proceed.storesResponse) return;
+    if (typeof chunk === 'string') {
+      chunks.push(Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8'));
+    } else if (chunk instanceof Uint8Array) {
+      chunks.push(Buffer.from(chunk));
+    }
+  };
+
+  const originalWrite = res.write.bind(res) as (...args: unknown[]) => boolean;
+  const originalEnd = res.end.bind(res) as (...args: unknown[]) => ServerResponse;
+
+  res.write = function (chunk: unknown, ...rest: unknown[]) {
+    collect(chunk, rest[0]);
+    return originalWrite(chunk, ...rest);
+  } as ServerResponse['write'];
+
+  res.end = function (...args: unknown[]) {
+    if (args.length > 0 && typeof args[0] !== 'function') collect(args[0], args[1]);
+    const contentType = res.getHeader('content-type');
+    const response: GateResponse = {
+      statusCode: res.statusCode,
+      headers: contentType !== undefined ? { 'content-type': String(contentType) } : {},
+      body: proceed.storesResponse ? Buffer.concat(chunks).toString('utf8') : undefined,
+    };
+    const finish = () => {
+      originalEnd(...args);
+      proceed.onComplete().catch(() => undefined);
+    };
+    proceed.onResponse(response, getError()).then(finish, finish);
+    return res;
+  } as ServerResponse['end'];
+}
+
+/**
+ * Serve a stored receipt if `req` is GET /x402/receipts/:nonce, or the
+ * receipt signer's keys if it is GET /.well-known/jwks.json.
+ */
+export async function serveReceipt(
+  gate: PaymentGate,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<boolean> {
+  const { receiptStore, receiptSigner } = gate;
+  if (req.method !== 'GET') return false;
+  const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (receiptSigner && pathname === JWKS_PATH) {
+    sendGateResponse(res, { statusCode: 200, headers: {}, body: receiptSigner.jwks() });
+    return true;
+  }
+  const match = RECEIPT_PATH.exec(pathname);
+  if (!receiptStore || !match) return false;
+
+  const nonce = decodeURIComponent(match[1]);
+  const receipt = await receiptStore.get(nonce);
+  if (!receipt) {
+    sendGateResponse(res, { statusCode: 404, headers: {}, body: { error: 'Receipt not found', nonce } });
+    return true;
+  }
+  const headers: Record<string, string> = {};
+  if (receiptSigner) headers[RECEIPT_HEADER] = await receiptSigner.sign(receipt);
+  sendGateResponse(res, { statusCode: 200, headers, body: receipt });
+  return true;
+}
+
+/** Serve the prepaid session endpoint if `req` is for /x402/sessions. */
+export async function serveSession(
+  gate: PaymentGate,
+  req: NodeRequest,
+  res: ServerResponse,
+): Promise<boolean> {
+  if (!gate.sessionStore) return false;
+  if (new URL(req.url ?? '/', 'http://localhost').pathname !== SESSIONS_PATH) return false;
+
+  const response = await gate.handleSession({
+    method: req.method ?? 'GET',
+    url: req.url ?? '/',
+    headers: req.headers,
+    rawBody: await readRawBody(req),
+    ip: req.ip ?? req.socket.remoteAddress ?? '',
+  });
+  sendGateResponse(res, response);
+  return true;
+}
+
+/**
+ * Run the gate for a node:http request. Resolves with the proceed decision
+ * when the handler should run, or undefined once the gate has answered.
+ */
+export async function runGate<TRequest extends NodeRequest>(
+  gate: PaymentGate,
+  req: TRequest,
+  res: ServerResponse,
+  routePricing: PricingConfig | PricingResolver<TRequest>,
+): Promise<GateProceed | undefined> {
+  // Dynamic pricing is resolved on every pass through the gate, as in the
+  // Fastify plugin.
+  const pricing = typeof routePricing === 'function' ? await routePricing(req) : routePricing;
+  const decision = await gate.handle(
+    {
+      method: req.method ?? 'GET',
+      url: req.url ?? '/',
+      headers: req.headers,
+      rawBody: await readRawBody(req),
+      ip: req.ip ?? req.socket.remoteAddress ?? '',
+    },
+    pricing,
+  );
+  if (decision.type === 'respond') {
+    sendGateResponse(res, decision.response);
+    return undefined;
+  }
+  for (const [name, value] of Object.entries(decision.headers)) res.setHeader(name, value);
+  return decision;
+}
+
+/** Accepts either gate options or an existing gate to share with other adapters. */
+export function toPaymentGate(optionsOrGate: X402MiddlewareOptions | PaymentGate): PaymentGate {
+  return 'handle' in optionsOrGate ? optionsOrGate : createPaymentGate(optionsOrGate);
+}
+
+/**
+ * Returns node:http helpers that gate handlers with x402 payment
+ * verification. Pass an existing gate to share stores and events with
+ * another adapter.
+ */
+export function createX402Node(
+  optionsOrGate: X402MiddlewareOptions | PaymentGate,
+  nodeOptions: X402NodeOptions = {},
+): X402Node {
+  const gate = toPaymentGate(optionsOrGate);
+  const { onError } = nodeOptions;
+
+  return {
+    gate,
+    events: gate.events,
+
+    priced(pricing, handler) {
+      return async (req, res) => {
+        let proceed: GateProceed | undefined;
+        try {
+          proceed = await runGate(gate, req, res, pricing);
+        } catch (err) {
+          onError?.(err, req);
+          if (!res.headersSent) {
+            sendGateResponse(res, { statusCode: 500, headers: {}, body: { error: 'Internal Server Error' } });
+          }
+          return;
+        }
+        if (!proceed) return;
+
+        let handlerError: unknown;
+        interceptResponse(res, proceed, () => handlerError);
+        try {
+          await handler(req, res);
+        } catch (err) {
+          // Answer like the other adapters do, so the refund policy sees it.
+          handlerError = err;
+          onError?.(err, req);
+          if (!res.headersSent) {
+            sendGateResponse(res, { statusCode: 500, headers: {}, body: { error: 'Internal Server Error' } });
+          } else {
+            res.end();
+          }
+        }
+      };
+    },
+
+    receipts: (req, res) => serveReceipt(gate, req, res),
+    sessions: (req, res) => serveSession(gate, req, res),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * x402 Nonce Store — replay protection for paid nonces.
+ *
+ * After a proof verifies, the middleware claims its nonce. A claim succeeds
+ * only once; any later claim of the same nonce is a replay and is rejected.
+ * Claims are kept until the proof's expiresAt + a 60-second grace period,
+ * after which the proof's own expiry check rejects it anyway.
+ *
+ * Two implementations ship with the toolkit:
+ *   MemoryNonceStore  single process, lost on restart (default)
+ *   FileNonceStore    single process, survives restarts (append-only JSONL,
+ *                     in file-nonces.ts so this module stays free of node:fs)
+ *
+ * For multi-node deployments implement `claim` on a shared backend, e.g.
+ * Redis `SET x402:nonce:<nonce> 1 NX PXAT <expiresAt>`.
+ */
+
+/**
+ * Interface for nonce storage backends.
+ */
+export interface NonceStore {
+  /**
+   * Atomically claim a nonce.
+   *
+   * @param nonce     - the proof nonce
+   * @param expiresAt - epoch ms after which the claim may be forgotten
+   * @returns true if this is the first claim, false if the nonce was already used
+   */
+  claim(nonce: string, expiresAt: number): Promise<boolean>;
+  /**
+   * Forget a claim so the nonce can be claimed again. Called when a payment
+   * is voided without a refund; stores without it keep voided nonces spent.
+   */
+  release?(nonce: string): Promise<void>;
+}
+
+/**
+ * Default in-memory nonce store.
+ * A background interval (every 60 s) evicts claims past their expiresAt.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly store = new Map<string, number>(); // nonce -> expiry epoch ms
+  private readonly sweepInterval: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.sweepInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [nonce, exp] of this.store) {
+        if (now > exp) this.store.delete(nonce);
+      }
+    }, 60_000);
+
+    if (this.sweepInterval.unref) this.sweepInterval.unref();
+  }
+
+  async claim(nonce: string, expiresAt: number): Promise<boolean> {
+    const existing = this.store.get(nonce);
+    if (existing !== undefined && Date.now() <= existing) return false;
+    this.store.set(nonce, expiresAt);
+    return true;
+  }
+
+  async release(nonce: string): Promise<void> {
+    this.store.delete(nonce);
+  }
+
+  /** Number of claims currently held. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Stop the background sweep timer. */
+  destroy(): void {
+    clearInterval(this.sweepInterval);
+  }
+}
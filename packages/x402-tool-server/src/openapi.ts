@@ -1,6 +1,15 @@
+import { STATUS_CODES } from 'node:http';
 import type { FastifyPluginAsync, RouteOptions } from 'fastify';
 import fp from 'fastify-plugin';
-import type { PricingConfig } from './types.js';
+import type {
+  ChallengeOption,
+  MeteredPricing,
+  PassTerms,
+  PriceTier,
+  PricingConfig,
+  PricingResolver,
+} from './types.js';
+import { expandPaymentOptions, toChallengeOption } from './payment-options.js';
 import type { WireFormat } from './compat.js';
 
 export interface OpenApiOptions {
@@ -10,6 +19,32 @@ export interface OpenApiOptions {
   servers?: Array<{ url: string; description?: string }>;
   includeAllRoutes?: boolean;
   wireFormat?: WireFormat;
+  /**
+   * OpenAPI version to emit (default: "3.0"). "3.1" adds security schemes
+   * for the proof headers, component schemas for PaymentProof, Receipt and
+   * CoinbasePaymentRequired, and replaces the flat `x-x402-*` strings with
+   * one structured `x-x402` object per operation.
+   */
+  openapiVersion?: '3.0' | '3.1';
+}
+
+/** The `x-x402` extension of a priced operation (OpenAPI 3.1 mode). */
+export interface X402OpenApiExtension {
+  /** Primary payment option; absent when the price is resolved per request */
+  price?: string;
+  asset?: string;
+  network?: string;
+  recipient?: string;
+  scheme?: string;
+  /** True when the price is resolved per request */
+  dynamicPrice?: boolean;
+  /** Every accepted payment option, when the route accepts several */
+  accepts?: ChallengeOption[];
+  metered?: MeteredPricing;
+  tiers?: PriceTier[];
+  passes?: PassTerms;
+  /** Challenge wire format the server answers with */
+  wireFormat: WireFormat;
 }
 
 interface OpenApiSchema {
@@ -31,9 +66,17 @@ interface OpenApiParameter {
 
 interface OpenApiResponse {
   description: string;
+  headers?: Record<string, { description?: string; schema: OpenApiSchema }>;
   content?: { 'application/json': { schema: OpenApiSchema } };
 }
 
+interface OpenApiSecurityScheme {
+  type: 'apiKey';
+  in: 'header';
+  name: string;
+  description: string;
+}
+
 interface OpenApiOperation {
   summary?: string;
   parameters?: Array<OpenApiParameter>;
@@ -42,11 +85,15 @@ interface OpenApiOperation {
     content: { 'application/json': { schema: OpenApiSchema } };
   };
   responses: Record<string, OpenApiResponse>;
+  security?: Array<Record<string, string[]>>;
+  'x-x402'?: X402OpenApiExtension;
   'x-x402-price'?: string;
   'x-x402-asset'?: string;
   'x-x402-network'?: string;
   'x-x402-recipient'?: string;
   'x-x402-scheme'?: string;
+  'x-x402-dynamic-price'?: boolean;
+  'x-x402-accepts'?: ChallengeOption[];
 }
 
 interface OpenApiSpec {
@@ -54,10 +101,13 @@ interface OpenApiSpec {
   info: { title: string; version: string; description: string };
   servers?: Array<{ url: string; description?: string }>;
   paths: Record<string, Record<string, OpenApiOperation>>;
-  components: { schemas: Record<string, OpenApiSchema> };
+  components: {
+    schemas: Record<string, OpenApiSchema>;
+    securitySchemes?: Record<string, OpenApiSecurityScheme>;
+  };
 }
 
-function buildQueryParameters(schema: OpenApiSchema): Array<OpenApiParameter> {
+function buildQueryParameters(schema: OpenApiSchema, location = 'query'): Array<OpenApiParameter> {
   const params: Array<OpenApiParameter> = [];
   if (schema.properties) {
     const requiredFields = schema.required ?? [];
@@ -65,10 +115,10 @@ function buildQueryParameters(schema: OpenApiSchema): Array<OpenApiParameter> {
       if (typeof propSchema === 'object' && propSchema !== null && !Array.isArray(propSchema)) {
         const param: OpenApiParameter = {
           name,
-          in: 'query',
+          in: location,
           schema: propSchema as OpenApiSchema,
         };
-        if (requiredFields.includes(name)) {
+        if (location === 'path' || requiredFields.includes(name)) {
           param.required = true;
         }
         params.push(param);
@@ -101,140 +151,346 @@ function buildComponentSchemas(): Record<string, OpenApiSchema> {
         network: { type: 'string' },
         recipient: { type: 'string' },
         nonce: { type: 'string' },
-        expiresAt: { type: 'string', format: 'date-time' },
+        expiresAt: {
+          type: 'string',
+          format: 'date-time',
+          description: 'When the challenge, and the challengeToken sealing it, expire',
+        },
         requestHash: { type: 'string' },
         description: { type: 'string' },
+        accepts: {
+          type: 'array',
+          description: 'Every accepted payment option, primary first (present when there are several)',
+          items: { $ref: '#/components/schemas/X402ChallengeOption' },
+        },
+        metered: {
+          type: 'object',
+          required: ['unitPrice'],
+          properties: {
+            unitPrice: { type: 'string' },
+            unit: { type: 'string' },
+          },
+        },
+        originalPrice: { type: 'string' },
+        challengeToken: {
+          type: 'string',
+          description: 'Compact JWS sealing the challenge until expiresAt; echo it in the payment proof',
+        },
+      },
+    },
+    X402ChallengeOption: {
+      type: 'object',
+      required: ['scheme', 'price', 'asset', 'network', 'recipient'],
+      properties: {
+        scheme: { type: 'string' },
+        price: { type: 'string' },
+        asset: { type: 'string' },
+        network: { type: 'string' },
+        recipient: { type: 'string' },
       },
     },
   };
 }
 
-const openApiPluginImpl: FastifyPluginAsync<OpenApiOptions> = async (
-  fastify,
-  opts,
-) => {
-  const collectedRoutes: Array<RouteOptions> = [];
+/** Component schemas added in OpenAPI 3.1 mode. */
+function buildPaymentSchemas(): Record<string, OpenApiSchema> {
+  return {
+    PaymentProof: {
+      type: 'object',
+      description: 'Sent base64url-encoded in the X-Payment-Proof header',
+      required: ['version', 'nonce', 'requestHash', 'payer', 'timestamp', 'expiresAt', 'signature'],
+      properties: {
+        version: { type: 'integer' },
+        nonce: { type: 'string' },
+        requestHash: { type: 'string' },
+        payer: { type: 'string' },
+        timestamp: { type: 'string', format: 'date-time' },
+        expiresAt: { type: 'string', format: 'date-time' },
+        signature: { type: 'string' },
+        challengeToken: { type: 'string' },
+        network: { type: 'string' },
+        asset: { type: 'string' },
+      },
+    },
+    Receipt: {
+      type: 'object',
+      required: [
+        'nonce', 'payer', 'amount', 'asset', 'network', 'recipient',
+        'endpoint', 'method', 'requestHash', 'paidAt',
+      ],
+      properties: {
+        nonce: { type: 'string' },
+        payer: { type: 'string' },
+        amount: { type: 'string' },
+        asset: { type: 'string' },
+        network: { type: 'string' },
+        recipient: { type: 'string' },
+        endpoint: { type: 'string' },
+        method: { type: 'string' },
+        requestHash: { type: 'string' },
+        paidAt: { type: 'string', format: 'date-time' },
+        settledAmount: { type: 'string' },
+        txRef: { type: 'string' },
+        voidedAt: { type: 'string', format: 'date-time' },
+        refundTxRef: { type: 'string' },
+        sessionId: { type: 'string' },
+        passId: { type: 'string' },
+        free: { type: 'boolean' },
+        originalPrice: { type: 'string' },
+        coupon: { type: 'string' },
+        units: { type: 'number' },
+        charged: { type: 'string' },
+        remainder: { type: 'string' },
+      },
+    },
+    CoinbasePaymentRequired: {
+      type: 'object',
+      description: 'Sent base64-encoded in the PAYMENT-REQUIRED header',
+      required: ['x402Version', 'resource', 'accepts'],
+      properties: {
+        x402Version: { type: 'integer' },
+        error: { type: 'string' },
+        resource: {
+          type: 'object',
+          required: ['url'],
+          properties: {
+            url: { type: 'string' },
+            description: { type: 'string' },
+            mimeType: { type: 'string' },
+          },
+        },
+        accepts: { type: 'array', items: { $ref: '#/components/schemas/CoinbasePaymentRequirements' } },
+        extensions: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    },
+    CoinbasePaymentRequirements: {
+      type: 'object',
+      required: ['scheme', 'network', 'asset', 'amount', 'payTo', 'maxTimeoutSeconds', 'extra'],
+      properties: {
+        scheme: { type: 'string' },
+        network: { type: 'string', description: 'CAIP-2 network id' },
+        asset: { type: 'string' },
+        amount: { type: 'string', description: 'Atomic units' },
+        payTo: { type: 'string' },
+        maxTimeoutSeconds: { type: 'integer' },
+        extra: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    },
+  };
+}
 
-  fastify.addHook('onRoute', (routeOptions) => {
-    collectedRoutes.push(routeOptions as RouteOptions);
+function buildSecuritySchemes(wf: WireFormat): Record<string, OpenApiSecurityScheme> {
+  const schemes: Record<string, OpenApiSecurityScheme> = {};
+  if (wf === 'toolkit' || wf === 'dual') {
+    schemes['x402PaymentProof'] = {
+      type: 'apiKey',
+      in: 'header',
+      name: 'X-Payment-Proof',
+      description: 'base64url-encoded PaymentProof answering the 402 challenge',
+    };
+  }
+  if (wf === 'coinbase' || wf === 'dual') {
+    schemes['x402PaymentSignature'] = {
+      type: 'apiKey',
+      in: 'header',
+      name: 'PAYMENT-SIGNATURE',
+      description: 'base64-encoded Coinbase x402 payment payload answering PAYMENT-REQUIRED',
+    };
+  }
+  return schemes;
+}
+
+/** Fastify `/items/:id` (or `:id(^\\d+$)`) → OpenAPI `/items/{id}`, with the parameter names. */
+function toOpenApiPath(url: string): { path: string; names: string[] } {
+  const names: string[] = [];
+  const path = url.replace(/:([A-Za-z0-9_]+)(\([^)]*\))?/g, (_match, name: string) => {
+    names.push(name);
+    return `{${name}}`;
   });
+  return { path, names };
+}
 
-  let cachedSpec: OpenApiSpec | undefined;
+function buildResponses(response: Record<string, OpenApiSchema> | undefined): Record<string, OpenApiResponse> {
+  const responses: Record<string, OpenApiResponse> = {};
+  for (const [code, schema] of Object.entries(response ?? {})) {
+    const key = /^[1-5]xx$/i.test(code) ? code.toUpperCase() : code;
+    const fallback = key === '200' ? 'Successful response' : STATUS_CODES[Number(key)] ?? 'Response';
+    responses[key] = {
+      description: typeof schema.description === 'string' ? schema.description : fallback,
+      content: { 'application/json': { schema } },
+    };
+  }
+  if (Object.keys(responses).length === 0) {
+    responses['200'] = { description: 'Successful response' };
+  }
+  return responses;
+}
 
-  fastify.get('/x402/openapi.json', async (_request, reply) => {
-    if (cachedSpec) {
-      return reply.type('application/json').send(cachedSpec);
-    }
+function buildX402Extension(pricing: PricingConfig | undefined, wf: WireFormat): X402OpenApiExtension {
+  if (!pricing) return { dynamicPrice: true, wireFormat: wf };
+  const options = expandPaymentOptions(pricing);
+  return {
+    ...toChallengeOption(pricing),
+    ...(options.length > 1 ? { accepts: options.map(toChallengeOption) } : {}),
+    ...(pricing.metered ? { metered: { ...pricing.metered } } : {}),
+    ...(pricing.tiers ? { tiers: pricing.tiers.map((tier) => ({ ...tier })) } : {}),
+    ...(pricing.passes ? { passes: { ...pricing.passes } } : {}),
+    wireFormat: wf,
+  };
+}
 
-    const paths: Record<string, Record<string, OpenApiOperation>> = {};
+function buildSpec(routes: Array<RouteOptions>, opts: OpenApiOptions): OpenApiSpec {
+  const v31 = opts.openapiVersion === '3.1';
+  const wf = opts.wireFormat ?? 'toolkit';
+  const paths: Record<string, Record<string, OpenApiOperation>> = {};
 
-    for (const route of collectedRoutes) {
-      if (route.url.startsWith('/x402/')) continue;
+  for (const route of routes) {
+    if (route.url.startsWith('/x402/')) continue;
 
-      const pricing = route.config?.x402Pricing as PricingConfig | undefined;
-      if (!pricing && !opts.includeAllRoutes) continue;
+    const routePricing = route.config?.x402Pricing as PricingConfig | PricingResolver | undefined;
+    if (!routePricing && !opts.includeAllRoutes) continue;
+    // Dynamic prices are only known per request; advertise the route as paid without a fixed price.
+    const pricing = typeof routePricing === 'function' ? undefined : routePricing;
 
-      const methods = Array.isArray(route.method) ? route.method : [route.method];
+    const routeSchema = route.schema as
+      | {
+        body?: OpenApiSchema;
+        querystring?: OpenApiSchema;
+        params?: OpenApiSchema;
+        headers?: OpenApiSchema;
+        response?: Record<string, OpenApiSchema>;
+      }
+      | undefined;
+    const { path, names } = toOpenApiPath(route.url);
+    const methods = Array.isArray(route.method) ? route.method : [route.method];
+
+    for (const m of methods) {
+      const method = m.toLowerCase();
+      if (!paths[path]) paths[path] = {};
 
-      for (const m of methods) {
-        const method = m.toLowerCase();
-        if (!paths[route.url]) paths[route.url] = {};
+      const operation: OpenApiOperation = {
+        responses: buildResponses(routeSchema?.response),
+      };
+      const parameters: Array<OpenApiParameter> = [];
+
+      const pathParams = routeSchema?.params ? buildQueryParameters(routeSchema.params, 'path') : [];
+      for (const name of names) {
+        parameters.push(
+          pathParams.find((param) => param.name === name)
+            ?? { name, in: 'path', required: true, schema: { type: 'string' } },
+        );
+      }
+      if (routeSchema?.querystring) parameters.push(...buildQueryParameters(routeSchema.querystring));
+      if (routeSchema?.headers) parameters.push(...buildQueryParameters(routeSchema.headers, 'header'));
 
-        const operation: OpenApiOperation = {
-          responses: { '200': { description: 'Successful response' } },
+      if (routeSchema?.body) {
+        operation.requestBody = {
+          required: true,
+          content: {
+            'application/json': { schema: routeSchema.body },
+          },
         };
+      }
 
-        if (pricing) {
-          if (pricing.description) operation.summary = pricing.description;
+      if (routePricing) {
+        if (pricing?.description) operation.summary = pricing.description;
+        if (v31) {
+          operation['x-x402'] = buildX402Extension(pricing, wf);
+          operation.security = Object.keys(buildSecuritySchemes(wf)).map((name) => ({ [name]: [] }));
+        } else if (pricing) {
           operation['x-x402-price'] = pricing.price;
           operation['x-x402-asset'] = pricing.asset;
           operation['x-x402-network'] = pricing.network ?? 'mock';
           operation['x-x402-recipient'] = pricing.recipient;
           if (pricing.scheme) operation['x-x402-scheme'] = pricing.scheme;
-
-          const wf = opts.wireFormat ?? 'toolkit';
-          if (wf === 'toolkit' || wf === 'dual') {
-            operation.responses['402'] = {
-              description: 'Payment required',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/X402ChallengeBody' },
-                },
-              },
-            };
-          } else {
-            operation.responses['402'] = {
-              description: 'Payment required (Coinbase x402 format via PAYMENT-REQUIRED header)',
-            };
-          }
-
-          if (wf === 'coinbase' || wf === 'dual') {
-            if (!operation.parameters) operation.parameters = [];
-            operation.parameters.push(
-              {
-                name: 'PAYMENT-REQUIRED',
-                in: 'header',
-                schema: { type: 'string' },
-              },
-              {
-                name: 'PAYMENT-SIGNATURE',
-                in: 'header',
-                schema: { type: 'string' },
-              },
-            );
+          if (pricing.options?.length) {
+            operation['x-x402-accepts'] = expandPaymentOptions(pricing).map(toChallengeOption);
           }
+        } else {
+          operation['x-x402-dynamic-price'] = true;
         }
 
-        const routeSchema = route.schema as
-          | { body?: OpenApiSchema; querystring?: OpenApiSchema; response?: Record<string, OpenApiSchema> }
-          | undefined;
-
-        if (routeSchema?.body) {
-          operation.requestBody = {
-            required: true,
-            content: {
-              'application/json': { schema: routeSchema.body },
+        const resp402: OpenApiResponse = {
+          description: wf === 'coinbase'
+            ? 'Payment required (Coinbase x402 format via PAYMENT-REQUIRED header)'
+            : 'Payment required',
+        };
+        if (wf === 'toolkit' || wf === 'dual') {
+          resp402.content = {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/X402ChallengeBody' },
             },
           };
         }
-
-        if (routeSchema?.querystring) {
-          operation.parameters = buildQueryParameters(routeSchema.querystring);
-        }
-
-        if (routeSchema?.response) {
-          const resp200 = routeSchema.response['200'];
-          if (resp200) {
-            operation.responses['200'] = {
-              description: 'Successful response',
-              content: {
-                'application/json': { schema: resp200 },
+        if (v31 && (wf === 'coinbase' || wf === 'dual')) {
+          resp402.headers = {
+            'PAYMENT-REQUIRED': {
+              description: 'base64-encoded CoinbasePaymentRequired',
+              schema: {
+                type: 'string',
+                contentEncoding: 'base64',
+                contentMediaType: 'application/json',
+                contentSchema: { $ref: '#/components/schemas/CoinbasePaymentRequired' },
               },
-            };
-          }
+            },
+          };
         }
+        operation.responses['402'] = resp402;
 
-        paths[route.url][method] = operation;
+        if (!v31 && (wf === 'coinbase' || wf === 'dual')) {
+          parameters.push(
+            {
+              name: 'PAYMENT-REQUIRED',
+              in: 'header',
+              schema: { type: 'string' },
+            },
+            {
+              name: 'PAYMENT-SIGNATURE',
+              in: 'header',
+              schema: { type: 'string' },
+            },
+          );
+        }
       }
+
+      if (parameters.length > 0) operation.parameters = parameters;
+      paths[path][method] = operation;
     }
+  }
 
-    const spec: OpenApiSpec = {
-      openapi: '3.0.3',
-      info: {
-        title: opts.title ?? 'x402 Tool Server',
-        version: opts.version ?? '1.0.0',
-        description: opts.description ?? 'Auto-generated OpenAPI spec for x402 priced endpoints',
-      },
-      paths,
-      components: { schemas: buildComponentSchemas() },
-    };
+  const spec: OpenApiSpec = {
+    openapi: v31 ? '3.1.0' : '3.0.3',
+    info: {
+      title: opts.title ?? 'x402 Tool Server',
+      version: opts.version ?? '1.0.0',
+      description: opts.description ?? 'Auto-generated OpenAPI spec for x402 priced endpoints',
+    },
+    paths,
+    components: {
+      schemas: v31 ? { ...buildComponentSchemas(), ...buildPaymentSchemas() } : buildComponentSchemas(),
+      ...(v31 ? { securitySchemes: buildSecuritySchemes(wf) } : {}),
+    },
+  };
 
-    if (opts.servers && opts.servers.length > 0) {
-      spec.servers = opts.servers;
-    }
+  if (opts.servers && opts.servers.length > 0) {
+    spec.servers = opts.servers;
+  }
+  return spec;
+}
+
+const openApiPluginImpl: FastifyPluginAsync<OpenApiOptions> = async (
+  fastify,
+  opts,
+) => {
+  const collectedRoutes: Array<RouteOptions> = [];
 
-    cachedSpec = spec;
-    return reply.type('application/json').send(spec);
+  fastify.addHook('onRoute', (routeOptions) => {
+    collectedRoutes.push(routeOptions as RouteOptions);
+  });
+
+  // Built per request: cheap, and never stale.
+  fastify.get('/x402/openapi.json', async (_request, reply) => {
+    return reply.type('application/json').send(buildSpec(collectedRoutes, opts));
   });
 };
 
@@ -0,0 +1,170 @@
+/**
+ * x402 passes — prepaid allowances that bypass per-call challenges.
+ *
+ * A route whose pricing sets `passes` sells a pass: once a request to it is
+ * paid, the gate mints a signed pass token and returns it in `X-402-Pass`.
+ * Later requests to routes in the pass's scope send it back:
+ *
+ *   X-402-Pass: <token>
+ *
+ * The gate checks the signature, expiry and scope, counts the call in the
+ * PassStore and lets the handler run — no challenge, no proof. Responses
+ * carry `X-402-Pass-Expires` and, for passes with `maxCalls`,
+ * `X-402-Pass-Remaining`. A pass that cannot pay gets the route's usual
+ * 402 challenge plus `X-402-Pass-Error`:
+ *
+ *   invalid_pass   not a genuine pass token
+ *   expired_pass   past its expiry
+ *   out_of_scope   route not covered by the pass
+ *   exhausted      every call of the pass is used
+ *   revoked        the purchase was voided by the refund policy
+ *
+ * The token carries the pass terms itself, so any node holding the signing
+ * key can check it; only usage counts live in the PassStore.
+ */
+import type { TokenSigner } from './challenge-token.js';
+
+/** The terms sealed into a pass token. */
+export interface PassClaims {
+  /** Pass identifier, recorded on receipts of the calls it paid for */
+  id: string;
+  /** Route patterns the pass pays for */
+  scope: string[];
+  /** Calls the pass pays for in total; absent = unlimited until expiry */
+  maxCalls?: number;
+  /** Payer of the purchase */
+  payer: string;
+  /** Nonce of the payment that bought the pass */
+  purchaseNonce: string;
+  /** ISO-8601 timestamp when the pass was minted */
+  issuedAt: string;
+  /** ISO-8601 timestamp after which the pass is no longer accepted */
+  expiresAt: string;
+}
+
+/** A freshly minted pass and its token. */
+export interface MintedPass {
+  token: string;
+  pass: PassClaims;
+}
+
+/** Seals and checks pass tokens; see `createPassSigner`. */
+export type PassSigner = TokenSigner<PassClaims>;
+
+export type PassUseResult =
+  | { ok: true; used: number }
+  | { ok: false; reason: 'exhausted' | 'revoked'; used: number };
+
+/**
+ * Interface for pass usage backends. `use` must be atomic per pass —
+ * concurrent calls must never exceed `maxCalls`.
+ */
+export interface PassStore {
+  /** Count one call against `pass`, unless its calls are used up or it was revoked. */
+  use(pass: PassClaims): Promise<PassUseResult>;
+  /** Give back one call (the request was voided by the refund policy). */
+  release(id: string): Promise<void>;
+  /** Stop accepting a pass until it expires (its purchase was voided). */
+  revoke(id: string, expiresAt: string): Promise<void>;
+}
+
+interface PassUsage {
+  used: number;
+  revoked: boolean;
+  expiresAt: number;
+}
+
+/**
+ * Default in-memory pass store.
+ * A background interval (every 60 s) evicts the usage of expired passes.
+ */
+export class MemoryPassStore implements PassStore {
+  private readonly store = new Map<string, PassUsage>();
+  private readonly sweepInterval: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.sweepInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [id, usage] of this.store) {
+        if (now > usage.expiresAt) this.store.delete(id);
+      }
+    }, 60_000);
+
+    if (this.sweepInterval.unref) this.sweepInterval.unref();
+  }
+
+  async use(pass: PassClaims): Promise<PassUseResult> {
+    const usage = this.usage(pass.id, pass.expiresAt);
+    if (usage.revoked) return { ok: false, reason: 'revoked', used: usage.used };
+    if (pass.maxCalls !== undefined && usage.used >= pass.maxCalls) {
+      return { ok: false, reason: 'exhausted', used: usage.used };
+    }
+    usage.used += 1;
+    return { ok: true, used: usage.used };
+  }
+
+  async release(id: string): Promise<void> {
+    const usage = this.store.get(id);
+    if (usage && usage.used > 0) usage.used -= 1;
+  }
+
+  async revoke(id: string, expiresAt: string): Promise<void> {
+    this.usage(id, expiresAt).revoked = true;
+  }
+
+  /** Number of passes with recorded usage. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Stop the background sweep timer. */
+  destroy(): void {
+    clearInterval(this.sweepInterval);
+  }
+
+  private usage(id: string, expiresAt: string): PassUsage {
+    let usage = this.store.get(id);
+    if (!usage) {
+      usage = { used: 0, revoked: false, expiresAt: new Date(expiresAt).getTime() };
+      this.store.set(id, usage);
+    }
+    return usage;
+  }
+}
+
+export interface PassOptions {
+  /** Signs minted passes and checks presented ones (`createPassSigner`) */
+  signer: PassSigner;
+  /** Pass usage store (defaults to in-memory) */
+  store?: PassStore;
+}
+
+/** Why a presented pass could not pay (`X-402-Pass-Error`). */
+export type PassError = 'invalid_pass' | 'expired_pass' | 'out_of_scope' | 'exhausted' | 'revoked';
+
+/** The pass token from the `X-402-Pass` header, if any. */
+export function readPassToken(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const header = headers['x-402-pass'];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value || undefined;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/** True when one of the scope's route patterns matches `pathname`. */
+export function passCovers(scope: string[], pathname: string): boolean {
+  return scope.some((pattern) => patternToRegExp(pattern).test(pathname));
+}
+
+/** Headers reporting a pass's remaining quota to the client. */
+export function passHeaders(pass: PassClaims, used: number): Record<string, string> {
+  return {
+    'x-402-pass-expires': pass.expiresAt,
+    ...(pass.maxCalls !== undefined
+      ? { 'x-402-pass-remaining': String(Math.max(pass.maxCalls - used, 0)) }
+      : {}),
+  };
+}
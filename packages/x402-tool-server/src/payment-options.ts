@@ -0,0 +1,60 @@
+/**
+ * Multi-option pricing helpers.
+ *
+ * A route's PricingConfig describes a primary payment option (its top-level
+ * fields) plus any `options` it also accepts. These helpers flatten that into
+ * one PricingConfig per option, render options for the challenge, and pick
+ * the option a proof says it paid with.
+ */
+import type { ChallengeOption, PaymentProof, PricingConfig } from './types.js';
+
+/** Every accepted option as a standalone PricingConfig, primary first. */
+export function expandPaymentOptions(pricing: PricingConfig): PricingConfig[] {
+  const { options, ...primary } = pricing;
+  if (!options || options.length === 0) return [primary];
+  return [primary, ...options.map((option) => ({ ...primary, ...option }))];
+}
+
+/** The wire form of one option, with network and scheme defaults applied. */
+export function toChallengeOption(pricing: PricingConfig): ChallengeOption {
+  return {
+    scheme: pricing.scheme ?? 'exact',
+    price: pricing.price,
+    asset: pricing.asset,
+    network: pricing.network ?? 'mock',
+    recipient: pricing.recipient,
+  };
+}
+
+/**
+ * The option a proof paid with — matched on the proof's `network` (and
+ * `asset`, when given). Proofs that name no network paid the primary option.
+ * Returns undefined when the proof names an option the route does not accept.
+ */
+export function selectPaymentOption(
+  pricing: PricingConfig,
+  proof: Partial<PaymentProof>,
+): PricingConfig | undefined {
+  const options = expandPaymentOptions(pricing);
+  if (proof.network === undefined) return options[0];
+  return options.find(
+    (option) =>
+      (option.network ?? 'mock') === proof.network &&
+      (proof.asset === undefined || option.asset === proof.asset),
+  );
+}
+
+/** True when two option lists are identical, in order. */
+export function sameChallengeOptions(a: ChallengeOption[], b: ChallengeOption[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (option, i) =>
+        option.scheme === b[i].scheme &&
+        option.price === b[i].price &&
+        option.asset === b[i].asset &&
+        option.network === b[i].network &&
+        option.recipient === b[i].recipient,
+    )
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * x402 price quotes — what a priced route costs, without issuing a challenge.
+ *
+ * A 402 challenge mints a nonce (and stores or signs it) on every call, so
+ * it is an expensive way to ask for a price. Quotes allocate nothing:
+ *
+ *   HEAD /weather                               every adapter; priced routes
+ *                                               answer 200 with the headers below
+ *   GET  /x402/quote?method=POST&path=/tools/x  Fastify plugin; JSON quote
+ *                                               plus the same headers
+ *
+ *   X-402-Price, X-402-Asset, X-402-Network, X-402-Recipient, X-402-Scheme
+ *   X-402-Original-Price   when a volume tier or coupon changed the price
+ *
+ * Quotes describe the primary payment option; the JSON quote also lists
+ * every accepted option. They include discounts for the `X-402-Payer` and
+ * `X-402-Coupon` the quote request carries, but never consult the access
+ * policy, so asking for a quote does not use up free calls.
+ */
+import { expandPaymentOptions, toChallengeOption } from './payment-options.js';
+import type { Discount } from './discounts.js';
+import type { ChallengeOption, MeteredPricing, PricingConfig } from './types.js';
+
+export const QUOTE_PATH = '/x402/quote';
+
+/** Marks the quote endpoint's internal probe of the quoted route (Fastify plugin). */
+export const QUOTE_PROBE_HEADER = 'x-402-quote-probe';
+
+/** A route's price as a challenge would ask for it. */
+export interface PriceQuote {
+  price: string;
+  asset: string;
+  network: string;
+  recipient: string;
+  scheme: string;
+  description?: string;
+  /** The undiscounted price, when a tier or coupon changed `price` */
+  originalPrice?: string;
+  /** Per-unit terms of a metered route; `price` is then the maximum charge */
+  metered?: MeteredPricing;
+  /** Every accepted payment option, when the route accepts several */
+  accepts?: ChallengeOption[];
+}
+
+/** Quote `pricing` (already discounted by `discount`, if any). */
+export function toPriceQuote(pricing: PricingConfig, discount?: Discount): PriceQuote {
+  const options = expandPaymentOptions(pricing);
+  return {
+    ...toChallengeOption(pricing),
+    ...(pricing.description ? { description: pricing.description } : {}),
+    ...(discount && discount.originalPrice !== pricing.price ? { originalPrice: discount.originalPrice } : {}),
+    ...(pricing.metered ? { metered: { ...pricing.metered } } : {}),
+    ...(options.length > 1 ? { accepts: options.map(toChallengeOption) } : {}),
+  };
+}
+
+/** Headers carrying a quote's primary option. */
+export function quoteHeaders(quote: PriceQuote): Record<string, string> {
+  return {
+    'x-402-price': quote.price,
+    'x-402-asset': quote.asset,
+    'x-402-network': quote.network,
+    'x-402-recipient': quote.recipient,
+    'x-402-scheme': quote.scheme,
+    ...(quote.originalPrice ? { 'x-402-original-price': quote.originalPrice } : {}),
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Receipt reports — totals and CSV / NDJSON export for reconciliation.
+ *
+ * Both walk every page of `ReceiptStore.list()` for a query, so they cover
+ * the whole filtered range rather than one page:
+ *
+ *   const totals = await summarizeReceipts(store, { from: monthStart, to: monthEnd });
+ *   for await (const line of exportReceipts(store, query, 'csv')) out.write(line);
+ *
+ * Totals count what was actually charged: a metered receipt's `charged`
+ * (else its `amount`), never voided receipts.
+ */
+import { addDecimal } from './decimal.js';
+import type { Receipt, ReceiptQuery, ReceiptStore } from './receipts.js';
+
+export type ReceiptExportFormat = 'csv' | 'ndjson';
+
+/** Amounts are decimal strings per asset. */
+export type AssetTotals = Record<string, string>;
+
+export interface ReceiptTotals {
+  /** Receipts counted (voided receipts excluded) */
+  count: number;
+  /** Voided receipts skipped */
+  voided: number;
+  byAsset: AssetTotals;
+  byEndpoint: Record<string, AssetTotals>;
+  byPayer: Record<string, AssetTotals>;
+}
+
+/** CSV columns, in order. */
+export const RECEIPT_CSV_COLUMNS: ReadonlyArray<keyof Receipt> = [
+  'nonce',
+  'paidAt',
+  'payer',
+  'amount',
+  'charged',
+  'remainder',
+  'units',
+  'asset',
+  'network',
+  'recipient',
+  'method',
+  'endpoint',
+  'requestHash',
+  'settledAmount',
+  'txRef',
+  'voidedAt',
+  'refundTxRef',
+  'sessionId',
+  'passId',
+  'free',
+  'originalPrice',
+  'coupon',
+];
+
+/** Every receipt matching `query` (its cursor and limit page the walk). */
+export async function* iterateReceipts(store: ReceiptStore, query: ReceiptQuery): AsyncGenerator<Receipt> {
+  if (!store.list) throw new Error('x402: the receipt store does not implement list()');
+  let cursor = query.cursor;
+  do {
+    const page = await store.list({ ...query, cursor });
+    yield* page.receipts;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+function addTo(totals: AssetTotals, asset: string, amount: string): void {
+  totals[asset] = addDecimal(totals[asset] ?? '0', amount);
+}
+
+/** Total charged per asset, endpoint and payer over every receipt matching `query`. */
+export async function summarizeReceipts(store: ReceiptStore, query: ReceiptQuery = {}): Promise<ReceiptTotals> {
+  const totals: ReceiptTotals = { count: 0, voided: 0, byAsset: {}, byEndpoint: {}, byPayer: {} };
+  for await (const receipt of iterateReceipts(store, query)) {
+    if (receipt.voidedAt) {
+      totals.voided += 1;
+      continue;
+    }
+    const amount = receipt.charged ?? receipt.amount;
+    totals.count += 1;
+    addTo(totals.byAsset, receipt.asset, amount);
+    addTo((totals.byEndpoint[receipt.endpoint] ??= {}), receipt.asset, amount);
+    addTo((totals.byPayer[receipt.payer] ??= {}), receipt.asset, amount);
+  }
+  return totals;
+}
+
+/**
+ * One CSV cell. Quotes cells with separators, and defuses cells a
+ * spreadsheet would evaluate as a formula (endpoints and payers come from
+ * clients).
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One receipt as a CSV row (without line ending). */
+export function receiptToCsvRow(receipt: Receipt): string {
+  return RECEIPT_CSV_COLUMNS.map((column) => csvCell(receipt[column])).join(',');
+}
+
+/**
+ * Every receipt matching `query` as export lines: a CSV header and one row
+ * per receipt, or one JSON object per line. Each line ends with "\n".
+ */
+export async function* exportReceipts(
+  store: ReceiptStore,
+  query: ReceiptQuery,
+  format: ReceiptExportFormat,
+): AsyncGenerator<string> {
+  if (format === 'csv') yield `${RECEIPT_CSV_COLUMNS.join(',')}\n`;
+  for await (const receipt of iterateReceipts(store, query)) {
+    yield format === 'csv' ? `${receiptToCsvRow(receipt)}\n` : `${JSON.stringify(receipt)}\n`;
+  }
+}
+
+/** Largest page the receipt admin route serves. */
+export const MAX_RECEIPT_PAGE = 1000;
+
+/**
+ * Read a `ReceiptQuery` from query-string parameters (`payer`, `endpoint`,
+ * `from`, `to` as ISO-8601, `cursor`, `limit`). Returns an error message
+ * for malformed values.
+ */
+export function parseReceiptQuery(params: Record<string, string | undefined>): ReceiptQuery | string {
+  const query: ReceiptQuery = {};
+  if (params.payer) query.payer = params.payer;
+  if (params.endpoint) query.endpoint = params.endpoint;
+  if (params.cursor) query.cursor = params.cursor;
+  for (const key of ['from', 'to'] as const) {
+    const value = params[key];
+    if (!value) continue;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return `Invalid ${key}: expected an ISO-8601 timestamp`;
+    query[key] = date;
+  }
+  if (params.limit) {
+    const limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RECEIPT_PAGE) {
+      return `Invalid limit: expected an integer from 1 to ${MAX_RECEIPT_PAGE}`;
+    }
+    query.limit = limit;
+  }
+  return query;
+}
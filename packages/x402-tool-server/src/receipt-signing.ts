@@ -0,0 +1,101 @@
+/**
+ * Signed receipts — provable evidence of what a client paid for.
+ *
+ * With a `receiptSigner`, every paid response carries its receipt as a
+ * compact JWS (Ed25519, header `typ: "x402-receipt"`) in `X-Payment-Receipt`,
+ * and GET /x402/receipts/:nonce adds the same header over the stored
+ * receipt. Clients check tokens offline against the public keys published
+ * at GET /.well-known/jwks.json (`verifyReceipt` in x402-agent-client):
+ *
+ *   createX402Middleware({
+ *     verifier,
+ *     receiptStore,
+ *     receiptSigner: createReceiptSigner({ keys: [{ kid: 'receipts-1', privateKey: process.env.X402_RECEIPT_KEY! }] }),
+ *   });
+ *
+ * Only Ed25519 is supported: a shared HMAC secret would let every verifier
+ * forge receipts. Key rotation works as for challenge tokens — keep retired
+ * public keys in `keys` so receipts they signed still verify.
+ */
+import { createPrivateKey, createPublicKey } from 'crypto';
+import type { KeyObject } from 'crypto';
+import { createTokenSigner } from './challenge-token.js';
+import type { TokenSigner } from './challenge-token.js';
+import type { Receipt } from './receipts.js';
+
+export interface ReceiptSigningKey {
+  /** Key identifier, written to the token header and the JWKS */
+  kid: string;
+  /** Ed25519 private key (KeyObject or PEM). Required only for the active key. */
+  privateKey?: KeyObject | string;
+  /** Ed25519 public key (KeyObject or PEM). Derived from privateKey if omitted. */
+  publicKey?: KeyObject | string;
+}
+
+export interface ReceiptSignerOptions {
+  /** All keys published for verification. */
+  keys: ReceiptSigningKey[];
+  /** kid of the key used to sign new receipts. Default: the first key. */
+  activeKid?: string;
+}
+
+/** An Ed25519 public key as a JSON Web Key (RFC 8037). */
+export interface ReceiptJwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  /** The public key, base64url */
+  x: string;
+  kid: string;
+  alg: 'EdDSA';
+  use: 'sig';
+}
+
+/** Seals receipts into tokens and publishes the keys that check them. */
+export interface ReceiptSigner extends TokenSigner<Receipt> {
+  /** The JSON Web Key Set served at GET /.well-known/jwks.json */
+  jwks(): { keys: ReceiptJwk[] };
+}
+
+function toPublicKey(key: ReceiptSigningKey): KeyObject {
+  if (key.publicKey) return typeof key.publicKey === 'string' ? createPublicKey(key.publicKey) : key.publicKey;
+  if (key.privateKey) {
+    return createPublicKey(typeof key.privateKey === 'string' ? createPrivateKey(key.privateKey) : key.privateKey);
+  }
+  throw new Error(`Receipt signing key "${key.kid}" has neither privateKey nor publicKey`);
+}
+
+/**
+ * Create a ReceiptSigner backed by node:crypto.
+ *
+ *   createReceiptSigner({
+ *     keys: [
+ *       { kid: '2026-10', privateKey: process.env.X402_RECEIPT_KEY! },
+ *       { kid: '2026-04', publicKey: process.env.X402_RECEIPT_KEY_OLD_PUBLIC! },
+ *     ],
+ *   });
+ */
+export function createReceiptSigner(options: ReceiptSignerOptions): ReceiptSigner {
+  const jwks: ReceiptJwk[] = options.keys.map((key) => {
+    const publicKey = toPublicKey(key);
+    if (publicKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Receipt signing key "${key.kid}" is not an Ed25519 key`);
+    }
+    const { x } = publicKey.export({ format: 'jwk' });
+    return { kty: 'OKP', crv: 'Ed25519', x: x as string, kid: key.kid, alg: 'EdDSA', use: 'sig' };
+  });
+
+  const signer = createTokenSigner<Receipt>('x402-receipt', 'Receipt', {
+    keys: options.keys.map((key) => ({ ...key, alg: 'EdDSA' })),
+    ...(options.activeKid ? { activeKid: options.activeKid } : {}),
+  });
+  const activeKid = options.activeKid ?? options.keys[0].kid;
+  if (!options.keys.find((key) => key.kid === activeKid)?.privateKey) {
+    throw new Error(`Active receipt signing key "${activeKid}" has no privateKey`);
+  }
+
+  return {
+    sign: (receipt) => signer.sign(receipt),
+    verify: (token) => signer.verify(token),
+    jwks: () => ({ keys: jwks.map((jwk) => ({ ...jwk })) }),
+  };
+}
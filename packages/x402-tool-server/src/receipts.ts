@@ -2,8 +2,17 @@
  * x402 Receipt Store — stores payment receipts for audit and verification.
  *
  * After a successful payment, the middleware saves a receipt keyed by nonce.
- * Consumers can retrieve receipts via GET /x402/receipts/:nonce.
+ * Consumers can retrieve receipts via GET /x402/receipts/:nonce. Stores
+ * that implement `list()` also back the receipt admin routes (listing,
+ * totals and CSV/NDJSON export; see receipt-reports.ts).
  */
+import { decodeJsonBase64, encodeJsonBase64 } from './encoding.js';
+
+/** Response header carrying the signed receipt (see receipt-signing.ts). */
+export const RECEIPT_HEADER = 'x-payment-receipt';
+
+/** Route publishing the receipt signer's public keys. */
+export const JWKS_PATH = '/.well-known/jwks.json';
 
 export interface Receipt {
   /** The challenge nonce that was paid */
@@ -24,8 +33,60 @@ export interface Receipt {
   method: string;
   /** SHA-256 hex digest of the canonical request */
   requestHash: string;
-  /** ISO-8601 timestamp when payment was verified */
+  /** ISO-8601 timestamp when payment was verified (server clock) */
   paidAt: string;
+  /** Timestamp the payer put in its proof — unverified, never used for ordering or filters */
+  proofTimestamp?: string;
+  /** Amount the verifier saw settled, when it reports one (may exceed `amount`) */
+  settledAmount?: string;
+  /** Settlement reference from the verifier, e.g. a transaction signature */
+  txRef?: string;
+  /** ISO-8601 timestamp when the payment was voided by the refund policy */
+  voidedAt?: string;
+  /**
+   * Reference of the refund that returned the funds (the unused remainder,
+   * on a metered route that was not voided), e.g. a transaction signature
+   */
+  refundTxRef?: string;
+  /** Prepaid session the amount was debited from (no proof was sent) */
+  sessionId?: string;
+  /** Pass that paid for the call (no proof was sent; `amount` is "0") */
+  passId?: string;
+  /** True when the access policy let the call through for free (`amount` is "0") */
+  free?: boolean;
+  /** The route's undiscounted price, when a tier or coupon applied (`amount` is what was charged) */
+  originalPrice?: string;
+  /** Discount code the request used */
+  coupon?: string;
+  /** Units the handler reported on a metered route (`amount` is then the maximum authorized) */
+  units?: number;
+  /** Amount actually charged on a metered route: units × unit price, capped at `amount` */
+  charged?: string;
+  /** Unused part of a metered authorization (`amount` − `charged`) */
+  remainder?: string;
+}
+
+/** Filters and paging for `ReceiptStore.list()`. */
+export interface ReceiptQuery {
+  /** Only receipts of this payer */
+  payer?: string;
+  /** Only receipts of this endpoint (exact pathname) */
+  endpoint?: string;
+  /** Only receipts paid at or after this time */
+  from?: Date;
+  /** Only receipts paid before this time */
+  to?: Date;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+  /** Page size (default: 100) */
+  limit?: number;
+}
+
+/** One page of receipts, oldest first. */
+export interface ReceiptPage {
+  receipts: Receipt[];
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 /**
@@ -34,9 +95,122 @@ export interface Receipt {
  */
 export interface ReceiptStore {
   /** Save a receipt. */
+  save(receipt: Receipt): Promise<void>;
+  /** Retrieve a receipt by nonce. Resolves undefined if not found. */
+  get(nonce: string): Promise<Receipt | undefined>;
+  /**
+   * List receipts matching `query`, ordered by `paidAt` then nonce. Optional;
+   * required for the receipt admin routes.
+   */
+  list?(query: ReceiptQuery): Promise<ReceiptPage>;
+}
+
+/**
+ * Pre-async receipt store shape. Still accepted by the middleware;
+ * wrap with `toAsyncReceiptStore` to use it elsewhere.
+ */
+export interface SyncReceiptStore {
   save(receipt: Receipt): void;
-  /** Retrieve a receipt by nonce. Returns undefined if not found. */
   get(nonce: string): Receipt | undefined;
+  list?(query: ReceiptQuery): ReceiptPage;
+}
+
+/**
+ * Adapt a receipt store to the async interface. Synchronous stores keep
+ * working unchanged; async stores pass through.
+ */
+export function toAsyncReceiptStore(store: ReceiptStore | SyncReceiptStore): ReceiptStore {
+  const list = store.list?.bind(store);
+  return {
+    async save(receipt) {
+      await store.save(receipt);
+    },
+    async get(nonce) {
+      return store.get(nonce);
+    },
+    ...(list ? { list: async (query: ReceiptQuery) => list(query) } : {}),
+  };
+}
+
+/** Thrown by `list()` for a cursor it did not issue. */
+export class InvalidReceiptCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid receipt cursor: ${cursor}`);
+    this.name = 'InvalidReceiptCursorError';
+  }
+}
+
+/** Default page size of `list()`. */
+export const DEFAULT_RECEIPT_PAGE = 100;
+
+/** Position after a receipt, as an opaque cursor. */
+export function encodeReceiptCursor(receipt: Receipt): string {
+  return encodeJsonBase64({ paidAt: receipt.paidAt, nonce: receipt.nonce }, true);
+}
+
+/** Read a cursor from `encodeReceiptCursor`; undefined if malformed. */
+export function decodeReceiptCursor(cursor: string): { paidAt: string; nonce: string } | undefined {
+  try {
+    const value = decodeJsonBase64(cursor) as { paidAt?: unknown; nonce?: unknown };
+    if (typeof value.paidAt === 'string' && typeof value.nonce === 'string') {
+      return { paidAt: value.paidAt, nonce: value.nonce };
+    }
+  } catch {
+    // Malformed cursor
+  }
+  return undefined;
+}
+
+/**
+ * `paidAt` in epoch ms. An unparsable value (from a custom or older store)
+ * counts as the epoch, so ordering stays total and paging always advances.
+ */
+function paidAtMs(paidAt: string): number {
+  const ms = Date.parse(paidAt);
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+/** Order receipts by paidAt, then nonce. */
+function compareReceipts(a: { paidAt: string; nonce: string }, b: { paidAt: string; nonce: string }): number {
+  const byTime = paidAtMs(a.paidAt) - paidAtMs(b.paidAt);
+  if (byTime !== 0) return byTime;
+  return a.nonce < b.nonce ? -1 : a.nonce > b.nonce ? 1 : 0;
+}
+
+/** True when `receipt` matches the filters of `query` (not the cursor). */
+export function matchesReceiptQuery(receipt: Receipt, query: ReceiptQuery): boolean {
+  if (query.payer !== undefined && receipt.payer !== query.payer) return false;
+  if (query.endpoint !== undefined && receipt.endpoint !== query.endpoint) return false;
+  const paidAt = paidAtMs(receipt.paidAt);
+  if (query.from && paidAt < query.from.getTime()) return false;
+  if (query.to && paidAt >= query.to.getTime()) return false;
+  return true;
+}
+
+/**
+ * The page of `receipts` that `query` asks for: matching receipts after the
+ * cursor, ordered by paidAt then nonce. Throws `InvalidReceiptCursorError`
+ * for a malformed cursor. For stores that hold their receipts in memory.
+ */
+export function pageReceipts(receipts: Iterable<Receipt>, query: ReceiptQuery): ReceiptPage {
+  const after = query.cursor ? decodeReceiptCursor(query.cursor) : undefined;
+  if (query.cursor && !after) throw new InvalidReceiptCursorError(query.cursor);
+  const limit = query.limit ?? DEFAULT_RECEIPT_PAGE;
+
+  const matching: Receipt[] = [];
+  for (const receipt of receipts) {
+    if (!matchesReceiptQuery(receipt, query)) continue;
+    if (after && compareReceipts(receipt, after) <= 0) continue;
+    matching.push(receipt);
+  }
+  matching.sort(compareReceipts);
+
+  const page = matching.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    receipts: page,
+    ...(matching.length > limit && last ? { nextCursor: encodeReceiptCursor(last) } : {}),
+  };
 }
 
 /**
@@ -61,14 +235,14 @@ export class MemoryReceiptStore implements ReceiptStore {
     if (this.sweepInterval.unref) this.sweepInterval.unref();
   }
 
-  save(receipt: Receipt): void {
+  async save(receipt: Receipt): Promise<void> {
     this.store.set(receipt.nonce, {
       receipt,
       expiresAt: Date.now() + this.ttlMs,
     });
   }
 
-  get(nonce: string): Receipt | undefined {
+  async get(nonce: string): Promise<Receipt | undefined> {
     const entry = this.store.get(nonce);
     if (!entry) return undefined;
     if (Date.now() > entry.expiresAt) {
@@ -78,6 +252,12 @@ export class MemoryReceiptStore implements ReceiptStore {
     return entry.receipt;
   }
 
+  async list(query: ReceiptQuery): Promise<ReceiptPage> {
+    const now = Date.now();
+    const live = [...this.store.values()].filter(({ expiresAt }) => now <= expiresAt).map(({ receipt }) => receipt);
+    return pageReceipts(live, query);
+  }
+
   /** Number of receipts currently stored. */
   get size(): number {
     return this.store.size;
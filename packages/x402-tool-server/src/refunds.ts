@@ -0,0 +1,56 @@
+/**
+ * x402 refunds — void a payment when the paid handler fails.
+ *
+ * With `refundOn` set, the gate inspects every paid request once the
+ * handler has responded:
+ *
+ *   'error'    the handler threw
+ *   '5xx'      the response status is 500 or above (includes thrown errors)
+ *   predicate  custom decision from the status, error and receipt
+ *
+ * A matching request has its receipt voided, the optional `Refunder` sends
+ * the funds back, and an `x402:refund` event is emitted. A refunded proof
+ * stays spent; a proof whose payment was voided but not refunded has its
+ * nonce released, so the client may retry with the same proof.
+ */
+import type { Receipt } from './receipts.js';
+
+/** How a paid request ended, as seen by the refund policy. */
+export interface HandlerOutcome {
+  /** Status code of the response sent to the client */
+  statusCode: number;
+  /** Error thrown by the handler, if any */
+  error?: unknown;
+  /** Receipt of the payment that would be voided */
+  receipt: Receipt;
+}
+
+export type RefundPolicy = 'error' | '5xx' | ((outcome: HandlerOutcome) => boolean);
+
+export interface RefundResult {
+  /** true once the funds are on their way back to the payer */
+  ok: boolean;
+  /** Refund reference, e.g. a transaction signature */
+  txRef?: string;
+  /** Human-readable detail, e.g. why the refund failed */
+  message?: string;
+}
+
+/**
+ * Sends a voided payment back to its payer. Implementations ship in
+ * x402-adapters (MockRefunder, SolanaUSDCRefunder).
+ */
+export interface Refunder {
+  /**
+   * Send `amount` back to the receipt's payer — the whole payment when
+   * omitted, the unused remainder of a metered authorization otherwise.
+   */
+  refund(receipt: Receipt, amount?: string): Promise<RefundResult>;
+}
+
+/** Whether `policy` calls for voiding the payment behind `outcome`. */
+export function shouldRefund(policy: RefundPolicy, outcome: HandlerOutcome): boolean {
+  if (policy === 'error') return outcome.error !== undefined;
+  if (policy === '5xx') return outcome.error !== undefined || outcome.statusCode >= 500;
+  return policy(outcome);
+}
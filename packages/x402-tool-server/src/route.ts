@@ -19,12 +19,13 @@ import type {
   FastifyReply,
   HTTPMethods,
 } from 'fastify';
-import type { PricingConfig } from './types.js';
+import type { PricingConfig, PricingResolver } from './types.js';
 
 export interface PricedRouteOptions {
   method: HTTPMethods | HTTPMethods[];
   url: string;
-  pricing: PricingConfig;
+  /** Static pricing, or a function resolving pricing per request */
+  pricing: PricingConfig | PricingResolver;
   handler: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown> | unknown;
   schema?: RouteOptions['schema'];
   preHandler?: RouteOptions['preHandler'];
@@ -50,7 +51,11 @@ export function pricedRoute(options: PricedRouteOptions): RouteOptions {
  * Use with fastify.get/post/etc.:
  *
  *   fastify.get('/weather', pricedHandler({ price: '0.001', ... }), myHandler);
+ *
+ * Pass a function to price each request dynamically:
+ *
+ *   fastify.get('/rows', pricedHandler((req) => ({ price: rowsPrice(req), ... })), myHandler);
  */
-export function pricedHandler(pricing: PricingConfig): RouteShorthandOptions {
+export function pricedHandler(pricing: PricingConfig | PricingResolver): RouteShorthandOptions {
   return { config: { x402Pricing: pricing } };
 }
@@ -0,0 +1,191 @@
+/**
+ * x402 prepaid sessions — pay once, spend down across many calls.
+ *
+ * A client buys credit with one x402 payment to POST /x402/sessions and
+ * gets back a bearer token. Priced routes then debit the session balance
+ * instead of asking for a proof per call:
+ *
+ *   Authorization: Bearer x402s_…
+ *
+ * Each debited response carries the remaining balance (`X-402-Session-Balance`,
+ * `X-402-Session-Expires`). When the session cannot pay, the route answers
+ * with its usual 402 challenge plus `X-402-Session-Error`:
+ *
+ *   insufficient_balance  balance below the route price
+ *   unknown_session       token unknown or expired
+ *   unsupported_route     route does not accept the session's asset/network/recipient
+ *   payer_mismatch        the session was bought by another payer than X-402-Payer names
+ *
+ * Paying POST /x402/sessions again with the same bearer token tops the
+ * session up. Every 402 challenge from a gate with sessions enabled carries
+ * `X-402-Session-Endpoint`, so clients can discover where to buy credit.
+ *
+ * A session can only pay for routes accepting the asset, network and
+ * recipient it was bought with.
+ */
+import { encodeBase64Url } from './encoding.js';
+import { addDecimal, compareDecimal, subtractDecimal } from './decimal.js';
+import type { PricingConfig } from './types.js';
+
+export interface Session {
+  /** Public session identifier, recorded on receipts of debits */
+  id: string;
+  /** Secret bearer token spending the session */
+  token: string;
+  /** Remaining credit as decimal string, in `asset` */
+  balance: string;
+  asset: string;
+  network: string;
+  /** Recipient the credit was paid to; only routes paying it accept the session */
+  recipient: string;
+  /** Payer of the purchase that opened the session */
+  payer: string;
+  /** ISO-8601 timestamp when the session was opened */
+  createdAt: string;
+  /** ISO-8601 timestamp after which the session is no longer accepted */
+  expiresAt: string;
+}
+
+export type SessionDebitResult =
+  | { ok: true; session: Session }
+  | { ok: false; reason: 'unknown_session' }
+  | { ok: false; reason: 'insufficient_balance'; session: Session };
+
+/**
+ * Interface for session storage backends. `debit` and `credit` must be
+ * atomic per token — concurrent calls must never spend the same credit twice.
+ */
+export interface SessionStore {
+  /** Store a newly opened session. */
+  create(session: Session): Promise<void>;
+  /** Retrieve a live session. Resolves undefined if unknown or expired. */
+  get(token: string): Promise<Session | undefined>;
+  /** Subtract `amount` from the balance if it covers it. */
+  debit(token: string, amount: string): Promise<SessionDebitResult>;
+  /**
+   * Add `amount` to the balance, optionally moving the expiry. Resolves
+   * undefined if the session is unknown or expired.
+   */
+  credit(token: string, amount: string, expiresAt?: string): Promise<Session | undefined>;
+}
+
+/**
+ * Default in-memory session store.
+ * A background interval (every 60 s) evicts expired sessions.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly store = new Map<string, Session>();
+  private readonly sweepInterval: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.sweepInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [token, session] of this.store) {
+        if (now > new Date(session.expiresAt).getTime()) this.store.delete(token);
+      }
+    }, 60_000);
+
+    if (this.sweepInterval.unref) this.sweepInterval.unref();
+  }
+
+  async create(session: Session): Promise<void> {
+    this.store.set(session.token, { ...session });
+  }
+
+  async get(token: string): Promise<Session | undefined> {
+    const session = this.live(token);
+    return session && { ...session };
+  }
+
+  async debit(token: string, amount: string): Promise<SessionDebitResult> {
+    const session = this.live(token);
+    if (!session) return { ok: false, reason: 'unknown_session' };
+    if (compareDecimal(session.balance, amount) < 0) {
+      return { ok: false, reason: 'insufficient_balance', session: { ...session } };
+    }
+    session.balance = subtractDecimal(session.balance, amount);
+    return { ok: true, session: { ...session } };
+  }
+
+  async credit(token: string, amount: string, expiresAt?: string): Promise<Session | undefined> {
+    const session = this.live(token);
+    if (!session) return undefined;
+    session.balance = addDecimal(session.balance, amount);
+    if (expiresAt) session.expiresAt = expiresAt;
+    return { ...session };
+  }
+
+  /** Number of sessions currently held. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /** Stop the background sweep timer. */
+  destroy(): void {
+    clearInterval(this.sweepInterval);
+  }
+
+  private live(token: string): Session | undefined {
+    const session = this.store.get(token);
+    if (!session) return undefined;
+    if (Date.now() > new Date(session.expiresAt).getTime()) {
+      this.store.delete(token);
+      return undefined;
+    }
+    return session;
+  }
+}
+
+export interface SessionOptions {
+  /**
+   * What one purchase costs. The amount paid (the verifier's settled amount,
+   * when it reports one) becomes session credit in the same asset.
+   */
+  pricing: PricingConfig;
+  /** Session lifetime in seconds, renewed by every top-up. Default: 3600. */
+  ttlSeconds?: number;
+  /** Session store (defaults to in-memory) */
+  store?: SessionStore;
+}
+
+/** Path of the session purchase / status endpoint. */
+export const SESSIONS_PATH = '/x402/sessions';
+
+const TOKEN_PREFIX = 'x402s_';
+
+/** A fresh, unguessable session token (256 random bits). */
+export function createSessionToken(): string {
+  return TOKEN_PREFIX + encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * The session token from an `Authorization: Bearer` header, if it carries
+ * one. Other bearer tokens are left to the application.
+ */
+export function readSessionToken(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const header = headers.authorization;
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value && /^Bearer\s+(\S+)$/i.exec(value);
+  return match && match[1].startsWith(TOKEN_PREFIX) ? match[1] : undefined;
+}
+
+/** The first of a route's payment options that `session` can pay for. */
+export function sessionPaymentOption(
+  options: PricingConfig[],
+  session: Session,
+): PricingConfig | undefined {
+  return options.find(
+    (option) =>
+      option.asset === session.asset &&
+      (option.network ?? 'mock') === session.network &&
+      option.recipient === session.recipient,
+  );
+}
+
+/** Headers reporting a session's state to the client. */
+export function sessionHeaders(session: Session): Record<string, string> {
+  return {
+    'x-402-session-balance': session.balance,
+    'x-402-session-expires': session.expiresAt,
+  };
+}
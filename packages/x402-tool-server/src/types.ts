@@ -6,8 +6,19 @@
  * - Payment proof sent in header: X-Payment-Proof (base64url-encoded JSON PaymentProof)
  */
 
+import type { FastifyRequest } from 'fastify';
+
 // ─── Challenge (402 response body) ──────────────────────────────────────────
 
+/** One accepted way to pay a challenge. */
+export interface ChallengeOption {
+  scheme: string;
+  price: string;
+  asset: string;
+  network: string;
+  recipient: string;
+}
+
 export interface X402Challenge {
   /** Protocol version — always 1 for this implementation */
   version: number;
@@ -32,6 +43,20 @@ export interface X402Challenge {
   requestHash: string;
   /** Optional human-readable description of what is being purchased */
   description?: string;
+  /**
+   * Every accepted payment option, primary (the top-level fields) first.
+   * Present only when the route accepts more than one.
+   */
+  accepts?: ChallengeOption[];
+  /** Per-unit terms when the route is metered; `price` is then the maximum charge */
+  metered?: MeteredPricing;
+  /** The route's undiscounted price, when a tier or coupon changed `price` */
+  originalPrice?: string;
+  /**
+   * Server-signed token sealing the fields above (present when the
+   * middleware has a `challengeSigner`). Must be echoed in PaymentProof.
+   */
+  challengeToken?: string;
 }
 
 export interface X402ChallengeBody {
@@ -59,6 +84,33 @@ export interface PaymentProof {
    * Real: on-chain tx hash or EIP-712 signature
    */
   signature: string;
+  /** Echo of challenge.challengeToken, when the server issued one */
+  challengeToken?: string;
+  /** Network of the option paid (multi-option challenges); omitted = primary option */
+  network?: string;
+  /** Asset of the option paid (multi-option challenges) */
+  asset?: string;
+}
+
+// ─── Payment response (sent with a paid response) ───────────────────────────
+
+/**
+ * Settlement of a proof-paid request, base64url-encoded in the
+ * `X-Payment-Response` header of the paid response (toolkit wire format).
+ */
+export interface X402PaymentResponse {
+  success: true;
+  /** Nonce of the challenge that was paid (the receipt key) */
+  nonce: string;
+  payer: string;
+  /** Amount paid as a decimal string */
+  amount: string;
+  asset: string;
+  network: string;
+  /** Settlement reference from the verifier, e.g. a transaction signature */
+  txRef?: string;
+  /** Amount the verifier saw settled, when it reports one */
+  settledAmount?: string;
 }
 
 // ─── Pricing config (attached to routes) ────────────────────────────────────
@@ -81,19 +133,146 @@ export interface PricingConfig {
   coinbaseAssetAddress?: string;
   coinbaseNetwork?: string;
   assetDecimals?: number;
+  /**
+   * Further payment options accepted besides the primary one above, e.g. the
+   * same price in USDC on another network. Unset fields fall back to the
+   * primary option's values.
+   */
+  options?: PaymentOption[];
+  /**
+   * Meter the route: `price` becomes the maximum authorization, the handler
+   * reports usage as it goes (`reply.x402.meter(units)`), and the receipt
+   * records the actual charge once the response has been sent. Applies to
+   * every payment option.
+   */
+  metered?: MeteredPricing;
+  /**
+   * Sell a pass: a paid request to this route also mints a signed pass
+   * token (response header `X-402-Pass`) that pays for later calls to the
+   * routes in its scope. Needs the gate's `passes` option.
+   */
+  passes?: PassTerms;
+  /**
+   * Volume pricing per payer, in order: a payer's first `upTo` paid calls
+   * cost the first tier's price, and so on. Applies to callers naming
+   * themselves with `X-402-Payer` (checked against the payer of the
+   * payment); everyone else pays `price`.
+   */
+  tiers?: PriceTier[];
+  /** Discount codes accepted in the `X-402-Coupon` header, by code */
+  coupons?: Record<string, Coupon>;
 }
 
+/** One volume tier (see `PricingConfig.tiers`). */
+export interface PriceTier {
+  /** Paid calls (cumulative, per payer) this tier covers; absent = all further calls */
+  upTo?: number;
+  /** Price of a call in this tier, as a decimal string */
+  price: string;
+}
+
+/** A discount code (see `PricingConfig.coupons`). Applied after tiers. */
+export interface Coupon {
+  /** Whole-number percentage taken off the price, 0–100 */
+  percentOff?: number;
+  /** Amount taken off the price, as a decimal string; never below zero */
+  amountOff?: string;
+}
+
+/** What a pass bought from a route grants (see `PricingConfig.passes`). */
+export interface PassTerms {
+  /**
+   * Route patterns the pass pays for, matched against the request path.
+   * `*` matches any run of characters, e.g. "/weather" or "/tools/*".
+   */
+  scope: string[];
+  /** Pass lifetime in seconds, e.g. 86400 for a daily pass */
+  ttlSeconds: number;
+  /** Calls the pass pays for in total. Default: unlimited until expiry. */
+  maxCalls?: number;
+}
+
+/** Per-unit pricing of a metered route (see `PricingConfig.metered`). */
+export interface MeteredPricing {
+  /** Price of one unit as a decimal string, e.g. "0.00002" */
+  unitPrice: string;
+  /** What a unit is, e.g. "token" (informational) */
+  unit?: string;
+}
+
+/** An alternative way to pay for a route (see `PricingConfig.options`). */
+export type PaymentOption = Partial<
+  Pick<PricingConfig, 'price' | 'asset' | 'network' | 'recipient' | 'scheme' | 'assetDecimals'>
+>;
+
+/**
+ * Computes a route's pricing from the incoming request (e.g. by rows
+ * requested, model tier or body size). Called when the challenge is issued
+ * and again when the proof is verified, so it must be deterministic for a
+ * given request. Price quotes (HEAD, `GET /x402/quote`) call it for a
+ * request without a body — `request.body` is undefined there — so a
+ * resolver pricing by body must fall back to a price without one.
+ */
+export type PricingResolver<TRequest = FastifyRequest> = (
+  request: TRequest,
+) => PricingConfig | Promise<PricingConfig>;
+
 // ─── Verifier interface ──────────────────────────────────────────────────────
 
+/** Why a verifier rejected a proof. */
+export type VerificationFailureReason =
+  | 'malformed_proof'
+  | 'unsupported_version'
+  | 'hash_mismatch'
+  | 'expired'
+  | 'bad_signature'
+  | 'tx_not_found'
+  | 'missing_transfer'
+  | 'wrong_asset'
+  | 'wrong_recipient'
+  | 'amount_too_low'
+  | 'memo_mismatch'
+  | 'stale_transaction'
+  | 'wrong_network'
+  | 'unsupported_network'
+  | 'rpc_error'
+  | 'unspecified';
+
+export interface VerificationResult {
+  /** true if the proof is valid and payment is accepted */
+  ok: boolean;
+  /** Failure code (set when ok is false) */
+  reason?: VerificationFailureReason;
+  /** Human-readable detail for logs and the 402 body */
+  message?: string;
+  /** Payer identity as established by the verifier (e.g. on-chain sender) */
+  payer?: string;
+  /** Amount actually settled, as a decimal string */
+  settledAmount?: string;
+  /** Settlement reference, e.g. the on-chain transaction signature */
+  txRef?: string;
+}
+
 export interface VerifierInterface {
   /**
    * Verify a payment proof against the current request.
    *
    * @param proofHeader - raw value of X-Payment-Proof header (base64url JSON)
    * @param requestHash - SHA-256 hex of the canonical request (server-recomputed)
-   * @param pricing     - pricing config for this route
-   * @returns true if the proof is valid and payment is accepted
+   * @param pricing     - pricing config for this route (the paid option)
    */
+  verify(
+    proofHeader: string,
+    requestHash: string,
+    pricing: PricingConfig,
+  ): Promise<VerificationResult>;
+}
+
+/**
+ * Pre-VerificationResult verifier shape, resolving a bare boolean. Still
+ * accepted by the middleware; wrap with `toResultVerifier` to use it elsewhere.
+ */
+export interface BooleanVerifierInterface {
   verify(
     proofHeader: string,
     requestHash: string,
@@ -111,6 +290,15 @@ export interface StoredResponse {
 }
 
 export interface IdempotencyStore {
+  get(key: string): Promise<StoredResponse | undefined>;
+  set(key: string, value: StoredResponse): Promise<void>;
+}
+
+/**
+ * Pre-async idempotency store shape. Still accepted by the middleware;
+ * wrap with `toAsyncIdempotencyStore` to use it elsewhere.
+ */
+export interface SyncIdempotencyStore {
   get(key: string): StoredResponse | undefined;
   set(key: string, value: StoredResponse): void;
 }
@@ -119,6 +307,6 @@ export interface IdempotencyStore {
 
 declare module 'fastify' {
   interface FastifyContextConfig {
-    x402Pricing?: PricingConfig;
+    x402Pricing?: PricingConfig | PricingResolver;
   }
 }
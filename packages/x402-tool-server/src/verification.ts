@@ -0,0 +1,24 @@
+/**
+ * Verification result helpers — bridge boolean verifiers to VerificationResult.
+ */
+import type { BooleanVerifierInterface, VerificationResult, VerifierInterface } from './types.js';
+
+/** Normalize a verifier's answer; a bare `false` becomes reason "unspecified". */
+export function toVerificationResult(result: boolean | VerificationResult): VerificationResult {
+  if (typeof result !== 'boolean') return result;
+  return result ? { ok: true } : { ok: false, reason: 'unspecified' };
+}
+
+/**
+ * Adapt a verifier to the VerificationResult interface. Boolean verifiers
+ * keep working unchanged; result verifiers pass through.
+ */
+export function toResultVerifier(
+  verifier: VerifierInterface | BooleanVerifierInterface,
+): VerifierInterface {
+  return {
+    async verify(proofHeader, requestHash, pricing) {
+      return toVerificationResult(await verifier.verify(proofHeader, requestHash, pricing));
+    },
+  };
+}
@@ -0,0 +1,339 @@
+/**
+ * Integration tests — Express and node:http adapters + x402Fetch + MockPayer/Verifier
+ *
+ * Express itself is not a dependency, so the Express middleware runs on a
+ * node:http server behind a minimal Connect-style chain (including a JSON
+ * body parser using `captureRawBody`, like `express.json({ verify })`).
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import Fastify from 'fastify';
+import {
+  createX402Express,
+  createX402Node,
+  createX402Middleware,
+  createPaymentGate,
+  captureRawBody,
+  pricedRoute,
+  MemoryReceiptStore,
+} from 'x402-tool-server';
+import type { ExpressMiddleware, NodeRequest, WireFormat, X402PaymentEvent } from 'x402-tool-server';
+import { x402Fetch } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'adapters-secret';
+const PRICING = {
+  price: '0.001',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xADAPT',
+};
+
+type Req = NodeRequest & { body?: unknown };
+
+/** Minimal stand-in for express.json({ verify: captureRawBody }). */
+const jsonBodyParser: ExpressMiddleware<Req> = (req, res, next) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const raw = Buffer.concat(chunks);
+    if (raw.length > 0) {
+      captureRawBody(req, res, raw);
+      req.body = JSON.parse(raw.toString('utf8'));
+    } else {
+      req.body = {};
+    }
+    next();
+  });
+};
+
+/** Run Connect-style middleware in order, then `handler`. */
+function chain(middleware: ExpressMiddleware<Req>[], handler: (req: Req, res: ServerResponse) => void) {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    const run = (index: number) => (err?: unknown) => {
+      if (err) {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: String(err) }));
+        return;
+      }
+      const next = middleware[index];
+      if (next) next(req as Req, res, run(index + 1));
+      else handler(req as Req, res);
+    };
+    run(0)();
+  };
+}
+
+function json(res: ServerResponse, body: unknown) {
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  return `http://127.0.0.1:${port}`;
+}
+
+function buildExpressServer(opts: { wireFormat?: WireFormat; receiptStore?: MemoryReceiptStore } = {}) {
+  const x402 = createX402Express({
+    verifier: new MockVerifier({ secret: SECRET }),
+    wireFormat: opts.wireFormat,
+    receiptStore: opts.receiptStore,
+  });
+  const priced = x402.priced<Req>(PRICING);
+  const server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path === '/weather') {
+      return chain([priced], (r, s) => json(s, { city: new URL(r.url ?? '/', 'http://x').searchParams.get('city') }))(req, res);
+    }
+    if (path === '/action') {
+      return chain([jsonBodyParser, priced], (r, s) => json(s, { executed: (r.body as { action: string }).action }))(req, res);
+    }
+    return chain([x402.receipts], (_r, s) => {
+      s.statusCode = 404;
+      s.end();
+    })(req, res);
+  });
+  return { x402, server };
+}
+
+function buildNodeServer(opts: { wireFormat?: WireFormat; receiptStore?: MemoryReceiptStore } = {}) {
+  const x402 = createX402Node({
+    verifier: new MockVerifier({ secret: SECRET }),
+    wireFormat: opts.wireFormat,
+    receiptStore: opts.receiptStore,
+  });
+  let calls = 0;
+  const weather = x402.priced(PRICING, (_req, res) => {
+    calls++;
+    json(res, { temp: 20, calls });
+  });
+  const action = x402.priced(PRICING, (req, res) => {
+    const body = JSON.parse((req.rawBody as Buffer).toString('utf8')) as { action: string };
+    json(res, { executed: body.action });
+  });
+  const server = createServer(async (req, res) => {
+    if (await x402.receipts(req, res)) return;
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path === '/weather') return weather(req, res);
+    if (path === '/action') return action(req, res);
+    res.statusCode = 404;
+    res.end();
+  });
+  return { x402, server };
+}
+
+describe('Framework adapters', () => {
+  const payer = new MockPayer({ secret: SECRET });
+  const servers: Server[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.splice(0).map((s) => new Promise<void>((resolve) => s.close(() => resolve()))),
+    );
+  });
+
+  for (const [name, build] of [['express', buildExpressServer], ['node', buildNodeServer]] as const) {
+    describe(name, () => {
+      it('issues the same 402 challenge body as the Fastify plugin', async () => {
+        const { server } = build();
+        servers.push(server);
+        const baseUrl = await listen(server);
+
+        const res = await fetch(`${baseUrl}/weather?city=SF`);
+        expect(res.status).toBe(402);
+        expect(res.headers.get('content-type')).toContain('application/json');
+        const { x402 } = await res.json();
+        expect(x402).toMatchObject({ version: 1, scheme: 'exact', ...PRICING });
+        expect(x402.nonce).toBeTruthy();
+        expect(x402.requestHash).toMatch(/^[0-9a-f]{64}$/);
+      });
+
+      it('x402Fetch pays a GET route and reaches the handler', async () => {
+        const receiptStore = new MemoryReceiptStore();
+        const { x402, server } = build({ receiptStore });
+        servers.push(server);
+        const baseUrl = await listen(server);
+        const payments: X402PaymentEvent[] = [];
+        x402.events.on('x402:payment', (e) => payments.push(e));
+
+        const res = await x402Fetch(`${baseUrl}/weather?city=SF`, {}, { payer });
+        expect(res.status).toBe(200);
+        expect(payments).toHaveLength(1);
+        expect(payments[0].receipt).toMatchObject({ amount: '0.001', endpoint: '/weather', method: 'GET' });
+
+        const receipt = await fetch(`${baseUrl}/x402/receipts/${payments[0].receipt.nonce}`);
+        expect(receipt.status).toBe(200);
+        expect(await receipt.json()).toMatchObject({ nonce: payments[0].receipt.nonce, recipient: '0xADAPT' });
+        expect((await fetch(`${baseUrl}/x402/receipts/unknown`)).status).toBe(404);
+        receiptStore.destroy();
+      });
+
+      it('x402Fetch pays a POST route with the body hashed byte-for-byte', async () => {
+        const { server } = build();
+        servers.push(server);
+        const baseUrl = await listen(server);
+
+        const res = await x402Fetch(
+          `${baseUrl}/action`,
+          { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ action: 'go' }) },
+          { payer },
+        );
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ executed: 'go' });
+      });
+
+      it('speaks the Coinbase wire format', async () => {
+        const { server } = build({ wireFormat: 'coinbase' });
+        servers.push(server);
+        const baseUrl = await listen(server);
+
+        const challenge = await fetch(`${baseUrl}/weather`);
+        expect(challenge.status).toBe(402);
+        expect(challenge.headers.get('payment-required')).toBeTruthy();
+
+        const res = await x402Fetch(`${baseUrl}/weather`, {}, { payer });
+        expect(res.status).toBe(200);
+      });
+
+      it('rejects a replayed proof', async () => {
+        const { server } = build();
+        servers.push(server);
+        const baseUrl = await listen(server);
+
+        const { x402 } = await (await fetch(`${baseUrl}/weather`)).json();
+        const proof = await payer.pay(x402, { url: '/weather', method: 'GET' });
+        const header = Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+        expect((await fetch(`${baseUrl}/weather`, { headers: { 'x-payment-proof': header } })).status).toBe(200);
+
+        const replay = await fetch(`${baseUrl}/weather`, { headers: { 'x-payment-proof': header } });
+        expect(replay.status).toBe(402);
+        expect((await replay.json()).error).toBe('Nonce already used (replay detected)');
+      });
+    });
+  }
+
+  it('node: replays an idempotent response without running the handler again', async () => {
+    const { server } = buildNodeServer();
+    servers.push(server);
+    const baseUrl = await listen(server);
+    const init = { headers: { 'idempotency-key': 'idem-1' } };
+
+    const first = await x402Fetch(`${baseUrl}/weather`, init, { payer });
+    expect(await first.json()).toEqual({ temp: 20, calls: 1 });
+
+    const replay = await fetch(`${baseUrl}/weather`, init);
+    expect(replay.status).toBe(200);
+    expect(replay.headers.get('x-idempotent-replay')).toBe('true');
+    expect(replay.headers.get('content-type')).toBe('application/json');
+    expect(await replay.json()).toEqual({ temp: 20, calls: 1 });
+
+    const conflict = await fetch(`${baseUrl}/weather?city=NY`, init);
+    expect(conflict.status).toBe(409);
+  });
+
+  it('node: only buffers the response body when it is stored for replay', async () => {
+    const gate = createPaymentGate({ verifier: new MockVerifier({ secret: SECRET }) });
+    const bodies: unknown[] = [];
+    const handle = gate.handle.bind(gate);
+    const spied = Object.assign(Object.create(gate) as typeof gate, {
+      async handle(...args: Parameters<typeof gate.handle>) {
+        const decision = await handle(...args);
+        if (decision.type !== 'proceed') return decision;
+        const onResponse = decision.onResponse.bind(decision);
+        return {
+          ...decision,
+          onResponse: (response: { body: unknown }, error?: unknown) => {
+            bodies.push(response.body);
+            return onResponse(response as Parameters<typeof onResponse>[0], error);
+          },
+        };
+      },
+    });
+    const handler = createX402Node(spied).priced(PRICING, (_req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.write('{"temp":');
+      res.end('20}');
+    });
+    const server = createServer((req, res) => void handler(req, res));
+    servers.push(server);
+    const baseUrl = await listen(server);
+
+    const streamed = await x402Fetch(`${baseUrl}/weather`, {}, { payer });
+    expect(await streamed.json()).toEqual({ temp: 20 });
+    const init = { headers: { 'idempotency-key': 'idem-stream' } };
+    await x402Fetch(`${baseUrl}/weather`, init, { payer });
+    const replay = await fetch(`${baseUrl}/weather`, init);
+    expect(await replay.json()).toEqual({ temp: 20 });
+    expect(bodies).toEqual([undefined, '{"temp":20}']);
+  });
+
+  it('node: a failing pricing resolver gets a generic 500 and goes to onError', async () => {
+    const errors: unknown[] = [];
+    const x402 = createX402Node(
+      { verifier: new MockVerifier({ secret: SECRET }) },
+      { onError: (error) => errors.push(error) },
+    );
+    const handler = x402.priced(() => {
+      throw new Error('pricing db at 10.0.0.7 unreachable');
+    }, (_req, res) => json(res, {}));
+    const server = createServer((req, res) => void handler(req, res));
+    servers.push(server);
+    const baseUrl = await listen(server);
+
+    const res = await fetch(`${baseUrl}/weather`);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: 'Internal Server Error' });
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as Error).message).toContain('unreachable');
+  });
+
+  it('hashes a POST body exactly like the Fastify plugin', async () => {
+    const fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.route(pricedRoute({ method: 'POST', url: '/action', pricing: PRICING, handler: async () => ({}) }));
+    await fastify.ready();
+
+    const { server } = buildNodeServer();
+    servers.push(server);
+    const baseUrl = await listen(server);
+
+    const body = '{"b":2,"a":1}';
+    const viaFastify = (await fastify.inject({
+      method: 'POST',
+      url: '/action?z=1&a=2',
+      headers: { 'content-type': 'application/json' },
+      payload: body,
+    })).json();
+    const viaNode = await (await fetch(`${baseUrl}/action?a=2&z=1`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body,
+    })).json();
+    expect(viaNode.x402.requestHash).toBe(viaFastify.x402.requestHash);
+    await fastify.close();
+  });
+
+  it('adapters built from one gate share its stores and events', async () => {
+    const gate = createPaymentGate({ verifier: new MockVerifier({ secret: SECRET }) });
+    const viaExpress = createX402Express(gate);
+    const viaNode = createX402Node(gate);
+    expect(viaExpress.gate).toBe(gate);
+    expect(viaNode.events).toBe(viaExpress.events);
+
+    // A challenge issued through Express is paid through the node:http wrapper.
+    const paidHandler = viaNode.priced(PRICING, (_req, res) => json(res, { ok: true }));
+    const server = createServer((req, res) => {
+      if (req.headers['x-payment-proof']) return void paidHandler(req, res);
+      chain([viaExpress.priced<Req>(PRICING)], (_r, s) => json(s, {}))(req, res);
+    });
+    servers.push(server);
+    const baseUrl = await listen(server);
+
+    const res = await x402Fetch(`${baseUrl}/weather`, {}, { payer });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Integration tests — audit log: Fastify server with `auditLog` + x402Fetch()
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { AuditLog, createX402Middleware, pricedRoute, verifyAuditLog } from 'x402-tool-server';
+import type { AuditEntry, X402ErrorEvent, X402PaymentEvent } from 'x402-tool-server';
+import { x402Fetch } from '@darklrd/x402-agent-client';
+import type { X402Challenge } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'audit-log-e2e';
+
+describe('audit log e2e', () => {
+  let dir: string;
+  let path: string;
+  let auditLog: AuditLog;
+  let fastify: FastifyInstance;
+  let baseUrl: string;
+  const payer = new MockPayer({ secret: SECRET });
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-audit-e2e-'));
+    path = join(dir, 'audit.jsonl');
+    auditLog = new AuditLog({ path });
+
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }), auditLog }));
+    fastify.route(pricedRoute({
+      method: 'GET',
+      url: '/weather',
+      pricing: { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xAUDIT' },
+      handler: async () => ({ tempC: 21 }),
+    }));
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+    const addr = fastify.server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+    await auditLog.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records the challenge, the payment and a rejected replay in one verifiable chain', async () => {
+    const url = `${baseUrl}/weather?city=Oslo`;
+    const challengeRes = await fetch(url);
+    const { x402 } = await challengeRes.json() as { x402: X402Challenge };
+    const proof = await payer.pay(x402, { url, method: 'GET' });
+    const proofHeader = Buffer.from(JSON.stringify(proof)).toString('base64url');
+
+    expect((await fetch(url, { headers: { 'x-payment-proof': proofHeader } })).status).toBe(200);
+    const replay = await fetch(url, { headers: { 'x-payment-proof': proofHeader } });
+    expect(replay.status).toBe(402);
+    await replay.body?.cancel();
+    await auditLog.flush();
+
+    const entries = readFileSync(path, 'utf8').trim().split('\n').map((line) => JSON.parse(line) as AuditEntry);
+    const types = entries.map((entry) => entry.type);
+    expect(types).toEqual(['x402:challenge', 'x402:payment', 'x402:error']);
+    expect((entries[1].event as X402PaymentEvent).receipt.nonce).toBe(proof.nonce);
+    expect((entries[2].event as X402ErrorEvent).reason).toBe('nonce_replay');
+
+    expect(await verifyAuditLog(path, auditLog.head)).toMatchObject({ ok: true, entries: entries.length });
+  });
+
+  it('keeps chaining calls paid through x402Fetch', async () => {
+    const before = auditLog.head;
+    const res = await x402Fetch(`${baseUrl}/weather?city=Rome`, {}, { payer });
+    expect(res.status).toBe(200);
+    await auditLog.flush();
+
+    expect(auditLog.head.entries).toBe(before.entries + 2);
+    expect((await verifyAuditLog(path, auditLog.head)).ok).toBe(true);
+  });
+});
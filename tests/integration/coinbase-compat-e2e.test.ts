@@ -8,6 +8,7 @@ import {
 } from 'x402-tool-server';
 import type { CoinbasePaymentRequired, CoinbasePaymentPayload } from 'x402-tool-server/compat';
 import { x402Fetch, BudgetTracker } from '@darklrd/x402-agent-client';
+import type { PaymentSettlement } from '@darklrd/x402-agent-client';
 import { MockPayer, MockVerifier } from 'x402-adapters';
 
 const SECRET = 'compat-e2e-secret';
@@ -148,7 +149,7 @@ describe('Coinbase compat — E2E integration', () => {
       network: 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -187,7 +188,7 @@ describe('Coinbase compat — E2E integration', () => {
       network: 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -239,7 +240,7 @@ describe('Coinbase compat — E2E integration', () => {
       network: 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -287,7 +288,7 @@ describe('Coinbase compat — E2E integration', () => {
       network: 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -310,7 +311,7 @@ describe('Coinbase compat — E2E integration', () => {
       headers: { 'payment-signature': paymentSig },
     });
 
-    const receipt = receiptStore.get(proof.nonce);
+    const receipt = await receiptStore.get(proof.nonce);
     expect(receipt).toBeDefined();
     expect(receipt!.payer).toBe(proof.payer);
     expect(receipt!.nonce).toBe(proof.nonce);
@@ -360,7 +361,7 @@ describe('Coinbase compat — E2E integration', () => {
       network: 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
     const proof = await payer.pay(challenge, { url: `${url}/weather`, method: 'GET' });
@@ -396,4 +397,22 @@ describe('Coinbase compat — E2E integration', () => {
     expect(res.status).toBe(200);
     expect(parseFloat(budget.spent)).toBeGreaterThan(0);
   });
+
+  it('exposes the settlement header of each wire format through x402Fetch', async () => {
+    const settlements: PaymentSettlement[] = [];
+    const onPaymentResponse = (settlement: PaymentSettlement) => settlements.push(settlement);
+
+    for (const url of [coinbaseUrl, toolkitUrl]) {
+      const res = await x402Fetch(`${url}/weather?city=Rome`, {}, { payer, onPaymentResponse });
+      expect(res.status).toBe(200);
+    }
+    const dual = await x402Fetch(`${dualUrl}/weather?city=Rome`, {}, { payer, onPaymentResponse });
+    expect(dual.headers.get('payment-response')).toBeTruthy();
+    expect(dual.headers.get('x-payment-response')).toBeTruthy();
+
+    expect(settlements).toHaveLength(3);
+    expect(settlements[0]).toMatchObject({ success: true, format: 'coinbase', network: 'mock' });
+    expect(settlements[1]).toMatchObject({ success: true, format: 'toolkit', network: 'mock', amount: '0.001', asset: 'USDC' });
+    expect(settlements[2]).toMatchObject({ format: 'toolkit' });
+  });
 });
@@ -0,0 +1,116 @@
+/**
+ * Integration tests — file-backed stores: restarting the server mid-flow
+ * keeps receipts, idempotent responses and spent nonces.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createChallengeSigner,
+  createX402Middleware,
+  pricedRoute,
+  FileIdempotencyStore,
+  FileNonceStore,
+  FileReceiptStore,
+} from 'x402-tool-server';
+import type { X402Challenge } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'durable-stores-e2e';
+// Signed challenges carry their own state, so only the stores under test
+// need to survive the restart.
+const CHALLENGE_KEYS = { keys: [{ kid: 'k1', alg: 'HS256' as const, secret: 'd'.repeat(32) }] };
+
+interface Server {
+  fastify: FastifyInstance;
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+async function startServer(dir: string): Promise<Server> {
+  const nonceStore = new FileNonceStore({ path: join(dir, 'nonces.jsonl') });
+  const receiptStore = new FileReceiptStore({ path: join(dir, 'receipts.jsonl') });
+  const idempotencyStore = new FileIdempotencyStore({ path: join(dir, 'idempotency.jsonl') });
+
+  let calls = 0;
+  const fastify = Fastify({ logger: false });
+  fastify.register(createX402Middleware({
+    verifier: new MockVerifier({ secret: SECRET }),
+    challengeSigner: createChallengeSigner(CHALLENGE_KEYS),
+    nonceStore,
+    receiptStore,
+    idempotencyStore,
+  }));
+  fastify.route(pricedRoute({
+    method: 'GET',
+    url: '/weather',
+    pricing: { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xDURABLE' },
+    handler: async () => ({ tempC: 21, call: ++calls }),
+  }));
+  await fastify.listen({ port: 0, host: '127.0.0.1' });
+  const addr = fastify.server.address() as { port: number };
+
+  return {
+    fastify,
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    async close() {
+      await fastify.close();
+      await Promise.all([nonceStore.destroy(), receiptStore.destroy(), idempotencyStore.destroy()]);
+    },
+  };
+}
+
+describe('durable stores e2e', () => {
+  let dir: string;
+  let server: Server;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-durable-'));
+    server = await startServer(dir);
+  });
+
+  afterAll(async () => {
+    await server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps receipts, idempotent responses and spent nonces across a restart', async () => {
+    const payer = new MockPayer({ secret: SECRET });
+    const path = '/weather?city=Oslo';
+
+    const challengeRes = await fetch(`${server.baseUrl}${path}`);
+    expect(challengeRes.status).toBe(402);
+    const { x402 } = await challengeRes.json() as { x402: X402Challenge };
+    const proof = await payer.pay(x402, { url: `${server.baseUrl}${path}`, method: 'GET' });
+    const proofHeader = Buffer.from(JSON.stringify({ ...proof, challengeToken: x402.challengeToken })).toString('base64url');
+
+    const paid = await fetch(`${server.baseUrl}${path}`, {
+      headers: { 'x-payment-proof': proofHeader, 'idempotency-key': 'restart-1' },
+    });
+    expect(paid.status).toBe(200);
+    const body = await paid.json();
+
+    // Restart on the same files.
+    await server.close();
+    server = await startServer(dir);
+
+    const replay = await fetch(`${server.baseUrl}${path}`, {
+      headers: { 'x-payment-proof': proofHeader, 'idempotency-key': 'restart-1' },
+    });
+    expect(replay.status).toBe(200);
+    expect(replay.headers.get('x-idempotent-replay')).toBe('true');
+    expect(await replay.json()).toEqual(body);
+
+    const receipt = await fetch(`${server.baseUrl}/x402/receipts/${proof.nonce}`);
+    expect(receipt.status).toBe(200);
+    expect(await receipt.json()).toMatchObject({ nonce: proof.nonce, amount: '0.01', endpoint: '/weather' });
+
+    // Without the idempotency key the same proof is a nonce replay.
+    const reused = await fetch(`${server.baseUrl}${path}`, { headers: { 'x-payment-proof': proofHeader } });
+    expect(reused.status).toBe(402);
+    await reused.body?.cancel();
+  });
+});
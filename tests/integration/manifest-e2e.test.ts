@@ -0,0 +1,103 @@
+/**
+ * Integration tests — discovery manifest: Fastify server + createToolsFromManifest()
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createX402Middleware, manifestPlugin, pricedRoute } from 'x402-tool-server';
+import { createToolsFromManifest, fetchX402Manifest } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'manifest-e2e';
+const PRICING = { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xMANIFEST' };
+
+describe('manifest e2e', () => {
+  let fastify: FastifyInstance;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    fastify = Fastify({ logger: false });
+    await fastify.register(manifestPlugin, { name: 'Weather tools' });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.route(pricedRoute({
+      method: 'GET',
+      url: '/weather',
+      pricing: { ...PRICING, description: 'Current weather for a city' },
+      schema: { querystring: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] } },
+      handler: async (request) => ({ city: (request.query as { city: string }).city, tempC: 21 }),
+    }));
+    fastify.route(pricedRoute({
+      method: 'POST',
+      url: '/echo',
+      pricing: { ...PRICING, price: '0.02' },
+      schema: { body: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] } },
+      handler: async (request) => request.body,
+    }));
+    fastify.route(pricedRoute({
+      method: 'POST',
+      url: '/notes/:id',
+      pricing: PRICING,
+      schema: {
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        querystring: { type: 'object', properties: { lang: { type: 'string' } } },
+        body: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+      },
+      handler: async (request) => ({
+        id: (request.params as { id: string }).id,
+        lang: (request.query as { lang?: string }).lang,
+        body: request.body,
+      }),
+    }));
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+    const addr = fastify.server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('fetches the manifest and defaults its base URL to the origin', async () => {
+    const manifest = await fetchX402Manifest(baseUrl);
+    expect(manifest.name).toBe('Weather tools');
+    expect(manifest.baseUrl).toBe(baseUrl);
+    expect(manifest.routes.map((route) => route.name)).toEqual(['get_weather', 'post_echo', 'post_notes_id']);
+  });
+
+  it('builds tools that pay for and call the routes', async () => {
+    const manifest = await fetchX402Manifest(baseUrl);
+    const [weather, echo] = createToolsFromManifest(manifest, {
+      fetchOptions: { payer: new MockPayer({ secret: SECRET }) },
+    });
+
+    const forecast = await weather.invoke({ city: 'Oslo' });
+    expect(forecast).toMatchObject({ ok: true, data: { city: 'Oslo', tempC: 21 } });
+
+    const echoed = await echo.invoke({ text: 'hi' });
+    expect(echoed).toMatchObject({ ok: true, data: { text: 'hi' } });
+
+    await expect(weather.invoke({})).rejects.toThrow(/city/);
+  });
+
+  it('fills path parameters and sends querystring fields of body-carrying routes in the URL', async () => {
+    const manifest = await fetchX402Manifest(baseUrl);
+    const notes = createToolsFromManifest(manifest, {
+      fetchOptions: { payer: new MockPayer({ secret: SECRET }) },
+    })[2];
+    expect(notes.inputSchema.required).toEqual(['id', 'text']);
+
+    const saved = await notes.invoke({ id: 'a b', lang: 'en', text: 'hi' });
+    expect(saved).toMatchObject({ ok: true, data: { id: 'a b', lang: 'en', body: { text: 'hi' } } });
+  });
+
+  it('rejects when the server serves no manifest', async () => {
+    const bare = Fastify({ logger: false });
+    await bare.listen({ port: 0, host: '127.0.0.1' });
+    const addr = bare.server.address() as { port: number };
+    try {
+      await expect(fetchX402Manifest(`http://127.0.0.1:${addr.port}`)).rejects.toThrow(/404/);
+    } finally {
+      await bare.close();
+    }
+  });
+});
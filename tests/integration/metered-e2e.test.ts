@@ -0,0 +1,112 @@
+/**
+ * Integration tests — metered streaming: Fastify server + x402Fetch + reconcileMeteredCharge
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Readable } from 'stream';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createX402Middleware, pricedRoute, MemoryReceiptStore } from 'x402-tool-server';
+import { x402Fetch, reconcileMeteredCharge, BudgetTracker } from '@darklrd/x402-agent-client';
+import type { BudgetTracker as Budget, MeteredCharge } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier, MockRefunder } from 'x402-adapters';
+
+const SECRET = 'metered-e2e-secret';
+const PRICING = {
+  price: '0.05',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xSTREAM',
+  metered: { unitPrice: '0.001', unit: 'token' },
+};
+
+/** Reconcile once the server has settled the charge (just after the stream ends). */
+async function settledCharge(response: Response, budget?: Budget): Promise<MeteredCharge> {
+  return vi.waitFor(async () => {
+    const charge = await reconcileMeteredCharge(response, { budget });
+    if (!charge) throw new Error('not settled yet');
+    return charge;
+  });
+}
+
+describe('Metered streaming e2e', () => {
+  let fastify: FastifyInstance;
+  let receiptStore: MemoryReceiptStore;
+  let baseUrl: string;
+  const payer = new MockPayer({ secret: SECRET });
+
+  beforeAll(async () => {
+    receiptStore = new MemoryReceiptStore();
+    fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new MockVerifier({ secret: SECRET }),
+        receiptStore,
+        refunder: new MockRefunder(),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'POST',
+        url: '/chat',
+        pricing: PRICING,
+        handler: async (request, reply) => {
+          const { words } = request.body as { words: string[] };
+          reply.header('content-type', 'text/event-stream');
+          return reply.send(Readable.from((async function* () {
+            for (const word of words) {
+              reply.x402.meter(1);
+              yield `data: ${word}\n\n`;
+            }
+          })()));
+        },
+      }),
+    );
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+    const addr = fastify.server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+    receiptStore.destroy();
+  });
+
+  function chat(words: string[], budget?: Budget): Promise<Response> {
+    return x402Fetch(
+      `${baseUrl}/chat`,
+      { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ words }) },
+      { payer, budget },
+    );
+  }
+
+  it('pays the maximum up front and streams the response', async () => {
+    const res = await chat(['hello', 'metered', 'world']);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('data: hello\n\ndata: metered\n\ndata: world\n\n');
+    expect(res.headers.get('x-402-receipt')).toMatch(/^\/x402\/receipts\//);
+  });
+
+  it('reports the actual charge and refunded remainder after the stream', async () => {
+    const res = await chat(['a', 'b', 'c', 'd']);
+    await res.text();
+
+    const charge = await settledCharge(res);
+    expect(charge).toMatchObject({ amount: '0.05', units: 4, charged: '0.004', remainder: '0.046' });
+    expect(charge.refundTxRef).toBe(`mock-refund:${charge.nonce}`);
+  });
+
+  it('releases the refunded remainder from the budget', async () => {
+    const budget = new BudgetTracker({ maxSpend: '1' });
+    const res = await chat(['one', 'two'], budget);
+    expect(budget.spent).toBe('0.05');
+    await res.text();
+
+    await settledCharge(res, budget);
+    expect(budget.spent).toBe('0.002');
+  });
+
+  it('ignores responses from routes that are not metered', async () => {
+    const res = await fetch(`${baseUrl}/x402/receipts/unknown`);
+    expect(await reconcileMeteredCharge(res)).toBeUndefined();
+  });
+});
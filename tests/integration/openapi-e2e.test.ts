@@ -7,7 +7,8 @@ import {
   rateLimitMiddleware,
   openApiPlugin,
 } from 'x402-tool-server';
-import { MockVerifier } from 'x402-adapters';
+import { createToolsFromOpenApi } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
 
 const SECRET = 'openapi-e2e-secret';
 const PRICING = {
@@ -170,3 +171,59 @@ describe('OpenAPI integration', () => {
     await server.close();
   });
 });
+
+describe('createToolsFromOpenApi e2e', () => {
+  let server: FastifyInstance;
+  let url: string;
+
+  beforeAll(async () => {
+    server = Fastify({ logger: false, exposeHeadRoutes: false });
+    await server.register(openApiPlugin, {});
+    server.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    server.route(pricedRoute({
+      method: 'GET',
+      url: '/weather',
+      pricing: PRICING,
+      schema: { querystring: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] } },
+      handler: async (req) => ({ city: (req.query as { city: string }).city, temp: 20 }),
+    }));
+    server.route(pricedRoute({
+      method: 'POST',
+      url: '/translate',
+      pricing: { ...PRICING, price: '0.5', description: 'Translate text' },
+      schema: { body: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] } },
+      handler: async (req) => ({ translated: (req.body as { text: string }).text.toUpperCase() }),
+    }));
+    await server.listen({ port: 0, host: '127.0.0.1' });
+    const addr = server.server.address() as { port: number };
+    url = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('builds priced tools from the served spec and calls them', async () => {
+    const tools = await createToolsFromOpenApi(`${url}/x402/openapi.json`, {
+      payer: new MockPayer({ secret: SECRET }),
+    });
+    expect(tools.map((tool) => tool.name)).toEqual(['get_weather', 'post_translate']);
+    const [weather, translate] = tools;
+    expect(weather.price).toMatchObject({ price: '0.001', asset: 'USDC', recipient: '0xOPENAPI' });
+
+    const forecast = await weather.invoke({ city: 'Paris' });
+    expect(forecast).toMatchObject({ ok: true, data: { city: 'Paris', temp: 20 } });
+
+    const result = await translate.invoke({ text: 'hi' });
+    expect(result).toMatchObject({ ok: true, data: { translated: 'HI' } });
+  });
+
+  it('filters out operations above maxPrice', async () => {
+    const tools = await createToolsFromOpenApi(
+      new URL('/x402/openapi.json', url),
+      { payer: new MockPayer({ secret: SECRET }) },
+      { maxPrice: '0.01' },
+    );
+    expect(tools.map((tool) => tool.name)).toEqual(['get_weather']);
+  });
+});
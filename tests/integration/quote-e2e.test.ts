@@ -0,0 +1,66 @@
+/**
+ * Integration tests — price discovery: Fastify server + quote()
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createX402Middleware, pricedRoute } from 'x402-tool-server';
+import { quote } from '@darklrd/x402-agent-client';
+import { MockVerifier } from 'x402-adapters';
+
+const PRICING = {
+  price: '0.02',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xQUOTE',
+  coupons: { HALF: { percentOff: 50 } },
+};
+
+describe('quote() e2e', () => {
+  let fastify: FastifyInstance;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: 'quote-e2e' }) }));
+    fastify.route(pricedRoute({ method: 'GET', url: '/weather', pricing: PRICING, handler: async () => ({}) }));
+    fastify.route(pricedRoute({
+      method: 'POST',
+      url: '/search',
+      pricing: { ...PRICING, price: '0.1' },
+      handler: async () => ({}),
+    }));
+    fastify.get('/free', async () => ({}));
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+    const addr = fastify.server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('quotes GET routes with HEAD', async () => {
+    expect(await quote(`${baseUrl}/weather`)).toEqual({
+      price: '0.02',
+      asset: 'USDC',
+      network: 'mock',
+      recipient: '0xQUOTE',
+      scheme: 'exact',
+    });
+  });
+
+  it('quotes other methods through the quote endpoint', async () => {
+    const price = await quote(new URL('/search?q=x', baseUrl), { method: 'POST', body: '{}' });
+    expect(price?.price).toBe('0.1');
+  });
+
+  it('passes request headers along for discounts', async () => {
+    const price = await quote(`${baseUrl}/weather`, { headers: { 'x-402-coupon': 'HALF' } });
+    expect(price).toMatchObject({ price: '0.01', originalPrice: '0.02' });
+  });
+
+  it('resolves undefined for routes that are not priced', async () => {
+    expect(await quote(`${baseUrl}/free`)).toBeUndefined();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Integration tests — prepaid sessions: Fastify server + x402Fetch + SessionManager
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createX402Middleware, pricedRoute } from 'x402-tool-server';
+import { x402Fetch, SessionManager, BudgetTracker } from '@darklrd/x402-agent-client';
+import type { PayerInterface, X402Challenge, RequestContext } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'sessions-e2e-secret';
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xSESSIONS',
+};
+
+class CountingPayer implements PayerInterface {
+  readonly paid: string[] = [];
+  private readonly inner = new MockPayer({ secret: SECRET });
+
+  async pay(challenge: X402Challenge, context: RequestContext) {
+    this.paid.push(new URL(context.url).pathname);
+    return this.inner.pay(challenge, context);
+  }
+}
+
+describe('Prepaid sessions e2e', () => {
+  let fastify: FastifyInstance;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new MockVerifier({ secret: SECRET }),
+        sessions: { pricing: { ...PRICING, price: '0.03' } },
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/weather',
+        pricing: PRICING,
+        handler: async (req) => ({ city: (req.query as { city: string }).city }),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/premium',
+        pricing: { ...PRICING, price: '0.05' },
+        handler: async () => ({ premium: true }),
+      }),
+    );
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+    const addr = fastify.server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('opens a session on the first 402 and spends it on later calls', async () => {
+    const payer = new CountingPayer();
+    const sessions = new SessionManager();
+
+    for (const city of ['London', 'Paris', 'Tokyo']) {
+      const res = await x402Fetch(`${baseUrl}/weather?city=${city}`, {}, { payer, sessions });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ city });
+    }
+
+    expect(payer.paid).toEqual(['/x402/sessions']);
+    expect(sessions.get(baseUrl)?.balance).toBe('0');
+  });
+
+  it('tops up the session when the balance runs out', async () => {
+    const payer = new CountingPayer();
+    const sessions = new SessionManager();
+
+    for (let i = 0; i < 4; i++) {
+      const res = await x402Fetch(`${baseUrl}/weather?city=C${i}`, {}, { payer, sessions });
+      expect(res.status).toBe(200);
+    }
+
+    expect(payer.paid).toEqual(['/x402/sessions', '/x402/sessions']);
+    expect(sessions.size).toBe(1);
+    expect(sessions.get(baseUrl)?.balance).toBe('0.02');
+  });
+
+  it('pays per call when a fresh session cannot cover the route', async () => {
+    const payer = new CountingPayer();
+    const sessions = new SessionManager();
+
+    const res = await x402Fetch(`${baseUrl}/premium`, {}, { payer, sessions });
+    expect(res.status).toBe(200);
+    expect(payer.paid).toEqual(['/x402/sessions', '/premium']);
+    expect(sessions.get(baseUrl)?.balance).toBe('0.03');
+  });
+
+  it('charges session purchases to the budget', async () => {
+    const payer = new CountingPayer();
+    const sessions = new SessionManager();
+    const budget = new BudgetTracker({ maxSpend: '1' });
+
+    await x402Fetch(`${baseUrl}/weather?city=Oslo`, {}, { payer, sessions, budget });
+    await x402Fetch(`${baseUrl}/weather?city=Rome`, {}, { payer, sessions, budget });
+    expect(budget.spent).toBe('0.03');
+  });
+
+  it('falls back to per-call payment when the budget cannot buy a session', async () => {
+    const payer = new CountingPayer();
+    const sessions = new SessionManager();
+    const budget = new BudgetTracker({ maxSpend: '0.02' });
+
+    const res = await x402Fetch(`${baseUrl}/weather?city=Lima`, {}, { payer, sessions, budget });
+    expect(res.status).toBe(200);
+    expect(payer.paid).toEqual(['/weather']);
+    expect(sessions.size).toBe(0);
+    expect(budget.spent).toBe('0.01');
+  });
+
+  it('leaves requests with their own authorization header alone', async () => {
+    const payer = new CountingPayer();
+    const sessions = new SessionManager();
+
+    const res = await x402Fetch(
+      `${baseUrl}/weather?city=Bern`,
+      { headers: { authorization: 'Bearer app-token' } },
+      { payer, sessions },
+    );
+    expect(res.status).toBe(200);
+    expect(payer.paid).toEqual(['/weather']);
+    expect(sessions.size).toBe(0);
+  });
+});
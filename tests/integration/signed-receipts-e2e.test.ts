@@ -0,0 +1,58 @@
+/**
+ * Integration tests — signed receipts: Fastify server + x402Fetch() + verifyReceipt()
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createReceiptSigner, createX402Middleware, MemoryReceiptStore, pricedRoute } from 'x402-tool-server';
+import { verifyReceipt, x402Fetch } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'signed-receipts-e2e';
+
+describe('signed receipts e2e', () => {
+  let fastify: FastifyInstance;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({
+      verifier: new MockVerifier({ secret: SECRET }),
+      receiptStore: new MemoryReceiptStore(),
+      receiptSigner: createReceiptSigner({ keys: [{ kid: 'e2e', privateKey }] }),
+    }));
+    fastify.route(pricedRoute({
+      method: 'GET',
+      url: '/weather',
+      pricing: { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xSIGNED' },
+      handler: async () => ({ tempC: 21 }),
+    }));
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+    const addr = fastify.server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('verifies the receipt of a paid call against the server JWKS', async () => {
+    const res = await x402Fetch(`${baseUrl}/weather?city=Oslo`, {}, { payer: new MockPayer({ secret: SECRET }) });
+    expect(res.status).toBe(200);
+
+    const receipt = await verifyReceipt(res);
+    expect(receipt).toMatchObject({ amount: '0.01', asset: 'USDC', endpoint: '/weather', method: 'GET' });
+
+    // The token stays verifiable offline with a pinned key set.
+    const keys = await (await fetch(`${baseUrl}/.well-known/jwks.json`)).json();
+    expect(await verifyReceipt(res.headers.get('x-payment-receipt')!, keys)).toEqual(receipt);
+  });
+
+  it('resolves null for responses without a receipt', async () => {
+    const res = await fetch(`${baseUrl}/weather`);
+    await res.body?.cancel();
+    expect(await verifyReceipt(res)).toBeNull();
+  });
+});
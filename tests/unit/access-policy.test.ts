@@ -0,0 +1,173 @@
+/**
+ * Unit tests — access policies (accessPolicy option, freeTierPolicy)
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { once } from 'events';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  freeTierPolicy,
+  MemoryReceiptStore,
+} from 'x402-tool-server';
+import type { AccessPolicy, GateRequest, X402FreeEvent } from 'x402-tool-server';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'access-test-secret';
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xACCESS',
+};
+
+const payer = new MockPayer({ secret: SECRET });
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+function gateRequest(headers: GateRequest['headers'] = {}): GateRequest {
+  return { method: 'GET', url: '/data', headers, rawBody: new Uint8Array(0), ip: '127.0.0.1' };
+}
+
+// Test keys are taken on trust; real extractors look keys up first.
+const apiKey = (request: GateRequest) => request.headers['x-api-key'] as string | undefined;
+
+describe('freeTierPolicy', () => {
+  it('lets each key through for free up to the quota', async () => {
+    const policy = freeTierPolicy({ calls: 2, windowMs: 60_000, keyExtractor: apiKey });
+    const alice = gateRequest({ 'x-api-key': 'alice' });
+    expect(await policy(alice, PRICING)).toBe('free');
+    expect(await policy(alice, PRICING)).toBe('free');
+    expect(await policy(alice, PRICING)).toBe('charge');
+    expect(await policy(gateRequest({ 'x-api-key': 'bob' }), PRICING)).toBe('free');
+  });
+
+  it('charges requests without a key', async () => {
+    const policy = freeTierPolicy({ calls: 5, windowMs: 60_000, keyExtractor: apiKey });
+    expect(await policy(gateRequest(), PRICING)).toBe('charge');
+  });
+
+  it('resets the quota when the window elapses', async () => {
+    const policy = freeTierPolicy({ calls: 1, windowMs: 20, keyExtractor: apiKey });
+    const alice = gateRequest({ 'x-api-key': 'alice' });
+    expect(await policy(alice, PRICING)).toBe('free');
+    expect(await policy(alice, PRICING)).toBe('charge');
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await policy(alice, PRICING)).toBe('free');
+  });
+
+  it('counts per client address by default, whatever key the client sends', async () => {
+    const policy = freeTierPolicy({ calls: 1, windowMs: 60_000 });
+    expect(await policy(gateRequest({ 'x-api-key': 'first' }), PRICING)).toBe('free');
+    expect(await policy(gateRequest({ 'x-api-key': 'second' }), PRICING)).toBe('charge');
+  });
+
+  it('charges new keys once maxKeys are counted, until their windows expire', async () => {
+    const policy = freeTierPolicy({ calls: 1, windowMs: 20, keyExtractor: apiKey, maxKeys: 2 });
+    expect(await policy(gateRequest({ 'x-api-key': 'a' }), PRICING)).toBe('free');
+    expect(await policy(gateRequest({ 'x-api-key': 'b' }), PRICING)).toBe('free');
+    expect(await policy(gateRequest({ 'x-api-key': 'c' }), PRICING)).toBe('charge');
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await policy(gateRequest({ 'x-api-key': 'c' }), PRICING)).toBe('free');
+  });
+});
+
+describe('accessPolicy on priced routes', () => {
+  let fastify: FastifyInstance;
+  let receiptStore: MemoryReceiptStore;
+
+  async function buildServer(accessPolicy: AccessPolicy) {
+    receiptStore = new MemoryReceiptStore();
+    fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new MockVerifier({ secret: SECRET }),
+        receiptStore,
+        accessPolicy,
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/data',
+        pricing: PRICING,
+        handler: async (_request, reply) => ({ nonce: reply.x402.receipt.nonce }),
+      }),
+    );
+    await fastify.ready();
+  }
+
+  afterEach(async () => {
+    await fastify.close();
+    receiptStore.destroy();
+  });
+
+  it('serves free calls without a challenge and records zero-amount receipts', async () => {
+    await buildServer(() => 'free');
+    const free = once(fastify.x402Events, 'x402:free');
+
+    const res = await fastify.inject({ method: 'GET', url: '/data' });
+    expect(res.statusCode).toBe(200);
+    const [event] = (await free) as [X402FreeEvent];
+    expect(event).toMatchObject({ receipt: { free: true, amount: '0' }, request: { url: '/data' } });
+
+    expect(await receiptStore.get(res.json().nonce)).toMatchObject({
+      free: true,
+      amount: '0',
+      asset: 'USDC',
+      endpoint: '/data',
+    });
+  });
+
+  it('charges once the free tier is used up', async () => {
+    await buildServer(freeTierPolicy({ calls: 1, windowMs: 60_000, keyExtractor: apiKey }));
+    const headers = { 'x-api-key': 'trial-user' };
+    let payments = 0;
+    fastify.x402Events.on('x402:payment', () => {
+      payments += 1;
+    });
+
+    expect((await fastify.inject({ method: 'GET', url: '/data', headers })).statusCode).toBe(200);
+    const challenge = await fastify.inject({ method: 'GET', url: '/data', headers });
+    expect(challenge.statusCode).toBe(402);
+
+    const proof = await payer.pay(challenge.json().x402, { url: '/data', method: 'GET' });
+    const paid = await fastify.inject({
+      method: 'GET',
+      url: '/data',
+      headers: { ...headers, 'x-payment-proof': encode(proof) },
+    });
+    expect(paid.statusCode).toBe(200);
+    expect(payments).toBe(1);
+    expect((await receiptStore.get(paid.json().nonce))?.free).toBeUndefined();
+  });
+
+  it('charges the pricing the policy returns', async () => {
+    await buildServer(() => ({ pricing: { ...PRICING, price: '0.002' } }));
+    const challenge = await fastify.inject({ method: 'GET', url: '/data' });
+    expect(challenge.statusCode).toBe(402);
+    expect(challenge.json().x402.price).toBe('0.002');
+
+    const proof = await payer.pay(challenge.json().x402, { url: '/data', method: 'GET' });
+    const paid = await fastify.inject({ method: 'GET', url: '/data', headers: { 'x-payment-proof': encode(proof) } });
+    expect(paid.statusCode).toBe(200);
+    expect((await receiptStore.get(paid.json().nonce))?.amount).toBe('0.002');
+  });
+
+  it('does not spend free calls on idempotent replays', async () => {
+    let asked = 0;
+    await buildServer(() => {
+      asked += 1;
+      return 'free';
+    });
+    const headers = { 'idempotency-key': 'free-replay' };
+    const first = await fastify.inject({ method: 'GET', url: '/data', headers });
+    const replay = await fastify.inject({ method: 'GET', url: '/data', headers });
+    expect(replay.headers['x-idempotent-replay']).toBe('true');
+    expect(replay.json()).toEqual(first.json());
+    expect(asked).toBe(1);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests — AuditLog hash chain, verifyAuditLog and the x402-audit-verify CLI
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { AuditLog, X402EventEmitter, verifyAuditLog } from 'x402-tool-server';
+import type { AuditEntry, X402ChallengeEvent, X402ErrorEvent } from 'x402-tool-server';
+
+const REQUEST = { method: 'GET', url: '/weather', ip: '127.0.0.1' };
+const PRICING = { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xAUDIT' };
+
+function challengeEvent(nonce: string): X402ChallengeEvent {
+  return {
+    challenge: {
+      version: 1,
+      scheme: 'exact',
+      ...PRICING,
+      nonce,
+      expiresAt: '2026-01-01T00:05:00.000Z',
+      requestHash: 'a'.repeat(64),
+    },
+    request: REQUEST,
+    timestamp: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function errorEvent(): X402ErrorEvent {
+  return {
+    reason: 'nonce_replay',
+    pricing: { ...PRICING, coupons: { SECRET50: { percentOff: 50 } } },
+    request: REQUEST,
+    timestamp: '2026-01-01T00:00:01.000Z',
+  };
+}
+
+function readEntries(path: string): AuditEntry[] {
+  return readFileSync(path, 'utf8').trim().split('\n').map((line) => JSON.parse(line) as AuditEntry);
+}
+
+function writeEntries(path: string, entries: AuditEntry[]): void {
+  writeFileSync(path, entries.map((entry) => JSON.stringify(entry) + '\n').join(''));
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-audit-'));
+    path = join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function writeLog(count: number): Promise<AuditLog> {
+    const log = new AuditLog({ path });
+    for (let i = 0; i < count; i++) log.record('x402:challenge', challengeEvent(`n${i}`));
+    await log.flush();
+    return log;
+  }
+
+  it('chains each entry to the previous one', async () => {
+    await writeLog(3);
+    const entries = readEntries(path);
+    expect(entries.map((entry) => entry.seq)).toEqual([0, 1, 2]);
+    expect(entries[0].prevHash).toBe('0'.repeat(64));
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+    expect(await verifyAuditLog(path)).toEqual({ ok: true, entries: 3, lastHash: entries[2].hash });
+  });
+
+  it('records challenge, payment and error events from an attached emitter', async () => {
+    const events = new X402EventEmitter();
+    const log = new AuditLog({ path });
+    log.attach(events);
+    events.emit('x402:challenge', challengeEvent('n1'));
+    events.emit('x402:error', errorEvent());
+    await log.close();
+    events.emit('x402:challenge', challengeEvent('after-close'));
+
+    const entries = readEntries(path);
+    expect(entries.map((entry) => entry.type)).toEqual(['x402:challenge', 'x402:error']);
+    expect((entries[1].event as X402ErrorEvent).pricing).toEqual(PRICING);
+    expect(events.listenerCount('x402:payment')).toBe(0);
+  });
+
+  it('continues the chain after a restart and a torn final line', async () => {
+    const first = await writeLog(2);
+    const head = first.head;
+    await first.close();
+    appendFileSync(path, '{"seq":2,"type":"x402:chal');
+
+    const second = new AuditLog({ path });
+    expect(second.head).toEqual(head);
+    second.record('x402:challenge', challengeEvent('resumed'));
+    await second.close();
+
+    const result = await verifyAuditLog(path, head);
+    expect(result.ok).toBe(true);
+    expect(result.entries).toBe(3);
+  });
+
+  it('detects an edited entry', async () => {
+    await writeLog(3);
+    const entries = readEntries(path);
+    (entries[1].event as X402ChallengeEvent).challenge.price = '0.00';
+    writeEntries(path, entries);
+
+    expect(await verifyAuditLog(path)).toMatchObject({
+      ok: false,
+      entries: 1,
+      failure: { line: 2, reason: 'hash_mismatch' },
+    });
+  });
+
+  it('detects a removed entry', async () => {
+    await writeLog(3);
+    const entries = readEntries(path);
+    writeEntries(path, [entries[0], entries[2]]);
+
+    expect((await verifyAuditLog(path)).failure).toEqual({ line: 2, reason: 'sequence_gap' });
+  });
+
+  it('detects an entry re-hashed without relinking the chain', async () => {
+    await writeLog(3);
+    const entries = readEntries(path);
+    const forged = new AuditLog({ path: join(dir, 'forged.jsonl') });
+    forged.record('x402:challenge', challengeEvent('forged-0'));
+    forged.record('x402:challenge', challengeEvent('forged-1'));
+    await forged.flush();
+    writeEntries(path, [entries[0], readEntries(join(dir, 'forged.jsonl'))[1], entries[2]]);
+
+    expect((await verifyAuditLog(path)).failure).toEqual({ line: 2, reason: 'broken_chain' });
+  });
+
+  it('detects malformed lines', async () => {
+    await writeLog(1);
+    appendFileSync(path, 'not json\n');
+    expect((await verifyAuditLog(path)).failure).toEqual({ line: 2, reason: 'malformed' });
+  });
+
+  it('detects a log cut short against an earlier head', async () => {
+    const log = await writeLog(3);
+    const head = log.head;
+    await log.close();
+    writeEntries(path, readEntries(path).slice(0, 2));
+
+    expect(await verifyAuditLog(path)).toMatchObject({ ok: true, entries: 2 });
+    expect((await verifyAuditLog(path, head)).failure?.reason).toBe('head_mismatch');
+  });
+
+  it('surfaces write failures from flush() or onError', async () => {
+    const broken = new AuditLog({ path: join(dir, 'missing', 'audit.jsonl') });
+    broken.record('x402:challenge', challengeEvent('n1'));
+    await expect(broken.flush()).rejects.toThrow(/ENOENT/);
+
+    const errors: unknown[] = [];
+    const reported = new AuditLog({ path: join(dir, 'missing', 'audit.jsonl'), onError: (e) => errors.push(e) });
+    reported.record('x402:challenge', challengeEvent('n1'));
+    await reported.flush();
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('x402-audit-verify CLI', () => {
+  const cli = fileURLToPath(new URL('../../packages/x402-tool-server/dist/audit-cli.js', import.meta.url));
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-audit-cli-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('exits 0 for an intact log and 1 for a tampered one', async () => {
+    const path = join(dir, 'audit.jsonl');
+    const log = new AuditLog({ path });
+    log.record('x402:challenge', challengeEvent('n1'));
+    log.record('x402:error', errorEvent());
+    const head = log.head;
+    await log.close();
+
+    const intact = spawnSync(process.execPath, [cli, path, '--entries', '2', '--hash', head.hash], { encoding: 'utf8' });
+    expect(intact.status).toBe(0);
+    expect(intact.stdout).toContain('ok: 2 entries');
+
+    writeEntries(path, readEntries(path).slice(1));
+    const tampered = spawnSync(process.execPath, [cli, path], { encoding: 'utf8' });
+    expect(tampered.status).toBe(1);
+    expect(tampered.stdout).toContain('sequence_gap');
+
+    expect(spawnSync(process.execPath, [cli], { encoding: 'utf8' }).status).toBe(2);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Unit tests — signed challenge tokens (stateless multi-node challenges)
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createX402Middleware, pricedRoute, createChallengeSigner } from 'x402-tool-server';
+import type { ChallengeSigner, ChallengeTokenClaims, WireFormat, X402ErrorEvent } from 'x402-tool-server';
+import { MockVerifier, MockPayer } from 'x402-adapters';
+import { x402Fetch } from '@darklrd/x402-agent-client';
+
+const SECRET = 'token-test-secret';
+const PRICING = {
+  price: '0.001',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xTOKEN',
+};
+
+const CLAIMS: ChallengeTokenClaims = {
+  nonce: 'n-1',
+  requestHash: 'a'.repeat(64),
+  price: '0.001',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xTOKEN',
+  scheme: 'exact',
+  expiresAt: new Date(Date.now() + 60_000).toISOString(),
+};
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+async function buildNode(challengeSigner: ChallengeSigner, wireFormat?: WireFormat) {
+  const fastify = Fastify({ logger: false });
+  fastify.register(
+    createX402Middleware({
+      verifier: new MockVerifier({ secret: SECRET }),
+      challengeSigner,
+      wireFormat,
+    }),
+  );
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/priced',
+      pricing: PRICING,
+      handler: async () => ({ paid: true }),
+    }),
+  );
+  await fastify.ready();
+  return fastify;
+}
+
+describe('createChallengeSigner', () => {
+  it('HS256: verifies its own tokens and returns the claims', async () => {
+    const signer = createChallengeSigner({ keys: [{ kid: 'k1', alg: 'HS256', secret: 's'.repeat(32) }] });
+    const token = await signer.sign(CLAIMS);
+    expect(token.split('.')).toHaveLength(3);
+    expect(await signer.verify(token)).toEqual(CLAIMS);
+  });
+
+  it('EdDSA: verify-only signer accepts tokens from the private-key holder', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const issuer = createChallengeSigner({ keys: [{ kid: 'ed', alg: 'EdDSA', privateKey }] });
+    const checker = createChallengeSigner({ keys: [{ kid: 'ed', alg: 'EdDSA', publicKey }] });
+    const token = await issuer.sign(CLAIMS);
+    expect(await checker.verify(token)).toEqual(CLAIMS);
+  });
+
+  it('rejects tampered payloads', async () => {
+    const signer = createChallengeSigner({ keys: [{ kid: 'k1', alg: 'HS256', secret: 's'.repeat(32) }] });
+    const [header, , signature] = (await signer.sign(CLAIMS)).split('.');
+    const cheaper = encode({ ...CLAIMS, price: '0.000001' });
+    expect(await signer.verify(`${header}.${cheaper}.${signature}`)).toBeNull();
+  });
+
+  it('rejects tokens signed with a different secret', async () => {
+    const a = createChallengeSigner({ keys: [{ kid: 'k1', alg: 'HS256', secret: 'a'.repeat(32) }] });
+    const b = createChallengeSigner({ keys: [{ kid: 'k1', alg: 'HS256', secret: 'b'.repeat(32) }] });
+    expect(await b.verify(await a.sign(CLAIMS))).toBeNull();
+  });
+
+  it('rejects malformed tokens', async () => {
+    const signer = createChallengeSigner({ keys: [{ kid: 'k1', alg: 'HS256', secret: 's'.repeat(32) }] });
+    expect(await signer.verify('garbage')).toBeNull();
+    expect(await signer.verify('a.b.c')).toBeNull();
+  });
+
+  it('supports key rotation: old kid still verifies, removed kid does not', async () => {
+    const oldKey = { kid: 'old', alg: 'HS256' as const, secret: 'o'.repeat(32) };
+    const newKey = { kid: 'new', alg: 'HS256' as const, secret: 'n'.repeat(32) };
+
+    const before = createChallengeSigner({ keys: [oldKey] });
+    const during = createChallengeSigner({ keys: [newKey, oldKey], activeKid: 'new' });
+    const after = createChallengeSigner({ keys: [newKey] });
+
+    const oldToken = await before.sign(CLAIMS);
+    const newToken = await during.sign(CLAIMS);
+
+    expect(await during.verify(oldToken)).toEqual(CLAIMS);
+    expect(await during.verify(newToken)).toEqual(CLAIMS);
+    expect(await after.verify(newToken)).toEqual(CLAIMS);
+    expect(await after.verify(oldToken)).toBeNull();
+  });
+
+  it('throws when activeKid is not among the keys', () => {
+    expect(() =>
+      createChallengeSigner({ keys: [{ kid: 'k1', alg: 'HS256', secret: 'x' }], activeKid: 'k2' }),
+    ).toThrow(/k2/);
+  });
+});
+
+describe('Middleware with challengeSigner', () => {
+  const signer = createChallengeSigner({ keys: [{ kid: 'fleet', alg: 'HS256', secret: 'f'.repeat(32) }] });
+  const payer = new MockPayer({ secret: SECRET });
+  const apps: FastifyInstance[] = [];
+
+  afterEach(async () => {
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  it('challenge carries a challengeToken', async () => {
+    const nodeA = await buildNode(signer);
+    apps.push(nodeA);
+    const { x402 } = (await nodeA.inject({ method: 'GET', url: '/priced' })).json();
+    expect(typeof x402.challengeToken).toBe('string');
+    expect(await signer.verify(x402.challengeToken)).toMatchObject({ nonce: x402.nonce, price: '0.001' });
+  });
+
+  it('a challenge issued by one node is accepted by another node', async () => {
+    const nodeA = await buildNode(signer);
+    const nodeB = await buildNode(signer);
+    apps.push(nodeA, nodeB);
+
+    const { x402 } = (await nodeA.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay(x402, { url: '/priced', method: 'GET' });
+    expect(proof.challengeToken).toBe(x402.challengeToken);
+
+    const res = await nodeB.inject({
+      method: 'GET',
+      url: '/priced',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('rejects a proof without a challengeToken', async () => {
+    const nodeA = await buildNode(signer);
+    apps.push(nodeA);
+    const errors: X402ErrorEvent[] = [];
+    nodeA.x402Events.on('x402:error', (e) => errors.push(e));
+
+    const { x402 } = (await nodeA.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay(x402, { url: '/priced', method: 'GET' });
+    delete proof.challengeToken;
+
+    const res = await nodeA.inject({
+      method: 'GET',
+      url: '/priced',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(errors[0].reason).toBe('unknown_challenge');
+  });
+
+  it('rejects a genuine token presented with a different nonce', async () => {
+    const nodeA = await buildNode(signer);
+    apps.push(nodeA);
+    const errors: X402ErrorEvent[] = [];
+    nodeA.x402Events.on('x402:error', (e) => errors.push(e));
+
+    const { x402 } = (await nodeA.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay({ ...x402, nonce: 'other-nonce' }, { url: '/priced', method: 'GET' });
+
+    const res = await nodeA.inject({
+      method: 'GET',
+      url: '/priced',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(errors[0].reason).toBe('challenge_mismatch');
+  });
+
+  it('rejects tokens from a node with a different key', async () => {
+    const rogue = createChallengeSigner({ keys: [{ kid: 'fleet', alg: 'HS256', secret: 'r'.repeat(32) }] });
+    const rogueNode = await buildNode(rogue);
+    const nodeA = await buildNode(signer);
+    apps.push(rogueNode, nodeA);
+
+    const { x402 } = (await rogueNode.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay(x402, { url: '/priced', method: 'GET' });
+
+    const res = await nodeA.inject({
+      method: 'GET',
+      url: '/priced',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(402);
+  });
+
+  it('x402Fetch round-trips the token in coinbase wire format', async () => {
+    const nodeA = await buildNode(signer, 'coinbase');
+    apps.push(nodeA);
+    await nodeA.listen({ port: 0, host: '127.0.0.1' });
+    const { port } = nodeA.server.address() as { port: number };
+
+    const res = await x402Fetch(`http://127.0.0.1:${port}/priced`, {}, { payer });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ paid: true });
+  });
+});
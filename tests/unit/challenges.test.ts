@@ -0,0 +1,190 @@
+/**
+ * Unit tests — challenge store + issued-challenge enforcement
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createX402Middleware, pricedRoute, MemoryChallengeStore } from 'x402-tool-server';
+import type { X402Challenge, X402ErrorEvent } from 'x402-tool-server';
+import { MockVerifier, MockPayer } from 'x402-adapters';
+
+const SECRET = 'challenge-test-secret';
+const PRICING = {
+  price: '0.001',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xCHALLENGE',
+};
+
+function makeChallenge(overrides: Partial<X402Challenge> = {}): X402Challenge {
+  return {
+    version: 1,
+    scheme: 'exact',
+    price: '0.001',
+    asset: 'USDC',
+    network: 'mock',
+    recipient: '0xCHALLENGE',
+    nonce: 'issued-nonce',
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    requestHash: 'a'.repeat(64),
+    ...overrides,
+  };
+}
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+async function buildServer() {
+  const challengeStore = new MemoryChallengeStore();
+  const fastify = Fastify({ logger: false });
+
+  fastify.register(
+    createX402Middleware({
+      verifier: new MockVerifier({ secret: SECRET }),
+      challengeStore,
+    }),
+  );
+
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/cheap',
+      pricing: PRICING,
+      handler: async () => ({ tier: 'cheap' }),
+    }),
+  );
+
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/expensive',
+      pricing: { ...PRICING, price: '0.5' },
+      handler: async () => ({ tier: 'expensive' }),
+    }),
+  );
+
+  await fastify.ready();
+  return { fastify, challengeStore };
+}
+
+describe('MemoryChallengeStore', () => {
+  it('saves and retrieves a challenge by nonce', async () => {
+    const store = new MemoryChallengeStore();
+    const challenge = makeChallenge();
+    await store.save(challenge);
+    expect(await store.get('issued-nonce')).toEqual(challenge);
+    expect(store.size).toBe(1);
+    store.destroy();
+  });
+
+  it('returns undefined for unknown nonce', async () => {
+    const store = new MemoryChallengeStore();
+    expect(await store.get('never-issued')).toBeUndefined();
+    store.destroy();
+  });
+
+  it('forgets challenges after expiresAt + grace', async () => {
+    const store = new MemoryChallengeStore({ graceMs: 0 });
+    await store.save(makeChallenge({ expiresAt: new Date(Date.now() + 50).toISOString() }));
+    expect(await store.get('issued-nonce')).toBeDefined();
+    await new Promise((r) => setTimeout(r, 100));
+    expect(await store.get('issued-nonce')).toBeUndefined();
+    store.destroy();
+  });
+});
+
+describe('Middleware issued-challenge enforcement', () => {
+  let app: FastifyInstance;
+  let challengeStore: MemoryChallengeStore;
+  let errors: X402ErrorEvent[];
+  const payer = new MockPayer({ secret: SECRET });
+
+  beforeEach(async () => {
+    ({ fastify: app, challengeStore } = await buildServer());
+    errors = [];
+    app.x402Events.on('x402:error', (e) => errors.push(e));
+  });
+
+  afterEach(async () => {
+    challengeStore.destroy();
+    await app.close();
+  });
+
+  it('records every issued challenge', async () => {
+    const res = await app.inject({ method: 'GET', url: '/cheap' });
+    const { x402 } = res.json();
+    expect(await challengeStore.get(x402.nonce)).toEqual(x402);
+  });
+
+  it('accepts a proof for an issued challenge', async () => {
+    const { x402 } = (await app.inject({ method: 'GET', url: '/cheap' })).json();
+    const proof = await payer.pay(x402, { url: '/cheap', method: 'GET' });
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/cheap',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ tier: 'cheap' });
+  });
+
+  it('rejects a self-minted nonce the server never issued', async () => {
+    const { x402 } = (await app.inject({ method: 'GET', url: '/cheap' })).json();
+    const forged = await payer.pay({ ...x402, nonce: 'client-invented' }, { url: '/cheap', method: 'GET' });
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/cheap',
+      headers: { 'x-payment-proof': encode(forged) },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(res.json()).toMatchObject({ error: 'Unknown payment challenge' });
+    expect(errors[0].reason).toBe('unknown_challenge');
+  });
+
+  it('rejects a proof whose expiresAt differs from the issued one', async () => {
+    const { x402 } = (await app.inject({ method: 'GET', url: '/cheap' })).json();
+    const extended = new Date(Date.now() + 3_600_000).toISOString();
+    const proof = await payer.pay({ ...x402, expiresAt: extended }, { url: '/cheap', method: 'GET' });
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/cheap',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(res.json()).toMatchObject({ error: 'Payment proof does not match the issued challenge' });
+    expect(errors[0].reason).toBe('challenge_mismatch');
+  });
+
+  it('rejects a cheap challenge presented to a more expensive route', async () => {
+    const cheap = (await app.inject({ method: 'GET', url: '/cheap' })).json().x402;
+    const expensive = (await app.inject({ method: 'GET', url: '/expensive' })).json().x402;
+
+    // Reuse the cheap nonce/expiry but bind the proof to the expensive request.
+    const proof = await payer.pay(
+      { ...cheap, requestHash: expensive.requestHash },
+      { url: '/expensive', method: 'GET' },
+    );
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/expensive',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(errors[0].reason).toBe('challenge_mismatch');
+  });
+
+  it('treats an undecodable proof as an unknown challenge', async () => {
+    const res = await app.inject({
+      method: 'GET',
+      url: '/cheap',
+      headers: { 'x-payment-proof': 'not-a-proof' },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(errors[0].reason).toBe('unknown_challenge');
+  });
+});
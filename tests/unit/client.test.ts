@@ -276,7 +276,7 @@ describe('MockPayer + MockVerifier round-trip (without server)', () => {
       asset: 'USDC',
       recipient: '0xTEST',
     });
-    expect(valid).toBe(true);
+    expect(valid.ok).toBe(true);
   });
 
   it('wrong secret fails verification', async () => {
@@ -293,7 +293,7 @@ describe('MockPayer + MockVerifier round-trip (without server)', () => {
       asset: 'USDC',
       recipient: '0xTEST',
     });
-    expect(valid).toBe(false);
+    expect(valid.ok).toBe(false);
   });
 
   it('tampered requestHash fails verification', async () => {
@@ -312,7 +312,7 @@ describe('MockPayer + MockVerifier round-trip (without server)', () => {
       asset: 'USDC',
       recipient: '0xTEST',
     });
-    expect(valid).toBe(false);
+    expect(valid.ok).toBe(false);
   });
 
   it('expired proof fails verification', async () => {
@@ -334,7 +334,7 @@ describe('MockPayer + MockVerifier round-trip (without server)', () => {
       asset: 'USDC',
       recipient: '0xTEST',
     });
-    expect(valid).toBe(false);
+    expect(valid.ok).toBe(false);
   });
 });
 
@@ -3,7 +3,9 @@ import {
   detectChallengeFormat,
   parseCoinbasePaymentRequired,
   encodeCoinbasePaymentSignature,
+  parseCoinbaseSettlementResponse,
 } from '@darklrd/x402-agent-client/compat';
+import { readPaymentResponse } from '@darklrd/x402-agent-client';
 import type { X402Challenge, PaymentProof } from '@darklrd/x402-agent-client';
 
 function makeChallenge(overrides: Partial<X402Challenge> = {}): X402Challenge {
@@ -183,3 +185,55 @@ describe('encodeCoinbasePaymentSignature', () => {
     expect(decoded.payload).toHaveProperty('signature', 'fake-sig');
   });
 });
+
+describe('parseCoinbaseSettlementResponse', () => {
+  it('maps the CAIP-2 network and transaction', () => {
+    const header = encodeCoinbasePaymentRequired({
+      success: true,
+      transaction: '0xTX',
+      network: 'eip155:8453',
+      payer: '0xPAYER',
+    });
+    expect(parseCoinbaseSettlementResponse(header)).toEqual({
+      success: true,
+      format: 'coinbase',
+      network: 'base',
+      payer: '0xPAYER',
+      txRef: '0xTX',
+    });
+  });
+
+  it('returns null for malformed headers', () => {
+    expect(parseCoinbaseSettlementResponse('!!!not-base64!!!')).toBeNull();
+    expect(parseCoinbaseSettlementResponse(encodeCoinbasePaymentRequired({ transaction: '0xTX' }))).toBeNull();
+  });
+});
+
+describe('readPaymentResponse', () => {
+  it('reads the toolkit header first, then PAYMENT-RESPONSE', () => {
+    const toolkit = Buffer.from(JSON.stringify({
+      success: true,
+      nonce: 'n1',
+      payer: '0xPAYER',
+      amount: '0.001',
+      asset: 'USDC',
+      network: 'mock',
+    })).toString('base64url');
+    const coinbase = encodeCoinbasePaymentRequired({ success: true, transaction: '', network: 'mock:1' });
+
+    const both = new Response(null, { headers: { 'x-payment-response': toolkit, 'payment-response': coinbase } });
+    expect(readPaymentResponse(both)).toEqual({
+      success: true,
+      format: 'toolkit',
+      nonce: 'n1',
+      payer: '0xPAYER',
+      amount: '0.001',
+      asset: 'USDC',
+      network: 'mock',
+    });
+
+    const onlyCoinbase = new Response(null, { headers: { 'payment-response': coinbase } });
+    expect(readPaymentResponse(onlyCoinbase)).toEqual({ success: true, format: 'coinbase', network: 'mock' });
+    expect(readPaymentResponse(new Response(null))).toBeUndefined();
+  });
+});
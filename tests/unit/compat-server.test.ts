@@ -11,12 +11,13 @@ import {
   coinbasePayloadToProofHeader,
   proofHeaderToCoinbasePayload,
   extractProofHeader,
+  paymentResponseHeaders,
 } from 'x402-tool-server/compat';
 import type {
   CoinbasePaymentRequired,
   CoinbasePaymentPayload,
 } from 'x402-tool-server/compat';
-import type { X402Challenge } from 'x402-tool-server';
+import type { Receipt, X402Challenge } from 'x402-tool-server';
 
 function makeChallenge(overrides: Partial<X402Challenge> = {}): X402Challenge {
   return {
@@ -399,3 +400,54 @@ describe('extractProofHeader', () => {
     expect(result).toBeNull();
   });
 });
+
+describe('paymentResponseHeaders', () => {
+  const receipt: Receipt = {
+    nonce: 'nonce-1',
+    payer: '0xPAYER',
+    amount: '0.001',
+    asset: 'USDC',
+    network: 'base-sepolia',
+    recipient: '0xTEST',
+    endpoint: '/weather',
+    method: 'GET',
+    requestHash: 'a'.repeat(64),
+    paidAt: new Date().toISOString(),
+    txRef: '0xTX',
+  };
+
+  function decode(value: string, encoding: BufferEncoding): unknown {
+    return JSON.parse(Buffer.from(value, encoding).toString('utf8'));
+  }
+
+  it('emits X-Payment-Response in toolkit format', () => {
+    const headers = paymentResponseHeaders(receipt, 'toolkit');
+    expect(Object.keys(headers)).toEqual(['x-payment-response']);
+    expect(decode(headers['x-payment-response'], 'base64url')).toEqual({
+      success: true,
+      nonce: 'nonce-1',
+      payer: '0xPAYER',
+      amount: '0.001',
+      asset: 'USDC',
+      network: 'base-sepolia',
+      txRef: '0xTX',
+    });
+  });
+
+  it('emits PAYMENT-RESPONSE with a CAIP-2 network in coinbase format', () => {
+    const headers = paymentResponseHeaders(receipt, 'coinbase');
+    expect(Object.keys(headers)).toEqual(['payment-response']);
+    expect(decode(headers['payment-response'], 'base64')).toEqual({
+      success: true,
+      transaction: '0xTX',
+      network: 'eip155:84532',
+      payer: '0xPAYER',
+    });
+  });
+
+  it('emits both in dual format, with an empty transaction when none was reported', () => {
+    const headers = paymentResponseHeaders({ ...receipt, txRef: undefined }, 'dual');
+    expect(Object.keys(headers).sort()).toEqual(['payment-response', 'x-payment-response']);
+    expect(decode(headers['payment-response'], 'base64')).toMatchObject({ transaction: '' });
+  });
+});
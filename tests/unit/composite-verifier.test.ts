@@ -0,0 +1,106 @@
+/**
+ * Unit tests — CompositeVerifier (per-network verifier dispatch)
+ */
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import { createX402Middleware, pricedRoute } from 'x402-tool-server';
+import { CompositeVerifier, MockVerifier, MockPayer } from 'x402-adapters';
+
+const SECRET = 'composite-secret';
+const PRICING = { price: '0.01', asset: 'USDC', recipient: '0xCOMPOSITE' };
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+/** Verifier stub that records its name and accepts everything. */
+function named(name: string, calls: string[]) {
+  return {
+    verify: async () => {
+      calls.push(name);
+      return true;
+    },
+  };
+}
+
+describe('CompositeVerifier', () => {
+  const header = encode({ nonce: 'n', requestHash: 'h' });
+
+  it('dispatches on the pricing network', async () => {
+    const calls: string[] = [];
+    const verifier = new CompositeVerifier({ mock: named('mock', calls), base: named('base', calls) });
+    expect(await verifier.verify(header, 'h', { ...PRICING, network: 'base' })).toEqual({ ok: true });
+    expect(await verifier.verify(header, 'h', PRICING)).toEqual({ ok: true });
+    expect(calls).toEqual(['base', 'mock']);
+  });
+
+  it('prefers a network:scheme entry over a plain network entry', async () => {
+    const calls: string[] = [];
+    const verifier = new CompositeVerifier({
+      base: named('base', calls),
+      'base:upto': named('base:upto', calls),
+    });
+    await verifier.verify(header, 'h', { ...PRICING, network: 'base', scheme: 'upto' });
+    await verifier.verify(header, 'h', { ...PRICING, network: 'base', scheme: 'exact' });
+    expect(calls).toEqual(['base:upto', 'base']);
+  });
+
+  it('falls back to the network named in the proof when pricing has none', async () => {
+    const calls: string[] = [];
+    const verifier = new CompositeVerifier({ 'solana-devnet': named('solana', calls) });
+    await verifier.verify(encode({ network: 'solana-devnet' }), 'h', PRICING);
+    expect(calls).toEqual(['solana']);
+  });
+
+  it('rejects a proof that claims a different network than the one being verified', async () => {
+    const calls: string[] = [];
+    const verifier = new CompositeVerifier({ mock: named('mock', calls), base: named('base', calls) });
+    expect(await verifier.verify(encode({ network: 'mock' }), 'h', { ...PRICING, network: 'base' })).toMatchObject({
+      ok: false,
+      reason: 'wrong_network',
+    });
+    expect(calls).toEqual([]);
+  });
+
+  it('fails verification as unsupported_network for an unregistered network', async () => {
+    const verifier = new CompositeVerifier({ mock: new MockVerifier() });
+    const result = await verifier.verify(encode({ network: 'polygon' }), 'h', { ...PRICING, network: 'polygon' });
+    expect(result).toMatchObject({ ok: false, reason: 'unsupported_network' });
+    expect(result.message).toMatch(/polygon/);
+  });
+
+  it('works as the middleware verifier', async () => {
+    const fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new CompositeVerifier({ mock: new MockVerifier({ secret: SECRET }) }),
+      }),
+    );
+    fastify.route(pricedRoute({ method: 'GET', url: '/x', pricing: PRICING, handler: async () => ({ ok: true }) }));
+    await fastify.ready();
+
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/x' })).json();
+    const proof = await new MockPayer({ secret: SECRET }).pay(x402, { url: '/x', method: 'GET' });
+    const res = await fastify.inject({ method: 'GET', url: '/x', headers: { 'x-payment-proof': encode(proof) } });
+    expect(res.statusCode).toBe(200);
+    await fastify.close();
+  });
+
+  it('answers a proof for an unregistered network with a 402', async () => {
+    const fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new CompositeVerifier({ 'solana-devnet': new MockVerifier({ secret: SECRET }) }),
+      }),
+    );
+    fastify.route(pricedRoute({ method: 'GET', url: '/x', pricing: PRICING, handler: async () => ({ ok: true }) }));
+    await fastify.ready();
+
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/x' })).json();
+    const proof = await new MockPayer({ secret: SECRET }).pay(x402, { url: '/x', method: 'GET' });
+    const res = await fastify.inject({ method: 'GET', url: '/x', headers: { 'x-payment-proof': encode(proof) } });
+    expect(res.statusCode).toBe(402);
+    expect(res.json()).toMatchObject({ reason: 'unsupported_network' });
+    await fastify.close();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Unit tests — volume tiers and coupon codes (PricingConfig.tiers / coupons, UsageStore)
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { once } from 'events';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createPaymentGate,
+  createX402Middleware,
+  pricedRoute,
+  MemoryReceiptStore,
+  MemoryUsageStore,
+} from 'x402-tool-server';
+import type { GateRequest, X402ErrorEvent } from 'x402-tool-server';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'discount-test-secret';
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xDISCOUNT',
+  tiers: [
+    { upTo: 2, price: '0.001' },
+    { price: '0.0005' },
+  ],
+  coupons: {
+    HALF: { percentOff: 50 },
+    TENTH: { amountOff: '0.0001' },
+    FREE: { amountOff: '1' },
+  },
+};
+
+const payer = new MockPayer({ secret: SECRET });
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+describe('MemoryUsageStore', () => {
+  it('counts paid calls per payer', async () => {
+    const store = new MemoryUsageStore();
+    expect(await store.count('a')).toBe(0);
+    expect(await store.increment('a')).toBe(1);
+    expect(await store.increment('a')).toBe(2);
+    expect(await store.count('b')).toBe(0);
+    expect(store.size).toBe(1);
+  });
+});
+
+describe('Tiers and coupons on priced routes', () => {
+  let fastify: FastifyInstance;
+  let receiptStore: MemoryReceiptStore;
+  let usageStore: MemoryUsageStore;
+  let payerAddress: string;
+
+  async function buildServer() {
+    receiptStore = new MemoryReceiptStore();
+    usageStore = new MemoryUsageStore();
+    fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new MockVerifier({ secret: SECRET }),
+        receiptStore,
+        usageStore,
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/data',
+        pricing: PRICING,
+        handler: async (_request, reply) => ({ nonce: reply.x402.receipt.nonce }),
+      }),
+    );
+    await fastify.ready();
+    // MockPayer reports a fixed payer address in its proofs.
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/data' })).json();
+    payerAddress = (await payer.pay(x402, { url: '/data', method: 'GET' })).payer;
+  }
+
+  /** Ask for a challenge with `headers`, pay it and resend with `headers`. */
+  async function payFor(headers: Record<string, string>) {
+    const challenge = (await fastify.inject({ method: 'GET', url: '/data', headers })).json().x402;
+    const proof = await payer.pay(challenge, { url: '/data', method: 'GET' });
+    const res = await fastify.inject({
+      method: 'GET',
+      url: '/data',
+      headers: { ...headers, 'x-payment-proof': encode(proof) },
+    });
+    return { challenge, res };
+  }
+
+  afterEach(async () => {
+    await fastify.close();
+    receiptStore.destroy();
+  });
+
+  it('charges anonymous callers the route price', async () => {
+    await buildServer();
+    const res = await fastify.inject({ method: 'GET', url: '/data' });
+    expect(res.json().x402.price).toBe('0.01');
+    expect(res.json().x402.originalPrice).toBeUndefined();
+  });
+
+  it('moves a named payer through the tiers as its paid calls are counted', async () => {
+    await buildServer();
+    const headers = { 'x-402-payer': payerAddress };
+
+    const prices: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { challenge, res } = await payFor(headers);
+      expect(res.statusCode).toBe(200);
+      expect(challenge.originalPrice).toBe('0.01');
+      prices.push(challenge.price);
+    }
+    expect(prices).toEqual(['0.001', '0.001', '0.0005']);
+    expect(await usageStore.count(payerAddress)).toBe(3);
+  });
+
+  it('records the original and charged price on the receipt', async () => {
+    await buildServer();
+    const { res } = await payFor({ 'x-402-payer': payerAddress, 'x-402-coupon': 'HALF' });
+    expect(await receiptStore.get(res.json().nonce)).toMatchObject({
+      amount: '0.0005',
+      originalPrice: '0.01',
+      coupon: 'HALF',
+      payer: payerAddress,
+    });
+  });
+
+  it('applies coupons to anonymous callers and ignores unknown codes', async () => {
+    await buildServer();
+    const half = (await fastify.inject({ method: 'GET', url: '/data', headers: { 'x-402-coupon': 'HALF' } })).json();
+    expect(half.x402).toMatchObject({ price: '0.005', originalPrice: '0.01' });
+
+    const off = (await fastify.inject({ method: 'GET', url: '/data', headers: { 'x-402-coupon': 'TENTH' } })).json();
+    expect(off.x402.price).toBe('0.0099');
+
+    const floor = (await fastify.inject({ method: 'GET', url: '/data', headers: { 'x-402-coupon': 'FREE' } })).json();
+    expect(floor.x402.price).toBe('0');
+
+    const bogus = (await fastify.inject({ method: 'GET', url: '/data', headers: { 'x-402-coupon': 'toString' } })).json();
+    expect(bogus.x402.price).toBe('0.01');
+  });
+
+  it('rejects a payment from another payer than the one named', async () => {
+    await buildServer();
+    const rejected = once(fastify.x402Events, 'x402:error');
+    const { res } = await payFor({ 'x-402-payer': 'mock://someone-else' });
+    expect(res.statusCode).toBe(402);
+    expect(res.json().error).toContain('X-402-Payer');
+    const [event] = (await rejected) as [X402ErrorEvent];
+    expect(event.reason).toBe('payer_mismatch');
+    expect(await usageStore.count('mock://someone-else')).toBe(0);
+  });
+
+  it('rejects a proof for the discounted price without the coupon', async () => {
+    await buildServer();
+    const challenge = (await fastify.inject({ method: 'GET', url: '/data', headers: { 'x-402-coupon': 'HALF' } }))
+      .json().x402;
+    const proof = await payer.pay(challenge, { url: '/data', method: 'GET' });
+    const res = await fastify.inject({ method: 'GET', url: '/data', headers: { 'x-payment-proof': encode(proof) } });
+    expect(res.statusCode).toBe(402);
+    expect(res.json().error).toBe('Payment proof does not match the issued challenge');
+  });
+});
+
+describe('Coupon configuration', () => {
+  const gate = createPaymentGate({ verifier: new MockVerifier({ secret: SECRET }) });
+  const request = (headers: Record<string, string> = {}): GateRequest => ({
+    method: 'GET',
+    url: '/data',
+    headers,
+    rawBody: new Uint8Array(0),
+    ip: '127.0.0.1',
+  });
+
+  it('rejects a fractional percentOff with a config error instead of a RangeError from BigInt', async () => {
+    const pricing = { ...PRICING, coupons: { ODD: { percentOff: 12.5 } } };
+    await expect(gate.handle(request({ 'x-402-coupon': 'ODD' }), pricing)).rejects.toThrow(
+      /x402: coupon "ODD" needs a whole-number percentOff/,
+    );
+    // Misconfigured coupons fail the route even when no code is sent.
+    await expect(gate.quote(request(), pricing)).rejects.toThrow(/x402: coupon "ODD"/);
+  });
+
+  it('rejects percentOff outside 0–100 and amountOff that is not a decimal string', async () => {
+    for (const coupon of [{ percentOff: 120 }, { percentOff: -5 }, { amountOff: '-0.1' }, { amountOff: '1e-3' }]) {
+      await expect(gate.quote(request(), { ...PRICING, coupons: { BAD: coupon } })).rejects.toThrow(/x402: coupon "BAD"/);
+    }
+  });
+});
+
+describe('Discounted price rounding', () => {
+  const gate = createPaymentGate({ verifier: new MockVerifier({ secret: SECRET }) });
+  const request = (coupon: string): GateRequest => ({
+    method: 'GET',
+    url: '/data',
+    headers: { 'x-402-coupon': coupon },
+    rawBody: new Uint8Array(0),
+    ip: '127.0.0.1',
+  });
+
+  it('rounds a discount below one base unit up to the asset decimals', async () => {
+    const quote = await gate.quote(request('HALF'), { ...PRICING, price: '0.000001' });
+    expect(quote.price).toBe('0.000001');
+
+    const challenge = await gate.handle(request('HALF'), { ...PRICING, price: '0.000003' });
+    expect(challenge.type).toBe('respond');
+    if (challenge.type !== 'respond') return;
+    expect((challenge.response.body as { x402: { price: string } }).x402.price).toBe('0.000002');
+  });
+
+  it('rounds to the fewest decimals among the options paying the discounted price', async () => {
+    const pricing = {
+      ...PRICING,
+      price: '0.05',
+      coupons: { THIRD: { percentOff: 33 } },
+      options: [{ network: 'two-decimals', assetDecimals: 2 }, { network: 'own-price', price: '0.0335', assetDecimals: 0 }],
+    };
+    const quote = await gate.quote(request('THIRD'), pricing);
+    expect(quote.price).toBe('0.04');
+  });
+});
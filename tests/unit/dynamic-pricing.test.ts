@@ -0,0 +1,162 @@
+/**
+ * Unit tests — dynamic per-request pricing (pricing functions on routes)
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { createX402Middleware, pricedRoute, pricedHandler, openApiPlugin } from 'x402-tool-server';
+import type { PricingConfig, PricingResolver, VerifierInterface, X402ErrorEvent } from 'x402-tool-server';
+import { MockVerifier, MockPayer } from 'x402-adapters';
+
+const SECRET = 'dynamic-pricing-secret';
+const BASE = {
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xDYNAMIC',
+};
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+/** 0.0001 USDC per row requested, via ?rows= */
+function rowsPricing(request: FastifyRequest): PricingConfig {
+  const rows = Number((request.query as Record<string, string>).rows ?? '1');
+  return { ...BASE, price: (rows * 0.0001).toFixed(4) };
+}
+
+/** Tier picked by a header the request hash does not cover. */
+function tierPricing(request: FastifyRequest): PricingConfig {
+  const premium = request.headers['x-model-tier'] === 'premium';
+  return { ...BASE, price: premium ? '0.05' : '0.001' };
+}
+
+async function buildServer(pricing: PricingResolver, verifier: VerifierInterface = new MockVerifier({ secret: SECRET })) {
+  const fastify = Fastify({ logger: false });
+  fastify.register(createX402Middleware({ verifier }));
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/data',
+      pricing,
+      handler: async (request) => ({ query: request.query }),
+    }),
+  );
+  await fastify.ready();
+  return fastify;
+}
+
+describe('Dynamic pricing', () => {
+  const payer = new MockPayer({ secret: SECRET });
+  const apps: FastifyInstance[] = [];
+
+  afterEach(async () => {
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  it('binds the price computed from the request into the challenge', async () => {
+    const app = await buildServer(rowsPricing);
+    apps.push(app);
+
+    const few = (await app.inject({ method: 'GET', url: '/data?rows=5' })).json().x402;
+    const many = (await app.inject({ method: 'GET', url: '/data?rows=500' })).json().x402;
+    expect(few.price).toBe('0.0005');
+    expect(many.price).toBe('0.0500');
+  });
+
+  it('accepts a proof paying the resolved price', async () => {
+    const app = await buildServer(rowsPricing);
+    apps.push(app);
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/data?rows=5' })).json();
+    const proof = await payer.pay(x402, { url: '/data?rows=5', method: 'GET' });
+    const res = await app.inject({
+      method: 'GET',
+      url: '/data?rows=5',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ query: { rows: '5' } });
+  });
+
+  it('supports async resolvers', async () => {
+    const app = await buildServer(async (request) => {
+      await new Promise((r) => setTimeout(r, 5));
+      return rowsPricing(request);
+    });
+    apps.push(app);
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/data?rows=2' })).json();
+    expect(x402.price).toBe('0.0002');
+    const proof = await payer.pay(x402, { url: '/data?rows=2', method: 'GET' });
+    const res = await app.inject({
+      method: 'GET',
+      url: '/data?rows=2',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('passes the resolved pricing to the verifier', async () => {
+    const seen: PricingConfig[] = [];
+    const inner = new MockVerifier({ secret: SECRET });
+    const app = await buildServer(rowsPricing, {
+      verify: (header, hash, pricing) => {
+        seen.push(pricing);
+        return inner.verify(header, hash, pricing);
+      },
+    });
+    apps.push(app);
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/data?rows=3' })).json();
+    const proof = await payer.pay(x402, { url: '/data?rows=3', method: 'GET' });
+    await app.inject({ method: 'GET', url: '/data?rows=3', headers: { 'x-payment-proof': encode(proof) } });
+    expect(seen).toEqual([{ ...BASE, price: '0.0003' }]);
+  });
+
+  it('rejects a cheap challenge replayed with inputs that resolve to a higher price', async () => {
+    const app = await buildServer(tierPricing);
+    apps.push(app);
+    const errors: X402ErrorEvent[] = [];
+    app.x402Events.on('x402:error', (e) => errors.push(e));
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/data' })).json();
+    expect(x402.price).toBe('0.001');
+    const proof = await payer.pay(x402, { url: '/data', method: 'GET' });
+
+    const res = await app.inject({
+      method: 'GET',
+      url: '/data',
+      headers: { 'x-payment-proof': encode(proof), 'x-model-tier': 'premium' },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(errors[0].reason).toBe('challenge_mismatch');
+    expect(errors[0].pricing.price).toBe('0.05');
+  });
+
+  it('pricedHandler accepts a pricing function', async () => {
+    const fastify = Fastify({ logger: false });
+    apps.push(fastify);
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.get('/rows', pricedHandler(rowsPricing), async () => ({ ok: true }));
+    await fastify.ready();
+
+    const res = await fastify.inject({ method: 'GET', url: '/rows?rows=10' });
+    expect(res.statusCode).toBe(402);
+    expect(res.json().x402.price).toBe('0.0010');
+  });
+
+  it('OpenAPI marks dynamically priced routes without a fixed price', async () => {
+    const fastify = Fastify({ logger: false, exposeHeadRoutes: false });
+    apps.push(fastify);
+    await fastify.register(openApiPlugin, {});
+    fastify.get('/rows', pricedHandler(rowsPricing), async () => ({ ok: true }));
+    await fastify.ready();
+
+    const spec = (await fastify.inject({ method: 'GET', url: '/x402/openapi.json' })).json();
+    const operation = spec.paths['/rows'].get;
+    expect(operation['x-x402-dynamic-price']).toBe(true);
+    expect(operation['x-x402-price']).toBeUndefined();
+    expect(operation.responses['402']).toBeDefined();
+  });
+});
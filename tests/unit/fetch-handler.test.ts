@@ -0,0 +1,172 @@
+/**
+ * Unit tests — withX402 Fetch-API (Request/Response) handler
+ */
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import Fastify from 'fastify';
+import { createX402Middleware, pricedRoute, MemoryReceiptStore } from 'x402-tool-server';
+import { withX402 } from 'x402-tool-server/fetch';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'fetch-secret';
+const BASE = 'https://tools.example';
+const PRICING = {
+  price: '0.001',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xFETCH',
+};
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+describe('withX402', () => {
+  const payer = new MockPayer({ secret: SECRET });
+
+  it('answers an unpaid request with the toolkit 402 challenge', async () => {
+    const handler = withX402(() => Response.json({ ok: true }), PRICING, {
+      verifier: new MockVerifier({ secret: SECRET }),
+    });
+
+    const res = await handler(new Request(`${BASE}/weather?city=SF`));
+    expect(res.status).toBe(402);
+    expect(res.headers.get('content-type')).toContain('application/json');
+    const { x402 } = await res.json();
+    expect(x402).toMatchObject({ version: 1, scheme: 'exact', ...PRICING });
+  });
+
+  it('runs the handler once the proof verifies, with the body still readable', async () => {
+    const receiptStore = new MemoryReceiptStore();
+    const handler = withX402(
+      async (request: Request) => Response.json({ echoed: await request.json() }),
+      PRICING,
+      { verifier: new MockVerifier({ secret: SECRET }), receiptStore },
+    );
+    const init = { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{"action":"go"}' };
+
+    const { x402 } = await (await handler(new Request(`${BASE}/action`, init))).json();
+    const proof = await payer.pay(x402, { url: '/action', method: 'POST' });
+    const res = await handler(new Request(`${BASE}/action`, {
+      ...init,
+      headers: { ...init.headers, 'x-payment-proof': encode(proof) },
+    }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ echoed: { action: 'go' } });
+    expect(await receiptStore.get(x402.nonce)).toMatchObject({ endpoint: '/action', method: 'POST' });
+    receiptStore.destroy();
+  });
+
+  it('passes extra handler arguments through', async () => {
+    const handler = withX402(
+      (_request: Request, env: { region: string }) => Response.json({ region: env.region }),
+      PRICING,
+      { verifier: new MockVerifier({ secret: SECRET }) },
+    );
+    const { x402 } = await (await handler(new Request(`${BASE}/env`), { region: 'eu' })).json();
+    const proof = await payer.pay(x402, { url: '/env', method: 'GET' });
+    const res = await handler(
+      new Request(`${BASE}/env`, { headers: { 'x-payment-proof': encode(proof) } }),
+      { region: 'eu' },
+    );
+    expect(await res.json()).toEqual({ region: 'eu' });
+  });
+
+  it('produces the same requestHash as the Fastify plugin', async () => {
+    const fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.route(pricedRoute({ method: 'POST', url: '/action', pricing: PRICING, handler: async () => ({}) }));
+    await fastify.ready();
+    const handler = withX402(() => Response.json({}), PRICING, {
+      verifier: new MockVerifier({ secret: SECRET }),
+    });
+
+    const body = '{"city":"Zürich","b":2,"a":1}';
+    const viaFastify = (await fastify.inject({
+      method: 'POST',
+      url: '/action?z=1&a=New+York',
+      headers: { 'content-type': 'application/json' },
+      payload: body,
+    })).json();
+    const viaFetch = await (await handler(new Request(`${BASE}/action?a=New+York&z=1`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body,
+    }))).json();
+    expect(viaFetch.x402.requestHash).toBe(viaFastify.x402.requestHash);
+    await fastify.close();
+  });
+
+  it('issues Coinbase PAYMENT-REQUIRED challenges and accepts PAYMENT-SIGNATURE proofs', async () => {
+    const handler = withX402(() => Response.json({ paid: true }), PRICING, {
+      verifier: new MockVerifier({ secret: SECRET }),
+      wireFormat: 'coinbase',
+    });
+
+    const challenge = await handler(new Request(`${BASE}/weather`));
+    expect(challenge.status).toBe(402);
+    const required = JSON.parse(atob(challenge.headers.get('payment-required')!));
+    const { nonce, requestHash, expiresAt } = required.accepts[0].extra;
+
+    const proof = await payer.pay(
+      { version: 1, ...PRICING, scheme: 'exact', nonce, requestHash, expiresAt },
+      { url: '/weather', method: 'GET' },
+    );
+    const signature = btoa(JSON.stringify({
+      x402Version: 1,
+      accepted: required.accepts[0],
+      payload: { ...proof },
+    }));
+    const res = await handler(new Request(`${BASE}/weather`, { headers: { 'payment-signature': signature } }));
+    expect(res.status).toBe(200);
+  });
+
+  it('replays an idempotent response and rejects a replayed proof', async () => {
+    let calls = 0;
+    const handler = withX402(() => Response.json({ calls: ++calls }), PRICING, {
+      verifier: new MockVerifier({ secret: SECRET }),
+    });
+
+    const { x402 } = await (await handler(new Request(`${BASE}/weather`))).json();
+    const proof = encode(await payer.pay(x402, { url: '/weather', method: 'GET' }));
+    const paid = () => new Request(`${BASE}/weather`, {
+      headers: { 'x-payment-proof': proof, 'idempotency-key': 'k-1' },
+    });
+
+    expect(await (await handler(paid())).json()).toEqual({ calls: 1 });
+    const replay = await handler(paid());
+    expect(replay.headers.get('x-idempotent-replay')).toBe('true');
+    expect(await replay.json()).toEqual({ calls: 1 });
+    expect(calls).toBe(1);
+
+    const reused = await handler(new Request(`${BASE}/weather`, { headers: { 'x-payment-proof': proof } }));
+    expect(reused.status).toBe(402);
+    expect((await reused.json()).error).toBe('Nonce already used (replay detected)');
+  });
+});
+
+describe('x402-tool-server/fetch entry', () => {
+  // Everything the edge entry loads, following relative imports in dist.
+  function builtinsLoadedBy(file: string, seen = new Set<string>()): Set<string> {
+    const builtins = new Set<string>();
+    if (seen.has(file)) return builtins;
+    seen.add(file);
+    const source = readFileSync(file, 'utf8');
+    for (const [, specifier] of source.matchAll(/^(?:import|export)\s[^;]*?from\s+'([^']+)'/gms)) {
+      if (specifier.startsWith('.')) {
+        for (const name of builtinsLoadedBy(join(dirname(file), specifier), seen)) builtins.add(name);
+      } else {
+        builtins.add(specifier);
+      }
+    }
+    return builtins;
+  }
+
+  it('loads no Node built-in besides events', () => {
+    const entry = fileURLToPath(new URL('../../packages/x402-tool-server/dist/fetch.js', import.meta.url));
+    expect([...builtinsLoadedBy(entry)]).toEqual(['events']);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Unit tests — FileReceiptStore, FileIdempotencyStore (append-only JSONL logs)
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileIdempotencyStore, FileNonceStore, FileReceiptStore } from 'x402-tool-server';
+import type { Receipt, StoredResponse } from 'x402-tool-server';
+
+function makeReceipt(nonce: string, overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    nonce,
+    payer: '0xPAYER',
+    amount: '0.01',
+    asset: 'USDC',
+    network: 'mock',
+    recipient: '0xRECIPIENT',
+    endpoint: '/weather',
+    method: 'GET',
+    requestHash: 'a'.repeat(64),
+    paidAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+const RESPONSE: StoredResponse = {
+  requestHash: 'b'.repeat(64),
+  statusCode: 200,
+  body: { tempC: 21 },
+  headers: { 'content-type': 'application/json' },
+};
+
+function logLines(path: string): string[] {
+  return readFileSync(path, 'utf8').trim().split('\n');
+}
+
+describe('FileReceiptStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-receipts-'));
+    path = join(dir, 'receipts.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps receipts across restarts, last save wins', async () => {
+    const first = new FileReceiptStore({ path });
+    await first.save(makeReceipt('r1'));
+    await first.save(makeReceipt('r2'));
+    await first.save(makeReceipt('r1', { voidedAt: '2026-01-01T00:00:00.000Z' }));
+    await first.destroy();
+
+    const second = new FileReceiptStore({ path });
+    expect(second.size).toBe(2);
+    expect((await second.get('r1'))?.voidedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect((await second.get('r2'))?.nonce).toBe('r2');
+    await second.destroy();
+  });
+
+  it('keeps receipts for good unless ttlMs is set', async () => {
+    const forever = new FileReceiptStore({ path });
+    await forever.save(makeReceipt('kept', { paidAt: '2020-01-01T00:00:00.000Z' }));
+    expect(await forever.get('kept')).toBeDefined();
+    await forever.destroy();
+
+    const expiring = new FileReceiptStore({ path: join(dir, 'expiring.jsonl'), ttlMs: -1 });
+    await expiring.save(makeReceipt('gone'));
+    expect(await expiring.get('gone')).toBeUndefined();
+    expect((await expiring.list({})).receipts).toEqual([]);
+    await expiring.destroy();
+  });
+
+  it('lists and pages receipts like MemoryReceiptStore', async () => {
+    const store = new FileReceiptStore({ path });
+    await store.save(makeReceipt('c', { paidAt: '2026-01-03T00:00:00.000Z' }));
+    await store.save(makeReceipt('a', { paidAt: '2026-01-01T00:00:00.000Z', payer: '0xOTHER' }));
+    await store.save(makeReceipt('b', { paidAt: '2026-01-02T00:00:00.000Z' }));
+
+    const first = await store.list({ limit: 2 });
+    expect(first.receipts.map((r) => r.nonce)).toEqual(['a', 'b']);
+    const rest = await store.list({ limit: 2, cursor: first.nextCursor });
+    expect(rest.receipts.map((r) => r.nonce)).toEqual(['c']);
+    expect(rest.nextCursor).toBeUndefined();
+
+    const byPayer = await store.list({ payer: '0xOTHER' });
+    expect(byPayer.receipts.map((r) => r.nonce)).toEqual(['a']);
+    await store.destroy();
+  });
+
+  it('compact() drops superseded and expired lines', async () => {
+    const store = new FileReceiptStore({ path, ttlMs: 60_000 });
+    await store.save(makeReceipt('r1'));
+    await store.save(makeReceipt('r1', { charged: '0.005' }));
+    await store.save(makeReceipt('r2'));
+    expect(logLines(path)).toHaveLength(3);
+
+    await store.compact();
+    const lines = logLines(path).map((line) => JSON.parse(line) as { receipt: Receipt });
+    expect(lines).toHaveLength(2);
+    expect(lines.find((line) => line.receipt.nonce === 'r1')?.receipt.charged).toBe('0.005');
+    await store.destroy();
+  });
+
+  it('recovers from a torn final line and appends after it cleanly', async () => {
+    const first = new FileReceiptStore({ path });
+    await first.save(makeReceipt('whole'));
+    await first.destroy();
+    appendFileSync(path, '{"receipt":{"nonce":"torn"');
+
+    const second = new FileReceiptStore({ path });
+    expect(second.size).toBe(1);
+    await second.save(makeReceipt('after'));
+    await second.destroy();
+
+    const third = new FileReceiptStore({ path });
+    expect(await third.get('whole')).toBeDefined();
+    expect(await third.get('after')).toBeDefined();
+    expect(await third.get('torn')).toBeUndefined();
+    await third.destroy();
+  });
+});
+
+describe('FileIdempotencyStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-idempotency-'));
+    path = join(dir, 'idempotency.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps stored responses across restarts', async () => {
+    const first = new FileIdempotencyStore({ path });
+    await first.set('key-1', RESPONSE);
+    await first.destroy();
+
+    const second = new FileIdempotencyStore({ path });
+    expect(await second.get('key-1')).toEqual(RESPONSE);
+    expect(await second.get('key-2')).toBeUndefined();
+    await second.destroy();
+  });
+
+  it('expired keys are not served and are not replayed on startup', async () => {
+    const first = new FileIdempotencyStore({ path, ttlMs: -1 });
+    await first.set('stale', RESPONSE);
+    expect(await first.get('stale')).toBeUndefined();
+    await first.destroy();
+
+    const second = new FileIdempotencyStore({ path });
+    expect(second.size).toBe(0);
+    await second.destroy();
+  });
+
+  it('compact() rewrites the log with only live keys', async () => {
+    const store = new FileIdempotencyStore({ path });
+    await store.set('a', RESPONSE);
+    await store.set('a', { ...RESPONSE, statusCode: 201 });
+    await store.set('b', RESPONSE);
+    await store.compact();
+
+    const lines = logLines(path).map((line) => JSON.parse(line) as { key: string; value: StoredResponse });
+    expect(lines.map((line) => line.key).sort()).toEqual(['a', 'b']);
+    expect(lines.find((line) => line.key === 'a')?.value.statusCode).toBe(201);
+    await store.destroy();
+  });
+
+  it('the sweep timer compacts the log in the background', async () => {
+    const store = new FileIdempotencyStore({ path, sweepIntervalMs: 10 });
+    await store.set('a', RESPONSE);
+    await store.set('a', RESPONSE);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await store.destroy();
+
+    expect(logLines(path)).toHaveLength(1);
+  });
+});
+
+describe('background compaction failures', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-compaction-'));
+    path = join(dir, 'store.jsonl');
+    // The temp file of the rewrite cannot be created where a directory sits.
+    mkdirSync(`${path}.tmp`);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('go to onError and leave the log intact', async () => {
+    const errors: unknown[] = [];
+    const store = new FileNonceStore({ path, sweepIntervalMs: 10, onError: (error) => errors.push(error) });
+    await store.claim('a', Date.now() - 1);
+    await store.claim('b', Date.now() + 60_000);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await store.destroy();
+
+    expect(errors.length).toBeGreaterThan(0);
+    expect(logLines(path)).toHaveLength(2);
+  });
+
+  it('are thrown from destroy() without onError', async () => {
+    const store = new FileIdempotencyStore({ path, sweepIntervalMs: 10 });
+    await store.set('a', RESPONSE);
+    await store.set('a', RESPONSE);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await expect(store.destroy()).rejects.toThrow(/EISDIR/);
+  });
+});
@@ -2,7 +2,7 @@
  * Unit tests — requestHash canonicalization
  */
 import { describe, it, expect } from 'vitest';
-import { computeRequestHash, canonicalQueryString } from 'x402-tool-server';
+import { computeRequestHash, computeRequestHashAsync, canonicalQueryString } from 'x402-tool-server';
 
 describe('canonicalQueryString', () => {
   it('returns empty string for no query', () => {
@@ -65,3 +65,19 @@ describe('computeRequestHash', () => {
     expect(sorted).toBe(reversed);
   });
 });
+
+describe('computeRequestHashAsync', () => {
+  it('matches computeRequestHash byte for byte', async () => {
+    const body = new TextEncoder().encode('{"city":"Zürich","n":[1,2]}');
+    const cases: [string, string, string, Uint8Array][] = [
+      ['GET', '/weather', '', new Uint8Array(0)],
+      ['get', '/weather', 'z=1&a=New+York&a=%F0%9F%8C%A7', new Uint8Array(0)],
+      ['POST', '/action', 'b=2', body],
+    ];
+    for (const [method, path, query, raw] of cases) {
+      expect(await computeRequestHashAsync(method, path, query, raw)).toBe(
+        computeRequestHash(method, path, query, Buffer.from(raw)),
+      );
+    }
+  });
+});
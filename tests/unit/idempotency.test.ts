@@ -4,7 +4,13 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Fastify from 'fastify';
 import type { FastifyInstance } from 'fastify';
-import { createX402Middleware, pricedRoute, MemoryIdempotencyStore } from 'x402-tool-server';
+import {
+  createX402Middleware,
+  pricedRoute,
+  MemoryIdempotencyStore,
+  toAsyncIdempotencyStore,
+} from 'x402-tool-server';
+import type { IdempotencyStore, SyncIdempotencyStore, StoredResponse } from 'x402-tool-server';
 import { MockVerifier, MockPayer } from 'x402-adapters';
 
 const SECRET = 'idem-test-secret';
@@ -56,23 +62,23 @@ async function getProof(fastify: FastifyInstance, url: string): Promise<string>
 }
 
 describe('Idempotency store — MemoryIdempotencyStore', () => {
-  it('starts empty', () => {
+  it('starts empty', async () => {
     const store = new MemoryIdempotencyStore();
-    expect(store.get('missing')).toBeUndefined();
+    expect(await store.get('missing')).toBeUndefined();
     store.destroy();
   });
 
-  it('stores and retrieves a response', () => {
+  it('stores and retrieves a response', async () => {
     const store = new MemoryIdempotencyStore();
     const value = { requestHash: 'abc', statusCode: 200, body: { ok: true }, headers: {} };
-    store.set('k1', value);
-    expect(store.get('k1')).toEqual(value);
+    await store.set('k1', value);
+    expect(await store.get('k1')).toEqual(value);
     store.destroy();
   });
 
-  it('returns undefined for unknown key', () => {
+  it('returns undefined for unknown key', async () => {
     const store = new MemoryIdempotencyStore();
-    expect(store.get('unknown')).toBeUndefined();
+    expect(await store.get('unknown')).toBeUndefined();
     store.destroy();
   });
 });
@@ -148,3 +154,91 @@ describe('Middleware idempotency behaviour', () => {
     expect(r2.json()).toHaveProperty('error');
   });
 });
+
+describe('Async and legacy synchronous idempotency stores', () => {
+  const payer = new MockPayer({ secret: SECRET });
+
+  async function buildWith(idempotencyStore: IdempotencyStore | SyncIdempotencyStore) {
+    callCount = 0;
+    const fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }), idempotencyStore }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/counted',
+        pricing: PRICING,
+        handler: async () => ({ callCount: ++callCount }),
+      }),
+    );
+    await fastify.ready();
+    return fastify;
+  }
+
+  async function payTwice(fastify: FastifyInstance) {
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/counted' })).json();
+    const proof = await payer.pay(x402, { url: '/counted', method: 'GET' });
+    const headers = {
+      'x-payment-proof': Buffer.from(JSON.stringify(proof)).toString('base64url'),
+      'idempotency-key': 'shared-key',
+    };
+    const r1 = await fastify.inject({ method: 'GET', url: '/counted', headers });
+    const r2 = await fastify.inject({ method: 'GET', url: '/counted', headers });
+    return [r1, r2];
+  }
+
+  it('awaits a slow async store before responding', async () => {
+    const entries = new Map<string, StoredResponse>();
+    const slowStore: IdempotencyStore = {
+      async get(key) {
+        await new Promise((r) => setTimeout(r, 5));
+        return entries.get(key);
+      },
+      async set(key, value) {
+        await new Promise((r) => setTimeout(r, 20));
+        entries.set(key, value);
+      },
+    };
+    const fastify = await buildWith(slowStore);
+
+    const [r1, r2] = await payTwice(fastify);
+    expect(r1.statusCode).toBe(200);
+    expect(entries.has('shared-key')).toBe(true);
+    expect(r2.headers['x-idempotent-replay']).toBe('true');
+    expect(callCount).toBe(1);
+    await fastify.close();
+  });
+
+  it('still accepts a legacy synchronous store', async () => {
+    const entries = new Map<string, StoredResponse>();
+    const syncStore: SyncIdempotencyStore = {
+      get: (key) => entries.get(key),
+      set: (key, value) => {
+        entries.set(key, value);
+      },
+    };
+    const fastify = await buildWith(syncStore);
+
+    const [r1, r2] = await payTwice(fastify);
+    expect(r1.statusCode).toBe(200);
+    expect(r2.headers['x-idempotent-replay']).toBe('true');
+    expect(callCount).toBe(1);
+    await fastify.close();
+  });
+
+  it('toAsyncIdempotencyStore wraps a synchronous store in promises', async () => {
+    const entries = new Map<string, StoredResponse>();
+    const wrapped = toAsyncIdempotencyStore({
+      get: (key) => entries.get(key),
+      set: (key, value) => {
+        entries.set(key, value);
+      },
+    });
+    const value = { requestHash: 'h', statusCode: 201, body: 'x', headers: {} };
+    const pending = wrapped.set('k', value);
+    expect(pending).toBeInstanceOf(Promise);
+    await pending;
+    expect(await wrapped.get('k')).toEqual(value);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests — discovery manifest (/.well-known/x402.json)
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  manifestPlugin,
+  openApiPlugin,
+  pricedRoute,
+  MemoryReceiptStore,
+  MemorySessionStore,
+} from 'x402-tool-server';
+import type { X402Manifest } from 'x402-tool-server';
+import { createToolsFromManifest } from '@darklrd/x402-agent-client';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'manifest-test-secret';
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xMANIFEST',
+  description: 'Current weather for a city',
+  coupons: { SECRET50: { percentOff: 50 } },
+};
+const QUERY_SCHEMA = {
+  type: 'object',
+  properties: { city: { type: 'string' } },
+  required: ['city'],
+};
+const BODY_SCHEMA = {
+  type: 'object',
+  properties: { query: { type: 'string' } },
+  required: ['query'],
+};
+
+describe('manifestPlugin', () => {
+  let fastify: FastifyInstance;
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  async function fetchManifest(): Promise<X402Manifest> {
+    const res = await fastify.inject({ method: 'GET', url: '/.well-known/x402.json' });
+    expect(res.statusCode).toBe(200);
+    return res.json() as X402Manifest;
+  }
+
+  it('lists priced routes with their options, schemas and descriptions', async () => {
+    fastify = Fastify({ logger: false });
+    await fastify.register(manifestPlugin, { name: 'Weather tools', version: '1.2.0' });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.route(pricedRoute({
+      method: 'GET',
+      url: '/weather',
+      pricing: PRICING,
+      schema: { querystring: QUERY_SCHEMA },
+      handler: async () => ({ ok: true }),
+    }));
+    fastify.route(pricedRoute({
+      method: 'POST',
+      url: '/search',
+      pricing: { ...PRICING, price: '0.05', description: undefined, options: [{ network: 'solana-devnet' }] },
+      schema: { body: BODY_SCHEMA },
+      handler: async () => ({ ok: true }),
+    }));
+    fastify.get('/health', async () => ({ ok: true }));
+
+    const manifest = await fetchManifest();
+    expect(manifest).toMatchObject({ x402Version: 1, name: 'Weather tools', version: '1.2.0' });
+    expect(manifest.routes).toHaveLength(2);
+
+    const [weather, search] = manifest.routes;
+    expect(weather).toMatchObject({
+      name: 'get_weather',
+      method: 'GET',
+      path: '/weather',
+      description: 'Current weather for a city',
+      input: { querystring: QUERY_SCHEMA },
+    });
+    expect(weather.accepts).toEqual([
+      { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xMANIFEST', scheme: 'exact' },
+    ]);
+    expect(search).toMatchObject({ name: 'post_search', method: 'POST', input: { body: BODY_SCHEMA } });
+    expect(search.accepts?.map((option) => option.network)).toEqual(['mock', 'solana-devnet']);
+    expect(JSON.stringify(manifest)).not.toContain('SECRET50');
+  });
+
+  it('reports wire formats, capabilities and endpoints from the gate', async () => {
+    fastify = Fastify({ logger: false });
+    await fastify.register(manifestPlugin, {});
+    await fastify.register(openApiPlugin, {});
+    fastify.register(createX402Middleware({
+      verifier: new MockVerifier({ secret: SECRET }),
+      wireFormat: 'dual',
+      receiptStore: new MemoryReceiptStore(),
+      sessions: { pricing: { ...PRICING, price: '1.00' }, store: new MemorySessionStore() },
+    }));
+
+    const manifest = await fetchManifest();
+    expect(manifest.wireFormats).toEqual(['toolkit', 'coinbase']);
+    expect(manifest.capabilities).toEqual({
+      receipts: true,
+      idempotency: true,
+      sessions: true,
+      passes: false,
+      quotes: true,
+      signedReceipts: false,
+    });
+    expect(manifest.endpoints).toEqual({
+      quote: '/x402/quote',
+      receipts: '/x402/receipts/{nonce}',
+      sessions: '/x402/sessions',
+      openapi: '/x402/openapi.json',
+    });
+  });
+
+  it('marks resolver-priced routes as dynamic', async () => {
+    fastify = Fastify({ logger: false });
+    await fastify.register(manifestPlugin, {});
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.route(pricedRoute({ method: 'GET', url: '/rows', pricing: () => PRICING, handler: async () => ({}) }));
+
+    const [rows] = (await fetchManifest()).routes;
+    expect(rows).toMatchObject({ name: 'get_rows', dynamicPrice: true });
+    expect(rows.accepts).toBeUndefined();
+  });
+
+  it('reports no capabilities without the x402 plugin', async () => {
+    fastify = Fastify({ logger: false });
+    await fastify.register(manifestPlugin, {});
+
+    const manifest = await fetchManifest();
+    expect(manifest.wireFormats).toEqual(['toolkit']);
+    expect(Object.values(manifest.capabilities).every((enabled) => !enabled)).toBe(true);
+    expect(manifest.endpoints).toEqual({});
+  });
+});
+
+describe('createToolsFromManifest', () => {
+  const manifest = {
+    x402Version: 1,
+    name: 'Tools',
+    baseUrl: 'https://api.example.com/v1/',
+    wireFormats: ['toolkit'],
+    capabilities: {},
+    endpoints: {},
+    routes: [
+      { name: 'get_weather', method: 'GET', path: '/weather', input: { querystring: QUERY_SCHEMA } },
+      { name: 'post_search', method: 'POST', path: '/search', description: 'Search', input: { body: BODY_SCHEMA } },
+      { name: 'post_tools_name', method: 'POST', path: '/tools/:name' },
+    ],
+  };
+  const fetchOptions = { payer: new MockPayer({ secret: SECRET }) };
+
+  it('builds one tool per route', () => {
+    const tools = createToolsFromManifest(manifest, { fetchOptions });
+    expect(tools.map((tool) => tool.name)).toEqual(['get_weather', 'post_search', 'post_tools_name']);
+    expect(tools[0]).toMatchObject({ description: 'GET /weather', inputSchema: QUERY_SCHEMA });
+    expect(tools[1]).toMatchObject({ description: 'Search', inputSchema: BODY_SCHEMA });
+    expect(tools[2].inputSchema).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+    });
+  });
+
+  it('skips wildcard routes', () => {
+    const routes = [...manifest.routes, { name: 'get_files', method: 'GET', path: '/files/*' }];
+    const tools = createToolsFromManifest({ ...manifest, routes }, { fetchOptions });
+    expect(tools.map((tool) => tool.name)).not.toContain('get_files');
+  });
+
+  it('requires a base URL', () => {
+    expect(() => createToolsFromManifest({ ...manifest, baseUrl: undefined }, { fetchOptions })).toThrow(/baseUrl/);
+  });
+});
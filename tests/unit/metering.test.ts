@@ -0,0 +1,268 @@
+/**
+ * Unit tests — metered pricing: max authorization, reply.x402.meter(), settlement
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { once } from 'events';
+import { Readable } from 'stream';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  createPaymentGate,
+  MemoryReceiptStore,
+  MemorySessionStore,
+} from 'x402-tool-server';
+import type { GateRequest, X402MeterEvent, X402MiddlewareOptions, X402RefundEvent } from 'x402-tool-server';
+import { MockPayer, MockVerifier, MockRefunder } from 'x402-adapters';
+
+const SECRET = 'metering-test-secret';
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xMETER',
+  metered: { unitPrice: '0.0001', unit: 'token' },
+};
+
+const payer = new MockPayer({ secret: SECRET });
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+/** `count` tokens, metering each one as it is streamed. */
+function tokenStream(count: number, meter: (units: number) => void): Readable {
+  return Readable.from((async function* () {
+    for (let i = 0; i < count; i++) {
+      meter(1);
+      yield `data: token-${i}\n\n`;
+    }
+  })());
+}
+
+describe('Metered pricing', () => {
+  let fastify: FastifyInstance;
+  let receiptStore: MemoryReceiptStore;
+
+  async function buildServer(options: Partial<X402MiddlewareOptions> = {}) {
+    receiptStore = new MemoryReceiptStore();
+    fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new MockVerifier({ secret: SECRET }),
+        receiptStore,
+        ...options,
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/complete',
+        pricing: PRICING,
+        handler: async (request, reply) => {
+          const { tokens } = request.query as { tokens: string };
+          reply.header('content-type', 'text/event-stream');
+          return reply.send(tokenStream(Number(tokens), reply.x402.meter));
+        },
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/fails',
+        pricing: PRICING,
+        handler: async (_request, reply) => {
+          reply.x402.meter(10);
+          throw new Error('model unavailable');
+        },
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/flat',
+        pricing: { ...PRICING, metered: undefined },
+        handler: async (_request, reply) => {
+          reply.x402.meter(1);
+          return { ok: true };
+        },
+      }),
+    );
+    await fastify.ready();
+  }
+
+  async function paidHeaders(url: string): Promise<{ nonce: string; headers: Record<string, string> }> {
+    const { x402 } = (await fastify.inject({ method: 'GET', url })).json();
+    const proof = await payer.pay(x402, { url, method: 'GET' });
+    return { nonce: x402.nonce, headers: { 'x-payment-proof': encode(proof) } };
+  }
+
+  afterEach(async () => {
+    await fastify.close();
+    receiptStore.destroy();
+  });
+
+  it('advertises the per-unit terms with the maximum as the price', async () => {
+    await buildServer();
+    const res = await fastify.inject({ method: 'GET', url: '/complete?tokens=3' });
+    expect(res.statusCode).toBe(402);
+    expect(res.json().x402).toMatchObject({
+      price: '0.01',
+      metered: { unitPrice: '0.0001', unit: 'token' },
+    });
+  });
+
+  it('charges the metered units and refunds the remainder once the stream ends', async () => {
+    const refunder = new MockRefunder();
+    await buildServer({ refunder });
+    const { nonce, headers } = await paidHeaders('/complete?tokens=30');
+
+    const metered = once(fastify.x402Events, 'x402:meter');
+    const res = await fastify.inject({ method: 'GET', url: '/complete?tokens=30', headers });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.split('\n\n').filter(Boolean)).toHaveLength(30);
+    expect(res.headers['x-402-receipt']).toBe(`/x402/receipts/${nonce}`);
+
+    const [event] = (await metered) as [X402MeterEvent];
+    expect(event.receipt).toMatchObject({ nonce, amount: '0.01', units: 30, charged: '0.003', remainder: '0.007' });
+    expect(event.refund).toEqual({ ok: true, txRef: `mock-refund:${nonce}` });
+    expect(refunder.refunds).toHaveLength(1);
+    expect(refunder.refunds[0]).toMatchObject({ nonce, amount: '0.007' });
+
+    const receipt = (await fastify.inject({ method: 'GET', url: `/x402/receipts/${nonce}` })).json();
+    expect(receipt).toMatchObject({ charged: '0.003', remainder: '0.007', refundTxRef: `mock-refund:${nonce}` });
+    expect(receipt.voidedAt).toBeUndefined();
+  });
+
+  it('caps the charge at the maximum authorization', async () => {
+    const refunder = new MockRefunder();
+    await buildServer({ refunder });
+    const { nonce, headers } = await paidHeaders('/complete?tokens=150');
+
+    const metered = once(fastify.x402Events, 'x402:meter');
+    await fastify.inject({ method: 'GET', url: '/complete?tokens=150', headers });
+    const [event] = (await metered) as [X402MeterEvent];
+
+    expect(event.receipt).toMatchObject({ nonce, units: 150, charged: '0.01', remainder: '0' });
+    expect(event.refund).toBeUndefined();
+    expect(refunder.refunds).toHaveLength(0);
+  });
+
+  it('records the remainder without refunding it when no refunder is configured', async () => {
+    await buildServer();
+    const { nonce, headers } = await paidHeaders('/complete?tokens=5');
+
+    const metered = once(fastify.x402Events, 'x402:meter');
+    await fastify.inject({ method: 'GET', url: '/complete?tokens=5', headers });
+    const [event] = (await metered) as [X402MeterEvent];
+
+    expect(event.refund).toBeUndefined();
+    expect(await receiptStore.get(nonce)).toMatchObject({ charged: '0.0005', remainder: '0.0095' });
+    expect((await receiptStore.get(nonce))?.refundTxRef).toBeUndefined();
+  });
+
+  it('voids the whole payment instead of settling when the refund policy matches', async () => {
+    const refunder = new MockRefunder();
+    await buildServer({ refunder, refundOn: 'error' });
+    const { nonce, headers } = await paidHeaders('/fails');
+    let settled = false;
+    fastify.x402Events.on('x402:meter', () => {
+      settled = true;
+    });
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    const res = await fastify.inject({ method: 'GET', url: '/fails', headers });
+    expect(res.statusCode).toBe(500);
+    const [event] = (await refunded) as [X402RefundEvent];
+
+    expect(event.receipt.voidedAt).toBeDefined();
+    expect(event.receipt.charged).toBeUndefined();
+    expect(refunder.refunds[0]).toMatchObject({ nonce, amount: '0.01' });
+    expect(settled).toBe(false);
+  });
+
+  it('rejects meter() on routes without metered pricing', async () => {
+    await buildServer();
+    const { headers } = await paidHeaders('/flat');
+    const res = await fastify.inject({ method: 'GET', url: '/flat', headers });
+    expect(res.statusCode).toBe(500);
+    expect(res.json().message).toContain('without metered pricing');
+  });
+});
+
+describe('Metered pricing at the gate', () => {
+  const request: GateRequest = {
+    method: 'GET',
+    url: '/complete',
+    headers: { authorization: 'Bearer x402s_metered' },
+    rawBody: new Uint8Array(0),
+    ip: '127.0.0.1',
+  };
+
+  /** A session store holding one session with a balance of 1 USDC. */
+  async function sessionStore(): Promise<MemorySessionStore> {
+    const store = new MemorySessionStore();
+    await store.create({
+      id: 'metered-session',
+      token: 'x402s_metered',
+      balance: '1',
+      asset: 'USDC',
+      network: 'mock',
+      recipient: '0xMETER',
+      payer: 'mock://payer',
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    return store;
+  }
+
+  it('holds the maximum on a session and credits the remainder back', async () => {
+    const receiptStore = new MemoryReceiptStore();
+    const store = await sessionStore();
+    const gate = createPaymentGate({
+      verifier: new MockVerifier({ secret: SECRET }),
+      receiptStore,
+      sessions: { pricing: { ...PRICING, metered: undefined }, store },
+    });
+
+    const decision = await gate.handle(request, PRICING);
+    expect(decision.type).toBe('proceed');
+    if (decision.type !== 'proceed') return;
+    expect(decision.session?.balance).toBe('0.99');
+
+    decision.meter(12);
+    decision.meter(8);
+    await decision.onResponse({ statusCode: 200, headers: {}, body: 'done' });
+    await decision.onComplete();
+
+    expect((await store.get('x402s_metered'))?.balance).toBe('0.998');
+    expect(await receiptStore.get(decision.receipt.nonce)).toMatchObject({
+      sessionId: 'metered-session',
+      amount: '0.01',
+      units: 20,
+      charged: '0.002',
+      remainder: '0.008',
+    });
+    receiptStore.destroy();
+    store.destroy();
+  });
+
+  it('accepts only whole units, and none after settlement', async () => {
+    const store = await sessionStore();
+    const gate = createPaymentGate({
+      verifier: new MockVerifier({ secret: SECRET }),
+      sessions: { pricing: { ...PRICING, metered: undefined }, store },
+    });
+
+    const decision = await gate.handle(request, PRICING);
+    if (decision.type !== 'proceed') throw new Error('expected proceed');
+    expect(() => decision.meter(1.5)).toThrow(RangeError);
+    expect(() => decision.meter(-1)).toThrow(RangeError);
+
+    await decision.onResponse({ statusCode: 200, headers: {}, body: 'done' });
+    await decision.onComplete();
+    expect(() => decision.meter(1)).toThrow('after the response was settled');
+    store.destroy();
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Unit tests — nonce stores (replay protection backends)
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  MemoryNonceStore,
+  FileNonceStore,
+  MemoryChallengeStore,
+} from 'x402-tool-server';
+import type { NonceStore } from 'x402-tool-server';
+import { MockVerifier, MockPayer } from 'x402-adapters';
+
+const SECRET = 'nonce-test-secret';
+const PRICING = {
+  price: '0.001',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xNONCE',
+};
+
+async function buildServer(nonceStore: NonceStore, challengeStore?: MemoryChallengeStore) {
+  const fastify = Fastify({ logger: false });
+  fastify.register(
+    createX402Middleware({
+      verifier: new MockVerifier({ secret: SECRET }),
+      nonceStore,
+      challengeStore,
+    }),
+  );
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/priced',
+      pricing: PRICING,
+      handler: async () => ({ paid: true }),
+    }),
+  );
+  await fastify.ready();
+  return fastify;
+}
+
+describe('MemoryNonceStore', () => {
+  it('first claim succeeds, second claim of the same nonce fails', async () => {
+    const store = new MemoryNonceStore();
+    const exp = Date.now() + 60_000;
+    expect(await store.claim('n1', exp)).toBe(true);
+    expect(await store.claim('n1', exp)).toBe(false);
+    expect(await store.claim('n2', exp)).toBe(true);
+    expect(store.size).toBe(2);
+    store.destroy();
+  });
+
+  it('concurrent claims of one nonce: exactly one wins', async () => {
+    const store = new MemoryNonceStore();
+    const exp = Date.now() + 60_000;
+    const results = await Promise.all(Array.from({ length: 10 }, () => store.claim('race', exp)));
+    expect(results.filter(Boolean)).toHaveLength(1);
+    store.destroy();
+  });
+
+  it('an expired claim can be claimed again', async () => {
+    const store = new MemoryNonceStore();
+    expect(await store.claim('old', Date.now() - 1)).toBe(true);
+    expect(await store.claim('old', Date.now() + 60_000)).toBe(true);
+    store.destroy();
+  });
+
+  it('a released nonce can be claimed again', async () => {
+    const store = new MemoryNonceStore();
+    const exp = Date.now() + 60_000;
+    expect(await store.claim('voided', exp)).toBe(true);
+    await store.release('voided');
+    expect(await store.claim('voided', exp)).toBe(true);
+    store.destroy();
+  });
+});
+
+describe('FileNonceStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-nonces-'));
+    path = join(dir, 'nonces.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('remembers claims across restarts', async () => {
+    const first = new FileNonceStore({ path });
+    expect(await first.claim('persisted', Date.now() + 60_000)).toBe(true);
+    await first.destroy();
+
+    const second = new FileNonceStore({ path });
+    expect(await second.claim('persisted', Date.now() + 60_000)).toBe(false);
+    expect(await second.claim('fresh', Date.now() + 60_000)).toBe(true);
+    await second.destroy();
+  });
+
+  it('skips expired entries and a torn final line on startup', async () => {
+    const first = new FileNonceStore({ path });
+    await first.claim('expired', Date.now() - 1_000);
+    await first.claim('live', Date.now() + 60_000);
+    await first.destroy();
+    appendFileSync(path, '{"nonce":"torn","expi');
+
+    const second = new FileNonceStore({ path });
+    expect(second.size).toBe(1);
+    expect(await second.claim('live', Date.now() + 60_000)).toBe(false);
+    expect(await second.claim('expired', Date.now() + 60_000)).toBe(true);
+    await second.destroy();
+  });
+
+  it('compact() rewrites the log with only live claims', async () => {
+    const store = new FileNonceStore({ path });
+    await store.claim('a', Date.now() - 1_000);
+    await store.claim('b', Date.now() + 60_000);
+    await store.compact();
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).nonce).toBe('b');
+    await store.destroy();
+  });
+
+  it('a released claim stays released across restarts', async () => {
+    const first = new FileNonceStore({ path });
+    await first.claim('voided', Date.now() + 60_000);
+    await first.claim('kept', Date.now() + 60_000);
+    await first.release('voided');
+    await first.destroy();
+
+    const second = new FileNonceStore({ path });
+    expect(second.size).toBe(1);
+    expect(await second.claim('kept', Date.now() + 60_000)).toBe(false);
+    expect(await second.claim('voided', Date.now() + 60_000)).toBe(true);
+    await second.destroy();
+  });
+});
+
+describe('Middleware with a custom nonceStore', () => {
+  it('a nonce used on one node is rejected on another node sharing the store', async () => {
+    const sharedNonces = new MemoryNonceStore();
+    const sharedChallenges = new MemoryChallengeStore();
+    const nodeA = await buildServer(sharedNonces, sharedChallenges);
+    const nodeB = await buildServer(sharedNonces, sharedChallenges);
+    const payer = new MockPayer({ secret: SECRET });
+
+    const { x402 } = (await nodeA.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay(x402, { url: '/priced', method: 'GET' });
+    const header = Buffer.from(JSON.stringify(proof)).toString('base64url');
+
+    const first = await nodeA.inject({ method: 'GET', url: '/priced', headers: { 'x-payment-proof': header } });
+    expect(first.statusCode).toBe(200);
+
+    const replay = await nodeB.inject({ method: 'GET', url: '/priced', headers: { 'x-payment-proof': header } });
+    expect(replay.statusCode).toBe(402);
+    expect(replay.json()).toMatchObject({ error: 'Nonce already used (replay detected)' });
+
+    await nodeA.close();
+    await nodeB.close();
+    sharedNonces.destroy();
+    sharedChallenges.destroy();
+  });
+
+  it('awaits the store and rejects replays it reports', async () => {
+    const seen = new Set<string>();
+    const slowStore: NonceStore = {
+      claim: async (nonce) => {
+        await new Promise((r) => setTimeout(r, 10));
+        if (seen.has(nonce)) return false;
+        seen.add(nonce);
+        return true;
+      },
+    };
+    const app = await buildServer(slowStore);
+    const payer = new MockPayer({ secret: SECRET });
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay(x402, { url: '/priced', method: 'GET' });
+    const header = Buffer.from(JSON.stringify(proof)).toString('base64url');
+
+    const r1 = await app.inject({ method: 'GET', url: '/priced', headers: { 'x-payment-proof': header } });
+    const r2 = await app.inject({ method: 'GET', url: '/priced', headers: { 'x-payment-proof': header } });
+    expect(r1.statusCode).toBe(200);
+    expect(r2.statusCode).toBe(402);
+    expect(r2.json()).toMatchObject({ error: 'Nonce already used (replay detected)' });
+    expect(seen.has(x402.nonce)).toBe(true);
+    await app.close();
+  });
+
+  it('FileNonceStore blocks replay after a server restart', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'x402-nonces-'));
+    const path = join(dir, 'nonces.jsonl');
+    const payer = new MockPayer({ secret: SECRET });
+
+    const store1 = new FileNonceStore({ path });
+    const app1 = await buildServer(store1);
+    const { x402 } = (await app1.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay(x402, { url: '/priced', method: 'GET' });
+    const header = Buffer.from(JSON.stringify(proof)).toString('base64url');
+    const paid = await app1.inject({ method: 'GET', url: '/priced', headers: { 'x-payment-proof': header } });
+    expect(paid.statusCode).toBe(200);
+    await app1.close();
+    await store1.destroy();
+
+    // "Restart": the nonce must still be marked as used.
+    const store2 = new FileNonceStore({ path });
+    expect(await store2.claim(x402.nonce, Date.now() + 60_000)).toBe(false);
+    await store2.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit tests — createToolsFromOpenApi (agent tools from an OpenAPI document)
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createToolsFromOpenApi, createTool } from '@darklrd/x402-agent-client';
+import type { OpenApiDocument } from '@darklrd/x402-agent-client';
+import { MockPayer } from 'x402-adapters';
+
+const fetchOptions = { payer: new MockPayer({ secret: 'openapi-tools' }) };
+
+const SPEC: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Tools', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  paths: {
+    '/weather': {
+      get: {
+        summary: 'Current weather',
+        parameters: [
+          { name: 'city', in: 'query', required: true, schema: { type: 'string' } },
+          { name: 'units', in: 'query', schema: { type: 'string', enum: ['c', 'f'] } },
+          { name: 'x-trace', in: 'header', schema: { type: 'string' } },
+        ],
+        'x-x402-price': '0.001',
+        'x-x402-asset': 'USDC',
+        'x-x402-network': 'mock',
+        'x-x402-recipient': '0xTOOLS',
+      },
+    },
+    '/docs/{docId}/translate': {
+      parameters: [{ name: 'docId', in: 'path', required: true, schema: { type: 'string' } }],
+      post: {
+        operationId: 'translateDocument',
+        description: 'Translate a stored document',
+        parameters: [{ name: 'dryRun', in: 'query', schema: { type: 'boolean' } }],
+        requestBody: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/TranslateBody' } } },
+        },
+        'x-x402-price': '0.5',
+        'x-x402-asset': 'USDC',
+        'x-x402-network': 'mock',
+        'x-x402-recipient': '0xTOOLS',
+        'x-x402-accepts': [
+          { scheme: 'exact', price: '0.5', asset: 'USDC', network: 'mock', recipient: '0xTOOLS' },
+          { scheme: 'exact', price: '0.04', asset: 'USDC', network: 'solana-devnet', recipient: '0xTOOLS' },
+        ],
+      },
+    },
+    '/report': {
+      post: { 'x-x402-dynamic-price': true },
+    },
+    '/health': {
+      get: { summary: 'Health check' },
+    },
+  },
+  components: {
+    schemas: {
+      TranslateBody: {
+        type: 'object',
+        properties: { target: { type: 'string' } },
+        required: ['target'],
+      },
+    },
+  },
+};
+
+describe('createToolsFromOpenApi', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('turns every operation into a tool with input schema, description and price', async () => {
+    const tools = await createToolsFromOpenApi(SPEC, fetchOptions);
+    expect(tools.map((tool) => tool.name)).toEqual(['get_weather', 'translateDocument', 'post_report', 'get_health']);
+
+    const [weather, translate, report, health] = tools;
+    expect(weather).toMatchObject({
+      description: 'Current weather',
+      inputSchema: {
+        type: 'object',
+        properties: { city: { type: 'string' }, units: { type: 'string', enum: ['c', 'f'] } },
+        required: ['city'],
+      },
+      price: { price: '0.001', asset: 'USDC', network: 'mock', recipient: '0xTOOLS', scheme: 'exact' },
+    });
+    expect(weather.inputSchema.properties).not.toHaveProperty('x-trace');
+    expect(translate).toMatchObject({
+      description: 'Translate a stored document',
+      inputSchema: {
+        properties: { docId: { type: 'string' }, dryRun: { type: 'boolean' }, target: { type: 'string' } },
+        required: ['docId', 'target'],
+      },
+    });
+    expect(translate.price?.accepts).toHaveLength(2);
+    expect(report).toMatchObject({ dynamicPrice: true });
+    expect(report.price).toBeUndefined();
+    expect(health.price).toBeUndefined();
+  });
+
+  it('fills path parameters and splits query from body when invoked', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('{"ok":true}', {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [, translate] = await createToolsFromOpenApi(SPEC, fetchOptions);
+    await translate.invoke({ docId: 'a b', dryRun: true, target: 'fr' });
+
+    const [url, init] = fetchMock.mock.calls[0] as [URL, RequestInit];
+    expect(url.href).toBe('https://api.example.com/v1/docs/a%20b/translate?dryRun=true');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body as string)).toEqual({ target: 'fr' });
+  });
+
+  it('keeps operations with any option within maxPrice and drops dynamic prices', async () => {
+    const tools = await createToolsFromOpenApi(SPEC, fetchOptions, { maxPrice: 0.1 });
+    expect(tools.map((tool) => tool.name)).toEqual(['get_weather', 'translateDocument', 'get_health']);
+
+    const cheap = await createToolsFromOpenApi(SPEC, fetchOptions, { maxPrice: '0.0001' });
+    expect(cheap.map((tool) => tool.name)).toEqual(['get_health']);
+  });
+
+  it('reads OpenAPI 3.1 documents and their structured x-x402 object', async () => {
+    const tools = await createToolsFromOpenApi({ ...SPEC, openapi: '3.1.0' }, fetchOptions, {
+      baseUrl: 'https://other.example.com',
+    });
+    expect(tools).toHaveLength(4);
+
+    const [search, rows] = await createToolsFromOpenApi({
+      openapi: '3.1.0',
+      servers: [{ url: 'https://api.example.com' }],
+      paths: {
+        '/search': {
+          get: {
+            'x-x402': { price: '0.02', asset: 'USDC', network: 'mock', recipient: '0xTOOLS', scheme: 'exact', wireFormat: 'toolkit' },
+          },
+        },
+        '/rows': { get: { 'x-x402': { dynamicPrice: true, wireFormat: 'toolkit' } } },
+      },
+    }, fetchOptions);
+    expect(search.price).toEqual({ price: '0.02', asset: 'USDC', network: 'mock', recipient: '0xTOOLS', scheme: 'exact' });
+    expect(rows).toMatchObject({ dynamicPrice: true });
+  });
+
+  it('fetches the spec and defaults the base URL to its origin', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(Response.json({ ...SPEC, servers: undefined }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const tools = await createToolsFromOpenApi('https://api.example.com/x402/openapi.json', fetchOptions);
+    expect(tools).toHaveLength(4);
+
+    fetchMock.mockResolvedValue(new Response('{"ok":true}', { status: 200 }));
+    await tools[0].invoke({ city: 'Rome' });
+    expect((fetchMock.mock.calls[1][0] as URL).href).toBe('https://api.example.com/weather?city=Rome');
+  });
+
+  it('rejects documents that are not OpenAPI 3', async () => {
+    await expect(createToolsFromOpenApi({ openapi: '2.0' }, fetchOptions)).rejects.toThrow(/Unsupported OpenAPI version/);
+    await expect(createToolsFromOpenApi({ openapi: '3.0.3' }, fetchOptions)).rejects.toThrow(/baseUrl/);
+  });
+});
+
+describe('createTool path parameters', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fills {name} placeholders from the input', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const tool = createTool({
+      name: 'get_item',
+      description: 'Fetch an item',
+      inputSchema: { type: 'object', required: ['id'] },
+      endpoint: 'https://api.example.com/items/{id}',
+      fetchOptions,
+    });
+    await tool.invoke({ id: '42', verbose: true });
+
+    expect((fetchMock.mock.calls[0][0] as URL).href).toBe('https://api.example.com/items/42?verbose=true');
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import Fastify from 'fastify';
 import type { FastifyInstance } from 'fastify';
-import { openApiPlugin, pricedRoute } from 'x402-tool-server';
+import { createChallengeSigner, createX402Middleware, openApiPlugin, pricedRoute } from 'x402-tool-server';
 import type { OpenApiOptions } from 'x402-tool-server';
 
 const PRICING = {
@@ -311,3 +311,159 @@ describe('OpenAPI plugin', () => {
     expect(Object.keys(spec.paths)).toHaveLength(0);
   });
 });
+
+describe('OpenAPI plugin — paths, responses and 3.1 mode', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  // Loosely typed: 3.1 specs carry fields SpecResponse does not describe.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function getRawSpec(): Promise<Record<string, any>> {
+    const res = await app.inject({ method: 'GET', url: '/x402/openapi.json' });
+    return res.json();
+  }
+
+  it('turns Fastify path parameters into OpenAPI templates', async () => {
+    app = await buildSpecServer([
+      {
+        method: 'GET',
+        url: '/docs/:docId/pages/:page',
+        pricing: PRICING,
+        schema: { params: { type: 'object', properties: { page: { type: 'integer' } } } },
+      },
+    ]);
+    const spec = await getRawSpec();
+    expect(spec.paths['/docs/:docId/pages/:page']).toBeUndefined();
+    expect(spec.paths['/docs/{docId}/pages/{page}'].get.parameters).toEqual([
+      { name: 'docId', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'page', in: 'path', required: true, schema: { type: 'integer' } },
+    ]);
+  });
+
+  it('documents every declared response code and header parameters', async () => {
+    app = await buildSpecServer([
+      {
+        method: 'GET',
+        url: '/weather',
+        pricing: PRICING,
+        schema: {
+          headers: { type: 'object', properties: { 'x-region': { type: 'string' } }, required: ['x-region'] },
+          response: {
+            200: { type: 'object', properties: { temp: { type: 'number' } } },
+            '4xx': { type: 'object', properties: { error: { type: 'string' } } },
+            404: { description: 'No such city', type: 'object' },
+          },
+        },
+      },
+    ]);
+    const op = (await getRawSpec()).paths['/weather'].get;
+    expect(Object.keys(op.responses).sort()).toEqual(['200', '402', '404', '4XX']);
+    expect(op.responses['404'].description).toBe('No such city');
+    expect(op.parameters).toEqual([
+      { name: 'x-region', in: 'header', required: true, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('emits OpenAPI 3.1 with a structured x-x402 object', async () => {
+    app = await buildSpecServer(
+      [{ method: 'GET', url: '/weather', pricing: { ...PRICING, scheme: 'exact' } }],
+      { openapiVersion: '3.1' },
+    );
+    const spec = await getRawSpec();
+    expect(spec.openapi).toBe('3.1.0');
+    const op = spec.paths['/weather'].get;
+    expect(op['x-x402']).toEqual({
+      price: '0.001',
+      asset: 'USDC',
+      network: 'mock',
+      recipient: '0xABC',
+      scheme: 'exact',
+      wireFormat: 'toolkit',
+    });
+    expect(op['x-x402-price']).toBeUndefined();
+    expect(op.security).toEqual([{ x402PaymentProof: [] }]);
+  });
+
+  it('adds security schemes and payment component schemas in 3.1 mode', async () => {
+    app = await buildSpecServer(
+      [{ method: 'GET', url: '/weather', pricing: PRICING }],
+      { openapiVersion: '3.1', wireFormat: 'dual' },
+    );
+    const spec = await getRawSpec();
+    expect(spec.components.securitySchemes).toEqual({
+      x402PaymentProof: expect.objectContaining({ type: 'apiKey', in: 'header', name: 'X-Payment-Proof' }),
+      x402PaymentSignature: expect.objectContaining({ type: 'apiKey', in: 'header', name: 'PAYMENT-SIGNATURE' }),
+    });
+    expect(Object.keys(spec.components.schemas)).toEqual(expect.arrayContaining([
+      'X402ChallengeBody', 'X402Challenge', 'PaymentProof', 'Receipt', 'CoinbasePaymentRequired',
+    ]));
+
+    const op = spec.paths['/weather'].get;
+    expect(op.security).toEqual([{ x402PaymentProof: [] }, { x402PaymentSignature: [] }]);
+    expect(op.parameters).toBeUndefined();
+    expect(op.responses['402'].headers['PAYMENT-REQUIRED'].schema.contentSchema).toEqual({
+      $ref: '#/components/schemas/CoinbasePaymentRequired',
+    });
+  });
+
+  it('describes a real 402 challenge body with the X402Challenge schema', async () => {
+    app = Fastify({ logger: false, exposeHeadRoutes: false });
+    await app.register(openApiPlugin, { openapiVersion: '3.1' });
+    app.register(createX402Middleware({
+      verifier: { verify: async () => ({ ok: true }) },
+      challengeSigner: createChallengeSigner({ keys: [{ kid: 'k1', alg: 'HS256', secret: 'o'.repeat(32) }] }),
+    }));
+    app.route(pricedRoute({
+      method: 'GET',
+      url: '/weather',
+      pricing: { ...PRICING, options: [{ network: 'base', recipient: '0xBASE' }] },
+      handler: async () => ({ ok: true }),
+    }));
+    await app.ready();
+    const { components } = await getRawSpec();
+    const challenge = await app.inject({ method: 'GET', url: '/weather' });
+    expect(challenge.statusCode).toBe(402);
+    const body = challenge.json();
+    expect(body.x402).toHaveProperty('accepts');
+    expect(body.x402).toHaveProperty('challengeToken');
+
+    // Every field of the body is documented…
+    const schemas = components.schemas;
+    expect(Object.keys(schemas.X402Challenge.properties)).toEqual(expect.arrayContaining(Object.keys(body.x402)));
+    expect(Object.keys(schemas.X402ChallengeOption.properties)).toEqual(
+      expect.arrayContaining(Object.keys(body.x402.accepts[0])),
+    );
+
+    // …and the body validates against the schema (Fastify's own Ajv, which
+    // takes definitions under $defs rather than components).
+    const checker = Fastify({ logger: false });
+    const $defs = JSON.parse(JSON.stringify(schemas).replaceAll('#/components/schemas/', '#/$defs/'));
+    checker.addSchema({ $id: 'x402-openapi', $defs });
+    checker.post('/check', {
+      schema: { body: { $ref: 'x402-openapi#/$defs/X402ChallengeBody' } },
+      handler: async () => ({ ok: true }),
+    });
+    const valid = await checker.inject({ method: 'POST', url: '/check', payload: body });
+    const invalid = await checker.inject({
+      method: 'POST',
+      url: '/check',
+      payload: { x402: { ...body.x402, accepts: [{ price: '0.001' }] } },
+    });
+    await checker.close();
+    expect(valid.statusCode).toBe(200);
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it('marks resolver-priced routes as dynamic in the x-x402 object', async () => {
+    app = Fastify({ logger: false, exposeHeadRoutes: false });
+    await app.register(openApiPlugin, { openapiVersion: '3.1' });
+    app.route(pricedRoute({ method: 'GET', url: '/rows', pricing: () => PRICING, handler: async () => ({}) }));
+    await app.ready();
+
+    const op = (await getRawSpec()).paths['/rows'].get;
+    expect(op['x-x402']).toEqual({ dynamicPrice: true, wireFormat: 'toolkit' });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Unit tests — passes (PassStore, pass tokens, X-402-Pass on priced routes)
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { once } from 'events';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  createPassSigner,
+  createChallengeSigner,
+  MemoryPassStore,
+  MemoryReceiptStore,
+} from 'x402-tool-server';
+import type { PassClaims, X402MiddlewareOptions, X402PassEvent } from 'x402-tool-server';
+import { MockPayer, MockVerifier, MockRefunder } from 'x402-adapters';
+
+const SECRET = 'pass-test-secret';
+const KEYS = { keys: [{ kid: 'pass-1', alg: 'HS256' as const, secret: 'pass-signing-secret-32-bytes-long!' }] };
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xPASS',
+};
+const DAILY = {
+  ...PRICING,
+  price: '1',
+  passes: { scope: ['/weather', '/tools/*'], ttlSeconds: 86_400, maxCalls: 2 },
+};
+
+const payer = new MockPayer({ secret: SECRET });
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+function makePass(overrides: Partial<PassClaims> = {}): PassClaims {
+  return {
+    id: 'pass-id',
+    scope: ['/weather'],
+    maxCalls: 2,
+    payer: 'mock://payer',
+    purchaseNonce: 'purchase-nonce',
+    issuedAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('MemoryPassStore', () => {
+  it('counts calls up to maxCalls', async () => {
+    const store = new MemoryPassStore();
+    const pass = makePass();
+    expect(await store.use(pass)).toEqual({ ok: true, used: 1 });
+    expect(await store.use(pass)).toEqual({ ok: true, used: 2 });
+    expect(await store.use(pass)).toEqual({ ok: false, reason: 'exhausted', used: 2 });
+    expect(store.size).toBe(1);
+    store.destroy();
+  });
+
+  it('gives back released calls and refuses revoked passes', async () => {
+    const store = new MemoryPassStore();
+    const pass = makePass({ maxCalls: 1 });
+    await store.use(pass);
+    await store.release(pass.id);
+    expect(await store.use(pass)).toEqual({ ok: true, used: 1 });
+
+    await store.revoke(pass.id, pass.expiresAt);
+    expect(await store.use(pass)).toEqual({ ok: false, reason: 'revoked', used: 1 });
+    store.destroy();
+  });
+
+  it('never limits passes without maxCalls', async () => {
+    const store = new MemoryPassStore();
+    const pass = makePass({ maxCalls: undefined });
+    for (let i = 0; i < 5; i++) await store.use(pass);
+    expect(await store.use(pass)).toEqual({ ok: true, used: 6 });
+    store.destroy();
+  });
+});
+
+describe('createPassSigner', () => {
+  it('round-trips pass claims', async () => {
+    const signer = createPassSigner(KEYS);
+    const pass = makePass();
+    expect(await signer.verify(await signer.sign(pass))).toEqual(pass);
+  });
+
+  it('does not accept a challenge token signed with the same key', async () => {
+    const challengeToken = await createChallengeSigner(KEYS).sign({
+      nonce: 'n',
+      requestHash: 'h',
+      price: '1',
+      asset: 'USDC',
+      network: 'mock',
+      recipient: '0xPASS',
+      scheme: 'exact',
+      expiresAt: new Date().toISOString(),
+    });
+    expect(await createPassSigner(KEYS).verify(challengeToken)).toBeNull();
+  });
+});
+
+describe('Passes on priced routes', () => {
+  let fastify: FastifyInstance;
+  let receiptStore: MemoryReceiptStore;
+  let passStore: MemoryPassStore;
+  const signer = createPassSigner(KEYS);
+
+  async function buildServer(options: Partial<X402MiddlewareOptions> = {}) {
+    receiptStore = new MemoryReceiptStore();
+    passStore = new MemoryPassStore();
+    fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new MockVerifier({ secret: SECRET }),
+        receiptStore,
+        passes: { signer, store: passStore },
+        ...options,
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'POST',
+        url: '/passes/daily',
+        pricing: DAILY,
+        handler: async (_request, reply) => ({ pass: reply.x402.mintedPass?.pass }),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'POST',
+        url: '/passes/broken',
+        pricing: DAILY,
+        handler: async () => {
+          throw new Error('broken');
+        },
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/weather',
+        pricing: PRICING,
+        handler: async (_request, reply) => ({ passId: reply.x402.pass?.id, nonce: reply.x402.receipt.nonce }),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/tools/search',
+        pricing: PRICING,
+        handler: async () => ({ results: [] }),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/premium',
+        pricing: PRICING,
+        handler: async () => ({ premium: true }),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/tools/broken',
+        pricing: PRICING,
+        handler: async () => {
+          throw new Error('broken');
+        },
+      }),
+    );
+    await fastify.ready();
+  }
+
+  async function buyPass(): Promise<{ token: string; pass: PassClaims; nonce: string }> {
+    const challenge = await fastify.inject({ method: 'POST', url: '/passes/daily' });
+    expect(challenge.statusCode).toBe(402);
+    const { x402 } = challenge.json();
+    const proof = await payer.pay(x402, { url: '/passes/daily', method: 'POST' });
+    const res = await fastify.inject({
+      method: 'POST',
+      url: '/passes/daily',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(200);
+    return { token: res.headers['x-402-pass'] as string, pass: res.json().pass, nonce: x402.nonce };
+  }
+
+  const withPass = (token: string) => ({ 'x-402-pass': token });
+
+  afterEach(async () => {
+    await fastify.close();
+    receiptStore.destroy();
+    passStore.destroy();
+  });
+
+  it('mints a signed pass when a pass-selling route is paid', async () => {
+    await buildServer();
+    const minted = once(fastify.x402Events, 'x402:pass');
+    const { token, pass, nonce } = await buyPass();
+    const [event] = (await minted) as [X402PassEvent];
+
+    expect(pass).toMatchObject({ scope: ['/weather', '/tools/*'], maxCalls: 2, purchaseNonce: nonce });
+    expect(await signer.verify(token)).toEqual(pass);
+    expect(event).toMatchObject({ action: 'mint', used: 0 });
+    expect(event.pass.id).toBe(pass.id);
+  });
+
+  it('accepts the pass instead of a proof and reports the remaining quota', async () => {
+    await buildServer();
+    const { token, pass } = await buyPass();
+
+    const first = await fastify.inject({ method: 'GET', url: '/weather', headers: withPass(token) });
+    expect(first.statusCode).toBe(200);
+    expect(first.json().passId).toBe(pass.id);
+    expect(first.headers['x-402-pass-remaining']).toBe('1');
+    expect(first.headers['x-402-pass-expires']).toBe(pass.expiresAt);
+
+    const second = await fastify.inject({ method: 'GET', url: '/tools/search', headers: withPass(token) });
+    expect(second.statusCode).toBe(200);
+    expect(second.headers['x-402-pass-remaining']).toBe('0');
+
+    const third = await fastify.inject({ method: 'GET', url: '/weather', headers: withPass(token) });
+    expect(third.statusCode).toBe(402);
+    expect(third.headers['x-402-pass-error']).toBe('exhausted');
+    expect(third.json().x402.price).toBe('0.01');
+  });
+
+  it('records zero-amount receipts naming the pass and emits use events', async () => {
+    await buildServer();
+    const { token, pass } = await buyPass();
+    const used = once(fastify.x402Events, 'x402:pass');
+
+    const res = await fastify.inject({ method: 'GET', url: '/weather', headers: withPass(token) });
+    const [event] = (await used) as [X402PassEvent];
+    expect(event).toMatchObject({ action: 'use', used: 1, request: { method: 'GET', url: '/weather' } });
+
+    expect(await receiptStore.get(res.json().nonce)).toMatchObject({
+      passId: pass.id,
+      amount: '0',
+      payer: pass.payer,
+      endpoint: '/weather',
+    });
+  });
+
+  it('rejects routes outside the pass scope', async () => {
+    await buildServer();
+    const { token } = await buyPass();
+    const res = await fastify.inject({ method: 'GET', url: '/premium', headers: withPass(token) });
+    expect(res.statusCode).toBe(402);
+    expect(res.headers['x-402-pass-error']).toBe('out_of_scope');
+  });
+
+  it('rejects forged and expired passes', async () => {
+    await buildServer();
+    const forged = await createPassSigner({ keys: [{ kid: 'pass-1', alg: 'HS256', secret: 'another-secret' }] })
+      .sign(makePass());
+    const forgedRes = await fastify.inject({ method: 'GET', url: '/weather', headers: withPass(forged) });
+    expect(forgedRes.headers['x-402-pass-error']).toBe('invalid_pass');
+
+    const expired = await signer.sign(makePass({ expiresAt: new Date(Date.now() - 1000).toISOString() }));
+    const expiredRes = await fastify.inject({ method: 'GET', url: '/weather', headers: withPass(expired) });
+    expect(expiredRes.statusCode).toBe(402);
+    expect(expiredRes.headers['x-402-pass-error']).toBe('expired_pass');
+  });
+
+  it('gives the call back when the refund policy voids it', async () => {
+    await buildServer({ refundOn: 'error' });
+    const { token } = await buyPass();
+
+    const released = new Promise<X402PassEvent>((resolve) => {
+      fastify.x402Events.on('x402:pass', (event) => {
+        if (event.action === 'release') resolve(event);
+      });
+    });
+    const res = await fastify.inject({ method: 'GET', url: '/tools/broken', headers: withPass(token) });
+    expect(res.statusCode).toBe(500);
+    expect((await released).used).toBe(0);
+
+    const retry = await fastify.inject({ method: 'GET', url: '/weather', headers: withPass(token) });
+    expect(retry.headers['x-402-pass-remaining']).toBe('1');
+  });
+
+  it('revokes the pass when its purchase is voided', async () => {
+    await buildServer({ refundOn: 'error', refunder: new MockRefunder() });
+    const { x402 } = (await fastify.inject({ method: 'POST', url: '/passes/broken' })).json();
+    const proof = await payer.pay(x402, { url: '/passes/broken', method: 'POST' });
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    const res = await fastify.inject({
+      method: 'POST',
+      url: '/passes/broken',
+      headers: { 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(500);
+    await refunded;
+
+    const use = await fastify.inject({
+      method: 'GET',
+      url: '/weather',
+      headers: withPass(res.headers['x-402-pass'] as string),
+    });
+    expect(use.headers['x-402-pass-error']).toBe('revoked');
+  });
+
+  it('a proof wins over a pass', async () => {
+    await buildServer();
+    const { token } = await buyPass();
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/premium' })).json();
+    const proof = await payer.pay(x402, { url: '/premium', method: 'GET' });
+
+    const res = await fastify.inject({
+      method: 'GET',
+      url: '/premium',
+      headers: { ...withPass(token), 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['x-402-pass-remaining']).toBeUndefined();
+  });
+
+  it('fails pass-selling routes on a gate without passes', async () => {
+    await buildServer({ passes: undefined });
+    const res = await fastify.inject({ method: 'POST', url: '/passes/daily' });
+    expect(res.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit tests — multiple accepted payment options per route
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  createChallengeSigner,
+  MemoryReceiptStore,
+} from 'x402-tool-server';
+import type {
+  ChallengeSigner,
+  PricingConfig,
+  VerifierInterface,
+  WireFormat,
+  X402ErrorEvent,
+} from 'x402-tool-server';
+import { MockVerifier, MockPayer } from 'x402-adapters';
+import { x402Fetch } from '@darklrd/x402-agent-client';
+
+const SECRET = 'options-test-secret';
+const PRICING: PricingConfig = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'solana-devnet',
+  recipient: 'SoLRecipient111',
+  options: [{ network: 'base', recipient: '0xBASE' }],
+};
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+/** MockVerifier that records which network's pricing it was asked to verify. */
+function recordingVerifier(calls: string[], network: string): VerifierInterface {
+  const inner = new MockVerifier({ secret: SECRET });
+  return {
+    verify: (header, hash, pricing) => {
+      calls.push(`${network}:${pricing.network}:${pricing.recipient}`);
+      return inner.verify(header, hash, pricing);
+    },
+  };
+}
+
+async function buildServer(opts: {
+  calls?: string[];
+  wireFormat?: WireFormat;
+  challengeSigner?: ChallengeSigner;
+  receiptStore?: MemoryReceiptStore;
+} = {}) {
+  const calls = opts.calls ?? [];
+  const fastify = Fastify({ logger: false });
+  fastify.register(
+    createX402Middleware({
+      verifier: recordingVerifier(calls, 'default'),
+      verifiers: { base: recordingVerifier(calls, 'base') },
+      wireFormat: opts.wireFormat,
+      challengeSigner: opts.challengeSigner,
+      receiptStore: opts.receiptStore,
+    }),
+  );
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/multi',
+      pricing: PRICING,
+      handler: async () => ({ paid: true }),
+    }),
+  );
+  await fastify.ready();
+  return fastify;
+}
+
+describe('Multi-option pricing', () => {
+  const payer = new MockPayer({ secret: SECRET });
+  const apps: FastifyInstance[] = [];
+
+  afterEach(async () => {
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  it('lists every option in the challenge, primary first, inheriting unset fields', async () => {
+    const app = await buildServer();
+    apps.push(app);
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/multi' })).json();
+    expect(x402.network).toBe('solana-devnet');
+    expect(x402.accepts).toEqual([
+      { scheme: 'exact', price: '0.01', asset: 'USDC', network: 'solana-devnet', recipient: 'SoLRecipient111' },
+      { scheme: 'exact', price: '0.01', asset: 'USDC', network: 'base', recipient: '0xBASE' },
+    ]);
+  });
+
+  it('omits accepts for single-option routes', async () => {
+    const fastify = Fastify({ logger: false });
+    apps.push(fastify);
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/single',
+        pricing: { price: '0.01', asset: 'USDC', recipient: '0xONE' },
+        handler: async () => ({}),
+      }),
+    );
+    await fastify.ready();
+
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/single' })).json();
+    expect(x402.accepts).toBeUndefined();
+  });
+
+  it('a proof naming no network pays the primary option on the default verifier', async () => {
+    const calls: string[] = [];
+    const app = await buildServer({ calls });
+    apps.push(app);
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/multi' })).json();
+    const proof = await payer.pay(x402, { url: '/multi', method: 'GET' });
+    const res = await app.inject({ method: 'GET', url: '/multi', headers: { 'x-payment-proof': encode(proof) } });
+    expect(res.statusCode).toBe(200);
+    expect(calls).toEqual(['default:solana-devnet:SoLRecipient111']);
+  });
+
+  it('dispatches to the verifier for the network the proof paid on and records that option', async () => {
+    const calls: string[] = [];
+    const receiptStore = new MemoryReceiptStore();
+    const app = await buildServer({ calls, receiptStore });
+    apps.push(app);
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/multi' })).json();
+    const proof = await payer.pay(x402, { url: '/multi', method: 'GET' });
+    const res = await app.inject({
+      method: 'GET',
+      url: '/multi',
+      headers: { 'x-payment-proof': encode({ ...proof, network: 'base', asset: 'USDC' }) },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(calls).toEqual(['base:base:0xBASE']);
+    expect(await receiptStore.get(x402.nonce)).toMatchObject({ network: 'base', recipient: '0xBASE' });
+    receiptStore.destroy();
+  });
+
+  it('rejects a proof naming an option the route does not accept', async () => {
+    const calls: string[] = [];
+    const app = await buildServer({ calls });
+    apps.push(app);
+    const errors: X402ErrorEvent[] = [];
+    app.x402Events.on('x402:error', (e) => errors.push(e));
+
+    const { x402 } = (await app.inject({ method: 'GET', url: '/multi' })).json();
+    const proof = await payer.pay(x402, { url: '/multi', method: 'GET' });
+    const res = await app.inject({
+      method: 'GET',
+      url: '/multi',
+      headers: { 'x-payment-proof': encode({ ...proof, network: 'polygon' }) },
+    });
+    expect(res.statusCode).toBe(402);
+    expect(errors[0].reason).toBe('challenge_mismatch');
+    expect(calls).toEqual([]);
+  });
+
+  it('emits one PAYMENT-REQUIRED accepts entry per option', async () => {
+    const app = await buildServer({ wireFormat: 'coinbase' });
+    apps.push(app);
+
+    const res = await app.inject({ method: 'GET', url: '/multi' });
+    const pr = JSON.parse(Buffer.from(res.headers['payment-required'] as string, 'base64').toString('utf8'));
+    expect(pr.accepts).toHaveLength(2);
+    expect(pr.accepts.map((a: { network: string; payTo: string }) => [a.network, a.payTo])).toEqual([
+      ['solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1', 'SoLRecipient111'],
+      ['eip155:8453', '0xBASE'],
+    ]);
+    expect(pr.accepts[1].asset).toBe('0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913');
+    expect(pr.accepts[1].extra.nonce).toBe(pr.accepts[0].extra.nonce);
+  });
+
+  for (const wireFormat of ['toolkit', 'coinbase'] as const) {
+    it(`x402Fetch pays the option chosen by selectOption (${wireFormat})`, async () => {
+      const calls: string[] = [];
+      const app = await buildServer({ calls, wireFormat, challengeSigner: createChallengeSigner({
+        keys: [{ kid: 'k', alg: 'HS256', secret: 'k'.repeat(32) }],
+      }) });
+      apps.push(app);
+      await app.listen({ port: 0, host: '127.0.0.1' });
+      const { port } = app.server.address() as { port: number };
+
+      const res = await x402Fetch(`http://127.0.0.1:${port}/multi`, {}, {
+        payer,
+        selectOption: (options) => options.find((o) => o.network === 'base'),
+      });
+      expect(res.status).toBe(200);
+      expect(calls).toEqual(['base:base:0xBASE']);
+    });
+  }
+});
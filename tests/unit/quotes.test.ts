@@ -0,0 +1,157 @@
+/**
+ * Unit tests — price quotes (HEAD on priced routes, GET /x402/quote)
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { createX402Middleware, createPaymentGate, pricedRoute } from 'x402-tool-server';
+import type { GateRequest } from 'x402-tool-server';
+import { MockVerifier } from 'x402-adapters';
+
+const SECRET = 'quote-test-secret';
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xQUOTE',
+  coupons: { HALF: { percentOff: 50 } },
+};
+
+describe('Price quotes', () => {
+  let fastify: FastifyInstance;
+  let challenges = 0;
+  const quotedBodies: unknown[] = [];
+
+  beforeAll(async () => {
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }) }));
+    fastify.route(pricedRoute({ method: 'GET', url: '/weather', pricing: PRICING, handler: async () => ({ ok: true }) }));
+    fastify.route(pricedRoute({
+      method: 'POST',
+      url: '/tools/:name',
+      pricing: { ...PRICING, price: '0.05', options: [{ network: 'solana-devnet', price: '0.06' }] },
+      handler: async () => ({ ok: true }),
+    }));
+    fastify.route(pricedRoute({
+      method: 'POST',
+      url: '/tools/special',
+      pricing: { ...PRICING, price: '0.5' },
+      handler: async () => ({ ok: true }),
+    }));
+    fastify.route(pricedRoute({
+      method: 'GET',
+      url: '/rows',
+      pricing: (request) => ({ ...PRICING, price: (request.query as { n?: string }).n === '2' ? '0.02' : '0.01' }),
+      handler: async () => ({ ok: true }),
+    }));
+    fastify.route(pricedRoute({
+      method: 'POST',
+      url: '/summarize',
+      pricing: (request) => {
+        quotedBodies.push(request.body);
+        return { ...PRICING, price: (request.body as { long?: boolean } | undefined)?.long ? '0.1' : '0.01' };
+      },
+      handler: async () => ({ ok: true }),
+    }));
+    fastify.get('/free', async () => ({ ok: true }));
+    await fastify.ready();
+    fastify.x402Events.on('x402:challenge', () => {
+      challenges += 1;
+    });
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('answers HEAD on a priced route with price headers and no challenge', async () => {
+    const res = await fastify.inject({ method: 'HEAD', url: '/weather' });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers).toMatchObject({
+      'x-402-price': '0.01',
+      'x-402-asset': 'USDC',
+      'x-402-network': 'mock',
+      'x-402-recipient': '0xQUOTE',
+      'x-402-scheme': 'exact',
+    });
+    expect(challenges).toBe(0);
+  });
+
+  it('resolves dynamic prices for the HEAD request', async () => {
+    const res = await fastify.inject({ method: 'HEAD', url: '/rows?n=2' });
+    expect(res.headers['x-402-price']).toBe('0.02');
+  });
+
+  it('quotes any method through the quote endpoint', async () => {
+    const res = await fastify.inject({ method: 'GET', url: '/x402/quote?method=post&path=/tools/search' });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['x-402-price']).toBe('0.05');
+    expect(res.json()).toMatchObject({
+      method: 'POST',
+      path: '/tools/search',
+      quote: { price: '0.05', asset: 'USDC', network: 'mock', recipient: '0xQUOTE', scheme: 'exact' },
+    });
+    expect(res.json().quote.accepts).toHaveLength(2);
+    expect(challenges).toBe(0);
+  });
+
+  it('prefers static routes over parametric ones', async () => {
+    const res = await fastify.inject({ method: 'GET', url: '/x402/quote?method=POST&path=/tools/special' });
+    expect(res.json().quote.price).toBe('0.5');
+  });
+
+  it('applies the coupon the quote request carries', async () => {
+    const res = await fastify.inject({
+      method: 'GET',
+      url: '/x402/quote?method=GET&path=/weather',
+      headers: { 'x-402-coupon': 'HALF' },
+    });
+    expect(res.json().quote).toMatchObject({ price: '0.005', originalPrice: '0.01' });
+    expect(res.headers['x-402-original-price']).toBe('0.01');
+  });
+
+  it('resolves dynamic prices for the quoted path and query', async () => {
+    const path = encodeURIComponent('/rows?n=2');
+    const res = await fastify.inject({ method: 'GET', url: `/x402/quote?method=GET&path=${path}` });
+    expect(res.json().quote.price).toBe('0.02');
+    expect(challenges).toBe(0);
+  });
+
+  it('quotes without a body, so resolvers see request.body undefined', async () => {
+    const res = await fastify.inject({ method: 'GET', url: '/x402/quote?method=POST&path=/summarize' });
+    expect(res.json().quote.price).toBe('0.01');
+    expect(quotedBodies).toEqual([undefined]);
+  });
+
+  it('rejects unpriced routes and missing parameters', async () => {
+    const unknown = await fastify.inject({ method: 'GET', url: '/x402/quote?method=GET&path=/nowhere' });
+    expect(unknown.statusCode).toBe(404);
+
+    const unpriced = await fastify.inject({ method: 'GET', url: '/x402/quote?method=GET&path=/free' });
+    expect(unpriced.statusCode).toBe(404);
+
+    const missing = await fastify.inject({ method: 'GET', url: '/x402/quote?path=/weather' });
+    expect(missing.statusCode).toBe(400);
+  });
+});
+
+describe('Price quotes at the gate', () => {
+  it('answers HEAD without running the handler or asking the access policy', async () => {
+    let asked = 0;
+    const gate = createPaymentGate({
+      verifier: new MockVerifier({ secret: SECRET }),
+      accessPolicy: () => {
+        asked += 1;
+        return 'free';
+      },
+    });
+    const request: GateRequest = { method: 'HEAD', url: '/weather', headers: {}, rawBody: new Uint8Array(0), ip: '127.0.0.1' };
+
+    const decision = await gate.handle(request, PRICING);
+    expect(decision.type).toBe('respond');
+    if (decision.type !== 'respond') return;
+    expect(decision.response.statusCode).toBe(200);
+    expect(decision.response.headers['x-402-price']).toBe('0.01');
+    expect(asked).toBe(0);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Unit tests — receipt listing, totals and export (store + admin routes)
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  exportReceipts,
+  iterateReceipts,
+  summarizeReceipts,
+  MemoryReceiptStore,
+  InvalidReceiptCursorError,
+} from 'x402-tool-server';
+import type { Receipt, ReceiptPage } from 'x402-tool-server';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+import type { X402Challenge } from '@darklrd/x402-agent-client';
+
+const ADMIN_KEY = 'admin-key';
+
+function receipt(n: number, overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    nonce: `nonce-${String(n).padStart(2, '0')}`,
+    payer: n % 2 === 0 ? 'alice' : 'bob',
+    amount: '0.01',
+    asset: 'USDC',
+    network: 'mock',
+    recipient: '0xRECEIPTS',
+    endpoint: n % 3 === 0 ? '/search' : '/weather',
+    method: 'GET',
+    requestHash: `hash-${n}`,
+    paidAt: new Date(Date.UTC(2026, 0, 1, 0, n)).toISOString(),
+    ...overrides,
+  };
+}
+
+async function collect(lines: AsyncIterable<string>): Promise<string> {
+  let out = '';
+  for await (const line of lines) out += line;
+  return out;
+}
+
+describe('MemoryReceiptStore.list', () => {
+  const store = new MemoryReceiptStore();
+
+  beforeAll(async () => {
+    // Saved out of order; listing sorts by paidAt.
+    for (const n of [5, 1, 4, 2, 3, 6]) await store.save(receipt(n));
+  });
+
+  afterAll(() => {
+    store.destroy();
+  });
+
+  it('pages through receipts oldest first', async () => {
+    const first = await store.list({ limit: 4 });
+    expect(first.receipts.map((r) => r.nonce)).toEqual(['nonce-01', 'nonce-02', 'nonce-03', 'nonce-04']);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await store.list({ limit: 4, cursor: first.nextCursor });
+    expect(second.receipts.map((r) => r.nonce)).toEqual(['nonce-05', 'nonce-06']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('filters by payer, endpoint and paid-at range', async () => {
+    const alice = await store.list({ payer: 'alice' });
+    expect(alice.receipts.map((r) => r.nonce)).toEqual(['nonce-02', 'nonce-04', 'nonce-06']);
+
+    const search = await store.list({ endpoint: '/search' });
+    expect(search.receipts.map((r) => r.nonce)).toEqual(['nonce-03', 'nonce-06']);
+
+    const range = await store.list({
+      from: new Date(Date.UTC(2026, 0, 1, 0, 2)),
+      to: new Date(Date.UTC(2026, 0, 1, 0, 4)),
+    });
+    expect(range.receipts.map((r) => r.nonce)).toEqual(['nonce-02', 'nonce-03']);
+  });
+
+  it('rejects cursors it did not issue', async () => {
+    await expect(store.list({ cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(InvalidReceiptCursorError);
+  });
+
+  it('pages past receipts whose paidAt does not parse', async () => {
+    const odd = new MemoryReceiptStore();
+    await odd.save(receipt(1, { paidAt: 'not-a-date' }));
+    await odd.save(receipt(2, { paidAt: 'also-not-a-date' }));
+    await odd.save(receipt(3));
+
+    const seen: string[] = [];
+    for await (const r of iterateReceipts(odd, { limit: 1 })) {
+      seen.push(r.nonce);
+      if (seen.length > 3) break;
+    }
+    expect(seen).toEqual(['nonce-01', 'nonce-02', 'nonce-03']);
+    expect((await odd.list({ from: new Date(Date.UTC(2026, 0, 1)) })).receipts.map((r) => r.nonce)).toEqual(['nonce-03']);
+    odd.destroy();
+  });
+});
+
+describe('summarizeReceipts / exportReceipts', () => {
+  const store = new MemoryReceiptStore();
+
+  beforeAll(async () => {
+    await store.save(receipt(1));
+    await store.save(receipt(2, { amount: '0.05', charged: '0.02', units: 2, remainder: '0.03' }));
+    await store.save(receipt(3, { asset: 'SOL', amount: '0.1' }));
+    await store.save(receipt(4, { voidedAt: new Date().toISOString() }));
+    await store.save(receipt(5, { endpoint: '/a,b', payer: '=HYPERLINK("http://evil")' }));
+  });
+
+  afterAll(() => {
+    store.destroy();
+  });
+
+  it('totals what was charged per asset, endpoint and payer, skipping voided receipts', async () => {
+    const totals = await summarizeReceipts(store, { limit: 2 });
+    expect(totals).toEqual({
+      count: 4,
+      voided: 1,
+      byAsset: { USDC: '0.04', SOL: '0.1' },
+      byEndpoint: {
+        '/weather': { USDC: '0.03' },
+        '/search': { SOL: '0.1' },
+        '/a,b': { USDC: '0.01' },
+      },
+      byPayer: { bob: { USDC: '0.01', SOL: '0.1' }, alice: { USDC: '0.02' }, '=HYPERLINK("http://evil")': { USDC: '0.01' } },
+    });
+  });
+
+  it('exports CSV with a header row and defused formula cells', async () => {
+    const csv = await collect(exportReceipts(store, { endpoint: '/a,b' }, 'csv'));
+    const [header, row, end] = csv.split('\n');
+    expect(header.startsWith('nonce,paidAt,payer,amount,charged')).toBe(true);
+    expect(row).toContain('"/a,b"');
+    expect(row).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(end).toBe('');
+  });
+
+  it('exports one JSON receipt per line', async () => {
+    const ndjson = await collect(exportReceipts(store, { limit: 2 }, 'ndjson'));
+    const lines = ndjson.trim().split('\n').map((line) => JSON.parse(line) as Receipt);
+    expect(lines.map((r) => r.nonce)).toEqual(['nonce-01', 'nonce-02', 'nonce-03', 'nonce-04', 'nonce-05']);
+  });
+});
+
+describe('receipt admin routes', () => {
+  let fastify: FastifyInstance;
+  const store = new MemoryReceiptStore();
+
+  beforeAll(async () => {
+    for (let n = 1; n <= 5; n++) await store.save(receipt(n));
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({
+      verifier: new MockVerifier({ secret: 'receipt-reports' }),
+      receiptStore: store,
+      receiptsAuth: (request) => request.headers['x-admin-key'] === ADMIN_KEY,
+    }));
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+    store.destroy();
+  });
+
+  const admin = { 'x-admin-key': ADMIN_KEY };
+
+  it('requires authorization', async () => {
+    for (const url of ['/x402/receipts', '/x402/receipts/totals', '/x402/receipts/export']) {
+      const res = await fastify.inject({ method: 'GET', url, headers: { 'x-admin-key': 'wrong' } });
+      expect(res.statusCode).toBe(401);
+    }
+  });
+
+  it('lists receipts page by page', async () => {
+    const first = await fastify.inject({ method: 'GET', url: '/x402/receipts?limit=3', headers: admin });
+    expect(first.statusCode).toBe(200);
+    const page = first.json() as ReceiptPage;
+    expect(page.receipts).toHaveLength(3);
+
+    const next = await fastify.inject({
+      method: 'GET',
+      url: `/x402/receipts?limit=3&cursor=${page.nextCursor}`,
+      headers: admin,
+    });
+    expect((next.json() as ReceiptPage).receipts.map((r) => r.nonce)).toEqual(['nonce-04', 'nonce-05']);
+  });
+
+  it('rejects malformed queries', async () => {
+    for (const query of ['limit=0', 'limit=5000', 'from=yesterday', 'cursor=bogus']) {
+      const res = await fastify.inject({ method: 'GET', url: `/x402/receipts?${query}`, headers: admin });
+      expect(res.statusCode).toBe(400);
+    }
+    const format = await fastify.inject({ method: 'GET', url: '/x402/receipts/export?format=xml', headers: admin });
+    expect(format.statusCode).toBe(400);
+  });
+
+  it('serves totals and exports for the filtered range', async () => {
+    const totals = await fastify.inject({ method: 'GET', url: '/x402/receipts/totals?payer=alice', headers: admin });
+    expect(totals.json()).toMatchObject({ totals: { count: 2, byAsset: { USDC: '0.02' } } });
+
+    const csv = await fastify.inject({ method: 'GET', url: '/x402/receipts/export?endpoint=/search', headers: admin });
+    expect(csv.headers['content-type']).toContain('text/csv');
+    expect(csv.body.trim().split('\n')).toHaveLength(2);
+
+    const ndjson = await fastify.inject({ method: 'GET', url: '/x402/receipts/export?format=ndjson', headers: admin });
+    expect(ndjson.headers['content-type']).toContain('application/x-ndjson');
+    expect(ndjson.body.trim().split('\n')).toHaveLength(5);
+  });
+
+  it('still serves single receipts without authorization', async () => {
+    const res = await fastify.inject({ method: 'GET', url: '/x402/receipts/nonce-01' });
+    expect(res.statusCode).toBe(200);
+  });
+});
+
+describe('receiptsAuth configuration', () => {
+  let fastify: FastifyInstance | undefined;
+
+  afterEach(async () => {
+    await fastify?.close();
+  });
+
+  it('does not serve the admin routes without receiptsAuth', async () => {
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({
+      verifier: new MockVerifier({ secret: 'receipt-reports' }),
+      receiptStore: new MemoryReceiptStore(),
+    }));
+    const res = await fastify.inject({ method: 'GET', url: '/x402/receipts' });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('requires a receipt store that can list', async () => {
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({
+      verifier: new MockVerifier({ secret: 'receipt-reports' }),
+      receiptStore: { save: () => undefined, get: () => undefined },
+      receiptsAuth: () => true,
+    }));
+    await expect(fastify.ready()).rejects.toThrow(/list\(\)/);
+  });
+});
+
+describe('receipt timestamps', () => {
+  it('stamps paidAt with server time, keeping the proof timestamp aside', async () => {
+    const store = new MemoryReceiptStore();
+    const fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({ verifier: new MockVerifier({ secret: 'receipt-reports' }), receiptStore: store }));
+    fastify.route(pricedRoute({
+      method: 'GET',
+      url: '/priced',
+      pricing: { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xRECEIPTS' },
+      handler: async () => ({ ok: true }),
+    }));
+    await fastify.ready();
+
+    const challenge = await fastify.inject({ method: 'GET', url: '/priced' });
+    const { x402 } = challenge.json() as { x402: X402Challenge };
+    const proof = await new MockPayer({ secret: 'receipt-reports' }).pay(x402, { url: 'http://localhost/priced', method: 'GET' });
+    const header = Buffer.from(JSON.stringify({ ...proof, timestamp: '1999-01-01T00:00:00Z' })).toString('base64url');
+    const before = Date.now();
+    const paid = await fastify.inject({ method: 'GET', url: '/priced', headers: { 'x-payment-proof': header } });
+    expect(paid.statusCode).toBe(200);
+
+    const saved = await store.get(proof.nonce);
+    expect(saved?.proofTimestamp).toBe('1999-01-01T00:00:00Z');
+    expect(Date.parse(saved!.paidAt)).toBeGreaterThanOrEqual(before);
+
+    await fastify.close();
+    store.destroy();
+  });
+});
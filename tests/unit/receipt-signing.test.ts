@@ -0,0 +1,144 @@
+/**
+ * Unit tests — signed receipts (createReceiptSigner, X-Payment-Receipt, JWKS route)
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import http from 'http';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createReceiptSigner,
+  createX402Middleware,
+  createX402Node,
+  MemoryReceiptStore,
+  pricedRoute,
+} from 'x402-tool-server';
+import type { Receipt } from 'x402-tool-server';
+import { verifyReceipt } from '@darklrd/x402-agent-client';
+import { MockVerifier } from 'x402-adapters';
+
+const current = generateKeyPairSync('ed25519');
+const retired = generateKeyPairSync('ed25519');
+
+const RECEIPT: Receipt = {
+  nonce: 'nonce-1',
+  payer: 'alice',
+  amount: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xSIGNED',
+  endpoint: '/weather',
+  method: 'GET',
+  requestHash: 'hash-1',
+  paidAt: '2026-10-01T00:00:00.000Z',
+};
+
+function signer() {
+  return createReceiptSigner({
+    keys: [
+      { kid: 'current', privateKey: current.privateKey },
+      { kid: 'retired', publicKey: retired.publicKey.export({ type: 'spki', format: 'pem' }) as string },
+    ],
+  });
+}
+
+describe('createReceiptSigner', () => {
+  it('signs receipts that verify against its own JWKS', async () => {
+    const receipts = signer();
+    const token = await receipts.sign(RECEIPT);
+    expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString())).toEqual({
+      alg: 'EdDSA',
+      kid: 'current',
+      typ: 'x402-receipt',
+    });
+    expect(await receipts.verify(token)).toEqual(RECEIPT);
+    expect(await verifyReceipt(token, receipts.jwks())).toEqual(RECEIPT);
+  });
+
+  it('publishes every key as an Ed25519 JWK', () => {
+    const { keys } = signer().jwks();
+    expect(keys.map((key) => key.kid)).toEqual(['current', 'retired']);
+    expect(keys[0]).toMatchObject({ kty: 'OKP', crv: 'Ed25519', alg: 'EdDSA', use: 'sig' });
+    expect(keys[0]).not.toHaveProperty('d');
+  });
+
+  it('rejects tampered tokens and unknown keys', async () => {
+    const receipts = signer();
+    const [header, , signature] = (await receipts.sign(RECEIPT)).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...RECEIPT, amount: '0' })).toString('base64url');
+    expect(await verifyReceipt(`${header}.${forged}.${signature}`, receipts.jwks())).toBeNull();
+
+    const other = createReceiptSigner({ keys: [{ kid: 'current', privateKey: retired.privateKey }] });
+    expect(await verifyReceipt(await other.sign(RECEIPT), receipts.jwks())).toBeNull();
+    expect(await verifyReceipt('not-a-token', receipts.jwks())).toBeNull();
+  });
+
+  it('requires Ed25519 keys and a private active key', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    expect(() => createReceiptSigner({ keys: [{ kid: 'ec', privateKey }] })).toThrow(/Ed25519/);
+    expect(() => createReceiptSigner({ keys: [{ kid: 'pub', publicKey: current.publicKey }] })).toThrow(/privateKey/);
+    expect(() => createReceiptSigner({ keys: [] })).toThrow(/at least one key/);
+  });
+});
+
+describe('signed receipts in the Fastify plugin', () => {
+  let fastify: FastifyInstance;
+  const receiptSigner = signer();
+
+  beforeAll(async () => {
+    fastify = Fastify({ logger: false });
+    fastify.register(createX402Middleware({
+      verifier: new MockVerifier({ secret: 'receipt-signing' }),
+      receiptStore: new MemoryReceiptStore(),
+      receiptSigner,
+      accessPolicy: () => 'free',
+    }));
+    fastify.route(pricedRoute({
+      method: 'GET',
+      url: '/weather',
+      pricing: { price: '0.01', asset: 'USDC', network: 'mock', recipient: '0xSIGNED' },
+      handler: async () => ({ tempC: 21 }),
+    }));
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('signs the receipt of the paid response and of the receipt route', async () => {
+    const res = await fastify.inject({ method: 'GET', url: '/weather' });
+    const receipt = await verifyReceipt(res.headers['x-payment-receipt'] as string, receiptSigner.jwks());
+    expect(receipt).toMatchObject({ endpoint: '/weather', free: true });
+
+    const stored = await fastify.inject({ method: 'GET', url: `/x402/receipts/${receipt!.nonce}` });
+    expect(await verifyReceipt(stored.headers['x-payment-receipt'] as string, receiptSigner.jwks()))
+      .toEqual(stored.json());
+  });
+
+  it('serves the public keys at /.well-known/jwks.json', async () => {
+    const res = await fastify.inject({ method: 'GET', url: '/.well-known/jwks.json' });
+    expect(res.json()).toEqual(receiptSigner.jwks());
+    expect(fastify.x402Gate.capabilities.signedReceipts).toBe(true);
+  });
+});
+
+describe('signed receipts in the node:http adapter', () => {
+  it('serves the JWKS from the receipts handler', async () => {
+    const receiptSigner = signer();
+    const x402 = createX402Node({ verifier: new MockVerifier({ secret: 'receipt-signing' }), receiptSigner });
+    const server = http.createServer(async (req, res) => {
+      if (await x402.receipts(req, res)) return;
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/.well-known/jwks.json`);
+      expect(await res.json()).toEqual(receiptSigner.jwks());
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -4,7 +4,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Fastify from 'fastify';
 import type { FastifyInstance } from 'fastify';
-import { createX402Middleware, pricedRoute, MemoryReceiptStore } from 'x402-tool-server';
+import { createX402Middleware, pricedRoute, MemoryReceiptStore, toAsyncReceiptStore } from 'x402-tool-server';
+import type { Receipt, SyncReceiptStore } from 'x402-tool-server';
 import { MemoryReceiptStore as ReceiptStoreClass } from 'x402-tool-server';
 import { MockVerifier, MockPayer } from 'x402-adapters';
 import { x402Fetch } from '@darklrd/x402-agent-client';
@@ -43,7 +44,7 @@ async function buildTestServer(receiptStore: InstanceType<typeof ReceiptStoreCla
 }
 
 describe('MemoryReceiptStore', () => {
-  it('saves and retrieves a receipt', () => {
+  it('saves and retrieves a receipt', async () => {
     const store = new MemoryReceiptStore();
     const receipt = {
       nonce: 'test-nonce',
@@ -58,21 +59,21 @@ describe('MemoryReceiptStore', () => {
       paidAt: new Date().toISOString(),
     };
 
-    store.save(receipt);
-    expect(store.get('test-nonce')).toEqual(receipt);
+    await store.save(receipt);
+    expect(await store.get('test-nonce')).toEqual(receipt);
     expect(store.size).toBe(1);
     store.destroy();
   });
 
-  it('returns undefined for unknown nonce', () => {
+  it('returns undefined for unknown nonce', async () => {
     const store = new MemoryReceiptStore();
-    expect(store.get('nonexistent')).toBeUndefined();
+    expect(await store.get('nonexistent')).toBeUndefined();
     store.destroy();
   });
 
   it('expires receipts after ttlMs', async () => {
     const store = new MemoryReceiptStore({ ttlMs: 50 });
-    store.save({
+    await store.save({
       nonce: 'expire-me',
       payer: 'mock',
       amount: '0.001',
@@ -85,9 +86,9 @@ describe('MemoryReceiptStore', () => {
       paidAt: new Date().toISOString(),
     });
 
-    expect(store.get('expire-me')).toBeDefined();
+    expect(await store.get('expire-me')).toBeDefined();
     await new Promise((r) => setTimeout(r, 100));
-    expect(store.get('expire-me')).toBeUndefined();
+    expect(await store.get('expire-me')).toBeUndefined();
     store.destroy();
   });
 });
@@ -147,3 +148,50 @@ describe('Receipt endpoint', () => {
     expect(receipt.paidAt).toBeDefined();
   });
 });
+
+describe('Legacy synchronous receipt stores', () => {
+  it('middleware saves to and serves from a synchronous store', async () => {
+    const receipts = new Map<string, Receipt>();
+    const syncStore: SyncReceiptStore = {
+      save: (receipt) => {
+        receipts.set(receipt.nonce, receipt);
+      },
+      get: (nonce) => receipts.get(nonce),
+    };
+
+    const fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({ verifier: new MockVerifier({ secret: SECRET }), receiptStore: syncStore }),
+    );
+    fastify.route(pricedRoute({ method: 'GET', url: '/priced', pricing: PRICING, handler: async () => ({ paid: true }) }));
+    await fastify.ready();
+
+    const payer = new MockPayer({ secret: SECRET });
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/priced' })).json();
+    const proof = await payer.pay(x402, { url: '/priced', method: 'GET' });
+    const paid = await fastify.inject({
+      method: 'GET',
+      url: '/priced',
+      headers: { 'x-payment-proof': Buffer.from(JSON.stringify(proof)).toString('base64url') },
+    });
+    expect(paid.statusCode).toBe(200);
+    expect(receipts.has(x402.nonce)).toBe(true);
+
+    const res = await fastify.inject({ method: 'GET', url: `/x402/receipts/${x402.nonce}` });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().nonce).toBe(x402.nonce);
+    await fastify.close();
+  });
+
+  it('toAsyncReceiptStore returns promises', async () => {
+    const receipts = new Map<string, Receipt>();
+    const wrapped = toAsyncReceiptStore({
+      save: (receipt) => {
+        receipts.set(receipt.nonce, receipt);
+      },
+      get: (nonce) => receipts.get(nonce),
+    });
+    expect(wrapped.get('missing')).toBeInstanceOf(Promise);
+    expect(await wrapped.get('missing')).toBeUndefined();
+  });
+});
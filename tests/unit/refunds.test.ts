@@ -0,0 +1,296 @@
+/**
+ * Unit tests — refund / void flow when a paid handler fails
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { once } from 'events';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  MemoryReceiptStore,
+  shouldRefund,
+} from 'x402-tool-server';
+import type { X402MiddlewareOptions, X402RefundEvent, Receipt } from 'x402-tool-server';
+import { withX402 } from 'x402-tool-server/fetch';
+import { MockPayer, MockVerifier, MockRefunder } from 'x402-adapters';
+
+const SECRET = 'refund-test-secret';
+const PRICING = {
+  price: '0.001',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xREFUND',
+};
+
+const payer = new MockPayer({ secret: SECRET });
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+interface Harness {
+  fastify: FastifyInstance;
+  receiptStore: MemoryReceiptStore;
+  calls: () => number;
+}
+
+/**
+ * `/flaky` fails with `failWith` on the first call only;
+ * `/unavailable` answers 503 without throwing; `/ok` always succeeds.
+ */
+async function buildServer(
+  options: Partial<X402MiddlewareOptions>,
+  failWith: 'throw' | 503 = 'throw',
+): Promise<Harness> {
+  const receiptStore = new MemoryReceiptStore();
+  const fastify = Fastify({ logger: false });
+  let calls = 0;
+
+  fastify.register(
+    createX402Middleware({
+      verifier: new MockVerifier({ secret: SECRET }),
+      receiptStore,
+      ...options,
+    }),
+  );
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/flaky',
+      pricing: PRICING,
+      handler: async (_request, reply) => {
+        calls += 1;
+        if (calls > 1) return { calls };
+        if (failWith === 'throw') throw new Error('upstream exploded');
+        return reply.code(503).send({ error: 'unavailable' });
+      },
+    }),
+  );
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/unavailable',
+      pricing: PRICING,
+      handler: async (_request, reply) => reply.code(503).send({ error: 'unavailable' }),
+    }),
+  );
+  fastify.route(
+    pricedRoute({
+      method: 'GET',
+      url: '/ok',
+      pricing: PRICING,
+      handler: async () => ({ ok: true }),
+    }),
+  );
+  await fastify.ready();
+  return { fastify, receiptStore, calls: () => calls };
+}
+
+async function paidHeaders(fastify: FastifyInstance, url: string): Promise<{ nonce: string; proof: string }> {
+  const { x402 } = (await fastify.inject({ method: 'GET', url })).json();
+  const proof = await payer.pay(x402, { url, method: 'GET' });
+  return { nonce: x402.nonce, proof: encode(proof) };
+}
+
+describe('Refund policy', () => {
+  let harness: Harness | undefined;
+
+  afterEach(async () => {
+    if (!harness) return;
+    await harness.fastify.close();
+    harness.receiptStore.destroy();
+    harness = undefined;
+  });
+
+  it("refundOn: 'error' voids and refunds a payment whose handler threw", async () => {
+    const refunder = new MockRefunder();
+    harness = await buildServer({ refundOn: 'error', refunder });
+    const { fastify, receiptStore } = harness;
+    const { nonce, proof } = await paidHeaders(fastify, '/flaky');
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    const res = await fastify.inject({ method: 'GET', url: '/flaky', headers: { 'x-payment-proof': proof } });
+    expect(res.statusCode).toBe(500);
+
+    const [event] = (await refunded) as [X402RefundEvent];
+    expect(event.statusCode).toBe(500);
+    expect(event.error).toBe('upstream exploded');
+    expect(event.refund).toEqual({ ok: true, txRef: `mock-refund:${nonce}` });
+    expect(event.nonceReleased).toBe(false);
+    expect(event.request).toMatchObject({ method: 'GET', url: '/flaky' });
+
+    expect(refunder.refunds).toHaveLength(1);
+    expect(refunder.refunds[0]).toMatchObject({ nonce, amount: '0.001', recipient: '0xREFUND' });
+    const receipt = await receiptStore.get(nonce);
+    expect(receipt?.voidedAt).toBeDefined();
+    expect(receipt?.refundTxRef).toBe(`mock-refund:${nonce}`);
+  });
+
+  it('a refunded proof stays spent', async () => {
+    harness = await buildServer({ refundOn: 'error', refunder: new MockRefunder() });
+    const { fastify } = harness;
+    const { proof } = await paidHeaders(fastify, '/flaky');
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    await fastify.inject({ method: 'GET', url: '/flaky', headers: { 'x-payment-proof': proof } });
+    await refunded;
+
+    const retry = await fastify.inject({ method: 'GET', url: '/flaky', headers: { 'x-payment-proof': proof } });
+    expect(retry.statusCode).toBe(402);
+    expect(retry.json().error).toBe('Nonce already used (replay detected)');
+  });
+
+  it("refundOn: 'error' ignores a 5xx the handler sent itself", async () => {
+    const refunder = new MockRefunder();
+    harness = await buildServer({ refundOn: 'error', refunder });
+    const { fastify, receiptStore } = harness;
+    const { nonce, proof } = await paidHeaders(fastify, '/unavailable');
+
+    const res = await fastify.inject({ method: 'GET', url: '/unavailable', headers: { 'x-payment-proof': proof } });
+    expect(res.statusCode).toBe(503);
+    expect(refunder.refunds).toHaveLength(0);
+    expect((await receiptStore.get(nonce))?.voidedAt).toBeUndefined();
+  });
+
+  it("refundOn: '5xx' voids a 503 response", async () => {
+    const refunder = new MockRefunder();
+    harness = await buildServer({ refundOn: '5xx', refunder });
+    const { fastify, receiptStore } = harness;
+    const { nonce, proof } = await paidHeaders(fastify, '/unavailable');
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    await fastify.inject({ method: 'GET', url: '/unavailable', headers: { 'x-payment-proof': proof } });
+    const [event] = (await refunded) as [X402RefundEvent];
+
+    expect(event.statusCode).toBe(503);
+    expect(event.error).toBeUndefined();
+    expect(refunder.refunds).toHaveLength(1);
+    expect((await receiptStore.get(nonce))?.voidedAt).toBeDefined();
+  });
+
+  it('a custom predicate decides from the outcome', async () => {
+    const seen: number[] = [];
+    const refunder = new MockRefunder();
+    harness = await buildServer({
+      refunder,
+      refundOn: ({ statusCode, receipt }) => {
+        seen.push(statusCode);
+        return statusCode === 503 && receipt.amount === '0.001';
+      },
+    });
+    const { fastify } = harness;
+    const { proof } = await paidHeaders(fastify, '/unavailable');
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    await fastify.inject({ method: 'GET', url: '/unavailable', headers: { 'x-payment-proof': proof } });
+    await refunded;
+    expect(seen).toEqual([503]);
+    expect(refunder.refunds).toHaveLength(1);
+  });
+
+  it('without a refunder the nonce is released and the same proof can be retried', async () => {
+    harness = await buildServer({ refundOn: '5xx' }, 503);
+    const { fastify, receiptStore } = harness;
+    const { nonce, proof } = await paidHeaders(fastify, '/flaky');
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    const failed = await fastify.inject({ method: 'GET', url: '/flaky', headers: { 'x-payment-proof': proof } });
+    expect(failed.statusCode).toBe(503);
+    const [event] = (await refunded) as [X402RefundEvent];
+    expect(event.refund).toBeUndefined();
+    expect(event.nonceReleased).toBe(true);
+
+    const retry = await fastify.inject({ method: 'GET', url: '/flaky', headers: { 'x-payment-proof': proof } });
+    expect(retry.statusCode).toBe(200);
+    expect(retry.json()).toEqual({ calls: 2 });
+    // The successful retry replaces the voided receipt.
+    expect((await receiptStore.get(nonce))?.voidedAt).toBeUndefined();
+  });
+
+  it('a failed refund releases the nonce and reports the failure', async () => {
+    harness = await buildServer({
+      refundOn: 'error',
+      refunder: { refund: async () => { throw new Error('rpc down'); } },
+    });
+    const { fastify, receiptStore } = harness;
+    const { nonce, proof } = await paidHeaders(fastify, '/flaky');
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    await fastify.inject({ method: 'GET', url: '/flaky', headers: { 'x-payment-proof': proof } });
+    const [event] = (await refunded) as [X402RefundEvent];
+
+    expect(event.refund).toEqual({ ok: false, message: 'rpc down' });
+    expect(event.nonceReleased).toBe(true);
+    const receipt = await receiptStore.get(nonce);
+    expect(receipt?.voidedAt).toBeDefined();
+    expect(receipt?.refundTxRef).toBeUndefined();
+  });
+
+  it('a voided response is not stored for idempotent replay', async () => {
+    harness = await buildServer({ refundOn: 'error' });
+    const { fastify } = harness;
+    const { proof } = await paidHeaders(fastify, '/flaky');
+    const headers = { 'x-payment-proof': proof, 'idempotency-key': 'refund-key' };
+
+    const refunded = once(fastify.x402Events, 'x402:refund');
+    expect((await fastify.inject({ method: 'GET', url: '/flaky', headers })).statusCode).toBe(500);
+    await refunded;
+
+    const retry = await fastify.inject({ method: 'GET', url: '/flaky', headers });
+    expect(retry.statusCode).toBe(200);
+    expect(retry.headers['x-idempotent-replay']).toBeUndefined();
+    expect(harness.calls()).toBe(2);
+  });
+
+  it('leaves successful payments alone', async () => {
+    const refunder = new MockRefunder();
+    harness = await buildServer({ refundOn: '5xx', refunder });
+    const { fastify, receiptStore } = harness;
+    const { nonce, proof } = await paidHeaders(fastify, '/ok');
+
+    const res = await fastify.inject({ method: 'GET', url: '/ok', headers: { 'x-payment-proof': proof } });
+    expect(res.statusCode).toBe(200);
+    expect(refunder.refunds).toHaveLength(0);
+    expect((await receiptStore.get(nonce))?.voidedAt).toBeUndefined();
+  });
+});
+
+describe('Refunds in the Fetch adapter', () => {
+  it('voids the payment before the handler error propagates', async () => {
+    const refunder = new MockRefunder();
+    const receiptStore = new MemoryReceiptStore();
+    const handler = withX402(
+      () => {
+        throw new Error('edge failure');
+      },
+      PRICING,
+      { verifier: new MockVerifier({ secret: SECRET }), receiptStore, refundOn: 'error', refunder },
+    );
+
+    const { x402 } = await (await handler(new Request('https://tools.example/edge'))).json();
+    const proof = await payer.pay(x402, { url: '/edge', method: 'GET' });
+    await expect(handler(new Request('https://tools.example/edge', {
+      headers: { 'x-payment-proof': encode(proof) },
+    }))).rejects.toThrow('edge failure');
+
+    expect(refunder.refunds).toHaveLength(1);
+    expect((await receiptStore.get(x402.nonce))?.refundTxRef).toBe(`mock-refund:${x402.nonce}`);
+    receiptStore.destroy();
+  });
+});
+
+describe('shouldRefund', () => {
+  const receipt = { nonce: 'n', amount: '0.001' } as Receipt;
+
+  it("'error' matches thrown errors only", () => {
+    expect(shouldRefund('error', { statusCode: 500, error: new Error('x'), receipt })).toBe(true);
+    expect(shouldRefund('error', { statusCode: 503, receipt })).toBe(false);
+  });
+
+  it("'5xx' matches server error statuses and thrown errors", () => {
+    expect(shouldRefund('5xx', { statusCode: 502, receipt })).toBe(true);
+    expect(shouldRefund('5xx', { statusCode: 200, error: new Error('x'), receipt })).toBe(true);
+    expect(shouldRefund('5xx', { statusCode: 404, receipt })).toBe(false);
+  });
+});
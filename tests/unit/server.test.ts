@@ -182,7 +182,7 @@ describe('Server middleware — wireFormat modes', () => {
       network: PRICING.network ?? 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -228,7 +228,7 @@ describe('Server middleware — wireFormat modes', () => {
       network: PRICING.network ?? 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -347,7 +347,7 @@ describe('Server middleware — wireFormat modes', () => {
       network: PRICING.network ?? 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -420,7 +420,7 @@ describe('Server middleware — wireFormat modes', () => {
       network: PRICING.network ?? 'mock',
       recipient: PRICING.recipient,
       nonce: req.extra['nonce'],
-      expiresAt: new Date(Date.now() + req.maxTimeoutSeconds * 1000).toISOString(),
+      expiresAt: req.extra['expiresAt'],
       requestHash: req.extra['requestHash'],
     };
 
@@ -445,7 +445,7 @@ describe('Server middleware — wireFormat modes', () => {
       headers: { 'payment-signature': paymentSig },
     });
 
-    const receipt = receiptStore.get(proof.nonce);
+    const receipt = await receiptStore.get(proof.nonce);
     expect(receipt).toBeDefined();
     expect(receipt!.payer).toBe(proof.payer);
     await app.close();
@@ -0,0 +1,352 @@
+/**
+ * Unit tests — prepaid credit sessions (SessionStore + /x402/sessions + debits)
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  MemoryReceiptStore,
+  MemorySessionStore,
+  createPaymentGate,
+  withX402,
+  x402SessionsHandler,
+} from 'x402-tool-server';
+import type { Session, X402MiddlewareOptions, X402SessionEvent } from 'x402-tool-server';
+import { MockPayer, MockVerifier } from 'x402-adapters';
+
+const SECRET = 'session-test-secret';
+const PRICING = {
+  price: '0.01',
+  asset: 'USDC',
+  network: 'mock',
+  recipient: '0xSESSION',
+};
+const PACK = { ...PRICING, price: '0.025' };
+
+const payer = new MockPayer({ secret: SECRET });
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'session-id',
+    token: 'x402s_test',
+    balance: '1',
+    asset: 'USDC',
+    network: 'mock',
+    recipient: '0xSESSION',
+    payer: 'mock://payer',
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('MemorySessionStore', () => {
+  it('debits while the balance covers the amount', async () => {
+    const store = new MemorySessionStore();
+    await store.create(makeSession({ balance: '0.03' }));
+
+    expect(await store.debit('x402s_test', '0.01')).toMatchObject({ ok: true, session: { balance: '0.02' } });
+    expect(await store.debit('x402s_test', '0.02')).toMatchObject({ ok: true, session: { balance: '0' } });
+    expect(await store.debit('x402s_test', '0.001')).toMatchObject({
+      ok: false,
+      reason: 'insufficient_balance',
+      session: { balance: '0' },
+    });
+    store.destroy();
+  });
+
+  it('concurrent debits never overspend', async () => {
+    const store = new MemorySessionStore();
+    await store.create(makeSession({ balance: '0.05' }));
+    const results = await Promise.all(Array.from({ length: 10 }, () => store.debit('x402s_test', '0.01')));
+    expect(results.filter((r) => r.ok)).toHaveLength(5);
+    expect((await store.get('x402s_test'))?.balance).toBe('0');
+    store.destroy();
+  });
+
+  it('credits and extends the expiry', async () => {
+    const store = new MemorySessionStore();
+    await store.create(makeSession({ balance: '0.5' }));
+    const later = new Date(Date.now() + 120_000).toISOString();
+    expect(await store.credit('x402s_test', '0.25', later)).toMatchObject({ balance: '0.75', expiresAt: later });
+    store.destroy();
+  });
+
+  it('expired and unknown sessions cannot be spent', async () => {
+    const store = new MemorySessionStore();
+    await store.create(makeSession({ expiresAt: new Date(Date.now() - 1).toISOString() }));
+    expect(await store.get('x402s_test')).toBeUndefined();
+    expect(await store.debit('x402s_test', '0.01')).toEqual({ ok: false, reason: 'unknown_session' });
+    expect(await store.credit('x402s_other', '1')).toBeUndefined();
+    expect(store.size).toBe(0);
+    store.destroy();
+  });
+});
+
+describe('Prepaid sessions (Fastify)', () => {
+  let fastify: FastifyInstance;
+  let receiptStore: MemoryReceiptStore;
+  let calls: number;
+
+  async function buildServer(options: Partial<X402MiddlewareOptions> = {}) {
+    receiptStore = new MemoryReceiptStore();
+    calls = 0;
+    fastify = Fastify({ logger: false });
+    fastify.register(
+      createX402Middleware({
+        verifier: new MockVerifier({ secret: SECRET }),
+        receiptStore,
+        sessions: { pricing: PACK, store: new MemorySessionStore() },
+        ...options,
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/weather',
+        pricing: PRICING,
+        handler: async () => ({ calls: ++calls }),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/elsewhere',
+        pricing: { ...PRICING, recipient: '0xOTHER' },
+        handler: async () => ({ ok: true }),
+      }),
+    );
+    fastify.route(
+      pricedRoute({
+        method: 'GET',
+        url: '/broken',
+        pricing: PRICING,
+        handler: async () => {
+          throw new Error('broken');
+        },
+      }),
+    );
+    await fastify.ready();
+  }
+
+  async function openSession(token?: string): Promise<{ statusCode: number; session: Session }> {
+    const auth = token ? { authorization: `Bearer ${token}` } : {};
+    const challenge = await fastify.inject({ method: 'POST', url: '/x402/sessions', headers: auth });
+    expect(challenge.statusCode).toBe(402);
+    const { x402 } = challenge.json();
+    const proof = await payer.pay(x402, { url: '/x402/sessions', method: 'POST' });
+    const res = await fastify.inject({
+      method: 'POST',
+      url: '/x402/sessions',
+      headers: { ...auth, 'x-payment-proof': encode(proof) },
+    });
+    return { statusCode: res.statusCode, session: res.json().session };
+  }
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  afterEach(async () => {
+    await fastify.close();
+    receiptStore.destroy();
+  });
+
+  it('advertises the session endpoint on 402 challenges', async () => {
+    await buildServer();
+    const res = await fastify.inject({ method: 'GET', url: '/weather' });
+    expect(res.statusCode).toBe(402);
+    expect(res.headers['x-402-session-endpoint']).toBe('/x402/sessions');
+  });
+
+  it('sells a session for one x402 payment', async () => {
+    await buildServer();
+    const { statusCode, session } = await openSession();
+
+    expect(statusCode).toBe(201);
+    expect(session.token).toMatch(/^x402s_[\w-]{43}$/);
+    expect(session).toMatchObject({ balance: '0.025', asset: 'USDC', network: 'mock', recipient: '0xSESSION' });
+
+    const status = await fastify.inject({ method: 'GET', url: '/x402/sessions', headers: bearer(session.token) });
+    expect(status.statusCode).toBe(200);
+    expect(status.json().session).toMatchObject({ id: session.id, balance: '0.025' });
+    expect(status.json().session.token).toBeUndefined();
+  });
+
+  it('debits priced routes and reports the remaining balance', async () => {
+    await buildServer();
+    const { session } = await openSession();
+
+    const first = await fastify.inject({ method: 'GET', url: '/weather', headers: bearer(session.token) });
+    expect(first.statusCode).toBe(200);
+    expect(first.headers['x-402-session-balance']).toBe('0.015');
+    expect(first.headers['x-402-session-expires']).toBe(session.expiresAt);
+
+    const second = await fastify.inject({ method: 'GET', url: '/weather', headers: bearer(session.token) });
+    expect(second.headers['x-402-session-balance']).toBe('0.005');
+    expect(calls).toBe(2);
+  });
+
+  it('emits a debit event for each session-paid call', async () => {
+    await buildServer();
+    const { session } = await openSession();
+    const events: X402SessionEvent[] = [];
+    fastify.x402Events.on('x402:session', (event) => events.push(event));
+
+    await fastify.inject({ method: 'GET', url: '/weather', headers: bearer(session.token) });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ action: 'debit', amount: '0.01', session: { balance: '0.015' } });
+    expect(events[0].request).toMatchObject({ method: 'GET', url: '/weather' });
+    expect(events[0].session).not.toHaveProperty('token');
+  });
+
+  it('answers a depleted session with a challenge, then accepts a top-up', async () => {
+    await buildServer();
+    const { session } = await openSession();
+    await fastify.inject({ method: 'GET', url: '/weather', headers: bearer(session.token) });
+    await fastify.inject({ method: 'GET', url: '/weather', headers: bearer(session.token) });
+
+    const depleted = await fastify.inject({ method: 'GET', url: '/weather', headers: bearer(session.token) });
+    expect(depleted.statusCode).toBe(402);
+    expect(depleted.headers['x-402-session-error']).toBe('insufficient_balance');
+    expect(depleted.headers['x-402-session-balance']).toBe('0.005');
+    expect(depleted.json().x402).toMatchObject({ price: '0.01' });
+
+    const topUp = await openSession(session.token);
+    expect(topUp.statusCode).toBe(200);
+    expect(topUp.session).toMatchObject({ token: session.token, balance: '0.03' });
+
+    const paid = await fastify.inject({ method: 'GET', url: '/weather', headers: bearer(session.token) });
+    expect(paid.statusCode).toBe(200);
+    expect(paid.headers['x-402-session-balance']).toBe('0.02');
+  });
+
+  it('rejects unknown sessions and routes the session cannot pay', async () => {
+    await buildServer();
+    const { session } = await openSession();
+
+    const unknown = await fastify.inject({ method: 'GET', url: '/weather', headers: bearer('x402s_forged') });
+    expect(unknown.statusCode).toBe(402);
+    expect(unknown.headers['x-402-session-error']).toBe('unknown_session');
+
+    const elsewhere = await fastify.inject({ method: 'GET', url: '/elsewhere', headers: bearer(session.token) });
+    expect(elsewhere.statusCode).toBe(402);
+    expect(elsewhere.headers['x-402-session-error']).toBe('unsupported_route');
+    expect(elsewhere.headers['x-402-session-balance']).toBe('0.025');
+  });
+
+  it('leaves other bearer tokens to the application', async () => {
+    await buildServer();
+    const res = await fastify.inject({ method: 'GET', url: '/weather', headers: bearer('app-token') });
+    expect(res.statusCode).toBe(402);
+    expect(res.headers['x-402-session-error']).toBeUndefined();
+  });
+
+  it('prefers a payment proof over the session', async () => {
+    await buildServer();
+    const { session } = await openSession();
+    const { x402 } = (await fastify.inject({ method: 'GET', url: '/weather' })).json();
+    const proof = await payer.pay(x402, { url: '/weather', method: 'GET' });
+
+    const res = await fastify.inject({
+      method: 'GET',
+      url: '/weather',
+      headers: { ...bearer(session.token), 'x-payment-proof': encode(proof) },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['x-402-session-balance']).toBeUndefined();
+  });
+
+  it('does not debit again for an idempotent replay', async () => {
+    await buildServer();
+    const { session } = await openSession();
+    const headers = { ...bearer(session.token), 'idempotency-key': 'session-key' };
+
+    await fastify.inject({ method: 'GET', url: '/weather', headers });
+    const replay = await fastify.inject({ method: 'GET', url: '/weather', headers });
+    expect(replay.headers['x-idempotent-replay']).toBe('true');
+    expect(replay.headers['x-402-session-balance']).toBe('0.015');
+    expect(calls).toBe(1);
+  });
+
+  it('credits a voided debit back to the session', async () => {
+    await buildServer({ refundOn: 'error' });
+    const { session } = await openSession();
+
+    const refunded = new Promise<X402SessionEvent>((resolve) => {
+      fastify.x402Events.on('x402:session', (event) => {
+        if (event.action === 'refund') resolve(event);
+      });
+    });
+    const res = await fastify.inject({ method: 'GET', url: '/broken', headers: bearer(session.token) });
+    expect(res.statusCode).toBe(500);
+    expect(await refunded).toMatchObject({ amount: '0.01', session: { balance: '0.025' } });
+  });
+
+  it('serves no session endpoint when sessions are off', async () => {
+    await buildServer({ sessions: undefined });
+    expect((await fastify.inject({ method: 'POST', url: '/x402/sessions' })).statusCode).toBe(404);
+    const res = await fastify.inject({ method: 'GET', url: '/weather' });
+    expect(res.headers['x-402-session-endpoint']).toBeUndefined();
+  });
+});
+
+describe('Prepaid sessions (Fetch API)', () => {
+  it('shares one gate between the sessions handler and priced handlers', async () => {
+    const gate = createPaymentGate({
+      verifier: new MockVerifier({ secret: SECRET }),
+      sessions: { pricing: PACK },
+    });
+    const sessions = x402SessionsHandler(gate);
+    const weather = withX402(() => Response.json({ sun: true }), PRICING, gate);
+    const base = 'https://tools.example';
+
+    const { x402 } = await (await sessions(new Request(`${base}/x402/sessions`, { method: 'POST' }))).json();
+    const proof = await payer.pay(x402, { url: '/x402/sessions', method: 'POST' });
+    const opened = await sessions(new Request(`${base}/x402/sessions`, {
+      method: 'POST',
+      headers: { 'x-payment-proof': encode(proof) },
+    }));
+    expect(opened.status).toBe(201);
+    const { session } = await opened.json();
+
+    const res = await weather(new Request(`${base}/weather`, { headers: { authorization: `Bearer ${session.token}` } }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-402-session-balance')).toBe('0.015');
+  });
+
+  it('records a receipt naming the session for each debit', async () => {
+    const receiptStore = new MemoryReceiptStore();
+    const store = new MemorySessionStore();
+    await store.create(makeSession());
+    const gate = createPaymentGate({
+      verifier: new MockVerifier({ secret: SECRET }),
+      receiptStore,
+      sessions: { pricing: PACK, store },
+    });
+
+    const decision = await gate.handle({
+      method: 'GET',
+      url: '/weather',
+      headers: { authorization: 'Bearer x402s_test' },
+      rawBody: new Uint8Array(0),
+      ip: '127.0.0.1',
+    }, PRICING);
+    expect(decision.type).toBe('proceed');
+    if (decision.type !== 'proceed') return;
+
+    expect(decision.session).toMatchObject({ id: 'session-id', balance: '0.99' });
+    expect(await receiptStore.get(decision.receipt.nonce)).toMatchObject({
+      sessionId: 'session-id',
+      payer: 'mock://payer',
+      amount: '0.01',
+      endpoint: '/weather',
+    });
+    receiptStore.destroy();
+    store.destroy();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+// ── Mocks (hoisted so vi.mock factory can reference them) ────────────────────
+
+const mocks = vi.hoisted(() => ({
+  sendAndConfirmTransaction: vi.fn().mockResolvedValue('refund-tx-sig-xyz'),
+  getAccount: vi.fn().mockResolvedValue({ amount: BigInt(0) }),
+  MockConnection: vi.fn().mockImplementation(() => ({})),
+}));
+
+vi.mock('@solana/web3.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@solana/web3.js')>();
+  return {
+    ...actual,
+    Connection: mocks.MockConnection,
+    sendAndConfirmTransaction: mocks.sendAndConfirmTransaction,
+  };
+});
+
+vi.mock('@solana/spl-token', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@solana/spl-token')>();
+  return {
+    ...actual,
+    getAccount: mocks.getAccount,
+  };
+});
+
+// Import under test AFTER mocks are declared
+const { SolanaUSDCRefunder } = await import('x402-adapters/solana');
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+// Deterministic test keypairs — never use in production
+const RECIPIENT_KEYPAIR = Keypair.fromSeed(new Uint8Array(32).fill(2));
+const RECIPIENT_PRIVATE_KEY = bs58.encode(RECIPIENT_KEYPAIR.secretKey);
+const PAYER = Keypair.fromSeed(new Uint8Array(32).fill(1)).publicKey.toBase58();
+
+function makeReceipt(overrides: Record<string, string> = {}) {
+  return {
+    nonce: 'refund-nonce',
+    payer: PAYER,
+    amount: '0.001',
+    asset: 'USDC',
+    network: 'solana-devnet',
+    recipient: RECIPIENT_KEYPAIR.publicKey.toBase58(),
+    txRef: 'original-tx-sig',
+    ...overrides,
+  };
+}
+
+/** Memo text of the transaction passed to sendAndConfirmTransaction. */
+function sentMemo(): string {
+  const [, tx] = mocks.sendAndConfirmTransaction.mock.calls[0];
+  const memo = tx.instructions[1];
+  return Buffer.from(memo.data).toString('utf8');
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe('SolanaUSDCRefunder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.sendAndConfirmTransaction.mockResolvedValue('refund-tx-sig-xyz');
+    mocks.getAccount.mockResolvedValue({ amount: BigInt(0) });
+  });
+
+  it('loads the recipient wallet key', () => {
+    const refunder = new SolanaUSDCRefunder({ privateKey: RECIPIENT_PRIVATE_KEY });
+    expect(refunder.publicKey.toBase58()).toBe(RECIPIENT_KEYPAIR.publicKey.toBase58());
+  });
+
+  it('sends the payment back and returns the transaction signature', async () => {
+    const refunder = new SolanaUSDCRefunder({ privateKey: RECIPIENT_PRIVATE_KEY });
+    const result = await refunder.refund(makeReceipt());
+
+    expect(result).toEqual({ ok: true, txRef: 'refund-tx-sig-xyz' });
+    expect(mocks.sendAndConfirmTransaction).toHaveBeenCalledTimes(1);
+    expect(sentMemo()).toBe('refund|refund-nonce');
+  });
+
+  it('sends back only the amount asked for on partial refunds', async () => {
+    const refunder = new SolanaUSDCRefunder({ privateKey: RECIPIENT_PRIVATE_KEY });
+    const result = await refunder.refund(makeReceipt(), '0.0004');
+
+    expect(result.ok).toBe(true);
+    const [, tx] = mocks.sendAndConfirmTransaction.mock.calls[0];
+    // transferChecked data: [instruction, amount (u64 LE), decimals]
+    expect(Buffer.from(tx.instructions[0].data).readBigUInt64LE(1)).toBe(400n);
+  });
+
+  it('refuses receipts paid to another wallet', async () => {
+    const refunder = new SolanaUSDCRefunder({ privateKey: RECIPIENT_PRIVATE_KEY });
+    const result = await refunder.refund(makeReceipt({ recipient: PAYER }));
+
+    expect(result.ok).toBe(false);
+    expect(result.message).toContain('not this refunder');
+    expect(mocks.sendAndConfirmTransaction).not.toHaveBeenCalled();
+  });
+
+  it('fails when the payer has no USDC token account', async () => {
+    mocks.getAccount.mockRejectedValueOnce(new Error('Account not found'));
+
+    const refunder = new SolanaUSDCRefunder({ privateKey: RECIPIENT_PRIVATE_KEY });
+    const result = await refunder.refund(makeReceipt());
+    expect(result).toEqual({ ok: false, message: `Payer ${PAYER} has no USDC token account` });
+  });
+
+  it('reports a failed transfer instead of throwing', async () => {
+    mocks.sendAndConfirmTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+
+    const refunder = new SolanaUSDCRefunder({ privateKey: RECIPIENT_PRIVATE_KEY });
+    const result = await refunder.refund(makeReceipt());
+    expect(result).toEqual({ ok: false, message: 'insufficient funds' });
+  });
+
+  it('uses "confirmed" commitment by default', () => {
+    vi.clearAllMocks();
+    new SolanaUSDCRefunder({ privateKey: RECIPIENT_PRIVATE_KEY });
+    expect(mocks.MockConnection).toHaveBeenCalledWith(expect.any(String), 'confirmed');
+  });
+});
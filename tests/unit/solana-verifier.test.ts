@@ -112,72 +112,83 @@ describe('SolanaUSDCVerifier', () => {
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx());
   });
 
-  it('returns true for a valid transaction', async () => {
+  it('accepts a valid transaction', async () => {
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(true);
+    expect(result.ok).toBe(true);
   });
 
-  it('returns false when requestHash does not match proof', async () => {
+  it('reports payer, settled amount and tx reference on success', async () => {
+    mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ amount: '1500' }));
+    const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
+    expect(result).toEqual({
+      ok: true,
+      payer: 'some-authority',
+      settledAmount: '0.0015',
+      txRef: 'fake-solana-tx-sig',
+    });
+  });
+
+  it('rejects with hash_mismatch when requestHash does not match proof', async () => {
     const result = await verifier.verify(makeProofHeader(), 'b'.repeat(64), TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'hash_mismatch' });
   });
 
-  it('returns false when proof is expired', async () => {
+  it('rejects with expired when proof is expired', async () => {
     const header = makeProofHeader({ expiresAt: new Date(Date.now() - 1000).toISOString() });
     const result = await verifier.verify(header, TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'expired' });
   });
 
-  it('returns false when proof version is not 1', async () => {
+  it('rejects with unsupported_version when proof version is not 1', async () => {
     const header = makeProofHeader({ version: 2 });
     const result = await verifier.verify(header, TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'unsupported_version' });
   });
 
-  it('returns false when proofHeader is not valid base64url JSON', async () => {
+  it('rejects with malformed_proof when proofHeader is not valid base64url JSON', async () => {
     const result = await verifier.verify('not-valid-base64!!', TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'malformed_proof' });
   });
 
-  it('returns false when transaction is not found (null)', async () => {
+  it('rejects with tx_not_found when transaction is not found (null)', async () => {
     mocks.getParsedTransaction.mockResolvedValue(null);
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'tx_not_found' });
   });
 
-  it('returns false when RPC call throws', async () => {
+  it('rejects with rpc_error when RPC call throws', async () => {
     mocks.getParsedTransaction.mockRejectedValue(new Error('RPC unavailable'));
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'rpc_error' });
   });
 
-  it('returns false when transfer instruction is missing', async () => {
+  it('rejects with missing_transfer when transfer instruction is missing', async () => {
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ includeTransfer: false }));
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'missing_transfer' });
   });
 
-  it('returns false when memo instruction is missing', async () => {
+  it('rejects with memo_mismatch when memo instruction is missing', async () => {
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ includeMemo: false }));
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'memo_mismatch' });
   });
 
-  it('returns false when memo does not match nonce|requestHash', async () => {
+  it('rejects with memo_mismatch when memo does not match nonce|requestHash', async () => {
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ memo: 'wrong-nonce|wrong-hash' }));
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'memo_mismatch' });
   });
 
-  it('returns false when memo nonce is correct but requestHash is wrong', async () => {
+  it('rejects with memo_mismatch when memo nonce is correct but requestHash is wrong', async () => {
     mocks.getParsedTransaction.mockResolvedValue(
       makeParsedTx({ memo: `${TEST_NONCE}|${'b'.repeat(64)}` }),
     );
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'memo_mismatch' });
   });
 
-  it('returns false when transfer destination does not match recipient ATA', async () => {
+  it('rejects with wrong_recipient when transfer destination does not match recipient ATA', async () => {
     const wrongATA = getAssociatedTokenAddressSync(
       USDC_DEVNET_MINT,
       Keypair.fromSeed(new Uint8Array(32).fill(9)).publicKey,
@@ -186,56 +197,56 @@ describe('SolanaUSDCVerifier', () => {
       makeParsedTx({ destination: wrongATA.toBase58() }),
     );
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'wrong_recipient' });
   });
 
-  it('returns false when mint does not match USDC devnet mint', async () => {
+  it('rejects with wrong_asset when mint does not match USDC devnet mint', async () => {
     mocks.getParsedTransaction.mockResolvedValue(
       makeParsedTx({ mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' }), // USDC mainnet
     );
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'wrong_asset' });
   });
 
-  it('returns false when transfer amount is below required', async () => {
+  it('rejects with amount_too_low when transfer amount is below required', async () => {
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ amount: '999' })); // 1 less than 1000
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'amount_too_low' });
   });
 
-  it('returns true when transfer amount exactly matches', async () => {
+  it('accepts when transfer amount exactly matches', async () => {
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ amount: '1000' }));
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(true);
+    expect(result.ok).toBe(true);
   });
 
-  it('returns false when blockTime is null', async () => {
+  it('rejects with tx_not_found when blockTime is null', async () => {
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ blockTime: null }));
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'tx_not_found' });
   });
 
-  it('returns false when transaction is older than MAX_AGE_SECONDS (600s)', async () => {
+  it('rejects with stale_transaction when transaction is older than MAX_AGE_SECONDS (600s)', async () => {
     const staleBlockTime = Math.floor(Date.now() / 1000) - 601;
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ blockTime: staleBlockTime }));
     const result = await verifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'stale_transaction' });
   });
 
-  it('returns false when blockTime is after expiresAt', async () => {
+  it('rejects with expired when blockTime is after expiresAt', async () => {
     // blockTime 10 minutes after expiresAt
     const expiresAt = new Date(Date.now() + 300_000);
     const futureBlockTime = Math.floor(expiresAt.getTime() / 1000) + 600;
     const header = makeProofHeader({ expiresAt: expiresAt.toISOString() });
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ blockTime: futureBlockTime }));
     const result = await verifier.verify(header, TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(false);
+    expect(result).toMatchObject({ ok: false, reason: 'expired' });
   });
 
   it('respects amountTolerance option', async () => {
     const tolerantVerifier = new SolanaUSDCVerifier({ amountTolerance: 5n });
     mocks.getParsedTransaction.mockResolvedValue(makeParsedTx({ amount: '996' })); // 4 less than 1000, within tolerance of 5
     const result = await tolerantVerifier.verify(makeProofHeader(), TEST_REQUEST_HASH, TEST_PRICING);
-    expect(result).toBe(true);
+    expect(result.ok).toBe(true);
   });
 });
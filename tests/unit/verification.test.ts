@@ -0,0 +1,142 @@
+/**
+ * Unit tests — structured verification results
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import {
+  createX402Middleware,
+  pricedRoute,
+  toResultVerifier,
+  toVerificationResult,
+  MemoryReceiptStore,
+} from 'x402-tool-server';
+import type { BooleanVerifierInterface, VerifierInterface, X402ErrorEvent } from 'x402-tool-server';
+import { MockVerifier, MockPayer } from 'x402-adapters';
+
+const SECRET = 'verification-secret';
+const PRICING = { price: '0.002', asset: 'USDC', network: 'mock', recipient: '0xVERIFY' };
+
+function encode(proof: object): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+async function buildServer(
+  verifier: VerifierInterface | BooleanVerifierInterface,
+  receiptStore?: MemoryReceiptStore,
+) {
+  const fastify = Fastify({ logger: false });
+  fastify.register(createX402Middleware({ verifier, receiptStore }));
+  fastify.route(pricedRoute({ method: 'GET', url: '/v', pricing: PRICING, handler: async () => ({ ok: true }) }));
+  await fastify.ready();
+  return fastify;
+}
+
+async function payFor(app: FastifyInstance, tamper: object = {}) {
+  const payer = new MockPayer({ secret: SECRET });
+  const { x402 } = (await app.inject({ method: 'GET', url: '/v' })).json();
+  const proof = await payer.pay(x402, { url: '/v', method: 'GET' });
+  const res = await app.inject({
+    method: 'GET',
+    url: '/v',
+    headers: { 'x-payment-proof': encode({ ...proof, ...tamper }) },
+  });
+  return { res, nonce: x402.nonce as string };
+}
+
+describe('toVerificationResult / toResultVerifier', () => {
+  it('maps booleans to results', () => {
+    expect(toVerificationResult(true)).toEqual({ ok: true });
+    expect(toVerificationResult(false)).toEqual({ ok: false, reason: 'unspecified' });
+    expect(toVerificationResult({ ok: false, reason: 'expired' })).toEqual({ ok: false, reason: 'expired' });
+  });
+
+  it('wraps boolean verifiers and passes result verifiers through', async () => {
+    const legacy = toResultVerifier({ verify: async () => false });
+    expect(await legacy.verify('', '', PRICING)).toEqual({ ok: false, reason: 'unspecified' });
+
+    const modern = toResultVerifier({ verify: async () => ({ ok: true, txRef: 'tx1' }) });
+    expect(await modern.verify('', '', PRICING)).toEqual({ ok: true, txRef: 'tx1' });
+  });
+});
+
+describe('MockVerifier results', () => {
+  const verifier = new MockVerifier({ secret: SECRET });
+
+  it('reports hash_mismatch, bad_signature and malformed_proof', async () => {
+    const payer = new MockPayer({ secret: SECRET });
+    const challenge = {
+      version: 1, scheme: 'exact', price: '0.002', asset: 'USDC', network: 'mock', recipient: '0xVERIFY',
+      nonce: 'n', requestHash: 'a'.repeat(64), expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    };
+    const proof = await payer.pay(challenge, { url: '/v', method: 'GET' });
+
+    expect(await verifier.verify(encode(proof), 'b'.repeat(64), PRICING)).toMatchObject({ reason: 'hash_mismatch' });
+    expect(await verifier.verify(encode({ ...proof, signature: 'x' }), 'a'.repeat(64), PRICING))
+      .toMatchObject({ ok: false, reason: 'bad_signature' });
+    expect(await verifier.verify('%%%', 'a'.repeat(64), PRICING)).toMatchObject({ reason: 'malformed_proof' });
+    expect(await verifier.verify(encode(proof), 'a'.repeat(64), PRICING))
+      .toEqual({ ok: true, payer: proof.payer, settledAmount: '0.002' });
+  });
+});
+
+describe('Middleware surfaces verification results', () => {
+  const apps: FastifyInstance[] = [];
+
+  afterEach(async () => {
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  it('puts the failure reason in the 402 body and the error event', async () => {
+    const app = await buildServer(new MockVerifier({ secret: SECRET }));
+    apps.push(app);
+    const errors: X402ErrorEvent[] = [];
+    app.x402Events.on('x402:error', (e) => errors.push(e));
+
+    const { res } = await payFor(app, { signature: 'forged' });
+    expect(res.statusCode).toBe(402);
+    expect(res.json()).toMatchObject({ error: 'Invalid or expired payment proof', reason: 'bad_signature' });
+    expect(errors[0]).toMatchObject({ reason: 'invalid_proof', verification: { ok: false, reason: 'bad_signature' } });
+  });
+
+  it('includes the verifier message as detail', async () => {
+    const app = await buildServer({
+      verify: async () => ({ ok: false, reason: 'tx_not_found', message: 'Transaction abc not found' }),
+    });
+    apps.push(app);
+
+    const { res } = await payFor(app);
+    expect(res.json()).toMatchObject({ reason: 'tx_not_found', detail: 'Transaction abc not found' });
+  });
+
+  it('records payer, settled amount and tx reference in the receipt', async () => {
+    const receiptStore = new MemoryReceiptStore();
+    const app = await buildServer(
+      { verify: async () => ({ ok: true, payer: 'chain-payer', settledAmount: '0.0025', txRef: 'tx-123' }) },
+      receiptStore,
+    );
+    apps.push(app);
+
+    const { res, nonce } = await payFor(app);
+    expect(res.statusCode).toBe(200);
+    expect(await receiptStore.get(nonce)).toMatchObject({
+      payer: 'chain-payer',
+      amount: '0.002',
+      settledAmount: '0.0025',
+      txRef: 'tx-123',
+    });
+    receiptStore.destroy();
+  });
+
+  it('still accepts boolean verifiers', async () => {
+    const app = await buildServer({ verify: async () => true });
+    apps.push(app);
+    expect((await payFor(app)).res.statusCode).toBe(200);
+
+    const rejecting = await buildServer({ verify: async () => false });
+    apps.push(rejecting);
+    const { res } = await payFor(rejecting);
+    expect(res.statusCode).toBe(402);
+    expect(res.json()).toMatchObject({ reason: 'unspecified' });
+  });
+});